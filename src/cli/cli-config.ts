@@ -0,0 +1,172 @@
+/**
+ * CLI配置解析 | CLI configuration resolution
+ * 主命令与守护进程共用：加载分层配置并应用内联参数覆盖
+ * Shared by the main command and the daemon: loads layered config and applies inline overrides
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { ConfigLoader } from '../config/loader.js';
+import type { Config, InputData } from '../config/schema.js';
+
+/**
+ * 主命令的渲染相关选项 | Render related options of the main command
+ */
+export interface StatuslineCliOptions {
+  preset?: string;
+  theme?: string;
+  colors?: boolean;
+  emoji?: boolean;
+  icons?: boolean;
+  forceEmoji?: boolean;
+  forceNerdFont?: boolean;
+  forceText?: boolean;
+  config?: string;
+  debug?: boolean;
+}
+
+/**
+ * 解析后的CLI配置 | Resolved CLI configuration
+ */
+export interface ResolvedCliConfig {
+  config: Config;
+  configBaseDir: string;
+  configLoader: ConfigLoader;
+  projectId: string | null;
+}
+
+/**
+ * 从transcriptPath提取项目ID | Extract project ID from transcriptPath
+ * 例如：/Users/wangnov/.claude/projects/-Users-wangnov-claude-code-statusline-pro/xxx.jsonl
+ * -> -Users-wangnov-claude-code-statusline-pro
+ */
+export function extractProjectIdFromTranscriptPath(transcriptPath: string | null): string | null {
+  if (!transcriptPath) return null;
+
+  try {
+    // 匹配 /projects/ 后面和下一个 / 之间的内容
+    const match = transcriptPath.match(/\/projects\/([^/]+)\//);
+    return match ? match[1] || null : null;
+  } catch (error) {
+    console.warn('Failed to extract project ID from transcriptPath:', error);
+    return null;
+  }
+}
+
+/**
+ * 加载配置并应用内联参数 | Load config and apply inline options
+ * 内联参数具有最高优先级 | Inline options have the highest priority
+ */
+export async function resolveCliConfig(
+  inputData: InputData,
+  preset: string | undefined,
+  options: StatuslineCliOptions
+): Promise<ResolvedCliConfig> {
+  // 从transcriptPath提取项目ID
+  const projectId = extractProjectIdFromTranscriptPath(inputData.transcriptPath);
+
+  if (options.debug && projectId) {
+    console.error(`Extracted project ID: ${projectId}`);
+  }
+
+  const configLoader = new ConfigLoader();
+  let config = await configLoader.load(options.config);
+
+  // 如果有projectId，重新加载配置
+  if (projectId) {
+    if (options.debug) {
+      console.error(`Reloading config with projectId: ${projectId}`);
+    }
+    config = await configLoader.loadConfig({
+      customPath: options.config,
+      projectId,
+    });
+  }
+
+  // 内联参数覆盖配置
+  const presetValue = preset || options.preset;
+  if (presetValue) {
+    config = { ...config, preset: presetValue };
+  }
+
+  if (options.theme) {
+    config = { ...config, theme: options.theme };
+  }
+
+  // 内联参数覆盖样式和终端配置
+  if (
+    options.colors === false ||
+    options.emoji === false ||
+    options.icons === false ||
+    options.forceEmoji ||
+    options.forceNerdFont ||
+    options.forceText
+  ) {
+    config.style = {
+      separator: config.style?.separator || ' | ',
+      enable_colors: options.colors === false ? false : config.style?.enable_colors || 'auto',
+      enable_emoji:
+        options.emoji === false
+          ? false
+          : options.forceEmoji
+            ? true
+            : options.forceText
+              ? false
+              : config.style?.enable_emoji || 'auto',
+      enable_nerd_font:
+        options.icons === false
+          ? false
+          : options.forceNerdFont
+            ? true
+            : options.forceText
+              ? false
+              : config.style?.enable_nerd_font || 'auto',
+      separator_color: config.style?.separator_color || 'white',
+      background: config.style?.background || 'auto',
+      separator_before: config.style?.separator_before || ' ',
+      separator_after: config.style?.separator_after || ' ',
+      compact_mode: config.style?.compact_mode || false,
+      max_width: config.style?.max_width || 0,
+    };
+
+    // 更新terminal配置
+    if (!config.terminal) {
+      config.terminal = {
+        force_nerd_font: false,
+        force_emoji: false,
+        force_text: false,
+      };
+    }
+
+    // 处理强制启用选项
+    if (options.forceEmoji) {
+      config.terminal.force_emoji = true;
+    }
+    if (options.forceNerdFont) {
+      config.terminal.force_nerd_font = true;
+    }
+    if (options.forceText) {
+      config.terminal.force_text = true;
+    }
+
+    // 处理禁用选项
+    if (options.emoji === false) {
+      config.terminal.force_emoji = false;
+    }
+    if (options.icons === false) {
+      config.terminal.force_nerd_font = false;
+    }
+  }
+
+  const configSource = configLoader.getConfigSource();
+  const configBaseDir = path.dirname(configSource.path || '');
+
+  if (process.env.DEBUG_WIDGET) {
+    fs.appendFileSync('/tmp/debug.log', `[CLI] Config source: ${JSON.stringify(configSource)}\n`);
+    fs.appendFileSync('/tmp/debug.log', `[CLI] Config base dir: ${configBaseDir}\n`);
+    console.error('[CLI] Config source:', configSource);
+    console.error('[CLI] Config base dir:', configBaseDir);
+  }
+
+  return { config, configBaseDir, configLoader, projectId };
+}
@@ -0,0 +1,602 @@
+/**
+ * 守护进程模式 | Daemon mode
+ *
+ * Claude Code每次刷新都会启动新进程，导致Git缓存、transcript缓存、API缓存和300ms节流全部失效。
+ * 守护进程通过本地Unix socket常驻提供渲染服务，主命令作为瘦客户端转发stdin数据，
+ * 守护进程未运行时主命令回退到进程内生成。
+ *
+ * Claude Code spawns a fresh process on every refresh, throwing away the Git cache, transcript cache,
+ * API cache and the 300ms throttle. The daemon keeps them warm by serving renders over a local Unix
+ * socket; the main command acts as a thin client forwarding stdin data and falls back to in-process
+ * generation when no daemon is running.
+ *
+ * 协议 | Protocol: 每个连接发送一行JSON请求，返回一行JSON响应 | one JSON request line per connection, one JSON response line back
+ */
+
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { PluginLoader } from '../components/plugin-loader.js';
+import { ApiWidget } from '../components/widgets/api-widget.js';
+import { ConfigLoader } from '../config/loader.js';
+import type { InputData, PluginsConfig } from '../config/schema.js';
+import { StatuslineGenerator } from '../core/generator.js';
+import { MAX_EXEC_TIMEOUT } from '../git/secure-executor.js';
+import {
+  extractProjectIdFromTranscriptPath,
+  resolveCliConfig,
+  type StatuslineCliOptions,
+} from './cli-config.js';
+
+/**
+ * 客户端默认等待时间(ms) | Default client wait time in milliseconds
+ */
+const DEFAULT_CLIENT_TIMEOUT = 2000;
+
+/**
+ * 默认最多保留的生成器数量(按会话) | Default max number of cached generators (per session)
+ */
+const DEFAULT_MAX_GENERATORS = 32;
+
+/**
+ * 单个请求的最大字节数 | Max bytes of a single request
+ */
+const MAX_REQUEST_SIZE = 1024 * 1024;
+
+/**
+ * 守护进程单次渲染的最长时间(ms)，需小于客户端等待时间 | Max time of a single daemon render in milliseconds, below the client wait time
+ */
+const DEFAULT_RENDER_TIMEOUT = 1500;
+
+/**
+ * 超时渲染结束前的最长等待(ms)，子进程最迟在MAX_EXEC_TIMEOUT后被终止
+ * Max wait in milliseconds for a timed out render to settle; child processes are killed after MAX_EXEC_TIMEOUT
+ */
+const DEFAULT_ABANDON_TIMEOUT = MAX_EXEC_TIMEOUT + 5000;
+
+/**
+ * 守护进程错误 | Daemon error
+ */
+export class DaemonError extends Error {
+  constructor(
+    message: string,
+    public readonly socketPath: string
+  ) {
+    super(`${message} (socket: ${socketPath})`);
+    this.name = 'DaemonError';
+  }
+}
+
+/**
+ * 守护进程请求 | Daemon request
+ */
+export type DaemonRequest =
+  | {
+      type: 'render';
+      inputData: InputData;
+      preset?: string | undefined;
+      options: StatuslineCliOptions;
+      cwd: string;
+      env: Record<string, string>;
+    }
+  | { type: 'ping' }
+  | { type: 'shutdown' };
+
+/**
+ * 守护进程响应 | Daemon response
+ */
+export interface DaemonResponse {
+  ok: boolean;
+  output?: string;
+  error?: string;
+  pid?: number;
+  uptime?: number;
+  generators?: number;
+}
+
+/**
+ * 守护进程选项 | Daemon options
+ */
+export interface DaemonOptions {
+  socketPath?: string;
+  maxGenerators?: number;
+  /** 单次渲染超时(ms)，超时只让该请求失败 | Per-render timeout in milliseconds; only the timed out request fails */
+  renderTimeout?: number;
+  /** 超时渲染仍未结束时停止守护进程的等待时间(ms) | Wait in milliseconds before the daemon stops if a timed out render never settles */
+  abandonTimeout?: number;
+}
+
+/**
+ * 缓存的生成器条目 | Cached generator entry
+ */
+interface GeneratorEntry {
+  generator: StatuslineGenerator;
+  fingerprint: string;
+  plugins: PluginsConfig;
+}
+
+/**
+ * 获取默认socket路径 | Get default socket path
+ */
+export function getDefaultSocketPath(): string {
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\claude-code-statusline-pro-${os.userInfo().username}`;
+  }
+  return path.join(os.homedir(), '.claude', 'statusline-pro', 'daemon.sock');
+}
+
+/**
+ * 收集需要转发的环境变量 | Collect environment variables to forward
+ * 转发客户端的完整环境，when条件、命令和文件小组件以及色深检测(KITTY_WINDOW_ID、VTE_VERSION等)都依赖客户端的值
+ * The client's full environment is forwarded; when conditions, command and file widgets and color depth
+ * detection (KITTY_WINDOW_ID, VTE_VERSION, ...) all depend on its values
+ */
+function collectForwardedEnv(): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  }
+  return env;
+}
+
+/**
+ * 将process.env替换为给定环境 | Replace process.env with the given environment
+ */
+function replaceEnvironment(env: Record<string, string | undefined>): void {
+  for (const key of Object.keys(process.env)) {
+    if (!Object.hasOwn(env, key)) {
+      delete process.env[key];
+    }
+  }
+  for (const [key, value] of Object.entries(env)) {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = value;
+    }
+  }
+}
+
+/**
+ * 计算配置文件指纹 | Compute config file fingerprint
+ * 基于配置文件、插件文件及components/*.toml的修改时间 | Based on mtimes of config files, plugin files and components/*.toml
+ */
+function computeConfigFingerprint(files: string[], componentDirs: string[]): string {
+  const entries: string[] = [];
+
+  const statFile = (file: string) => {
+    try {
+      entries.push(`${file}:${fs.statSync(file).mtimeMs}`);
+    } catch {
+      entries.push(`${file}:-`);
+    }
+  };
+
+  for (const file of files) {
+    statFile(file);
+  }
+
+  for (const dir of componentDirs) {
+    try {
+      for (const name of fs.readdirSync(dir).sort()) {
+        if (name.endsWith('.toml')) {
+          statFile(path.join(dir, name));
+        }
+      }
+    } catch {
+      entries.push(`${dir}:-`);
+    }
+  }
+
+  return entries.join('|');
+}
+
+/**
+ * 状态行守护进程 | Statusline daemon
+ */
+export class StatuslineDaemon {
+  private readonly socketPath: string;
+  private readonly maxGenerators: number;
+  private readonly renderTimeout: number;
+  private readonly abandonTimeout: number;
+  private server: net.Server | null = null;
+  private generators = new Map<string, GeneratorEntry>();
+  private queue: Promise<void> = Promise.resolve();
+  private abandoned: Promise<void> | null = null;
+  private startedAt = Date.now();
+  private stopHandlers: Array<() => void> = [];
+
+  constructor(options: DaemonOptions = {}) {
+    this.socketPath = options.socketPath || getDefaultSocketPath();
+    this.maxGenerators = options.maxGenerators ?? DEFAULT_MAX_GENERATORS;
+    this.renderTimeout = options.renderTimeout ?? DEFAULT_RENDER_TIMEOUT;
+    this.abandonTimeout = options.abandonTimeout ?? DEFAULT_ABANDON_TIMEOUT;
+  }
+
+  /**
+   * 启动守护进程 | Start the daemon
+   */
+  async start(): Promise<void> {
+    const existing = await sendDaemonRequest({ type: 'ping' }, { socketPath: this.socketPath });
+    if (existing?.ok) {
+      throw new DaemonError(`Daemon already running (pid ${existing.pid})`, this.socketPath);
+    }
+
+    // 清理残留的socket文件 | Remove stale socket file
+    if (process.platform !== 'win32' && fs.existsSync(this.socketPath)) {
+      fs.unlinkSync(this.socketPath);
+    }
+    if (process.platform !== 'win32') {
+      fs.mkdirSync(path.dirname(this.socketPath), { recursive: true });
+    }
+
+    this.server = net.createServer((socket) => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.socketPath, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    // 仅当前用户可访问 | Accessible to the current user only
+    if (process.platform !== 'win32') {
+      fs.chmodSync(this.socketPath, 0o600);
+    }
+
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * 停止守护进程 | Stop the daemon
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    this.generators.clear();
+
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    if (process.platform !== 'win32' && fs.existsSync(this.socketPath)) {
+      fs.unlinkSync(this.socketPath);
+    }
+
+    for (const handler of this.stopHandlers) {
+      handler();
+    }
+  }
+
+  /**
+   * 注册停止回调 | Register stop callback
+   */
+  onStop(handler: () => void): void {
+    this.stopHandlers.push(handler);
+  }
+
+  /**
+   * 获取socket路径 | Get socket path
+   */
+  getSocketPath(): string {
+    return this.socketPath;
+  }
+
+  /**
+   * 处理客户端连接 | Handle client connection
+   */
+  private handleConnection(socket: net.Socket): void {
+    let buffer = '';
+    socket.setEncoding('utf8');
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      if (buffer.length > MAX_REQUEST_SIZE) {
+        this.reply(socket, { ok: false, error: 'Request too large' });
+        return;
+      }
+
+      const newlineIndex = buffer.indexOf('\n');
+      if (newlineIndex === -1) return;
+
+      const line = buffer.slice(0, newlineIndex);
+      buffer = '';
+
+      let request: DaemonRequest;
+      try {
+        request = JSON.parse(line) as DaemonRequest;
+      } catch {
+        this.reply(socket, { ok: false, error: 'Invalid JSON request' });
+        return;
+      }
+
+      // 请求串行处理：渲染期间会临时切换cwd和环境变量 | Requests are serialized: rendering temporarily switches cwd and env
+      this.queue = this.queue
+        .then(() =>
+          // 排队期间客户端已超时断开或守护进程已停止则跳过 | Skip requests whose client gave up or whose daemon stopped while queued
+          socket.destroyed || !this.server ? { ok: false } : this.handleRequest(request)
+        )
+        .then((response) => this.reply(socket, response))
+        .catch((error) =>
+          this.reply(socket, {
+            ok: false,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        )
+        // 超时的渲染仍占用cwd和环境变量，结束前不处理后续请求
+        // A timed out render still owns cwd and env; later requests wait until it settles
+        .then(() => this.abandoned ?? undefined);
+    });
+
+    socket.on('error', () => {
+      // 客户端提前断开时忽略 | Ignore clients disconnecting early
+    });
+  }
+
+  /**
+   * 发送响应并关闭连接 | Send response and close the connection
+   */
+  private reply(socket: net.Socket, response: DaemonResponse): void {
+    if (socket.destroyed) return;
+    socket.end(`${JSON.stringify(response)}\n`);
+  }
+
+  /**
+   * 处理请求 | Handle request
+   */
+  private async handleRequest(request: DaemonRequest): Promise<DaemonResponse> {
+    switch (request.type) {
+      case 'ping':
+        return {
+          ok: true,
+          pid: process.pid,
+          uptime: Date.now() - this.startedAt,
+          generators: this.generators.size,
+        };
+      case 'shutdown':
+        setImmediate(() => {
+          this.stop().catch(() => {});
+        });
+        return { ok: true, pid: process.pid };
+      case 'render':
+        return { ok: true, output: await this.render(request) };
+      default:
+        return { ok: false, error: 'Unknown request type' };
+    }
+  }
+
+  /**
+   * 渲染状态行 | Render statusline
+   * 超过renderTimeout时当前请求立即失败，但渲染结束前队列保持阻塞
+   * Past renderTimeout the current request fails at once, but the queue stays blocked until the render settles
+   */
+  private async render(request: Extract<DaemonRequest, { type: 'render' }>): Promise<string> {
+    const { inputData, preset, options } = request;
+    const projectId = extractProjectIdFromTranscriptPath(inputData.transcriptPath);
+
+    // 按会话区分生成器，避免节流结果串到其他会话 | One generator per session so throttled results never leak across sessions
+    const key = JSON.stringify({
+      preset,
+      options,
+      projectId,
+      session: inputData.sessionId ?? inputData.workspace?.current_dir ?? request.cwd,
+    });
+
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        reject(new DaemonError(`Render timed out after ${this.renderTimeout}ms`, this.socketPath));
+      }, this.renderTimeout);
+    });
+    // 客户端的cwd和环境在渲染结束后才恢复 | The client's cwd and env are restored only once the render settles
+    const rendering = this.withClientEnvironment(request, () =>
+      this.renderWithGenerator(key, request, projectId)
+    );
+
+    try {
+      return await Promise.race([rendering, timeout]);
+    } catch (error) {
+      // 丢弃失败或超时的生成器，避免与后续请求共享 | Drop the failed or timed out generator so later requests do not share it
+      this.generators.delete(key);
+      if (timedOut) {
+        this.abandon(rendering);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * 等待超时的渲染结束 | Wait for a timed out render to settle
+   * 超过abandonTimeout仍未结束则停止守护进程，客户端随后回退到进程内生成
+   * If it has not settled after abandonTimeout the daemon stops and clients fall back to in-process generation
+   */
+  private abandon(rendering: Promise<unknown>): void {
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        console.error(
+          `[Daemon] Render still running after ${this.abandonTimeout}ms, stopping the daemon`
+        );
+        this.stop().catch(() => {});
+        resolve();
+      }, this.abandonTimeout);
+    });
+
+    this.abandoned = Promise.race([
+      rendering.then(
+        () => {},
+        () => {}
+      ),
+      deadline,
+    ]).finally(() => {
+      clearTimeout(timer);
+      this.abandoned = null;
+    });
+  }
+
+  /**
+   * 获取或创建会话的生成器并渲染 | Get or create the session's generator and render
+   */
+  private async renderWithGenerator(
+    key: string,
+    request: Extract<DaemonRequest, { type: 'render' }>,
+    projectId: string | null
+  ): Promise<string> {
+    const { inputData, preset, options } = request;
+    let entry = this.generators.get(key);
+
+    if (!entry || entry.fingerprint !== this.fingerprintFor(options, projectId, entry.plugins)) {
+      if (entry) {
+        // 配置已变更，丢弃所有相关缓存 | Config changed, drop all related caches
+        ApiWidget.clearCache();
+      }
+
+      const resolved = await resolveCliConfig(inputData, preset, options);
+      const generator = new StatuslineGenerator(resolved.config, {
+        configBaseDir: resolved.configBaseDir,
+      });
+      const { plugins } = resolved.config;
+      entry = { generator, plugins, fingerprint: this.fingerprintFor(options, projectId, plugins) };
+    }
+
+    // 维护LRU顺序 | Maintain LRU order
+    this.generators.delete(key);
+    this.generators.set(key, entry);
+    while (this.generators.size > this.maxGenerators) {
+      const oldest = this.generators.keys().next().value;
+      if (oldest === undefined) break;
+      this.generators.delete(oldest);
+    }
+
+    return entry.generator.generate(inputData);
+  }
+
+  /**
+   * 计算请求对应的配置指纹 | Compute config fingerprint for a request
+   * 插件文件变更后需新的生成器重新导入 | Changed plugin files need a new generator to import them again
+   */
+  private fingerprintFor(
+    options: StatuslineCliOptions,
+    projectId: string | null,
+    plugins: PluginsConfig
+  ): string {
+    const files = new ConfigLoader().getConfigFilePaths({
+      customPath: options.config,
+      projectId: projectId ?? undefined,
+    });
+    const componentDirs = files.map((file) => path.join(path.dirname(file), 'components'));
+    const pluginFiles = new PluginLoader(plugins).discoverPluginFiles();
+    return computeConfigFingerprint([...files, ...pluginFiles], componentDirs);
+  }
+
+  /**
+   * 在客户端的cwd和环境中执行 | Run within the client's cwd and environment
+   */
+  private async withClientEnvironment<T>(
+    request: Extract<DaemonRequest, { type: 'render' }>,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const previousCwd = process.cwd();
+    const previousEnv = { ...process.env };
+    replaceEnvironment(request.env);
+
+    try {
+      if (request.cwd && fs.existsSync(request.cwd)) {
+        process.chdir(request.cwd);
+      }
+      return await fn();
+    } finally {
+      process.chdir(previousCwd);
+      replaceEnvironment(previousEnv);
+    }
+  }
+}
+
+/**
+ * 发送请求到守护进程 | Send a request to the daemon
+ * 守护进程不可用或超时时返回null | Returns null when the daemon is unavailable or times out
+ */
+export function sendDaemonRequest(
+  request: DaemonRequest,
+  options: { socketPath?: string | undefined; timeout?: number | undefined } = {}
+): Promise<DaemonResponse | null> {
+  const socketPath = options.socketPath || getDefaultSocketPath();
+  const timeout = options.timeout ?? DEFAULT_CLIENT_TIMEOUT;
+
+  // socket文件不存在时无需尝试连接 | Skip connecting when the socket file does not exist
+  if (process.platform !== 'win32' && !fs.existsSync(socketPath)) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    let settled = false;
+    let buffer = '';
+
+    const finish = (response: DaemonResponse | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket.destroy();
+      resolve(response);
+    };
+
+    const socket = net.createConnection(socketPath, () => {
+      socket.write(`${JSON.stringify(request)}\n`);
+    });
+    const timer = setTimeout(() => finish(null), timeout);
+
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+    });
+    socket.on('end', () => {
+      try {
+        finish(JSON.parse(buffer.trim()) as DaemonResponse);
+      } catch {
+        finish(null);
+      }
+    });
+    socket.on('error', () => finish(null));
+  });
+}
+
+/**
+ * 通过守护进程渲染状态行 | Render statusline via the daemon
+ * 返回null表示需要回退到进程内生成 | Returns null when the caller should fall back to in-process generation
+ */
+export async function renderViaDaemon(
+  inputData: InputData,
+  preset: string | undefined,
+  options: StatuslineCliOptions,
+  socketPath?: string
+): Promise<string | null> {
+  const response = await sendDaemonRequest(
+    {
+      type: 'render',
+      inputData,
+      preset,
+      options: {
+        ...options,
+        // 相对配置路径按客户端cwd解析 | Resolve relative config paths against the client cwd
+        ...(options.config && { config: path.resolve(options.config) }),
+      },
+      cwd: process.cwd(),
+      env: collectForwardedEnv(),
+    },
+    { socketPath }
+  );
+
+  if (!response?.ok || typeof response.output !== 'string') {
+    return null;
+  }
+  return response.output;
+}
@@ -17,11 +17,28 @@ import { ConfigLoader } from '../config/loader.js';
 import type { InputData } from '../config/schema.js';
 import { StatuslineGenerator } from '../core/generator.js';
 import { detect as detectTerminalCapabilities } from '../terminal/detector.js';
+import { listCustomThemes } from '../themes/custom.js';
+import { getCustomThemesDir } from '../themes/paths.js';
 import { projectResolver } from '../utils/project-resolver.js';
+import { loadClaudeEnvVarsSync } from '../utils/settings-loader.js';
+import { resolveCliConfig, type StatuslineCliOptions } from './cli-config.js';
+import {
+  getDefaultSocketPath,
+  renderViaDaemon,
+  StatuslineDaemon,
+  sendDaemonRequest,
+} from './daemon.js';
 import { initializeI18n, t } from './i18n.js';
 import { formatCliMessage } from './message-icons.js';
 import { MockDataGenerator } from './mock-data.js';
-import { loadClaudeEnvVarsSync } from '../utils/settings-loader.js';
+import {
+  formatReport,
+  parseReportChoice,
+  parseSince,
+  REPORT_FORMATS,
+  REPORT_GROUP_BY,
+  ReportOptionError,
+} from './report.js';
 
 // 在最早期加载 Claude settings.json 中的环境变量
 // Load environment variables from Claude settings.json at the very beginning
@@ -70,6 +87,8 @@ program
   .name('claude-code-statusline-pro')
   .description('Enhanced statusline for Claude Code with live preview and theme management')
   .version(getVersion())
+  // 子命令选项与主命令同名时（如 --theme、--socket）归子命令所有 | Subcommand options win over same-named main options (e.g. --theme, --socket)
+  .enablePositionalOptions()
   .argument('[preset]', 'preset string like PMBT (Project, Model, Branch, Tokens)')
   .option('-p, --preset <preset>', 'component preset override')
   .option('-t, --theme <theme>', 'theme name (classic, powerline, capsule)')
@@ -85,118 +104,35 @@ program
     '-m, --mock <scenario>',
     'use mock data scenario (dev, critical, error, thinking, complete)'
   )
+  .option('--no-daemon', 'render in-process without contacting a running daemon')
+  .option('--socket <path>', 'daemon socket path')
   .action(async (preset, options) => {
     await initializeApp();
     try {
       // 从stdin读取输入数据以获取projectId
       const inputData = await readStdinData();
 
-      // 从transcriptPath提取项目ID
-      const projectId = extractProjectIdFromTranscriptPath(inputData.transcriptPath);
-
-      if (options.debug && projectId) {
-        console.error(`Extracted project ID: ${projectId}`);
-      }
-
-      // 加载配置，内联参数具有最高优先级
-      const configLoader = new ConfigLoader();
-      let config = await configLoader.load(options.config);
-
-      // 如果有projectId，重新加载配置
-      if (projectId) {
-        if (options.debug) {
-          console.error(`Reloading config with projectId: ${projectId}`);
-        }
-        config = await configLoader.loadConfig({
-          customPath: options.config,
-          projectId,
-        });
-      }
-
-      // 内联参数覆盖配置
-      if (preset || options.preset) {
-        const presetValue = preset || options.preset;
-        config = { ...config, preset: presetValue };
-      }
-
-      if (options.theme) {
-        config = { ...config, theme: options.theme };
-      }
-
-      // 内联参数覆盖样式和终端配置
-      if (
-        options.colors === false ||
-        options.emoji === false ||
-        options.icons === false ||
-        options.forceEmoji ||
-        options.forceNerdFont ||
-        options.forceText
-      ) {
-        config.style = {
-          separator: config.style?.separator || ' | ',
-          enable_colors: options.colors === false ? false : config.style?.enable_colors || 'auto',
-          enable_emoji:
-            options.emoji === false
-              ? false
-              : options.forceEmoji
-                ? true
-                : options.forceText
-                  ? false
-                  : config.style?.enable_emoji || 'auto',
-          enable_nerd_font:
-            options.icons === false
-              ? false
-              : options.forceNerdFont
-                ? true
-                : options.forceText
-                  ? false
-                  : config.style?.enable_nerd_font || 'auto',
-          separator_color: config.style?.separator_color || 'white',
-          separator_before: config.style?.separator_before || ' ',
-          separator_after: config.style?.separator_after || ' ',
-          compact_mode: config.style?.compact_mode || false,
-          max_width: config.style?.max_width || 0,
-        };
-
-        // 更新terminal配置
-        if (!config.terminal) {
-          config.terminal = {
-            force_nerd_font: false,
-            force_emoji: false,
-            force_text: false,
-          };
-        }
-
-        // 处理强制启用选项
-        if (options.forceEmoji) {
-          config.terminal.force_emoji = true;
-        }
-        if (options.forceNerdFont) {
-          config.terminal.force_nerd_font = true;
-        }
-        if (options.forceText) {
-          config.terminal.force_text = true;
-        }
-
-        // 处理禁用选项
-        if (options.emoji === false) {
-          config.terminal.force_emoji = false;
-        }
-        if (options.icons === false) {
-          config.terminal.force_nerd_font = false;
+      // 守护进程运行时转发给它渲染，否则回退到进程内生成
+      // Forward to the daemon when it is running, otherwise fall back to in-process generation
+      if (options.daemon !== false && !options.mock && !options.debug) {
+        const output = await renderViaDaemon(
+          inputData,
+          preset,
+          pickRenderOptions(options),
+          options.socket
+        );
+        if (output !== null) {
+          console.log(output);
+          process.exit(0);
+          return;
         }
       }
 
-      const configSource = configLoader.getConfigSource();
-      const configBaseDir = path.dirname(configSource.path || '');
-
-      if (process.env.DEBUG_WIDGET) {
-        const fs = require('fs');
-        fs.appendFileSync('/tmp/debug.log', `[CLI] Config source: ${JSON.stringify(configSource)}\n`);
-        fs.appendFileSync('/tmp/debug.log', `[CLI] Config base dir: ${configBaseDir}\n`);
-        console.error('[CLI] Config source:', configSource);
-        console.error('[CLI] Config base dir:', configBaseDir);
-      }
+      const { config, configBaseDir } = await resolveCliConfig(
+        inputData,
+        preset,
+        pickRenderOptions(options)
+      );
 
       const generator = new StatuslineGenerator(config, {
         configBaseDir,
@@ -386,7 +322,7 @@ program
 program
   .command('theme')
   .description('theme management and selection')
-  .argument('[name]', 'theme name to apply (classic, powerline, capsule)')
+  .argument('[name]', 'theme name to apply (classic, powerline, capsule, or a user theme file)')
   .action(async (name) => {
     try {
       if (name) {
@@ -429,9 +365,12 @@ program
   .description('diagnose environment and configuration')
   .action(async () => {
     try {
-      const { TerminalDetector } = await import('../terminal/detector.js');
+      const { TerminalDetector, detectColorDepth } = await import('../terminal/detector.js');
       const detector = new TerminalDetector();
       const capabilities = detector.detectCapabilities();
+      const colorDepth = detectColorDepth(capabilities.colors);
+      const { detectBackground } = await import('../terminal/background.js');
+      const background = await detectBackground('auto', { queryTerminal: true });
 
       console.log(formatCliMessage('doctor', 'Environment Diagnosis'));
       console.log('========================');
@@ -441,6 +380,8 @@ program
       console.log(
         `Colors: ${capabilities.colors ? formatCliMessage('success', '') : formatCliMessage('error', '')}`
       );
+      console.log(`Color depth: ${colorDepth.depth} (${colorDepth.reason})`);
+      console.log(`Background: ${background.background} (${background.reason})`);
       console.log(
         `Emoji: ${capabilities.emoji ? formatCliMessage('success', '') : formatCliMessage('error', '')}`
       );
@@ -475,21 +416,119 @@ program
   });
 
 /**
- * 从transcriptPath提取项目ID | Extract project ID from transcriptPath
- * 例如：/Users/wangnov/.claude/projects/-Users-wangnov-claude-code-statusline-pro/xxx.jsonl
- * -> -Users-wangnov-claude-code-statusline-pro
+ * 守护进程子命令 - 常驻进程保持缓存 | Daemon subcommand - long-running process keeping caches warm
  */
-function extractProjectIdFromTranscriptPath(transcriptPath: string | null): string | null {
-  if (!transcriptPath) return null;
+program
+  .command('daemon')
+  .description('run a local render server so caches stay warm between statusline refreshes')
+  .option('--socket <path>', 'socket path', getDefaultSocketPath())
+  .option('--status', 'show whether a daemon is running')
+  .option('--stop', 'stop the running daemon')
+  .action(async (options) => {
+    try {
+      if (options.status || options.stop) {
+        const response = await sendDaemonRequest(
+          { type: options.stop ? 'shutdown' : 'ping' },
+          { socketPath: options.socket }
+        );
+        if (!response?.ok) {
+          console.log(formatCliMessage('info', `Daemon is not running (${options.socket})`));
+          process.exit(options.stop ? 0 : 1);
+          return;
+        }
 
-  try {
-    // 匹配 /projects/ 后面和下一个 / 之间的内容
-    const match = transcriptPath.match(/\/projects\/([^/]+)\//);
-    return match ? match[1] || null : null;
-  } catch (error) {
-    console.warn('Failed to extract project ID from transcriptPath:', error);
-    return null;
+        console.log(
+          formatCliMessage(
+            'success',
+            options.stop
+              ? `Daemon stopped (pid ${response.pid})`
+              : `Daemon running (pid ${response.pid}, uptime ${Math.round((response.uptime || 0) / 1000)}s, ${response.generators} sessions)`
+          )
+        );
+        process.exit(0);
+        return;
+      }
+
+      const daemon = new StatuslineDaemon({ socketPath: options.socket });
+      await daemon.start();
+      daemon.onStop(() => process.exit(0));
+
+      // 进程退出时清理socket文件 | Remove the socket file on exit
+      process.on('exit', () => {
+        if (process.platform !== 'win32' && fs.existsSync(options.socket)) {
+          fs.unlinkSync(options.socket);
+        }
+      });
+      process.on('SIGTERM', () => {
+        daemon.stop().finally(() => process.exit(0));
+      });
+
+      console.log(formatCliMessage('success', `Daemon listening on ${daemon.getSocketPath()}`));
+    } catch (error) {
+      console.error('Daemon error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * 报表子命令 - 历史成本与Token统计 | Report subcommand - historical cost and token analytics
+ */
+program
+  .command('report')
+  .description('report historical cost, tokens and lines changed')
+  .option('--since <when>', 'only include usage since a duration (12h, 7d, 2w, 1mo) or date')
+  .option('--project <name>', 'only include projects whose ID contains this text')
+  .option('--by <dimension>', `group by ${REPORT_GROUP_BY.join('|')}`, 'day')
+  .option('--format <format>', `output format ${REPORT_FORMATS.join('|')}`, 'table')
+  .option('-c, --config <path>', 'custom config file path (for pricing)')
+  .action(async (options) => {
+    try {
+      const by = parseReportChoice(options.by, REPORT_GROUP_BY, 'by');
+      const format = parseReportChoice(options.format, REPORT_FORMATS, 'format');
+      const since = options.since ? parseSince(options.since) : undefined;
+
+      const config = await new ConfigLoader().load(options.config);
+      const { buildUsageReport, storageManager } = await import('../storage/index.js');
+      const report = await buildUsageReport(storageManager, {
+        by,
+        since,
+        project: options.project,
+        ...(config.pricing ? { pricing: config.pricing } : {}),
+      });
+
+      console.log(formatReport(report, format));
+    } catch (error) {
+      if (error instanceof ReportOptionError) {
+        console.error(formatCliMessage('error', error.message));
+        process.exit(2);
+      }
+      console.error('Report failed:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * 提取主命令的渲染选项 | Pick render options of the main command
+ */
+function pickRenderOptions(options: Record<string, unknown>): StatuslineCliOptions {
+  const renderOptions: StatuslineCliOptions = {};
+  for (const key of [
+    'preset',
+    'theme',
+    'config',
+    'colors',
+    'emoji',
+    'icons',
+    'forceEmoji',
+    'forceNerdFont',
+    'forceText',
+    'debug',
+  ] as const) {
+    if (options[key] !== undefined) {
+      (renderOptions as Record<string, unknown>)[key] = options[key];
+    }
   }
+  return renderOptions;
 }
 
 /**
@@ -594,16 +633,16 @@ async function startThemeSelector(): Promise<void> {
       { name: t('editor.themes.items.classic.name'), value: 'classic' },
       { name: t('editor.themes.items.powerline.name'), value: 'powerline' },
       { name: t('editor.themes.items.capsule.name'), value: 'capsule' },
+      // 用户主题目录中的主题 | Themes from the user themes directory
+      ...listCustomThemes().map((name) => ({ name, value: name })),
       { name: t('editor.themes.items.custom.name'), value: 'custom' },
     ],
   });
 
   if (theme === 'custom') {
     console.log(formatCliMessage('info', '自定义主题编辑器已被移除'));
-    console.log(formatCliMessage('info', '请直接编辑 config.toml 文件来自定义主题'));
-    const configLoader = new ConfigLoader();
-    const configSource = configLoader.getConfigSource();
-    console.log(formatCliMessage('folder', `配置文件路径: ${configSource.path || '默认配置'}`));
+    console.log(formatCliMessage('info', '请在主题目录中创建 <name>.toml 文件来自定义主题'));
+    console.log(formatCliMessage('folder', `主题目录: ${getCustomThemesDir()}`));
   } else {
     await applyTheme(theme);
   }
@@ -0,0 +1,184 @@
+/**
+ * 报表输出 | Report output
+ * 解析report子命令参数并将用量报表格式化为table/json/csv
+ * Parses report subcommand options and formats usage reports as table/json/csv
+ */
+
+import type { ReportGroupBy, ReportRow, UsageReport } from '../storage/report.js';
+
+/**
+ * 报表输出格式 | Report output format
+ */
+export type ReportFormat = 'table' | 'json' | 'csv';
+
+/** 支持的分组维度 | Supported grouping dimensions */
+export const REPORT_GROUP_BY: ReportGroupBy[] = ['model', 'project', 'day'];
+
+/** 支持的输出格式 | Supported output formats */
+export const REPORT_FORMATS: ReportFormat[] = ['table', 'json', 'csv'];
+
+/**
+ * 报表参数错误 | Report option error
+ */
+export class ReportOptionError extends Error {
+  constructor(
+    message: string,
+    public readonly option: string
+  ) {
+    super(message);
+    this.name = 'ReportOptionError';
+  }
+}
+
+/** 时长单位(毫秒) | Duration units in milliseconds */
+const DURATION_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * 解析--since参数 | Parse the --since option
+ * 支持相对时长(12h/7d/2w/1mo)和日期(2025-01-31) | Accepts relative durations (12h/7d/2w/1mo) and dates (2025-01-31)
+ */
+export function parseSince(value: string, now: Date = new Date()): Date {
+  const match = value.trim().match(/^(\d+)\s*(h|d|w|mo)$/i);
+  if (match) {
+    const amount = Number(match[1]);
+    const unit = (match[2] || '').toLowerCase();
+    if (unit === 'mo') {
+      const since = new Date(now);
+      since.setMonth(since.getMonth() - amount);
+      return since;
+    }
+    return new Date(now.getTime() - amount * (DURATION_UNITS[unit] || 0));
+  }
+
+  // 纯日期按本地时间零点解析 | Plain dates are parsed as local midnight
+  const dateMatch = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const parsed = dateMatch
+    ? new Date(Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3]))
+    : new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new ReportOptionError(
+      `Invalid --since value "${value}" (use e.g. 12h, 7d, 2w, 1mo or 2025-01-31)`,
+      'since'
+    );
+  }
+  return parsed;
+}
+
+/**
+ * 校验枚举参数 | Validate an enum option
+ */
+export function parseReportChoice<T extends string>(
+  value: string,
+  choices: readonly T[],
+  option: string
+): T {
+  if (!choices.includes(value as T)) {
+    throw new ReportOptionError(
+      `Invalid --${option} value "${value}" (expected ${choices.join(', ')})`,
+      option
+    );
+  }
+  return value as T;
+}
+
+/** 列定义 | Column definitions */
+const COLUMNS: Array<{ header: string; value: (row: ReportRow) => number }> = [
+  { header: 'Cost (USD)', value: (row) => row.costUsd },
+  { header: 'Input', value: (row) => row.inputTokens },
+  { header: 'Output', value: (row) => row.outputTokens },
+  { header: 'Cache Write', value: (row) => row.cacheCreationTokens },
+  { header: 'Cache Read', value: (row) => row.cacheReadTokens },
+  { header: 'Lines +', value: (row) => row.linesAdded },
+  { header: 'Lines -', value: (row) => row.linesRemoved },
+  { header: 'Sessions', value: (row) => row.sessions },
+];
+
+/** 分组列标题 | Group column headers */
+const GROUP_HEADERS: Record<ReportGroupBy, string> = {
+  model: 'Model',
+  project: 'Project',
+  day: 'Day',
+};
+
+/**
+ * 格式化表格单元 | Format a table cell
+ * 估算成本以~标记 | Estimated costs are marked with ~
+ */
+function formatTableCell(row: ReportRow, columnIndex: number): string {
+  const column = COLUMNS[columnIndex];
+  if (!column) return '';
+
+  const value = column.value(row);
+  if (columnIndex === 0) {
+    return `${row.estimated ? '~' : ''}$${value.toFixed(2)}`;
+  }
+  return value.toLocaleString('en-US');
+}
+
+/**
+ * 转义CSV字段 | Escape a CSV field
+ */
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 格式化报表 | Format a report
+ */
+export function formatReport(report: UsageReport, format: ReportFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const groupHeader = GROUP_HEADERS[report.groupBy];
+
+  if (format === 'csv') {
+    const header = [groupHeader, ...COLUMNS.map((column) => column.header), 'Estimated'];
+    const lines = [header.map(escapeCsv).join(',')];
+    for (const row of report.rows) {
+      const values = COLUMNS.map((column, index) =>
+        index === 0 ? column.value(row).toFixed(6) : String(column.value(row))
+      );
+      lines.push([escapeCsv(row.key), ...values, String(row.estimated)].join(','));
+    }
+    return lines.join('\n');
+  }
+
+  if (report.rows.length === 0) {
+    return 'No usage data found.';
+  }
+
+  const header = [groupHeader, ...COLUMNS.map((column) => column.header)];
+  const body = [...report.rows, report.totals].map((row) => [
+    row.key,
+    ...COLUMNS.map((_column, index) => formatTableCell(row, index)),
+  ]);
+  const widths = header.map((cell, index) =>
+    Math.max(cell.length, ...body.map((cells) => (cells[index] || '').length))
+  );
+
+  // 首列左对齐，数值列右对齐 | First column left aligned, numeric columns right aligned
+  const renderLine = (cells: string[]) =>
+    cells
+      .map((cell, index) =>
+        index === 0 ? cell.padEnd(widths[index] || 0) : cell.padStart(widths[index] || 0)
+      )
+      .join('  ');
+  const separator = widths.map((width) => '-'.repeat(width)).join('  ');
+
+  const lines = [renderLine(header), separator];
+  for (const cells of body.slice(0, -1)) {
+    lines.push(renderLine(cells));
+  }
+  lines.push(separator, renderLine(body[body.length - 1] || []));
+
+  if (report.totals.estimated) {
+    lines.push('', '~ cost partly estimated from transcript token usage');
+  }
+
+  return lines.join('\n');
+}
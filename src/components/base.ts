@@ -1,5 +1,15 @@
-import type { ComponentConfig, ExtendedRenderContext, RenderContext } from '../config/schema.js';
+import type {
+  ComponentConfig,
+  ExtendedRenderContext,
+  LayoutForm,
+  RenderContext,
+} from '../config/schema.js';
 import type { TerminalCapabilities } from '../terminal/detector.js';
+import { resolveColorCode } from '../terminal/palettes.js';
+import { truncateToWidth } from '../utils/text-width.js';
+
+/** short形态下文本的最大显示宽度 | Maximum text display width in the short form */
+const SHORT_FORM_TEXT_WIDTH = 16;
 
 /**
  * 组件渲染结果接口 | Component render result interface
@@ -11,6 +21,8 @@ export interface ComponentResult {
   success: boolean;
   /** 错误信息（如果有） | Error message (if any) */
   error?: string;
+  /** 由同一次渲染派生的收缩形态 | Collapsed forms derived from the same render */
+  forms?: Partial<Record<LayoutForm, string>>;
 }
 
 /**
@@ -38,6 +50,8 @@ export abstract class BaseComponent implements Component {
   protected iconColor: string = '';
   protected textColor: string = '';
   protected capabilities: TerminalCapabilities = { colors: false, emoji: false, nerdFont: false };
+  /** 首次组合的图标和文本，即组件主体 | Icon and text of the first combination, i.e. the main part */
+  private primaryParts: { icon: string; text: string } | null = null;
 
   constructor(name: string, config: ComponentConfig) {
     this.name = name;
@@ -57,6 +71,7 @@ export abstract class BaseComponent implements Component {
   ): ComponentResult | Promise<ComponentResult> {
     this.renderContext = context;
     this.capabilities = context.capabilities || { colors: false, emoji: false, nerdFont: false };
+    this.primaryParts = null;
 
     // 初始化颜色配置 | Initialize color configuration
     this.iconColor = this.getColorCode(this.config.icon_color || 'white');
@@ -73,7 +88,7 @@ export abstract class BaseComponent implements Component {
       // 处理异步渲染 | Handle async rendering
       if (content instanceof Promise) {
         return content
-          .then((result) => ({ content: result, success: true }))
+          .then((result) => this.createResult(result))
           .catch((error) => ({
             content: null,
             success: false,
@@ -81,7 +96,7 @@ export abstract class BaseComponent implements Component {
           }));
       }
 
-      return { content, success: true };
+      return this.createResult(content);
     } catch (error) {
       return {
         content: null,
@@ -91,6 +106,27 @@ export abstract class BaseComponent implements Component {
     }
   }
 
+  /**
+   * 创建渲染结果 | Create render result
+   * 收缩形态只保留组件主体，丢弃附加的状态信息，不会再次渲染
+   * Collapsed forms keep only the main part and drop appended details, without rendering again
+   */
+  private createResult(content: string | null): ComponentResult {
+    if (!content || !this.primaryParts) {
+      return { content, success: true };
+    }
+
+    const { icon, text } = this.primaryParts;
+    return {
+      content,
+      success: true,
+      forms: {
+        short: this.formatIconAndText(icon, text, 'short'),
+        icon: this.formatIconAndText(icon, text, 'icon'),
+      },
+    };
+  }
+
   /**
    * 渲染组件内容 - 子类需要实现 | Render component content - subclasses need to implement
    */
@@ -169,10 +205,21 @@ export abstract class BaseComponent implements Component {
    * 组合图标和文本 | Combine icon and text
    */
   protected combineIconAndText(icon: string, text: string): string {
-    if (icon && text) {
-      return `${icon} ${text}`;
+    if (this.primaryParts === null) {
+      this.primaryParts = { icon, text };
+    }
+    return this.formatIconAndText(icon, text, 'full');
+  }
+
+  /**
+   * 按收缩形态组合图标和文本 | Combine icon and text in a collapse form
+   */
+  private formatIconAndText(icon: string, text: string, form: LayoutForm): string {
+    if (form === 'icon' && icon) {
+      return icon;
     }
-    return text || icon;
+    const displayText = form === 'short' ? truncateToWidth(text, SHORT_FORM_TEXT_WIDTH) : text;
+    return icon && displayText ? `${icon} ${displayText}` : displayText || icon;
   }
 
   /**
@@ -180,7 +227,17 @@ export abstract class BaseComponent implements Component {
    */
   protected getColorCode(colorName: string): string {
     if (!this.renderContext?.colors) return '';
-    return this.renderContext.colors[colorName] || '';
+    if (Object.hasOwn(this.renderContext.colors, colorName) || !this.capabilities.colors) {
+      return this.renderContext.colors[colorName] || '';
+    }
+
+    // 十六进制和调色板颜色按色深降级 | Hex and palette colors are degraded to the color depth
+    return resolveColorCode(
+      colorName,
+      'fg',
+      this.capabilities.colorDepth ?? '16',
+      this.renderContext.config.style?.palette
+    );
   }
 
   /**
@@ -6,15 +6,26 @@ import type {
 } from '../config/schema.js';
 import type {
   GitBranchInfo,
+  GitDiffStat,
+  GitFeatureConfig,
   GitInfo,
   GitOperationStatus,
+  GitRepoLayout,
   GitService,
   GitStashInfo,
   GitVersionInfo,
   GitWorkingStatus,
 } from '../git/index.js';
-import { createConfiguredGitService, createLightweightGitService } from '../git/index.js';
+import {
+  createConfiguredGitService,
+  createFsGitReader,
+  createLightweightGitService,
+  detectGitOperation,
+  type FsGitReader,
+  GitOperationType,
+} from '../git/index.js';
 import { safeExecGit } from '../git/secure-executor.js';
+import { getRelativeTime } from '../utils/index.js';
 import { BaseComponent, type ComponentFactory } from './base.js';
 
 /**
@@ -33,6 +44,7 @@ import { BaseComponent, type ComponentFactory } from './base.js';
 export class BranchComponent extends BaseComponent {
   private branchConfig: BranchComponentConfig;
   private gitService?: GitService;
+  private fsReader?: FsGitReader;
   private fallbackToExecSync: boolean = false;
 
   constructor(name: string, config: BranchComponentConfig) {
@@ -52,7 +64,10 @@ export class BranchComponent extends BaseComponent {
     const hasEnhancedFeatures =
       this.branchConfig.status?.show_dirty ||
       this.branchConfig.status?.show_ahead_behind ||
-      this.branchConfig.status?.show_stash_count;
+      this.branchConfig.status?.show_stash_count ||
+      this.branchConfig.status?.show_operation ||
+      this.branchConfig.status?.show_diff_stat ||
+      this.hasVersionFeatures();
 
     // 只有在启用增强功能时才创建GitService | Only create GitService when enhanced features are enabled
     if (!hasEnhancedFeatures) {
@@ -80,7 +95,7 @@ export class BranchComponent extends BaseComponent {
             cacheTypes: {
               branch: true,
               status: true,
-              version: false, // 版本功能已简化移除
+              version: this.hasVersionFeatures(),
               stash: !!this.branchConfig.status?.show_stash_count,
             },
           },
@@ -89,6 +104,7 @@ export class BranchComponent extends BaseComponent {
             fetchStash: !!this.branchConfig.status?.show_stash_count,
             fetchOperation: this.hasOperationFeatures(),
             fetchVersion: this.hasVersionFeatures(),
+            ...this.getDiffStatFeatures(),
           },
         });
       } else {
@@ -106,14 +122,30 @@ export class BranchComponent extends BaseComponent {
    * 检查是否启用了操作相关功能 | Check if operation related features are enabled
    */
   private hasOperationFeatures(): boolean {
-    return false; // 操作功能已简化移除 | Operation features have been simplified and removed
+    return !!this.branchConfig.status?.show_operation;
+  }
+
+  /**
+   * 改动统计相关的服务特性 | Service features related to diff stats
+   */
+  private getDiffStatFeatures(): Pick<
+    GitFeatureConfig,
+    'fetchDiffStat' | 'skipOnLargeRepo' | 'largeRepoThreshold'
+  > {
+    const performance = this.branchConfig.performance;
+    return {
+      fetchDiffStat: !!this.branchConfig.status?.show_diff_stat,
+      skipOnLargeRepo: performance?.skip_on_large_repo !== false,
+      largeRepoThreshold: performance?.large_repo_threshold || 10000,
+    };
   }
 
   /**
    * 检查是否启用了版本相关功能 | Check if version related features are enabled
    */
   private hasVersionFeatures(): boolean {
-    return false; // 版本功能已简化移除 | Version features have been simplified and removed
+    const status = this.branchConfig.status;
+    return !!(status?.show_sha || status?.show_tag || status?.show_commit_age);
   }
 
   protected async renderContent(context: RenderContext): Promise<string | null> {
@@ -154,27 +186,21 @@ export class BranchComponent extends BaseComponent {
     const cwd = inputData.workspace?.current_dir || inputData.cwd || process.cwd();
 
     try {
-      // 导入fs模块 | Import fs module
-      const fs = await import('node:fs');
-      const path = await import('node:path');
-
-      // 检查.git/HEAD文件 | Check .git/HEAD file
-      const gitHeadPath = path.join(cwd, '.git', 'HEAD');
-      const headContent = fs.readFileSync(gitHeadPath, 'utf8').trim();
-
-      let branchName = '';
-      if (headContent.startsWith('ref: refs/heads/')) {
-        // 标准分支引用 | Standard branch reference
-        branchName = headContent.replace('ref: refs/heads/', '');
-      } else if (headContent.match(/^[0-9a-f]{40}$/)) {
-        // 分离HEAD状态，显示commit hash前7位 | Detached HEAD state, show first 7 chars of commit hash
-        branchName = `HEAD@${headContent.substring(0, 7)}`;
-      } else {
-        // 其他情况，尝试解析 | Other cases, try to parse
-        const parts = headContent.split('/');
-        branchName = parts[parts.length - 1] || headContent.substring(0, 8);
+      // 分支名、stash和操作状态直接读取.git文件 | Branch name, stash and operation state are read straight from .git files
+      const reader = this.getFsReader(cwd);
+      const layout = await reader.getRepoLayout();
+      if (!layout.gitDir) {
+        return this.branchConfig.show_when_no_git ? this.formatOutput('no-git') : null;
       }
 
+      const branchInfo = await reader.getBranchInfo();
+      // 分离HEAD状态，显示commit hash前7位 | Detached HEAD state, show first 7 chars of commit hash
+      const branchName = branchInfo.detached
+        ? branchInfo.sha
+          ? `HEAD@${branchInfo.sha.substring(0, 7)}`
+          : ''
+        : branchInfo.current;
+
       if (!branchName) {
         return null;
       }
@@ -188,15 +214,36 @@ export class BranchComponent extends BaseComponent {
 
       // 基础分支名显示 | Basic branch name display
       let result = this.formatOutput(displayBranch);
+      result += this.renderRepoInfo(layout);
 
       // 如果启用了状态功能，添加状态信息 | If status features are enabled, add status info
       if (this.hasStatusFeatures()) {
-        const statusInfo = await this.getSimpleGitStatus(cwd);
+        const statusInfo = await this.getSimpleGitStatus(cwd, reader);
         if (statusInfo) {
           result += statusInfo;
         }
       }
 
+      // 改动统计缓存并在大仓库时跳过 | Diff stats are cached and skipped on large repositories
+      if (this.branchConfig.status?.show_diff_stat) {
+        result += this.renderDiffStat(await reader.getDiffStat());
+      }
+
+      // 从.git状态文件检测进行中的操作 | Detect in-progress operation from .git state files
+      if (this.hasOperationFeatures()) {
+        result += this.renderOperationInfo(detectGitOperation(layout.gitDir));
+      }
+
+      // 版本信息需要执行git命令，通过GitService获取并缓存 | Version info needs git commands, fetched and cached via GitService
+      if (this.hasVersionFeatures() && this.gitService) {
+        try {
+          this.gitService.updateConfig({ cwd });
+          result += this.renderVersionInfo(await this.gitService.getVersionInfo());
+        } catch (_error) {
+          // 静默处理错误 | Silently handle errors
+        }
+      }
+
       return result;
     } catch (_error) {
       // .git/HEAD读取失败，检查是否需要显示no-git | .git/HEAD read failed, check if should show no-git
@@ -207,10 +254,34 @@ export class BranchComponent extends BaseComponent {
     }
   }
 
+  /**
+   * 获取文件系统Git读取器 | Get the filesystem Git reader
+   */
+  private getFsReader(cwd: string): FsGitReader {
+    if (!this.fsReader) {
+      this.fsReader = createFsGitReader({
+        cwd,
+        timeout: this.branchConfig.performance?.git_timeout || 1000,
+        // ahead/behind由getSimpleGitStatus计算 | ahead/behind is computed by getSimpleGitStatus
+        features: {
+          fetchComparison: false,
+          fetchStash: true,
+          fetchOperation: true,
+          fetchVersion: false,
+          ...this.getDiffStatFeatures(),
+        },
+      });
+    } else {
+      this.fsReader.updateConfig({ cwd });
+    }
+    return this.fsReader;
+  }
+
   /**
    * 获取简单的Git状态信息 | Get simple Git status information
+   * 脏状态和ahead/behind执行git命令，stash数量读取reflog | Dirty state and ahead/behind run git; the stash count reads the reflog
    */
-  private async getSimpleGitStatus(cwd: string): Promise<string> {
+  private async getSimpleGitStatus(cwd: string, reader: FsGitReader): Promise<string> {
     const statusParts: string[] = [];
 
     try {
@@ -271,22 +342,10 @@ export class BranchComponent extends BaseComponent {
 
       // 检查stash数量 | Check stash count
       if (this.branchConfig.status?.show_stash_count) {
-        try {
-          const result = await safeExecGit('stash', ['list'], {
-            cwd,
-            timeout: 500,
-            ignoreErrors: true,
-          });
-
-          if (result.success && result.stdout.trim()) {
-            const stashCount = result.stdout.trim().split('\n').length;
-            if (stashCount > 0) {
-              const stashIcon = this.getStatusIcon('stash');
-              statusParts.push(`${stashIcon}${stashCount}`);
-            }
-          }
-        } catch (_error) {
-          // 静默处理错误 | Silently handle errors
+        const { count } = await reader.getStashInfo();
+        if (count > 0) {
+          const stashIcon = this.getStatusIcon('stash');
+          statusParts.push(`${stashIcon}${count}`);
         }
       }
     } catch (_error) {
@@ -369,6 +428,10 @@ export class BranchComponent extends BaseComponent {
     const branchName = this.formatBranchName(gitInfo.branch.current);
     parts.push(branchName);
 
+    // 工作树或子模块标记 | Worktree or submodule marker
+    const repoPart = this.renderRepoInfo(gitInfo.repo);
+    if (repoPart) parts.push(repoPart);
+
     // 2. 工作区状态信息 | Working directory status information
     const statusPart = this.renderStatusInfo(gitInfo.status, gitInfo.stash);
     if (statusPart) parts.push(statusPart);
@@ -377,6 +440,10 @@ export class BranchComponent extends BaseComponent {
     const comparisonPart = this.renderComparisonInfo(gitInfo.branch);
     if (comparisonPart) parts.push(comparisonPart);
 
+    // 改动统计 | Diff stats
+    const diffPart = this.renderDiffStat(gitInfo.diff);
+    if (diffPart) parts.push(diffPart);
+
     // 4. 操作状态信息 | Operation status information
     const operationPart = this.renderOperationInfo(gitInfo.operation);
     if (operationPart) parts.push(operationPart);
@@ -432,6 +499,44 @@ export class BranchComponent extends BaseComponent {
     return statusParts.length > 0 ? statusParts.join('') : '';
   }
 
+  /**
+   * 渲染工作树或子模块标记 | Render the worktree or submodule marker
+   * 子模块附带父仓库名，如 🧩parent | Submodules carry the superproject name, e.g. 🧩parent
+   */
+  private renderRepoInfo(layout: GitRepoLayout | undefined): string {
+    if (!this.branchConfig.status?.show_repo_type || !layout) return '';
+
+    const icons = this.branchConfig.status_icons;
+    const colorName = this.branchConfig.status_colors?.repo || 'gray';
+
+    if (layout.isSubmodule) {
+      const label = `${this.getStatusIcon('submodule', icons)}${layout.superproject ?? ''}`;
+      return label ? ` ${this.colorize(label, colorName)}` : '';
+    }
+
+    if (layout.isWorktree) {
+      const icon = this.getStatusIcon('worktree', icons);
+      return icon ? ` ${this.colorize(icon, colorName)}` : '';
+    }
+
+    return '';
+  }
+
+  /**
+   * 渲染改动统计 | Render diff stats
+   * 例如 +120 -34 (5 files) | e.g. +120 -34 (5 files)
+   */
+  private renderDiffStat(diff: GitDiffStat | undefined): string {
+    if (!this.branchConfig.status?.show_diff_stat || !diff || diff.files === 0) return '';
+
+    const colors = this.branchConfig.status_colors;
+    const insertions = this.colorize(`+${diff.insertions}`, colors?.insertions || 'green');
+    const deletions = this.colorize(`-${diff.deletions}`, colors?.deletions || 'red');
+    const files = `(${diff.files} ${diff.files === 1 ? 'file' : 'files'})`;
+
+    return ` ${insertions} ${deletions} ${files}`;
+  }
+
   /**
    * 渲染比较信息(ahead/behind) | Render comparison information (ahead/behind)
    */
@@ -459,16 +564,75 @@ export class BranchComponent extends BaseComponent {
 
   /**
    * 渲染操作状态信息 | Render operation status information
+   * 例如 REBASE 3/7、MERGING feature/x | e.g. REBASE 3/7, MERGING feature/x
    */
-  private renderOperationInfo(_operation: GitOperationStatus): string {
-    return ''; // 操作功能已简化移除 | Operation features have been simplified and removed
+  private renderOperationInfo(operation: GitOperationStatus): string {
+    if (!this.hasOperationFeatures()) return '';
+    if (!operation.inProgress || operation.type === GitOperationType.NONE) return '';
+
+    const label = this.formatOperationLabel(operation);
+    const icon = this.getStatusIcon('operation', this.branchConfig.status_icons);
+    const colorName = this.branchConfig.status_colors?.operation || 'red';
+
+    return ` ${this.colorize(icon ? `${icon} ${label}` : label, colorName)}`;
+  }
+
+  /**
+   * 格式化操作标签 | Format operation label
+   */
+  private formatOperationLabel(operation: GitOperationStatus): string {
+    const showDetail = this.branchConfig.status?.show_operation_detail !== false;
+    // 只有形如 3/7 的进度才是步骤信息 | Only progress like 3/7 carries step info
+    const steps =
+      showDetail && operation.progress && /^\d+\/\d+$/.test(operation.progress)
+        ? operation.progress
+        : undefined;
+
+    switch (operation.type) {
+      case GitOperationType.REBASE:
+      case GitOperationType.AM_REBASE:
+        return steps ? `REBASE ${steps}` : 'REBASING';
+      case GitOperationType.AM:
+        return steps ? `AM ${steps}` : 'AM';
+      case GitOperationType.MERGE:
+        return showDetail && operation.branch ? `MERGING ${operation.branch}` : 'MERGING';
+      case GitOperationType.CHERRY_PICK:
+        return 'CHERRY-PICKING';
+      case GitOperationType.REVERT:
+        return 'REVERTING';
+      case GitOperationType.BISECT:
+        return 'BISECTING';
+      default:
+        return String(operation.type).toUpperCase();
+    }
   }
 
   /**
    * 渲染版本信息 | Render version information
+   * 例如 a1b2c3d v1.2.0+3 2h ago | e.g. a1b2c3d v1.2.0+3 2h ago
    */
-  private renderVersionInfo(_version: GitVersionInfo): string {
-    return ''; // 版本功能已简化移除 | Version features have been simplified and removed
+  private renderVersionInfo(version: GitVersionInfo): string {
+    if (!this.hasVersionFeatures() || !version.sha) return '';
+
+    const statusConfig = this.branchConfig.status;
+    const icons = this.branchConfig.status_icons;
+    const colorName = this.branchConfig.status_colors?.version || 'gray';
+    const parts: string[] = [];
+
+    if (statusConfig?.show_sha && version.shortSha) {
+      parts.push(`${this.getStatusIcon('sha', icons)}${version.shortSha}`);
+    }
+
+    if (statusConfig?.show_tag && version.latestTag) {
+      const distance = version.commitsSinceTag ? `+${version.commitsSinceTag}` : '';
+      parts.push(`${this.getStatusIcon('tag', icons)}${version.latestTag}${distance}`);
+    }
+
+    if (statusConfig?.show_commit_age) {
+      parts.push(`${this.getStatusIcon('age', icons)}${getRelativeTime(version.timestamp, true)}`);
+    }
+
+    return parts.map((part) => ` ${this.colorize(part, colorName)}`).join('');
   }
 
   /**
@@ -545,6 +709,12 @@ export class BranchComponent extends BaseComponent {
       ahead: { emoji: '↑', nerd: '\uF062', text: '[↑]' },
       behind: { emoji: '↓', nerd: '\uF063', text: '[↓]' },
       stash: { emoji: '📦', nerd: '\uF01C', text: '[S]' },
+      operation: { emoji: '🔀', nerd: '\uE727', text: '' },
+      sha: { emoji: '📍', nerd: '\uF417', text: '@' },
+      tag: { emoji: '🏷️', nerd: '\uF02B', text: '#' },
+      age: { emoji: '🕒', nerd: '\uF017', text: '' },
+      worktree: { emoji: '🌳', nerd: '\uF1BB', text: '[wt]' },
+      submodule: { emoji: '🧩', nerd: '\uF1B2', text: 'sub:' },
     };
     return defaultIcons[type]?.[iconType] || '';
   }
@@ -583,6 +753,24 @@ export class BranchComponent extends BaseComponent {
         nerd: icons.stash_nerd,
         text: icons.stash_text,
       },
+      operation: {
+        emoji: icons.operation_emoji ?? '',
+        nerd: icons.operation_nerd ?? '',
+        text: icons.operation_text ?? '',
+      },
+      sha: { emoji: icons.sha_emoji ?? '', nerd: icons.sha_nerd ?? '', text: icons.sha_text ?? '' },
+      tag: { emoji: icons.tag_emoji ?? '', nerd: icons.tag_nerd ?? '', text: icons.tag_text ?? '' },
+      age: { emoji: icons.age_emoji ?? '', nerd: icons.age_nerd ?? '', text: icons.age_text ?? '' },
+      worktree: {
+        emoji: icons.worktree_emoji ?? '',
+        nerd: icons.worktree_nerd ?? '',
+        text: icons.worktree_text ?? '',
+      },
+      submodule: {
+        emoji: icons.submodule_emoji ?? '',
+        nerd: icons.submodule_nerd ?? '',
+        text: icons.submodule_text ?? '',
+      },
     };
     return typeMap[type]?.[iconType] || this.getDefaultStatusIcon(type, iconType);
   }
@@ -619,7 +807,7 @@ export class BranchComponent extends BaseComponent {
     }
 
     // 如果不在Git仓库或没有启用增强功能，使用基础显示 | If not in Git repo or no enhanced features, use basic display
-    if (branch === 'no-git' || !this.hasStatusFeatures()) {
+    if (branch === 'no-git' || (!this.hasStatusFeatures() && !this.hasOperationFeatures())) {
       return this.formatBasicBranch(branch);
     }
 
@@ -695,6 +883,23 @@ export class BranchComponent extends BaseComponent {
         } catch (_error) {}
       }
 
+      // 检查进行中的操作 | Check in-progress operation
+      if (this.hasOperationFeatures()) {
+        try {
+          const result = await safeExecGit('rev-parse', ['--git-dir'], {
+            cwd,
+            timeout: timeout / 2,
+            ignoreErrors: true,
+          });
+
+          if (result.success && result.stdout.trim()) {
+            const path = await import('node:path');
+            const gitDir = path.resolve(cwd, result.stdout.trim());
+            parts.push(this.renderOperationInfo(detectGitOperation(gitDir)));
+          }
+        } catch (_error) {}
+      }
+
       return parts.join('');
     } catch (_error) {
       // 增强功能失败，回退到基础显示 | Enhanced features failed, fallback to basic display
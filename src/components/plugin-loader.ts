@@ -0,0 +1,256 @@
+/**
+ * 组件插件加载器 | Component plugin loader
+ * 在运行时发现并注册自定义组件工厂，无需修改src/ | Discovers and registers custom component factories at runtime without touching src/
+ *
+ * 插件模块需导出 ComponentFactory 实例或类（默认导出或命名导出均可）
+ * Plugin modules must export a ComponentFactory instance or class (default or named export)
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { PluginsConfig } from '../config/schema.js';
+import type { ComponentFactory, ComponentRegistry } from './base.js';
+
+/**
+ * 支持的插件文件扩展名 | Supported plugin file extensions
+ */
+const PLUGIN_EXTENSIONS = new Set(['.js', '.mjs', '.cjs']);
+
+/**
+ * 默认导入超时(ms) | Default import timeout in milliseconds
+ */
+const DEFAULT_IMPORT_TIMEOUT = 2000;
+
+/**
+ * 插件加载失败信息 | Plugin load failure info
+ */
+export interface PluginLoadError {
+  /** 插件文件路径 | Plugin file path */
+  file: string;
+  /** 错误信息 | Error message */
+  error: string;
+}
+
+/**
+ * 插件加载结果 | Plugin load result
+ */
+export interface PluginLoadResult {
+  /** 成功注册的组件类型 | Successfully registered component types */
+  registeredTypes: string[];
+  /** 成功加载的插件文件 | Successfully loaded plugin files */
+  loadedFiles: string[];
+  /** 加载失败的插件 | Plugins that failed to load */
+  errors: PluginLoadError[];
+}
+
+/**
+ * 获取默认插件目录 | Get default plugin directory
+ */
+export function getDefaultPluginDir(): string {
+  return path.join(os.homedir(), '.claude', 'statusline-pro', 'plugins');
+}
+
+/**
+ * 判断对象是否实现ComponentFactory接口 | Check whether value implements ComponentFactory
+ */
+function isComponentFactory(value: unknown): value is ComponentFactory {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ComponentFactory).createComponent === 'function' &&
+    typeof (value as ComponentFactory).getSupportedTypes === 'function'
+  );
+}
+
+/**
+ * 组件插件加载器类 | Component plugin loader class
+ */
+export class PluginLoader {
+  private config: NonNullable<PluginsConfig> | undefined;
+
+  constructor(config?: PluginsConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 加载所有插件并注册到注册表 | Load all plugins and register them into the registry
+   * 单个插件失败不会影响其他插件 | A failing plugin never affects the others
+   */
+  async loadInto(registry: ComponentRegistry): Promise<PluginLoadResult> {
+    const result: PluginLoadResult = { registeredTypes: [], loadedFiles: [], errors: [] };
+
+    if (this.config?.enabled === false) {
+      return result;
+    }
+
+    // 内置组件类型不允许被插件覆盖 | Builtin component types cannot be overridden by plugins
+    const reservedTypes = new Set(registry.getRegisteredTypes());
+
+    for (const file of this.discoverPluginFiles()) {
+      try {
+        const factories = await this.importFactories(file);
+        if (factories.length === 0) {
+          throw new Error('No ComponentFactory export found');
+        }
+
+        for (const factory of factories) {
+          for (const type of factory.getSupportedTypes()) {
+            if (reservedTypes.has(type)) {
+              console.warn(`Plugin ${file} tried to register existing component type: ${type}`);
+              continue;
+            }
+            registry.register(type, factory);
+            reservedTypes.add(type);
+            result.registeredTypes.push(type);
+          }
+        }
+
+        result.loadedFiles.push(file);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        result.errors.push({ file, error: message });
+        console.warn(`插件加载失败 | Failed to load plugin: ${file} - ${message}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 发现插件文件 | Discover plugin files
+   * 扫描配置路径和默认插件目录 | Scans configured paths and the default plugin directory
+   */
+  discoverPluginFiles(): string[] {
+    const candidates = [...(this.config?.paths ?? []), getDefaultPluginDir()];
+    const files = new Set<string>();
+
+    for (const candidate of candidates) {
+      const resolved = this.resolvePath(candidate);
+
+      try {
+        if (!fs.existsSync(resolved)) continue;
+
+        const stat = fs.statSync(resolved);
+        if (stat.isFile()) {
+          if (PLUGIN_EXTENSIONS.has(path.extname(resolved))) {
+            files.add(resolved);
+          }
+          continue;
+        }
+
+        if (stat.isDirectory()) {
+          for (const file of this.scanDirectory(resolved)) {
+            files.add(file);
+          }
+        }
+      } catch {
+        // 无法访问的路径直接跳过 | Skip inaccessible paths
+      }
+    }
+
+    return Array.from(files);
+  }
+
+  /**
+   * 扫描插件目录 | Scan plugin directory
+   * 支持顶层文件和 <name>/index.js 形式 | Supports top-level files and <name>/index.js layout
+   */
+  private scanDirectory(dir: string): string[] {
+    const files: string[] = [];
+
+    for (const entry of fs
+      .readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryPath = path.join(dir, entry.name);
+
+      if (entry.isFile() && PLUGIN_EXTENSIONS.has(path.extname(entry.name))) {
+        files.push(entryPath);
+      } else if (entry.isDirectory()) {
+        const index = ['index.js', 'index.mjs', 'index.cjs']
+          .map((name) => path.join(entryPath, name))
+          .find((indexPath) => fs.existsSync(indexPath));
+        if (index) {
+          files.push(index);
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * 解析插件路径 | Resolve plugin path
+   */
+  private resolvePath(inputPath: string): string {
+    if (inputPath === '~' || inputPath.startsWith('~/')) {
+      return path.join(os.homedir(), inputPath.slice(1));
+    }
+    return path.resolve(inputPath);
+  }
+
+  /**
+   * 导入插件模块并提取工厂 | Import plugin module and extract factories
+   */
+  private async importFactories(file: string): Promise<ComponentFactory[]> {
+    const timeout = this.config?.timeout ?? DEFAULT_IMPORT_TIMEOUT;
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Import timed out after ${timeout}ms`)), timeout);
+    });
+
+    try {
+      // 按修改时间区分模块URL，守护进程中编辑后的插件会被重新导入
+      // Key the module URL by mtime so plugins edited while the daemon runs are imported again
+      const url = `${pathToFileURL(file).href}?mtime=${fs.statSync(file).mtimeMs}`;
+      const module = (await Promise.race([import(url), timeoutPromise])) as Record<string, unknown>;
+
+      const factories: ComponentFactory[] = [];
+      const seen = new Set<unknown>();
+
+      for (const exported of Object.values(module)) {
+        if (seen.has(exported)) continue;
+        seen.add(exported);
+
+        const factory = this.toFactory(exported);
+        if (factory) {
+          factories.push(factory);
+        }
+      }
+
+      return factories;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * 将导出值转换为工厂实例 | Convert an exported value into a factory instance
+   * 支持工厂实例和无参构造的工厂类 | Supports factory instances and zero-arg factory classes
+   */
+  private toFactory(exported: unknown): ComponentFactory | null {
+    if (isComponentFactory(exported)) {
+      return exported;
+    }
+
+    if (
+      typeof exported === 'function' &&
+      typeof exported.prototype?.createComponent === 'function' &&
+      typeof exported.prototype?.getSupportedTypes === 'function'
+    ) {
+      const instance: unknown = new (exported as new () => unknown)();
+      return isComponentFactory(instance) ? instance : null;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * 创建插件加载器 | Create plugin loader
+ */
+export function createPluginLoader(config?: PluginsConfig): PluginLoader {
+  return new PluginLoader(config);
+}
@@ -1,11 +1,10 @@
-import { existsSync, readFileSync, statSync } from 'node:fs';
 import type {
   ComponentConfig,
   ExtendedRenderContext,
   RenderContext,
   StatusComponentConfig,
-  TranscriptEntry,
 } from '../config/schema.js';
+import { transcriptIndex } from '../utils/transcript-index.js';
 import { BaseComponent, type ComponentFactory } from './base.js';
 
 /**
@@ -28,8 +27,6 @@ interface StatusInfo {
  */
 export class StatusComponent extends BaseComponent {
   private statusConfig: StatusComponentConfig;
-  private cachedStatus: StatusInfo | null = null;
-  private lastTranscriptMtime: number | null = null;
 
   constructor(name: string, config: StatusComponentConfig) {
     super(name, config);
@@ -86,138 +83,56 @@ export class StatusComponent extends BaseComponent {
 
   /**
    * 解析transcript状态 | Parse transcript status
+   * 基于共享的增量索引快照 | Based on the shared incremental index snapshot
    */
   private parseTranscriptStatus(
     transcriptPath: string,
     context: RenderContext | ExtendedRenderContext
   ): StatusInfo | null {
-    // 检查文件存在性 | Check file existence
-    let fileExists = false;
-    try {
-      fileExists = existsSync(transcriptPath) && statSync(transcriptPath).isFile();
-    } catch (_error) {
-      return null;
-    }
-
-    if (!fileExists) {
+    const transcript =
+      context.transcript?.path === transcriptPath
+        ? context.transcript
+        : transcriptIndex.read(transcriptPath, {
+            incremental: context.config.advanced?.cache_enabled ?? true,
+          });
+
+    if (!transcript) {
       return { type: 'ready', message: 'Ready' };
     }
 
-    try {
-      const stat = statSync(transcriptPath);
-      const currentMtime = stat.mtime.getTime();
-
-      // 检查缓存 | Check cache
-      const cacheEnabled = context.config.advanced?.cache_enabled ?? true;
-      if (cacheEnabled && this.cachedStatus && this.lastTranscriptMtime === currentMtime) {
-        return this.cachedStatus;
-      }
-
-      const transcript = readFileSync(transcriptPath, 'utf8');
-      const lines = transcript.trim().split('\n');
-
-      let lastStopReason: string | null = null;
-      let lastToolCall: string | null = null;
-      let lastEntryType: string | null = null;
-      let assistantError = false;
-      let errorDetails = 'Error';
-      let _lastAssistantIndex = -1;
-
-      // 查找最新的assistant消息 | Find latest assistant message
-      for (let i = lines.length - 1; i >= 0; i--) {
-        const line = lines[i]?.trim();
-        if (!line) continue;
+    const { lastStopReason, lastEntryType, lastAssistantEntry } = transcript;
 
-        try {
-          const entry = JSON.parse(line) as TranscriptEntry;
+    // 检查最新assistant消息是否有错误 | Check latest assistant message for errors
+    const assistantError = lastAssistantEntry ? this.isErrorEntry(lastAssistantEntry) : false;
+    const errorDetails =
+      assistantError && lastAssistantEntry ? this.getErrorDetails(lastAssistantEntry) : 'Error';
 
-          if (!lastEntryType) {
-            lastEntryType = entry.type;
-          }
-
-          // 查找assistant消息的usage和stop_reason | Find assistant message usage and stop_reason
-          if (entry.type === 'assistant' && entry.message && 'usage' in entry.message) {
-            lastStopReason = entry.message?.stop_reason || null;
-            _lastAssistantIndex = i;
+    // 查找最近条目中的工具调用 | Find tool calls in recent entries
+    const recentErrorCount = context.config.advanced?.recent_error_count || 5;
+    const recentStart = transcript.entryCount - recentErrorCount;
+    const lastToolCall =
+      transcript.recentToolUses.filter((toolUse) => toolUse.entryIndex >= recentStart).at(-1)
+        ?.name || null;
 
-            // 检查是否有错误 | Check for errors
-            assistantError = this.isErrorEntry(entry);
-            if (assistantError) {
-              errorDetails = this.getErrorDetails(entry);
-            }
-            break;
-          }
-        } catch (_parseError) {}
-      }
-
-      // 查找最近的工具调用 | Find recent tool calls
-      const recentErrorCount = context.config.advanced?.recent_error_count || 5;
-      const recentLines = lines.slice(-recentErrorCount);
-
-      for (const line of recentLines) {
-        if (!line.trim()) continue;
-
-        try {
-          const entry = JSON.parse(line) as TranscriptEntry;
-
-          if (
-            'message' in entry &&
-            entry.message?.content &&
-            Array.isArray(entry.message.content)
-          ) {
-            const toolUse = entry.message.content.find(
-              (item: unknown) =>
-                typeof item === 'object' &&
-                item !== null &&
-                'type' in item &&
-                (item as Record<string, unknown>).type === 'tool_use'
-            );
-            if (toolUse && typeof toolUse === 'object' && 'name' in toolUse) {
-              lastToolCall = toolUse.name as string;
-            }
-          }
-        } catch (_parseError) {
-          // 忽略单行解析错误 | Ignore single line parse errors
-        }
-      }
-
-      // 确定状态 | Determine status
-      let statusInfo: StatusInfo;
-
-      if (assistantError) {
-        statusInfo = { type: 'error', message: errorDetails, details: errorDetails };
-      } else if (lastStopReason === 'tool_use') {
-        const toolInfo = lastToolCall ? ` ${lastToolCall}` : '';
-        statusInfo = {
-          type: 'tool',
-          message: `Tool${toolInfo}`,
-          details: lastToolCall || '',
-        };
-      } else if (lastStopReason === 'end_turn') {
-        statusInfo = { type: 'ready', message: 'Ready' };
-      } else if (lastStopReason === null) {
-        // 当stop_reason为null时，智能判断 | Smart inference when stop_reason is null
-        if (lastEntryType === 'user') {
-          statusInfo = { type: 'thinking', message: 'Thinking' };
-        } else {
-          statusInfo = { type: 'ready', message: 'Ready' };
-        }
-      } else {
-        // 其他未知状态 | Other unknown states
-        statusInfo = { type: 'ready', message: 'Ready' };
-      }
-
-      // 缓存结果 | Cache result
-      if (cacheEnabled) {
-        this.cachedStatus = statusInfo;
-        this.lastTranscriptMtime = currentMtime;
-      }
-
-      return statusInfo;
-    } catch (error) {
-      console.error('Error parsing transcript status:', error);
-      return null;
+    // 确定状态 | Determine status
+    if (assistantError) {
+      return { type: 'error', message: errorDetails, details: errorDetails };
+    }
+    if (lastStopReason === 'tool_use') {
+      const toolInfo = lastToolCall ? ` ${lastToolCall}` : '';
+      return {
+        type: 'tool',
+        message: `Tool${toolInfo}`,
+        details: lastToolCall || '',
+      };
+    }
+    if (lastStopReason === null && lastEntryType === 'user') {
+      // 当stop_reason为null时，智能判断 | Smart inference when stop_reason is null
+      return { type: 'thinking', message: 'Thinking' };
     }
+
+    // end_turn及其他状态 | end_turn and other states
+    return { type: 'ready', message: 'Ready' };
   }
 
   /**
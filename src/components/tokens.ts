@@ -1,17 +1,17 @@
-import { existsSync, readFileSync, statSync } from 'node:fs';
 import type {
   ComponentConfig,
   ExtendedRenderContext,
   RenderContext,
   TokensComponentConfig,
-  TranscriptEntry,
+  TranscriptSnapshot,
 } from '../config/schema.js';
+import { resolveBaseTheme } from '../themes/custom.js';
 import {
   type AdvancedProgressOptions,
   FINE_PROGRESS_CHARS,
   generateAdvancedProgressBar,
-  getRainbowGradientColor,
 } from '../utils/index.js';
+import { transcriptIndex } from '../utils/transcript-index.js';
 import { BaseComponent, type ComponentFactory } from './base.js';
 
 /**
@@ -32,8 +32,6 @@ interface TokenUsageInfo {
  */
 export class TokensComponent extends BaseComponent {
   private tokensConfig: TokensComponentConfig;
-  private cachedTranscriptData: TokenUsageInfo | null = null;
-  private lastTranscriptMtime: number | null = null;
 
   constructor(name: string, config: TokensComponentConfig) {
     super(name, config);
@@ -115,21 +113,14 @@ export class TokensComponent extends BaseComponent {
 
   /**
    * 解析transcript文件 | Parse transcript file
-   * 简化版：检测压缩并调整计算区间 | Simplified: detect compression and adjust calculation range
+   * 使用共享的增量索引，只统计压缩边界之后的usage | Uses the shared incremental index, counting usage after the compaction boundary only
    */
   private parseTranscriptFile(
     transcriptPath: string,
     context: RenderContext
   ): TokenUsageInfo | null {
-    // 检查文件存在性 | Check file existence
-    let fileExists = false;
-    try {
-      fileExists = existsSync(transcriptPath) && statSync(transcriptPath).isFile();
-    } catch (_error) {
-      return null;
-    }
-
-    if (!fileExists) {
+    const transcript = this.getTranscriptSnapshot(transcriptPath, context);
+    if (!transcript) {
       return {
         contextUsedTokens: 0,
         contextWindow: this.getContextWindow(context.inputData?.model?.id),
@@ -137,101 +128,54 @@ export class TokensComponent extends BaseComponent {
       };
     }
 
-    try {
-      const stat = statSync(transcriptPath);
-      const currentMtime = stat.mtime.getTime();
-
-      // 检查缓存 | Check cache
-      const cacheEnabled = context.config.advanced?.cache_enabled ?? true;
-      if (cacheEnabled && this.cachedTranscriptData && this.lastTranscriptMtime === currentMtime) {
-        return this.cachedTranscriptData;
-      }
-
-      const transcript = readFileSync(transcriptPath, 'utf8');
-      const lines = transcript.trim().split('\n');
-
-      // *** 压缩检测：查找包含 isCompactSummary 标记的行 ***
-      // *** Compression detection: find line with isCompactSummary marker ***
-      let compressionLine = -1;
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i]?.trim();
-        if (line?.includes('"isCompactSummary":true')) {
-          compressionLine = i;
-          if (context.config.debug) {
-            console.error('检测到会话压缩，从第', compressionLine + 1, '行开始累积计算token');
-          }
-          break;
-        }
-      }
+    if (context.config.debug && transcript.compactBoundary >= 0) {
+      console.error('检测到会话压缩，从第', transcript.compactBoundary + 1, '条开始累积计算token');
+    }
 
-      let contextUsedTokens = 0;
-
-      // 确定搜索范围：如果有压缩，从压缩点之后开始；否则从头开始
-      // Determine search range: start after compression point if compressed, otherwise from beginning
-      const startLine = compressionLine >= 0 ? compressionLine + 1 : 0;
-
-      // 从后往前查找最新的包含usage信息的assistant消息
-      // Search backwards for the latest assistant message with usage info
-      for (let i = lines.length - 1; i >= startLine; i--) {
-        const line = lines[i]?.trim();
-        if (!line) continue;
-
-        try {
-          const entry = JSON.parse(line) as TranscriptEntry;
-
-          // 查找包含usage信息的assistant消息 | Find assistant message with usage info
-          if (entry.type === 'assistant' && entry.message && 'usage' in entry.message) {
-            const usage = entry.message.usage;
-
-            if (usage && typeof usage === 'object') {
-              const inputTokens = Number(usage.input_tokens) || 0;
-              const outputTokens = Number(usage.output_tokens) || 0;
-              const cacheCreationTokens = Number(usage.cache_creation_input_tokens) || 0;
-              const cacheReadTokens = Number(usage.cache_read_input_tokens) || 0;
-
-              // 计算总使用量
-              contextUsedTokens =
-                inputTokens + outputTokens + cacheCreationTokens + cacheReadTokens;
-
-              // 找到最新的usage后立即返回
-              if (contextUsedTokens > 0) {
-                if (context.config.debug) {
-                  console.error('找到最新token使用量:', contextUsedTokens, '(行号:', i + 1, ')');
-                }
-                break;
-              }
-            }
-          }
-        } catch (_parseError) {}
-      }
+    const contextUsedTokens = transcript.latestUsage?.totalTokens ?? 0;
+    if (context.config.debug && transcript.latestUsage) {
+      console.error(
+        '找到最新token使用量:',
+        contextUsedTokens,
+        '(条目:',
+        transcript.latestUsage.entryIndex + 1,
+        ')'
+      );
+    }
 
-      const contextWindow = this.getContextWindow(context.inputData?.model?.id);
-      const usagePercentage = (contextUsedTokens / contextWindow) * 100;
+    const contextWindow = this.getContextWindow(context.inputData?.model?.id);
+    const usagePercentage = (contextUsedTokens / contextWindow) * 100;
 
-      const result: TokenUsageInfo = {
-        contextUsedTokens,
-        contextWindow,
-        usagePercentage,
-        warning: usagePercentage > (this.tokensConfig.thresholds?.warning || 60),
-        critical: usagePercentage > (this.tokensConfig.thresholds?.critical || 95),
-      };
+    const result: TokenUsageInfo = {
+      contextUsedTokens,
+      contextWindow,
+      usagePercentage,
+      warning: usagePercentage > (this.tokensConfig.thresholds?.warning || 60),
+      critical: usagePercentage > (this.tokensConfig.thresholds?.critical || 95),
+    };
 
-      // 生成进度条 | Generate progress bar
-      if (this.tokensConfig.show_progress_bar) {
-        result.progressBar = this.generateProgressBar(usagePercentage, context);
-      }
+    // 生成进度条 | Generate progress bar
+    if (this.tokensConfig.show_progress_bar) {
+      result.progressBar = this.generateProgressBar(usagePercentage, context);
+    }
 
-      // 缓存结果 | Cache result
-      if (cacheEnabled) {
-        this.cachedTranscriptData = result;
-        this.lastTranscriptMtime = currentMtime;
-      }
+    return result;
+  }
 
-      return result;
-    } catch (error) {
-      console.error('Error parsing transcript file:', error);
-      return null;
+  /**
+   * 获取transcript快照 | Get transcript snapshot
+   * 优先使用渲染上下文中共享的快照 | Prefer the snapshot shared through the render context
+   */
+  private getTranscriptSnapshot(
+    transcriptPath: string,
+    context: RenderContext
+  ): TranscriptSnapshot | null {
+    if (context.transcript?.path === transcriptPath) {
+      return context.transcript;
     }
+    return transcriptIndex.read(transcriptPath, {
+      incremental: context.config.advanced?.cache_enabled ?? true,
+    });
   }
 
   /**
@@ -260,8 +204,9 @@ export class TokensComponent extends BaseComponent {
     const themeConfig = context.config.themes;
     const currentTheme = context.config.theme;
 
-    // 对于powerline和capsule主题，默认启用渐变 | Enable gradient by default for powerline and capsule themes
-    const isThemeWithGradient = currentTheme === 'powerline' || currentTheme === 'capsule';
+    // 对于powerline和capsule主题(含基于它们的用户主题)，默认启用渐变
+    // Enable gradient by default for powerline and capsule themes, including user themes based on them
+    const isThemeWithGradient = resolveBaseTheme(currentTheme) !== 'classic';
     const enableGradient =
       this.tokensConfig.show_gradient ||
       themeConfig?.[currentTheme]?.enable_gradient ||
@@ -300,7 +245,7 @@ export class TokensComponent extends BaseComponent {
       enableGradient: useRainbowGradient,
       enableFineProgress: useFineGradient,
       fineChars: FINE_PROGRESS_CHARS,
-      colorMapper: getRainbowGradientColor, // 使用新的彩虹渐变算法
+      colorDepth: context.capabilities.colorDepth, // 彩虹渐变按终端色深降级
     };
 
     // 调试信息：渐变模式 | Debug info: gradient mode
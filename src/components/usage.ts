@@ -1,5 +1,12 @@
 import type { ComponentConfig, RenderContext, UsageComponentConfig } from '../config/schema.js';
-import { getConversationCostDisplay, updateCostFromInput } from '../storage/index.js';
+import {
+  type BudgetPeriodStatus,
+  estimateTranscriptCost,
+  getBudgetStatusDisplay,
+  getConversationCostDisplay,
+  updateCostFromInput,
+} from '../storage/index.js';
+import { transcriptIndex } from '../utils/transcript-index.js';
 import { BaseComponent, type ComponentFactory } from './base.js';
 
 /**
@@ -32,6 +39,15 @@ interface OfficialSessionData {
   exceeds_200k_tokens: boolean;
 }
 
+/**
+ * 预算周期显示标签 | Budget period display labels
+ */
+const BUDGET_PERIOD_LABELS: Record<BudgetPeriodStatus['period'], string> = {
+  daily: 'today',
+  weekly: 'this week',
+  monthly: 'this month',
+};
+
 /**
  * Usage组件 | Usage component
  * 显示Session的成本和代码行数统计 | Display session cost and code line statistics
@@ -67,18 +83,84 @@ export class UsageComponent extends BaseComponent {
       }
     }
 
+    // 配置了预算时显示预算进度 | Show budget progress when a budget is configured
+    const budgetDisplay = await this.renderBudget(context);
+    if (budgetDisplay) {
+      return budgetDisplay;
+    }
+
     // 检查是否使用conversation模式 | Check if using conversation mode
     if (sessionId && this.usageConfig.display_mode === 'conversation') {
       // 使用conversation模式，显示跨session累加成本 | Use conversation mode, display cross-session cumulative cost
-      return await this.renderConversationCost(sessionId);
+      return await this.renderConversationCost(sessionId, context);
     }
 
-    // 非conversation模式，使用官方数据或无数据 | Non-conversation mode, use official data or no data
+    // 非conversation模式，使用官方数据、估算值或无数据 | Non-conversation mode, use official data, estimate or no data
     if (inputData.cost) {
       return this.formatOfficialUsageDisplay(inputData);
     }
 
-    return this.renderNoData();
+    return this.renderEstimatedCost(context) ?? this.renderNoData();
+  }
+
+  /**
+   * 渲染预算进度 | Render budget progress
+   * 例如 "$3.20/$10 today"，未配置预算时返回null | e.g. "$3.20/$10 today", null without a budget
+   */
+  private async renderBudget(context: RenderContext): Promise<string | null> {
+    if (this.usageConfig.show_budget === false) {
+      return null;
+    }
+
+    let status: BudgetPeriodStatus | null = null;
+    try {
+      status = await getBudgetStatusDisplay(context.config.budget);
+    } catch (error) {
+      console.error('Failed to load budget status:', error);
+    }
+    if (!status) {
+      return null;
+    }
+
+    const spent = this.formatCost(status.spent, this.usageConfig.precision);
+    const limit = Number.isInteger(status.limit)
+      ? `$${status.limit}`
+      : this.formatCost(status.limit, this.usageConfig.precision);
+    const color =
+      status.level === 'critical' ? 'red' : status.level === 'warning' ? 'yellow' : 'green';
+
+    return this.formatOutput(
+      this.getIcon('usage'),
+      `${spent}/${limit} ${BUDGET_PERIOD_LABELS[status.period]}`,
+      color
+    );
+  }
+
+  /**
+   * 渲染根据transcript估算的成本 | Render cost estimated from the transcript
+   * 以 ~ 标记估算值，无法估算时返回null | Marks estimates with ~, returns null when unavailable
+   */
+  private renderEstimatedCost(context: RenderContext): string | null {
+    if (this.usageConfig.estimate_cost === false) {
+      return null;
+    }
+
+    const { inputData } = context;
+    const transcript =
+      context.transcript ??
+      (inputData.transcriptPath ? transcriptIndex.read(inputData.transcriptPath) : null);
+    if (!transcript) {
+      return null;
+    }
+
+    const cost = estimateTranscriptCost(transcript, inputData.model?.id, context.config.pricing);
+    if (cost === null) {
+      return null;
+    }
+
+    const icon = this.getIcon('usage');
+    const displayText = `~${this.formatCost(cost, this.usageConfig.precision)}`;
+    return this.formatOutput(icon, displayText, this.getUsageColor(cost));
   }
 
   /**
@@ -196,7 +278,10 @@ export class UsageComponent extends BaseComponent {
    * 渲染对话级成本 | Render conversation-level cost
    * 这是同步方法，使用缓存的值 | This is sync method, uses cached value
    */
-  private async renderConversationCost(sessionId: string): Promise<string | null> {
+  private async renderConversationCost(
+    sessionId: string,
+    context: RenderContext
+  ): Promise<string | null> {
     const icon = this.getIcon('usage');
 
     try {
@@ -214,8 +299,8 @@ export class UsageComponent extends BaseComponent {
       console.error('Failed to load conversation cost:', error);
     }
 
-    // 如果加载失败或没有数据，显示占位符
-    return this.formatOutput(icon, '$0.00', 'gray');
+    // 如果加载失败或没有数据，尝试估算，否则显示占位符
+    return this.renderEstimatedCost(context) ?? this.formatOutput(icon, '$0.00', 'gray');
   }
 }
 
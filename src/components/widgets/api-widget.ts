@@ -5,6 +5,7 @@
 
 import type { WidgetConfig } from '../../config/schema.js';
 import type { TerminalCapabilities } from '../../terminal/detector.js';
+import { evaluateJsonPath, getJsonPathFieldName } from '../../utils/json-path.js';
 import { BaseWidget } from './base-widget.js';
 
 /**
@@ -176,9 +177,12 @@ export class ApiWidget extends BaseWidget {
    */
   private extractData(jsonData: any, dataPath: string): any {
     try {
-      // 简单的JSONPath实现，支持基本的点表示法和数组索引
-      // Simple JSONPath implementation supporting basic dot notation and array indexing
-      return this.evaluateJsonPath(jsonData, dataPath);
+      // 支持索引、通配、过滤和length() | Supports indexes, wildcards, filters and length()
+      const data = evaluateJsonPath(jsonData, dataPath);
+      if (data === undefined) {
+        throw new Error('路径不存在');
+      }
+      return data;
     } catch (error) {
       throw new Error(`数据提取失败: ${dataPath} - ${error}`);
     }
@@ -247,57 +251,7 @@ export class ApiWidget extends BaseWidget {
    * 从JSONPath中提取字段名 | Extract field name from JSONPath
    */
   private extractFieldNameFromPath(dataPath: string): string {
-    // 移除$前缀 | Remove $ prefix
-    const normalized = dataPath.replace(/^\$\.?/, '');
-
-    // 提取最后一个字段名 | Extract last field name
-    const segments = normalized.split(/[.[\]]/).filter(Boolean);
-    return segments[segments.length - 1] || 'value';
-  }
-
-  /**
-   * 评估JSONPath表达式 | Evaluate JSONPath expression
-   */
-  private evaluateJsonPath(data: any, path: string): any {
-    if (!path || path === '$') return data;
-
-    // 移除开头的$符号 | Remove leading $ symbol
-    const normalizedPath = path.replace(/^\$\.?/, '');
-    if (!normalizedPath) return data;
-
-    const segments = normalizedPath.split(/[.[]/);
-    let current = data;
-
-    for (const segment of segments) {
-      if (!segment) continue;
-
-      // 处理数组索引：[0] 或 0]
-      if (segment.endsWith(']')) {
-        const index = parseInt(segment.replace(']', ''), 10);
-        if (Number.isNaN(index)) {
-          throw new Error(`无效的数组索引: ${segment}`);
-        }
-
-        if (!Array.isArray(current)) {
-          throw new Error(`尝试在非数组对象上使用索引: ${segment}`);
-        }
-
-        current = current[index];
-      } else {
-        // 普通属性访问
-        if (current == null || typeof current !== 'object') {
-          throw new Error(`无法访问属性 '${segment}' 在 ${typeof current} 类型上`);
-        }
-
-        current = current[segment];
-      }
-
-      if (current === undefined) {
-        throw new Error(`路径不存在: ${segment}`);
-      }
-    }
-
-    return current;
+    return getJsonPathFieldName(dataPath);
   }
 
   /**
@@ -7,6 +7,11 @@
 
 import type { WidgetConfig } from '../../config/schema.js';
 import type { TerminalCapabilities } from '../../terminal/detector.js';
+import {
+  isHexColor,
+  isPaletteColorReference,
+  resolveColorCode,
+} from '../../terminal/palettes.js';
 import {
   calculateTimeDifference,
   formatTimeDifference,
@@ -14,6 +19,8 @@ import {
   now,
   parseDate,
 } from '../../utils/date-formatter.js';
+import { evaluateJsonPath, isJsonPath } from '../../utils/json-path.js';
+import { evaluateTemplate } from '../../utils/template.js';
 
 /**
  * 小组件渲染结果 | Widget render result
@@ -126,7 +133,9 @@ export abstract class BaseWidget {
   }
 
   /**
-   * f-string模板渲染 | f-string template rendering
+   * 模板渲染 | Template rendering
+   * 支持 {field:format} 占位符、{#if}/{#each} 块和 | 过滤器，语法见 utils/template.ts
+   * Supports {field:format} placeholders, {#if}/{#each} blocks and | filters; see utils/template.ts for the grammar
    */
   protected renderTemplate(template: string, data: any): string {
     if (!template || !data) {
@@ -134,28 +143,29 @@ export abstract class BaseWidget {
     }
 
     try {
-      // 先处理 {icon} 占位符，替换为 Widget 的图标
-      let processed = template.replace(/{icon}/g, () => {
-        return this.selectIcon();
-      });
+      return evaluateTemplate(template, data, {
+        renderPlaceholder: (expr, scope) => {
+          // {icon} 替换为 Widget 的图标
+          if (expr === 'icon') {
+            return this.selectIcon();
+          }
 
-      // 处理静态颜色文本 {colorName:text}
-      // 例如: {white:积分} 或 {green:剩余}
-      processed = processed.replace(/{(\w+):([^}:]+)}/g, (match, colorName, text) => {
-        // 检查是否是颜色名称（不是字段表达式）
-        if (this.isColorName(colorName)) {
-          return this.applyColor(text, colorName);
-        }
-        // 否则保留原样，让后续处理
-        return match;
-      });
+          // 静态颜色文本 {colorName:text}
+          // 例如: {white:积分}、{green:剩余}、{#a6e3a1:剩余} 或 {nord.nord8:剩余}
+          const colorMatch = expr.match(/^([#\w.]+):([^}:]+)$/);
+          if (colorMatch?.[1] && colorMatch[2] && this.isColorName(colorMatch[1])) {
+            return this.applyColor(colorMatch[2], colorMatch[1]);
+          }
 
-      // 再处理字段表达式 {field} 或 {field:format}
-      processed = processed.replace(/{([^}]+)}/g, (_match, expr) => {
-        return this.evaluateExpression(expr.trim(), data);
+          // 字段表达式 {field} 或 {field:format}
+          return this.evaluateExpression(expr.trim(), scope);
+        },
+        // 过滤器和循环使用原始值而非格式化后的文本 | Filters and loops receive raw values rather than formatted text
+        resolveValue: (expr, scope) =>
+          this.isMathExpression(expr)
+            ? this.evaluateMathExpression(expr, scope)
+            : this.getValueFromPath(expr, scope),
       });
-
-      return processed;
     } catch (error) {
       console.warn('模板渲染失败:', error);
       return template;
@@ -171,7 +181,7 @@ export abstract class BaseWidget {
       'bright_black', 'bright_red', 'bright_green', 'bright_yellow',
       'bright_blue', 'bright_magenta', 'bright_cyan', 'bright_white',
     ];
-    return validColors.includes(name);
+    return validColors.includes(name) || isHexColor(name) || isPaletteColorReference(name);
   }
 
   /**
@@ -209,6 +219,9 @@ export abstract class BaseWidget {
    * 判断是否为数学表达式 | Check if it's a math expression
    */
   private isMathExpression(expr: string): boolean {
+    // JSONPath如 items[?(@.active)].length() 不是数学表达式
+    if (isJsonPath(expr)) return false;
+
     // 包含数学运算符
     return /[+\-*/()\s]/.test(expr) && !/^[a-zA-Z_][a-zA-Z0-9_.]*$/.test(expr.trim());
   }
@@ -238,8 +251,8 @@ export abstract class BaseWidget {
       }
 
       // === 原有：数学表达式处理 ===
-      // 替换字段名为实际数值
-      const processedExpr = expr.replace(/[a-zA-Z_][a-zA-Z0-9_.]*/g, (match) => {
+      // 替换字段名为实际数值，字段可带索引如 items[0].price
+      const processedExpr = expr.replace(/[a-zA-Z_][\w.]*(?:\[[^\]]*\][\w.]*)*(?:\(\))?/g, (match) => {
         // 跳过now()函数
         if (match === 'now()') {
           return String(now().valueOf());
@@ -355,34 +368,39 @@ export abstract class BaseWidget {
 
   /**
    * 从路径获取值 | Get value from path
+   * 支持JSONPath子集，如 data.items[0].name、$.items[?(@.active)].length()
    */
-  private getValueFromPath(path: string, data: any): any {
+  protected getValueFromPath(path: string, data: any): any {
     if (!path || !data) return undefined;
 
-    const keys = path.split('.');
-    let current = data;
-
-    for (const key of keys) {
-      if (current == null) {
-        return undefined;
-      }
+    try {
+      // 以 { 开头的字符串值按JSON解析后继续访问
+      return evaluateJsonPath(data, path, { parseJsonStrings: true });
+    } catch (_error) {
+      // 不符合JSONPath语法的字段按点分隔的字面键名查找
+      // Fields outside the JSONPath syntax are looked up as dot-separated literal keys
+      return this.getValueFromLiteralPath(path, data);
+    }
+  }
 
-      // 如果当前值是字符串，尝试解析为JSON
+  /**
+   * 按点分隔的字面键名取值 | Read a value by dot-separated literal keys
+   */
+  private getValueFromLiteralPath(path: string, data: any): any {
+    let current = data;
+    for (const key of path.split('.')) {
       if (typeof current === 'string' && current.trim().startsWith('{')) {
         try {
           current = JSON.parse(current);
         } catch (_error) {
-          // 解析失败，继续当作普通对象处理
+          // 解析失败，继续当作普通字符串处理
         }
       }
-
-      if (typeof current !== 'object') {
+      if (current === null || typeof current !== 'object' || !Object.hasOwn(current, key)) {
         return undefined;
       }
-
       current = current[key];
     }
-
     return current;
   }
 
@@ -397,7 +415,7 @@ export abstract class BaseWidget {
     try {
       // === 新增：组合格式支持（颜色 + 其他格式）===
       // 格式: color(condition, trueColor, falseColor):otherFormat
-      const combinedMatch = format.match(/^color\(([^,]+),\s*(\w+),\s*(\w+)\):(.+)$/);
+      const combinedMatch = format.match(/^color\(([^,]+),\s*([#\w.]+),\s*([#\w.]+)\):(.+)$/);
       if (combinedMatch) {
         const [, condition, trueColor, falseColor, restFormat] = combinedMatch;
         const meetsCondition = this.evaluateCondition(value, condition.trim());
@@ -412,7 +430,7 @@ export abstract class BaseWidget {
 
       // === 新增：单独条件颜色格式化 ===
       // 格式: color(condition, trueColor, falseColor)
-      const colorMatch = format.match(/^color\(([^,]+),\s*(\w+),\s*(\w+)\)$/);
+      const colorMatch = format.match(/^color\(([^,]+),\s*([#\w.]+),\s*([#\w.]+)\)$/);
       if (colorMatch) {
         const [, condition, trueColor, falseColor] = colorMatch;
         const meetsCondition = this.evaluateCondition(value, condition.trim());
@@ -530,7 +548,11 @@ export abstract class BaseWidget {
       bright_white: '\x1b[97m',
     };
 
-    return colorMap[colorName] || '';
+    // 十六进制和调色板颜色按色深降级 | Hex and palette colors are degraded to the color depth
+    return (
+      colorMap[colorName] ||
+      resolveColorCode(colorName, 'fg', this.capabilities.colorDepth ?? '16')
+    );
   }
 
   /**
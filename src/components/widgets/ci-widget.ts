@@ -0,0 +1,270 @@
+/**
+ * CI状态小组件 | CI status widget
+ * 读取由git钩子或CI轮询脚本写入的JSON状态文件，显示当前分支的检查结果，渲染路径中不发起网络请求
+ * Reads a JSON status file written by a git hook or CI poller and shows the current branch's checks;
+ * the render path never touches the network
+ *
+ * 状态文件格式 | Status file format:
+ * {
+ *   "main": { "state": "success", "checks": [{ "name": "build", "state": "success" }],
+ *             "url": "https://...", "updated_at": "2025-01-01T12:00:00Z" },
+ *   "feat": "pending"
+ * }
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { WidgetConfig } from '../../config/schema.js';
+import { discoverRepoLayout } from '../../git/layout.js';
+import { readGitFile } from '../../git/operation.js';
+import type { TerminalCapabilities } from '../../terminal/detector.js';
+import { BaseWidget } from './base-widget.js';
+
+/**
+ * 归一化的CI状态 | Normalized CI state
+ */
+export type CiState = 'pass' | 'fail' | 'pending';
+
+/**
+ * 分支CI状态 | Branch CI status
+ */
+export interface CiStatus {
+  state: CiState;
+  passed: number;
+  failed: number;
+  pending: number;
+  total: number;
+  /** 失败检查的名称 | Names of the failing checks */
+  failing: string[];
+  url?: string;
+  updated_at?: string;
+}
+
+const DEFAULT_STATUS_FILE = 'statusline-ci.json';
+
+/** 未配置template时按状态使用的模板 | Templates used per state when no template is configured */
+const DEFAULT_TEMPLATES: Record<CiState, string> = {
+  pass: '{green:✓ pass}',
+  fail: '{red:✗ fail} {failed}/{total}',
+  pending: '{yellow:● pending}',
+};
+
+/** CI服务商使用的状态名 | State names used by CI providers */
+const STATE_ALIASES: Record<string, CiState> = {
+  pass: 'pass',
+  passed: 'pass',
+  success: 'pass',
+  succeeded: 'pass',
+  ok: 'pass',
+  fail: 'fail',
+  failed: 'fail',
+  failure: 'fail',
+  error: 'fail',
+  errored: 'fail',
+  cancelled: 'fail',
+  canceled: 'fail',
+  timed_out: 'fail',
+  pending: 'pending',
+  queued: 'pending',
+  running: 'pending',
+  in_progress: 'pending',
+  waiting: 'pending',
+  requested: 'pending',
+};
+
+/**
+ * 归一化状态名，无法识别时返回null | Normalize a state name; null when unrecognized
+ */
+export function normalizeCiState(value: unknown): CiState | null {
+  if (typeof value !== 'string') return null;
+  return STATE_ALIASES[value.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * 解析单个分支的状态条目 | Parse a single branch's status entry
+ * 未给出state时由检查结果推导：有失败为fail，有进行中为pending，否则为pass
+ * Without an explicit state it is derived from the checks: any failure is fail, any running check is pending, otherwise pass
+ */
+export function parseCiStatus(entry: unknown): CiStatus | null {
+  if (typeof entry === 'string') {
+    const state = normalizeCiState(entry);
+    return state
+      ? {
+          state,
+          passed: state === 'pass' ? 1 : 0,
+          failed: state === 'fail' ? 1 : 0,
+          pending: state === 'pending' ? 1 : 0,
+          total: 1,
+          failing: [],
+        }
+      : null;
+  }
+  if (!entry || typeof entry !== 'object') return null;
+
+  const record = entry as Record<string, unknown>;
+  const checks = Array.isArray(record.checks) ? record.checks : [];
+  const status: CiStatus = {
+    state: 'pass',
+    passed: 0,
+    failed: 0,
+    pending: 0,
+    total: 0,
+    failing: [],
+  };
+
+  for (const check of checks) {
+    // 检查项可以是对象或仅为状态名 | A check is either an object or just a state name
+    const fields: Record<string, unknown> =
+      check && typeof check === 'object' ? (check as Record<string, unknown>) : { state: check };
+    const state = normalizeCiState(fields.state ?? fields.status);
+    if (!state) continue;
+
+    status.total++;
+    if (state === 'pass') status.passed++;
+    if (state === 'pending') status.pending++;
+    if (state === 'fail') {
+      status.failed++;
+      if (typeof fields.name === 'string' && fields.name) status.failing.push(fields.name);
+    }
+  }
+
+  const explicit = normalizeCiState(record.state ?? record.status);
+  if (explicit) {
+    status.state = explicit;
+  } else if (status.total === 0) {
+    return null;
+  } else {
+    status.state = status.failed > 0 ? 'fail' : status.pending > 0 ? 'pending' : 'pass';
+  }
+
+  if (typeof record.url === 'string') status.url = record.url;
+  if (typeof record.updated_at === 'string') status.updated_at = record.updated_at;
+  return status;
+}
+
+/**
+ * CI状态小组件类 | CI status widget class
+ */
+export class CiWidget extends BaseWidget {
+  /** 状态文件按修改时间缓存 | Status files cached by mtime */
+  private static cache = new Map<string, { mtimeMs: number; data: unknown }>();
+
+  constructor(config: WidgetConfig, capabilities: TerminalCapabilities) {
+    super(config, capabilities);
+
+    // 验证配置 | Validate configuration
+    if (config.type !== 'ci') {
+      throw new Error(`CI小组件配置类型错误: ${config.type}`);
+    }
+  }
+
+  /**
+   * 渲染CI状态 | Render CI status
+   */
+  protected async renderContent(context?: any): Promise<string | null> {
+    try {
+      const cwd: string =
+        context?.inputData?.workspace?.current_dir || context?.inputData?.cwd || process.cwd();
+      const layout = discoverRepoLayout(cwd);
+      const head = layout ? readGitFile(path.join(layout.gitDir, 'HEAD')) : undefined;
+      // 分离HEAD没有对应的分支状态 | A detached HEAD has no branch status
+      if (!layout || !head?.startsWith('ref: refs/heads/')) {
+        return null;
+      }
+
+      const branch = head.slice('ref: refs/heads/'.length).trim();
+      const statusFile = this.resolveStatusFile(layout.commonDir);
+      const data = CiWidget.readStatusFile(statusFile);
+      if (!data || typeof data !== 'object' || !Object.hasOwn(data, branch)) {
+        return null;
+      }
+
+      const status = parseCiStatus((data as Record<string, unknown>)[branch]);
+      if (!status || this.isStale(status)) {
+        return null;
+      }
+
+      const templateData = {
+        branch,
+        ...status,
+        failing: status.failing.join(', '),
+        url: status.url ?? '',
+        updated_at: status.updated_at ?? '',
+      };
+      return (
+        this.renderTemplate(
+          this.config.template || DEFAULT_TEMPLATES[status.state],
+          templateData
+        ) || null
+      );
+    } catch (error) {
+      // 静默失败 | Silent failure
+      if (process.env.DEBUG_WIDGET) {
+        console.error('[CiWidget] Render failed:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * 解析状态文件路径 | Resolve the status file path
+   * 支持 ~ 开头的路径，相对路径基于common dir，工作树共享同一文件
+   * Supports ~ paths; relative paths resolve against the common dir so worktrees share one file
+   */
+  private resolveStatusFile(commonDir: string): string {
+    const file = this.config.ci?.status_file || DEFAULT_STATUS_FILE;
+    if (file === '~' || file.startsWith('~/')) {
+      return path.join(os.homedir(), file.slice(1));
+    }
+    return path.resolve(commonDir, file);
+  }
+
+  /**
+   * 检查状态是否已过期 | Check whether a status is stale
+   */
+  private isStale(status: CiStatus): boolean {
+    const maxAge = this.config.ci?.max_age;
+    if (!maxAge || !status.updated_at) return false;
+
+    const updated = Date.parse(status.updated_at);
+    return !Number.isNaN(updated) && Date.now() - updated > maxAge * 1000;
+  }
+
+  /**
+   * 读取状态文件，不存在或无效时返回null | Read the status file; null when missing or invalid
+   */
+  private static readStatusFile(file: string): unknown {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(file).mtimeMs;
+    } catch {
+      return null;
+    }
+
+    const cached = CiWidget.cache.get(file);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.data;
+    }
+
+    let data: unknown = null;
+    try {
+      data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      // 写入中途的文件会在下次修改后重新读取 | A half-written file is re-read after its next change
+      if (process.env.DEBUG_WIDGET) {
+        console.error('[CiWidget] Invalid status file:', file, error);
+      }
+    }
+
+    CiWidget.cache.set(file, { mtimeMs, data });
+    return data;
+  }
+
+  /**
+   * 清除缓存 | Clear cache
+   */
+  static clearCache(): void {
+    CiWidget.cache.clear();
+  }
+}
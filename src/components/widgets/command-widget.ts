@@ -0,0 +1,190 @@
+/**
+ * 命令小组件 | Command widget
+ * 执行配置的命令并将解析后的输出交给模板渲染，与SecureGitExecutor使用相同的安全执行选项
+ * Runs a configured command and feeds the parsed output to the template, spawned with the same secure options as SecureGitExecutor
+ */
+
+import { execFile } from 'node:child_process';
+import os from 'node:os';
+import path from 'node:path';
+import type { WidgetCommandConfig, WidgetConfig } from '../../config/schema.js';
+import { buildSecureSpawnOptions, MAX_ARGUMENT_LENGTH } from '../../git/secure-executor.js';
+import type { TerminalCapabilities } from '../../terminal/detector.js';
+import { BaseWidget } from './base-widget.js';
+
+/** 未配置template时的模板 | Template used when none is configured */
+const DEFAULT_TEMPLATE = '{value}';
+
+/**
+ * 命令小组件类 | Command widget class
+ */
+export class CommandWidget extends BaseWidget {
+  private static cache = new Map<string, { data: any; timestamp: number }>();
+
+  constructor(config: WidgetConfig, capabilities: TerminalCapabilities) {
+    super(config, capabilities);
+
+    // 验证配置 | Validate configuration
+    if (config.type !== 'command') {
+      throw new Error(`命令小组件配置类型错误: ${config.type}`);
+    }
+
+    if (!config.command) {
+      throw new Error('命令小组件必须提供command配置');
+    }
+
+    // 参数只经过spawn传递，仍限制长度并拒绝空字符 | Arguments only reach spawn, but length and NUL bytes are still checked
+    for (const arg of config.command.argv) {
+      if (arg.length > MAX_ARGUMENT_LENGTH || arg.includes('\0')) {
+        throw new Error(`命令参数无效: ${arg.substring(0, 50)}`);
+      }
+    }
+  }
+
+  /**
+   * 渲染命令输出 | Render command output
+   */
+  protected async renderContent(context?: any): Promise<string | null> {
+    try {
+      const projectDir: string =
+        context?.inputData?.workspace?.current_dir || context?.inputData?.cwd || process.cwd();
+      const data = await this.runCommand(this.resolveCwd(projectDir));
+      if (data === null) {
+        return null;
+      }
+
+      return this.renderTemplate(this.config.template || DEFAULT_TEMPLATE, data) || null;
+    } catch (error) {
+      // 静默失败 | Silent failure
+      if (process.env.DEBUG_WIDGET) {
+        console.error('[CommandWidget] Render failed:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * 执行命令并解析输出，结果按cache_ttl缓存 | Run the command and parse its output, cached for cache_ttl
+   * 命令失败或没有输出时返回null | Returns null when the command fails or prints nothing
+   */
+  private async runCommand(cwd: string): Promise<any> {
+    const commandConfig = this.config.command as WidgetCommandConfig;
+    const cacheKey = JSON.stringify([
+      commandConfig.argv,
+      cwd,
+      commandConfig.parser,
+      commandConfig.data_path,
+    ]);
+
+    const cached = CommandWidget.cache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < commandConfig.cache_ttl) {
+      return cached.data;
+    }
+
+    const stdout = await this.execute(cwd, commandConfig);
+
+    let data: any = null;
+    if (stdout !== null) {
+      try {
+        data = this.parseOutput(stdout, commandConfig);
+      } catch (error) {
+        if (process.env.DEBUG_WIDGET) {
+          console.error('[CommandWidget] Invalid output:', error);
+        }
+      }
+    }
+
+    // 失败和无法解析的结果同样缓存，避免每次渲染都重试 | Failures and unparsable output are cached too so each render does not retry
+    if (commandConfig.cache_ttl > 0) {
+      CommandWidget.cache.set(cacheKey, { data, timestamp: Date.now() });
+    }
+    return data;
+  }
+
+  /**
+   * 异步执行命令，等待期间不阻塞其他组件和守护进程 | Run the command asynchronously so other components and the daemon keep running
+   * 非零退出、超时或输出超限时返回null | Returns null on a non-zero exit, a timeout or oversized output
+   */
+  private execute(cwd: string, commandConfig: WidgetCommandConfig): Promise<string | null> {
+    const [file, ...args] = commandConfig.argv as [string, ...string[]];
+    const { stdio: _stdio, ...options } = buildSecureSpawnOptions({
+      cwd,
+      timeout: commandConfig.timeout,
+    });
+
+    return new Promise((resolve) => {
+      const child = execFile(
+        file,
+        args,
+        { ...options, encoding: 'utf8' },
+        (error, stdout, stderr) => {
+          if (error) {
+            if (process.env.DEBUG_WIDGET) {
+              console.error('[CommandWidget] Command failed:', stderr || error);
+            }
+            resolve(null);
+            return;
+          }
+          resolve(stdout);
+        }
+      );
+      // execFile总是为stdin创建管道，立即关闭以免命令等待输入 | execFile always pipes stdin; close it so the command never waits for input
+      child.stdin?.end();
+    });
+  }
+
+  /**
+   * 解析命令输出为模板数据 | Parse command output into template data
+   * 模板中 {value} 为解析结果，{output} 为原始输出；JSON对象的字段可直接引用
+   * In templates {value} is the parsed result and {output} the raw output; JSON object fields are referenced directly
+   */
+  private parseOutput(stdout: string, commandConfig: WidgetCommandConfig): any {
+    const output = stdout.trimEnd();
+    if (!output.trim()) {
+      return null;
+    }
+
+    switch (commandConfig.parser) {
+      case 'raw':
+        return { value: output, output };
+
+      case 'json': {
+        const parsed = JSON.parse(output);
+        const value = commandConfig.data_path
+          ? this.getValueFromPath(commandConfig.data_path, parsed)
+          : parsed;
+        if (value === undefined || value === null) {
+          return null;
+        }
+        return typeof value === 'object' && !Array.isArray(value)
+          ? { ...value, value, output }
+          : { value, output };
+      }
+
+      default:
+        return { value: output.split('\n')[0]?.trim() ?? '', output };
+    }
+  }
+
+  /**
+   * 解析工作目录 | Resolve the working directory
+   * 支持 ~ 开头的路径，相对路径基于当前项目目录 | Supports ~ paths; relative paths resolve against the project directory
+   */
+  private resolveCwd(projectDir: string): string {
+    const cwd = this.config.command?.cwd;
+    if (!cwd) {
+      return projectDir;
+    }
+    if (cwd === '~' || cwd.startsWith('~/')) {
+      return path.join(os.homedir(), cwd.slice(1));
+    }
+    return path.resolve(projectDir, cwd);
+  }
+
+  /**
+   * 清除缓存 | Clear cache
+   */
+  static clearCache(): void {
+    CommandWidget.cache.clear();
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * 文件小组件 | File widget
+ * 读取JSON、TOML、dotenv或纯文本文件，提取data_path指向的值并渲染模板，按文件修改时间缓存
+ * Reads a JSON, TOML, dotenv or plain text file, extracts the value at data_path and renders the template, cached by file mtime
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import TOML from '@iarna/toml';
+import type { WidgetConfig, WidgetFileConfig } from '../../config/schema.js';
+import type { TerminalCapabilities } from '../../terminal/detector.js';
+import { BaseWidget } from './base-widget.js';
+
+/**
+ * 文件格式 | File format
+ */
+export type FileFormat = Exclude<WidgetFileConfig['format'], 'auto'>;
+
+/** 未配置template时的模板 | Template used when none is configured */
+const DEFAULT_TEMPLATE = '{value}';
+
+/** 单个文件最大读取大小 | Maximum size of a file that is read */
+const MAX_FILE_SIZE = 1024 * 1024; // 1MB
+
+/**
+ * 按扩展名判断文件格式 | Pick the file format by extension
+ * .env、.env.local等为dotenv | .env, .env.local and the like are dotenv
+ */
+export function detectFileFormat(file: string): FileFormat {
+  const name = path.basename(file).toLowerCase();
+  if (name === '.env' || name.startsWith('.env.') || name.endsWith('.env')) {
+    return 'dotenv';
+  }
+  switch (path.extname(name)) {
+    case '.json':
+      return 'json';
+    case '.toml':
+      return 'toml';
+    default:
+      return 'raw';
+  }
+}
+
+/**
+ * 解析dotenv内容 | Parse dotenv content
+ * 支持注释、export前缀和引号，双引号内支持 \n 转义 | Supports comments, the export prefix and quotes; \n escapes inside double quotes
+ */
+export function parseDotenv(content: string): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const match = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/.exec(rawLine);
+    if (!match?.[1]) continue;
+
+    let value = (match[2] ?? '').trim();
+    // 引号后可跟注释 | A quoted value may be followed by a comment
+    const quoted = /^(["'])(.*?)\1\s*(?:#.*)?$/.exec(value);
+    if (quoted) {
+      value = quoted[2] ?? '';
+      if (quoted[1] === '"') value = value.replace(/\\n/g, '\n');
+    } else {
+      // 未加引号的值中 # 之后为注释 | In unquoted values everything after # is a comment
+      value = value.replace(/\s+#.*$/, '');
+    }
+    result[match[1]] = value;
+  }
+
+  return result;
+}
+
+/**
+ * 解析文件内容 | Parse file content
+ */
+export function parseFileContent(content: string, format: FileFormat): unknown {
+  switch (format) {
+    case 'json':
+      return JSON.parse(content);
+    case 'toml':
+      // JSON往返去除@iarna/toml附加的Symbol键 | JSON round-trip drops the Symbol keys added by @iarna/toml
+      return JSON.parse(JSON.stringify(TOML.parse(content)));
+    case 'dotenv':
+      return parseDotenv(content);
+    default:
+      return content.trim();
+  }
+}
+
+/**
+ * 文件小组件类 | File widget class
+ */
+export class FileWidget extends BaseWidget {
+  /** 解析结果按修改时间缓存 | Parsed documents cached by mtime */
+  private static cache = new Map<string, { mtimeMs: number; size: number; data: unknown }>();
+
+  constructor(config: WidgetConfig, capabilities: TerminalCapabilities) {
+    super(config, capabilities);
+
+    // 验证配置 | Validate configuration
+    if (config.type !== 'file') {
+      throw new Error(`文件小组件配置类型错误: ${config.type}`);
+    }
+
+    if (!config.file?.path) {
+      throw new Error('文件小组件必须提供file.path配置');
+    }
+  }
+
+  /**
+   * 渲染文件内容 | Render file content
+   */
+  protected async renderContent(context?: any): Promise<string | null> {
+    try {
+      const fileConfig = this.config.file as WidgetFileConfig;
+      const projectDir: string =
+        context?.inputData?.workspace?.current_dir || context?.inputData?.cwd || process.cwd();
+      const file = this.resolvePath(fileConfig.path, projectDir);
+      const format = fileConfig.format === 'auto' ? detectFileFormat(file) : fileConfig.format;
+
+      const document = FileWidget.readFile(file, format);
+      if (document === null || document === '') {
+        return null;
+      }
+
+      const value = fileConfig.data_path
+        ? this.getValueFromPath(fileConfig.data_path, document)
+        : document;
+      if (value === undefined || value === null) {
+        return null;
+      }
+
+      // 对象的字段可直接在模板中引用 | Object fields can be referenced directly in templates
+      const data =
+        typeof value === 'object' && !Array.isArray(value) ? { ...value, value } : { value };
+      return this.renderTemplate(this.config.template || DEFAULT_TEMPLATE, data) || null;
+    } catch (error) {
+      // 静默失败 | Silent failure
+      if (process.env.DEBUG_WIDGET) {
+        console.error('[FileWidget] Render failed:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * 解析文件路径 | Resolve the file path
+   * 展开 ~ 和 ${VAR}，相对路径基于当前项目目录 | Expands ~ and ${VAR}; relative paths resolve against the project directory
+   */
+  private resolvePath(file: string, projectDir: string): string {
+    const expanded = file.replace(
+      /\$\{(\w+)\}/g,
+      (_match, name: string) => process.env[name] ?? ''
+    );
+    if (expanded === '~' || expanded.startsWith('~/')) {
+      return path.join(os.homedir(), expanded.slice(1));
+    }
+    return path.resolve(projectDir, expanded);
+  }
+
+  /**
+   * 读取并解析文件，不存在、过大或无效时返回null | Read and parse a file; null when missing, too large or invalid
+   */
+  private static readFile(file: string, format: FileFormat): unknown {
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(file);
+    } catch {
+      return null;
+    }
+    if (!stats.isFile() || stats.size > MAX_FILE_SIZE) {
+      return null;
+    }
+
+    const cacheKey = `${format}:${file}`;
+    const cached = FileWidget.cache.get(cacheKey);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      return cached.data;
+    }
+
+    let data: unknown = null;
+    try {
+      data = parseFileContent(fs.readFileSync(file, 'utf-8'), format);
+    } catch (error) {
+      if (process.env.DEBUG_WIDGET) {
+        console.error('[FileWidget] Failed to parse file:', file, error);
+      }
+    }
+
+    FileWidget.cache.set(cacheKey, { mtimeMs: stats.mtimeMs, size: stats.size, data });
+    return data;
+  }
+
+  /**
+   * 清除缓存 | Clear cache
+   */
+  static clearCache(): void {
+    FileWidget.cache.clear();
+  }
+}
@@ -7,6 +7,9 @@ import type { WidgetConfig } from '../../config/schema.js';
 import type { TerminalCapabilities } from '../../terminal/detector.js';
 import { ApiWidget } from './api-widget.js';
 import { BaseWidget } from './base-widget.js';
+import { CiWidget } from './ci-widget.js';
+import { CommandWidget } from './command-widget.js';
+import { FileWidget } from './file-widget.js';
 import { InfoWidget } from './info-widget.js';
 import { StaticWidget } from './static-widget.js';
 
@@ -24,6 +27,15 @@ export function createWidget(config: WidgetConfig, capabilities: TerminalCapabil
     case 'info':
       return new InfoWidget(config, capabilities);
 
+    case 'ci':
+      return new CiWidget(config, capabilities);
+
+    case 'command':
+      return new CommandWidget(config, capabilities);
+
+    case 'file':
+      return new FileWidget(config, capabilities);
+
     default:
       throw new Error(`不支持的小组件类型: ${config.type}`);
   }
@@ -80,6 +92,23 @@ export function validateWidgetConfig(config: WidgetConfig): { valid: boolean; er
       }
       break;
 
+    case 'command':
+      if (!config.command?.argv?.length) {
+        errors.push('命令小组件必须提供command.argv');
+      }
+      break;
+
+    case 'file':
+      if (!config.file?.path) {
+        errors.push('文件小组件必须提供file.path');
+      }
+      break;
+
+    case 'info':
+    case 'ci':
+      // template可选，未配置时使用默认渲染 | template is optional; default rendering is used without it
+      break;
+
     default:
       errors.push(`不支持的小组件类型: ${config.type}`);
   }
@@ -94,11 +123,11 @@ export function validateWidgetConfig(config: WidgetConfig): { valid: boolean; er
  * 获取支持的小组件类型 | Get supported widget types
  */
 export function getSupportedWidgetTypes(): string[] {
-  return ['static', 'api', 'info'];
+  return ['static', 'api', 'info', 'ci', 'command', 'file'];
 }
 
 /**
  * 导出小组件类型 | Export widget types
  */
-export { BaseWidget, StaticWidget, ApiWidget, InfoWidget };
+export { BaseWidget, StaticWidget, ApiWidget, InfoWidget, CiWidget, CommandWidget, FileWidget };
 export type { WidgetConfig };
@@ -24,7 +24,7 @@ const ComponentMultilineConfigSchema = z.object({
     z.object({
       enabled: z.boolean().default(true),
       force: z.boolean().optional(),
-      type: z.enum(['static', 'api', 'info']),
+      type: z.enum(['static', 'api', 'info', 'ci', 'command', 'file']),
       row: z.number().min(1),
       col: z.number().min(0),
       nerd_icon: z.string(),
@@ -42,6 +42,29 @@ const ComponentMultilineConfigSchema = z.object({
           data_path: z.string(),
         })
         .optional(),
+      ci: z
+        .object({
+          status_file: z.string().default('statusline-ci.json'),
+          max_age: z.number().min(1).optional(),
+        })
+        .optional(),
+      command: z
+        .object({
+          argv: z.array(z.string()).min(1),
+          cwd: z.string().optional(),
+          timeout: z.number().min(100).max(30000).default(1000),
+          cache_ttl: z.number().min(0).default(5000),
+          parser: z.enum(['raw', 'first_line', 'json']).default('first_line'),
+          data_path: z.string().optional(),
+        })
+        .optional(),
+      file: z
+        .object({
+          path: z.string(),
+          format: z.enum(['auto', 'json', 'toml', 'dotenv', 'raw']).default('auto'),
+          data_path: z.string().optional(),
+        })
+        .optional(),
       detection: z
         .object({
           env: z.union([z.string(), z.array(z.string())]), // 支持单个或数组
@@ -5,9 +5,17 @@ import { fileURLToPath } from 'node:url';
 import TOML from '@iarna/toml';
 import type { ZodError } from 'zod';
 import { detectSystemLanguage } from '../cli/i18n.js';
+import { withFileLock } from '../storage/lock.js';
 import type { TerminalCapabilities } from '../terminal/detector.js';
+import { getCustomThemeFeatures, loadCustomTheme, themeExists } from '../themes/custom.js';
 import { projectResolver } from '../utils/project-resolver.js';
-import { type ComponentsConfig, type Config, ConfigSchema } from './schema.js';
+import { resolvePreset, warnPresetResolution } from './preset.js';
+import {
+  type ComponentsConfig,
+  type Config,
+  ConfigSchema,
+  DEFAULT_PRESET_MAPPING,
+} from './schema.js';
 
 // ES模块和CommonJS兼容的__dirname处理
 let __dirname: string;
@@ -307,30 +315,12 @@ export class ConfigLoader {
     if (!config.preset) return config;
 
     const preset = config.preset.toUpperCase();
-    const mapping = config.preset_mapping;
+    const mapping = config.preset_mapping ?? DEFAULT_PRESET_MAPPING;
 
-    // 如果没有映射配置，使用默认值
-    if (!mapping) {
-      console.warn('No preset mapping found, using default');
-      return config;
-    }
-
-    // 验证预设字符串 | Validate preset string
-    for (const char of preset) {
-      if (!(char in mapping)) {
-        console.warn(`Unknown preset character: ${char}`);
-        return config;
-      }
-    }
-
-    // 生成组件顺序 | Generate component order
-    const newOrder: string[] = [];
-    for (const char of preset) {
-      const componentName = mapping[char as keyof typeof mapping];
-      if (componentName) {
-        newOrder.push(componentName);
-      }
-    }
+    // 生成组件顺序，未映射的字母给出警告 | Generate component order, warning about unmapped letters
+    const resolution = resolvePreset(preset, mapping);
+    warnPresetResolution(preset, resolution);
+    const newOrder = resolution.components;
 
     // 更新配置 | Update config
     const updatedConfig = { ...config };
@@ -394,6 +384,23 @@ export class ConfigLoader {
       return config;
     }
 
+    // 用户主题文件：将其特性写入themes配置 | User theme file: merge its features into the themes config
+    try {
+      const customTheme = loadCustomTheme(config.theme);
+      if (customTheme) {
+        return {
+          ...config,
+          themes: { ...config.themes, [config.theme]: getCustomThemeFeatures(customTheme) },
+        };
+      }
+    } catch (error) {
+      console.warn(
+        `主题文件加载失败 | Failed to load theme "${config.theme}":`,
+        error instanceof Error ? error.message : error
+      );
+      return config;
+    }
+
     console.warn(`Theme "${config.theme}" not found in themes or templates, using default`);
     return config;
   }
@@ -412,6 +419,7 @@ export class ConfigLoader {
         enable_emoji: 'auto',
         enable_nerd_font: 'auto',
         separator_color: 'white',
+        background: 'auto',
         separator_before: ' ',
         separator_after: ' ',
         compact_mode: false,
@@ -574,7 +582,9 @@ export class ConfigLoader {
           if (issue.path.includes('language')) {
             console.error('    Hint: language should be "zh" or "en"');
           } else if (issue.path.includes('theme')) {
-            console.error('    Hint: theme should be "classic", "powerline", or "capsule"');
+            console.error(
+              '    Hint: theme should be "classic", "powerline", "capsule", or a theme file name'
+            );
           } else if (issue.code === 'invalid_type') {
             const invalidTypeIssue = issue as any; // Type assertion for Zod issue
             console.error(
@@ -613,6 +623,27 @@ export class ConfigLoader {
     return this.configPath;
   }
 
+  /**
+   * 获取可能参与加载的配置文件路径 | Get config file paths that may take part in loading
+   * 用于检测配置变更（文件不一定存在）| Used to detect config changes (files may not exist)
+   */
+  getConfigFilePaths(options: ConfigLoadOptions = {}): string[] {
+    if (options.customPath) {
+      return [this.validateConfigPath(options.customPath)];
+    }
+
+    return [
+      this.getUserConfigPathInternal(),
+      this.getProjectConfigPath(options.projectId),
+      path.join(
+        process.env.HOME || process.env.USERPROFILE || '',
+        '.config',
+        'claude-statusline',
+        'config.toml'
+      ),
+    ];
+  }
+
   /**
    * 清除缓存 | Clear cache
    */
@@ -883,7 +914,9 @@ order = ["project", "model", "branch", "tokens", "usage", "status"]`;
         targetPath = path.join(process.cwd(), 'config.toml');
       }
 
-      await fs.promises.writeFile(targetPath, configContent, 'utf-8');
+      await withFileLock(targetPath, () =>
+        fs.promises.writeFile(targetPath, configContent, 'utf-8')
+      );
 
       // 复制组件配置文件 | Copy component config files
       if (copyComponents) {
@@ -1011,7 +1044,7 @@ order = ["project", "model", "branch", "tokens", "usage", "status"]`;
   async save(config: Config, configPath?: string): Promise<void> {
     const targetPath = configPath || this.configPath || path.join(process.cwd(), 'config.toml');
     const content = TOML.stringify(config as TOML.JsonMap);
-    await fs.promises.writeFile(targetPath, content, 'utf8');
+    await withFileLock(targetPath, () => fs.promises.writeFile(targetPath, content, 'utf8'));
     this.configPath = targetPath;
     this.cachedConfig = null; // 清除缓存
   }
@@ -1030,8 +1063,8 @@ order = ["project", "model", "branch", "tokens", "usage", "status"]`;
    */
   async applyTheme(themeName: string): Promise<void> {
     const currentConfig = await this.loadConfig();
-    // 类型安全的主题设置
-    if (themeName === 'classic' || themeName === 'powerline' || themeName === 'capsule') {
+    // 内置主题或用户主题目录中存在的主题 | Builtin themes or themes present in the user themes directory
+    if (themeExists(themeName)) {
       currentConfig.theme = themeName;
     } else {
       console.warn(`Unknown theme: ${themeName}, using classic`);
@@ -0,0 +1,81 @@
+/**
+ * 预设字符串解析 | Preset string parsing
+ * 按preset_mapping将 "PMBTUS" 这类预设展开为组件名，并报告无法解析的字母
+ * Expands presets like "PMBTUS" into component names via preset_mapping and reports letters that cannot be resolved
+ */
+
+import { DEFAULT_PRESET_MAPPING } from './schema.js';
+
+/** 已输出的预设警告，配置加载和生成器共用 | Preset warnings already printed, shared by the config loader and generator */
+const printedWarnings = new Set<string>();
+
+/**
+ * 预设解析结果 | Preset resolution result
+ */
+export interface PresetResolution {
+  /** 组件名，按预设顺序 | Component names in preset order */
+  components: string[];
+  /** 未映射的字母 | Letters without a mapping */
+  unknownLetters: string[];
+  /** 映射到未注册组件的字母 | Letters mapped to unregistered components */
+  unregistered: Array<{ letter: string; component: string }>;
+}
+
+/**
+ * 解析预设字符串 | Resolve a preset string
+ * 提供registered时，映射到未注册组件的字母也会被剔除
+ * With `registered`, letters mapped to unregistered components are dropped as well
+ */
+export function resolvePreset(
+  preset: string,
+  mapping: Record<string, string> = DEFAULT_PRESET_MAPPING,
+  registered?: Iterable<string>
+): PresetResolution {
+  const known = registered ? new Set(registered) : null;
+  const resolution: PresetResolution = { components: [], unknownLetters: [], unregistered: [] };
+
+  for (const char of preset) {
+    const letter = char.toUpperCase();
+    const component = Object.hasOwn(mapping, letter) ? mapping[letter] : undefined;
+
+    if (!component) {
+      resolution.unknownLetters.push(letter);
+    } else if (known && !known.has(component)) {
+      resolution.unregistered.push({ letter, component });
+    } else {
+      resolution.components.push(component);
+    }
+  }
+
+  return resolution;
+}
+
+/**
+ * 生成预设解析警告 | Build warnings for a preset resolution
+ */
+export function formatPresetWarnings(preset: string, resolution: PresetResolution): string[] {
+  const warnings = [...new Set(resolution.unknownLetters)].map(
+    (letter) =>
+      `预设 "${preset}" 中的字母 ${letter} 未映射到组件 | Preset "${preset}": letter "${letter}" is not mapped to a component; add it under [preset_mapping]`
+  );
+
+  for (const { letter, component } of resolution.unregistered) {
+    warnings.push(
+      `预设 "${preset}" 中的字母 ${letter} 映射到未注册的组件 "${component}" | Preset "${preset}": letter "${letter}" maps to "${component}", which is not a registered component`
+    );
+  }
+
+  return [...new Set(warnings)];
+}
+
+/**
+ * 输出预设解析警告，每条只输出一次 | Print preset resolution warnings, each only once
+ */
+export function warnPresetResolution(preset: string, resolution: PresetResolution): void {
+  for (const warning of formatPresetWarnings(preset, resolution)) {
+    if (!printedWarnings.has(warning)) {
+      printedWarnings.add(warning);
+      console.warn(warning);
+    }
+  }
+}
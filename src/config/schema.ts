@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { isHexColor, isPaletteColorReference, PALETTE_NAMES } from '../terminal/palettes.js';
+import { customThemeFileExists, getCustomThemesDir } from '../themes/paths.js';
 
 // ==================== Transcript 相关类型 ====================
 
@@ -32,13 +34,55 @@ export const TranscriptEntrySchema = z
 
 export type TranscriptEntry = z.infer<typeof TranscriptEntrySchema>;
 
+/**
+ * Transcript快照模式 | Transcript snapshot schema
+ * 由增量transcript索引产出，通过渲染上下文共享给各组件
+ * Produced by the incremental transcript index and shared with components via the render context
+ */
+export const TranscriptSnapshotSchema = z.object({
+  /** transcript文件路径 | Transcript file path */
+  path: z.string(),
+  /** 已索引的字节数 | Number of bytes indexed */
+  size: z.number(),
+  /** 已解析的条目数 | Number of parsed entries */
+  entryCount: z.number(),
+  /** 最近一次压缩的条目序号，未压缩时为-1 | Entry index of the latest compaction, -1 if never compacted */
+  compactBoundary: z.number(),
+  /** 压缩边界之后最新的usage | Latest usage after the compaction boundary */
+  latestUsage: z
+    .object({
+      usage: UsageInfoSchema,
+      totalTokens: z.number(),
+      entryIndex: z.number(),
+    })
+    .nullable(),
+  /** 最新带usage的assistant条目的stop_reason | stop_reason of the latest assistant entry with usage */
+  lastStopReason: z.string().nullable(),
+  /** 最新带usage的assistant条目 | Latest assistant entry with usage */
+  lastAssistantEntry: TranscriptEntrySchema.nullable(),
+  /** 最后一个条目的类型 | Type of the last entry */
+  lastEntryType: z.string().nullable(),
+  /** 按模型累计的会话usage（含压缩前） | Cumulative session usage per model, including before compaction */
+  usageByModel: z.record(z.string(), UsageInfoSchema),
+  /** 最近的tool_use调用（按时间顺序） | Recent tool_use calls (chronological) */
+  recentToolUses: z.array(
+    z.object({
+      name: z.string(),
+      id: z.string().optional(),
+      entryIndex: z.number(),
+    })
+  ),
+});
+
+export type TranscriptSnapshot = z.infer<typeof TranscriptSnapshotSchema>;
+
 // ==================== 基础配置类型 ====================
 
 /**
  * 颜色枚举 | Color enum
  * 支持标准终端颜色和亮色变体 | Supports standard terminal colors and bright variants
  */
-const ColorSchema = z.enum([
+const NamedColorSchema = z.enum([
   'black',
   'red',
   'green',
@@ -57,6 +101,18 @@ const ColorSchema = z.enum([
   'bright_white',
 ]);
 
+/**
+ * 颜色 | Color
+ * 标准颜色名、#rrggbb 或调色板引用(如 "nord.nord8")，按终端色深自动降级
+ * A standard color name, #rrggbb or a palette reference (e.g. "nord.nord8"), degraded to the terminal color depth
+ */
+const ColorSchema = z.union([
+  NamedColorSchema,
+  z.string().refine((value) => isHexColor(value) || isPaletteColorReference(value), {
+    message: 'Expected a color name, #rrggbb, or a palette color such as "nord.nord8"',
+  }),
+]);
+
 /**
  * 自动检测选项 | Auto detection option
  * 支持布尔值或'auto'字符串 | Supports boolean or 'auto' string
@@ -95,18 +151,29 @@ const StyleSchema = z.object({
   enable_nerd_font: AutoDetectSchema.default('auto'),
   /** 分隔符颜色 | Separator color (新增) */
   separator_color: ColorSchema.default('white'),
+  /** 命名调色板，标准颜色名映射到该调色板 | Named palette; standard color names map onto it */
+  palette: z.enum(PALETTE_NAMES).optional(),
+  /** 终端背景，auto时自动检测并选择主题的浅色或深色配色 | Terminal background; auto detects it and picks the theme's light or dark variant */
+  background: z.enum(['auto', 'light', 'dark']).default('auto'),
   /** 分隔符前空格 | Space before separator (新增) */
   separator_before: z.string().default(' '),
   /** 分隔符后空格 | Space after separator (新增) */
   separator_after: z.string().default(' '),
   /** 紧凑模式 | Compact mode */
   compact_mode: z.boolean().default(false),
-  /** 最大宽度限制 | Maximum width limit */
+  /** 最大宽度限制，与COLUMNS取较小值，0表示不限制 | Maximum width limit, capped by COLUMNS; 0 means unlimited */
   max_width: z.number().min(0).default(0),
 });
 
 // ==================== 重构：基础组件配置 ====================
 
+/**
+ * 组件收缩形态 | Component collapse form
+ * 宽度不足时使用：full完整显示，short仅保留主体并截断文本，icon仅显示图标
+ * Used when the line is too wide: full output, short keeps the main part with truncated text, icon shows only the icon
+ */
+export const LayoutFormSchema = z.enum(['full', 'short', 'icon']);
+
 /**
  * 基础组件配置 | Base component config
  * 支持图标色和文字色分离 | Supports separate icon and text colors
@@ -124,6 +191,14 @@ const BaseComponentSchema = z.object({
   nerd_icon: z.string().optional(),
   /** 文本图标 | Text icon */
   text_icon: z.string().optional(),
+  /** 布局优先级，宽度不足时先收缩再移除低优先级组件 | Layout priority; lower-priority components collapse and drop first */
+  priority: z.number().optional(),
+  /** 第一级收缩形态 | First collapse form */
+  compact_form: LayoutFormSchema.optional(),
+  /** 最小收缩形态 | Smallest collapse form */
+  min_form: LayoutFormSchema.optional(),
+  /** 显示条件表达式，如 "git.dirty" 或 "cost.usd > 0" | Visibility condition, e.g. "git.dirty" or "cost.usd > 0" */
+  when: z.string().optional(),
 });
 
 // ==================== 组件配置定义 ====================
@@ -161,6 +236,20 @@ const BranchStatusSchema = z.object({
   show_ahead_behind: z.boolean().default(false),
   /** 显示stash数量 | Show stash count */
   show_stash_count: z.boolean().default(false),
+  /** 显示进行中的Git操作(merge/rebase/cherry-pick/bisect) | Show in-progress Git operation (merge/rebase/cherry-pick/bisect) */
+  show_operation: z.boolean().optional(),
+  /** 显示操作详情(如 3/7 或合并来源分支)，默认开启 | Show operation detail (e.g. 3/7 or merge source branch), on by default */
+  show_operation_detail: z.boolean().optional(),
+  /** 显示HEAD短SHA | Show HEAD short SHA */
+  show_sha: z.boolean().optional(),
+  /** 显示最近的标签(git describe) | Show nearest tag (git describe) */
+  show_tag: z.boolean().optional(),
+  /** 显示HEAD提交时间(如 2h ago) | Show HEAD commit age (e.g. 2h ago) */
+  show_commit_age: z.boolean().optional(),
+  /** 显示链接工作树或子模块标记，子模块附带父仓库名 | Show a linked worktree or submodule marker, with the superproject name for submodules */
+  show_repo_type: z.boolean().optional(),
+  /** 显示相对HEAD的改动统计(如 +120 -34 (5 files))，大仓库时跳过 | Show diff stats against HEAD (e.g. +120 -34 (5 files)); skipped on large repositories */
+  show_diff_stat: z.boolean().optional(),
 });
 
 /**
@@ -186,6 +275,27 @@ const BranchStatusIconsSchema = z.object({
   ahead_text: z.string().default('[↑]'),
   behind_text: z.string().default('[↓]'),
   stash_text: z.string().default('[S]'),
+  /** Git操作图标(未配置时使用内置默认值) | Git operation icons (builtin defaults when unset) */
+  operation_emoji: z.string().optional(),
+  operation_nerd: z.string().optional(),
+  operation_text: z.string().optional(),
+  /** 版本信息图标(未配置时使用内置默认值) | Version info icons (builtin defaults when unset) */
+  sha_emoji: z.string().optional(),
+  sha_nerd: z.string().optional(),
+  sha_text: z.string().optional(),
+  tag_emoji: z.string().optional(),
+  tag_nerd: z.string().optional(),
+  tag_text: z.string().optional(),
+  age_emoji: z.string().optional(),
+  age_nerd: z.string().optional(),
+  age_text: z.string().optional(),
+  /** 工作树与子模块图标(未配置时使用内置默认值) | Worktree and submodule icons (builtin defaults when unset) */
+  worktree_emoji: z.string().optional(),
+  worktree_nerd: z.string().optional(),
+  worktree_text: z.string().optional(),
+  submodule_emoji: z.string().optional(),
+  submodule_nerd: z.string().optional(),
+  submodule_text: z.string().optional(),
 });
 
 /**
@@ -203,6 +313,14 @@ const BranchStatusColorsSchema = z.object({
   behind: ColorSchema.default('magenta'),
   /** 操作进行中颜色 | Operation in progress color */
   operation: ColorSchema.default('red'),
+  /** 版本信息颜色 | Version info color */
+  version: ColorSchema.optional(),
+  /** 工作树与子模块标记颜色 | Worktree and submodule marker color */
+  repo: ColorSchema.optional(),
+  /** 新增行数颜色 | Inserted lines color */
+  insertions: ColorSchema.optional(),
+  /** 删除行数颜色 | Deleted lines color */
+  deletions: ColorSchema.optional(),
 });
 
 /**
@@ -410,6 +528,10 @@ export const UsageComponentSchema = BaseComponentSchema.extend({
   show_lines_added: z.boolean().default(true),
   /** 显示删除的代码行数 | Show lines removed */
   show_lines_removed: z.boolean().default(true),
+  /** 缺少官方成本时根据transcript估算 | Estimate cost from the transcript when official cost is missing */
+  estimate_cost: z.boolean().optional(),
+  /** 配置预算时显示预算进度 | Show budget progress when a budget is configured */
+  show_budget: z.boolean().optional(),
 });
 
 // ==================== 组件配置集合 ====================
@@ -417,22 +539,24 @@ export const UsageComponentSchema = BaseComponentSchema.extend({
 /**
  * 组件配置集合 | Components config collection
  */
-const ComponentsSchema = z.object({
-  /** 组件显示顺序 | Component display order */
-  order: z.array(z.string()).default(['project', 'model', 'branch', 'tokens', 'usage', 'status']),
-  /** 项目组件配置 | Project component config */
-  project: ProjectComponentSchema.optional(),
-  /** 模型组件配置 | Model component config */
-  model: ModelComponentSchema.optional(),
-  /** 分支组件配置 | Branch component config */
-  branch: BranchComponentSchema.optional(),
-  /** Token组件配置 | Token component config */
-  tokens: TokenComponentSchema.optional(),
-  /** Usage组件配置 | Usage component config */
-  usage: UsageComponentSchema.optional(),
-  /** 状态组件配置 | Status component config */
-  status: StatusComponentSchema.optional(),
-});
+const ComponentsSchema = z
+  .object({
+    /** 组件显示顺序 | Component display order */
+    order: z.array(z.string()).default(['project', 'model', 'branch', 'tokens', 'usage', 'status']),
+    /** 项目组件配置 | Project component config */
+    project: ProjectComponentSchema.optional(),
+    /** 模型组件配置 | Model component config */
+    model: ModelComponentSchema.optional(),
+    /** 分支组件配置 | Branch component config */
+    branch: BranchComponentSchema.optional(),
+    /** Token组件配置 | Token component config */
+    tokens: TokenComponentSchema.optional(),
+    /** Usage组件配置 | Usage component config */
+    usage: UsageComponentSchema.optional(),
+    /** 状态组件配置 | Status component config */
+    status: StatusComponentSchema.optional(),
+  })
+  .passthrough(); // 允许插件组件配置 | Allow plugin component configs
 
 // ==================== 简化：主题配置系统 ====================
 
@@ -453,6 +577,7 @@ const ThemeConfigSchema = z.object({
 
 /**
  * 主题集合配置 | Themes collection config
+ * 额外的键对应用户自定义主题 | Extra keys belong to user-defined themes
  */
 const ThemesSchema = z
   .object({
@@ -463,8 +588,68 @@ const ThemesSchema = z
     /** Capsule主题配置 | Capsule theme config */
     capsule: ThemeConfigSchema.optional(),
   })
+  .catchall(ThemeConfigSchema)
   .optional();
 
+/**
+ * 内置渲染器 | Builtin renderers
+ */
+export const BaseThemeSchema = z.enum(['classic', 'powerline', 'capsule']);
+
+/**
+ * 主题段落颜色 | Theme segment colors
+ */
+const ThemePaletteEntrySchema = z.object({
+  /** 前景色 | Foreground color */
+  fg: ColorSchema.optional(),
+  /** 背景色 | Background color */
+  bg: ColorSchema.optional(),
+});
+
+/**
+ * 用户主题文件 | User theme file
+ * 位于 ~/.claude/statusline-pro/themes/<name>.toml | Located at ~/.claude/statusline-pro/themes/<name>.toml
+ */
+export const CustomThemeSchema = z.object({
+  /** 基础渲染器 | Base renderer */
+  base: BaseThemeSchema.default('classic'),
+  /** 主题描述 | Theme description */
+  description: z.string().optional(),
+  /** 分隔符 | Separators */
+  separators: z
+    .object({
+      /** 组件间分隔符 | Separator between components */
+      separator: z.string().optional(),
+      /** 分隔符颜色(classic) | Separator color (classic) */
+      color: ColorSchema.optional(),
+      /** 分隔符前缀(classic) | Text before the separator (classic) */
+      before: z.string().optional(),
+      /** 分隔符后缀(classic) | Text after the separator (classic) */
+      after: z.string().optional(),
+    })
+    .optional(),
+  /** 段落端帽(powerline/capsule) | Segment caps (powerline/capsule) */
+  caps: z
+    .object({
+      /** 左端帽 | Left cap */
+      left: z.string().optional(),
+      /** 右端帽 | Right cap */
+      right: z.string().optional(),
+    })
+    .optional(),
+  /** 按组件名的颜色，default作用于其余组件 | Colors by component name; `default` applies to the rest */
+  palette: z.record(z.string(), ThemePaletteEntrySchema).optional(),
+  /** 主题特性，缺省继承基础渲染器 | Theme features, inherited from the base renderer by default */
+  features: z
+    .object({
+      enable_gradient: z.boolean().optional(),
+      ignore_separator: z.boolean().optional(),
+      fine_progress: z.boolean().optional(),
+      capsule_style: z.boolean().optional(),
+    })
+    .optional(),
+});
+
 // ==================== 高级配置 ====================
 
 /**
@@ -505,6 +690,57 @@ const StorageSchema = z
   })
   .optional();
 
+// ==================== 定价配置 ====================
+
+/**
+ * 单个模型定价 | Per-model pricing
+ * 单位为每百万token美元 | Rates are USD per million tokens
+ */
+export const ModelPricingSchema = z.object({
+  /** 输入token单价 | Input token rate */
+  input: z.number().min(0),
+  /** 输出token单价 | Output token rate */
+  output: z.number().min(0),
+  /** 缓存写入单价，默认输入单价的1.25倍 | Cache write rate, defaults to 1.25x input */
+  cache_write: z.number().min(0).optional(),
+  /** 缓存读取单价，默认输入单价的0.1倍 | Cache read rate, defaults to 0.1x input */
+  cache_read: z.number().min(0).optional(),
+});
+
+/**
+ * 定价表配置 | Pricing table config
+ * 键为模型ID或其前缀 | Keys are model ids or prefixes of them
+ */
+const PricingSchema = z.record(z.string(), ModelPricingSchema).optional();
+
+// ==================== 预算配置 ====================
+
+/**
+ * 预算周期枚举 | Budget period enum
+ */
+const BudgetPeriodSchema = z.enum(['daily', 'weekly', 'monthly']);
+
+/**
+ * 成本预算配置 | Cost budget config
+ * 跨项目汇总花费并与限额比较 | Aggregates spend across projects and compares it with limits
+ */
+const BudgetSchema = z
+  .object({
+    /** 每日限额(USD) | Daily limit in USD */
+    daily: z.number().positive().optional(),
+    /** 每周限额(USD)，周一开始 | Weekly limit in USD, weeks start on Monday */
+    weekly: z.number().positive().optional(),
+    /** 每月限额(USD) | Monthly limit in USD */
+    monthly: z.number().positive().optional(),
+    /** 显示的周期，默认显示占用比例最高的周期 | Period to display, defaults to the one with the highest usage */
+    period: BudgetPeriodSchema.optional(),
+    /** 警告阈值(%) | Warning threshold in percent */
+    warning_threshold: z.number().min(0).default(80),
+    /** 临界阈值(%) | Critical threshold in percent */
+    critical_threshold: z.number().min(0).default(100),
+  })
+  .optional();
+
 // ==================== 多行系统配置 ====================
 
 /**
@@ -525,6 +761,46 @@ const WidgetApiConfigSchema = z.object({
   data_path: z.string(),
 });
 
+/**
+ * 小组件CI状态配置 | Widget CI status config
+ */
+const WidgetCiConfigSchema = z.object({
+  /** 按分支记录的CI状态JSON文件，相对路径基于仓库的.git目录 | JSON file of CI status keyed by branch; relative paths resolve against the repo's .git directory */
+  status_file: z.string().default('statusline-ci.json'),
+  /** 状态最长有效时间(秒)，超过后不显示 | Seconds a status stays valid before it is hidden */
+  max_age: z.number().min(1).optional(),
+});
+
+/**
+ * 小组件命令配置 | Widget command config
+ */
+const WidgetCommandConfigSchema = z.object({
+  /** 命令及参数，不经过shell执行 | Command and arguments, executed without a shell */
+  argv: z.array(z.string()).min(1),
+  /** 工作目录，相对路径基于当前项目目录 | Working directory; relative paths resolve against the project directory */
+  cwd: z.string().optional(),
+  /** 超时时间(ms) | Timeout in milliseconds */
+  timeout: z.number().min(100).max(30000).default(1000),
+  /** 输出缓存时间(ms)，0为不缓存 | Output cache time in milliseconds; 0 disables caching */
+  cache_ttl: z.number().min(0).default(5000),
+  /** 输出解析方式 | Output parser */
+  parser: z.enum(['raw', 'first_line', 'json']).default('first_line'),
+  /** JSON数据提取路径 (parser=json时使用) | JSON data path (used when parser=json) */
+  data_path: z.string().optional(),
+});
+
+/**
+ * 小组件文件配置 | Widget file config
+ */
+const WidgetFileConfigSchema = z.object({
+  /** 文件路径，支持 ~ 和 ${VAR}，相对路径基于当前项目目录 | File path with ~ and ${VAR} expansion; relative paths resolve against the project directory */
+  path: z.string(),
+  /** 文件格式，auto按扩展名判断 | File format; auto picks it by extension */
+  format: z.enum(['auto', 'json', 'toml', 'dotenv', 'raw']).default('auto'),
+  /** 数据提取路径 | Data extraction path */
+  data_path: z.string().optional(),
+});
+
 /**
  * 小组件检测配置 | Widget detection config
  */
@@ -548,11 +824,13 @@ const WidgetConfigSchema = z.object({
   /** 强制启用（优先级高于detection） | Force enable (higher priority than detection) */
   force: z.boolean().optional(),
   /** 小组件类型 | Widget type */
-  type: z.enum(['static', 'api', 'info']),
+  type: z.enum(['static', 'api', 'info', 'ci', 'command', 'file']),
   /** 行位置 | Row position */
   row: z.number().min(1),
   /** 列位置 | Column position */
   col: z.number().min(0),
+  /** 布局优先级，行超宽时先移除低优先级小组件 | Layout priority; lower-priority widgets drop first when the row is too wide */
+  priority: z.number().optional(),
   /** Nerd Font图标 | Nerd Font icon */
   nerd_icon: z.string(),
   /** Emoji图标 | Emoji icon */
@@ -561,10 +839,16 @@ const WidgetConfigSchema = z.object({
   text_icon: z.string(),
   /** 静态内容 (type=static时使用) | Static content (used when type=static) */
   content: z.string().optional(),
-  /** 模板字符串 (type=api时使用) | Template string (used when type=api) */
+  /** 模板字符串 (type=api/info/ci/command/file时使用) | Template string (used when type=api/info/ci/command/file) */
   template: z.string().optional(),
   /** API配置 (type=api时必需) | API config (required when type=api) */
   api: WidgetApiConfigSchema.optional(),
+  /** CI状态配置 (type=ci时使用) | CI status config (used when type=ci) */
+  ci: WidgetCiConfigSchema.optional(),
+  /** 命令配置 (type=command时必需) | Command config (required when type=command) */
+  command: WidgetCommandConfigSchema.optional(),
+  /** 文件配置 (type=file时必需) | File config (required when type=file) */
+  file: WidgetFileConfigSchema.optional(),
   /** 检测配置 | Detection config */
   detection: WidgetDetectionSchema.optional(),
 });
@@ -613,26 +897,52 @@ const MultilineConfigSchema = z.object({
 
 // ==================== 预设映射配置 ====================
 
+/**
+ * 默认预设映射 | Default preset mapping
+ */
+export const DEFAULT_PRESET_MAPPING: Record<string, string> = {
+  P: 'project',
+  M: 'model',
+  B: 'branch',
+  T: 'tokens',
+  U: 'usage',
+  S: 'status',
+};
+
 /**
  * 预设映射配置 | Preset mapping config
+ * 任意单个字母映射到组件名，与默认映射合并，字母统一为大写
+ * Any single letter maps to a component name; merged over the defaults, letters upper-cased
  */
 const PresetMappingSchema = z
+  .record(
+    z.string().regex(/^[A-Za-z]$/, { message: 'Preset mapping keys must be single letters' }),
+    z.string().min(1)
+  )
+  .transform((mapping) => ({
+    ...DEFAULT_PRESET_MAPPING,
+    ...Object.fromEntries(
+      Object.entries(mapping).map(([letter, component]) => [letter.toUpperCase(), component])
+    ),
+  }))
+  .default(DEFAULT_PRESET_MAPPING);
+
+// ==================== 插件配置 ====================
+
+/**
+ * 插件系统配置 | Plugin system config
+ * 运行时加载自定义组件工厂 | Load custom component factories at runtime
+ */
+const PluginsSchema = z
   .object({
-    P: z.literal('project'),
-    M: z.literal('model'),
-    B: z.literal('branch'),
-    T: z.literal('tokens'),
-    U: z.literal('usage'),
-    S: z.literal('status'),
+    /** 是否启用插件加载 | Whether plugin loading is enabled */
+    enabled: z.boolean().default(true),
+    /** 插件文件或目录路径 | Plugin file or directory paths */
+    paths: z.array(z.string()).default([]),
+    /** 单个插件导入超时(ms) | Import timeout per plugin in milliseconds */
+    timeout: z.number().min(100).max(10000).default(2000),
   })
-  .default({
-    P: 'project',
-    M: 'model',
-    B: 'branch',
-    T: 'tokens',
-    U: 'usage',
-    S: 'status',
-  });
+  .optional();
 
 // ==================== 主配置Schema ====================
 
@@ -648,8 +958,18 @@ export const ConfigSchema = z
   .object({
     /** 预设配置 | Preset configuration */
     preset: z.string().default('PMBTUS'),
-    /** 主题名称 | Theme name */
-    theme: z.enum(['classic', 'powerline', 'capsule']).default('classic'),
+    /** 主题名称，内置主题或themes目录中的用户主题 | Theme name: builtin or a user theme from the themes directory */
+    theme: z
+      .string()
+      .superRefine((name, ctx) => {
+        if (!BaseThemeSchema.safeParse(name).success && !customThemeFileExists(name)) {
+          ctx.addIssue({
+            code: 'custom',
+            message: `Unknown theme "${name}": expected ${BaseThemeSchema.options.join(', ')} or a theme file in ${getCustomThemesDir()}`,
+          });
+        }
+      })
+      .default('classic'),
     /** 界面语言 | Interface language (新增国际化支持) */
     language: LanguageSchema.optional(),
     /** 调试模式 | Debug mode (移动自advanced) */
@@ -672,6 +992,12 @@ export const ConfigSchema = z
     experimental: ExperimentalSchema,
     /** 存储系统配置 | Storage system config */
     storage: StorageSchema,
+    /** 模型定价表 | Model pricing table */
+    pricing: PricingSchema,
+    /** 成本预算 | Cost budget */
+    budget: BudgetSchema,
+    /** 插件系统配置 | Plugin system config */
+    plugins: PluginsSchema,
   })
   .passthrough(); // 允许额外字段 | Allow additional fields
 
@@ -763,6 +1089,8 @@ export const RenderContextSchema = z.object({
     colors: z.boolean(),
     emoji: z.boolean(),
     nerdFont: z.boolean(),
+    colorDepth: z.enum(['none', '16', '256', 'truecolor']).optional(),
+    background: z.enum(['light', 'dark']).optional(),
   }),
   /** 颜色映射 | Color mappings */
   colors: z.record(z.string(), z.string()),
@@ -770,6 +1098,8 @@ export const RenderContextSchema = z.object({
   icons: z.record(z.string(), z.string()),
   /** 配置信息 | Configuration */
   config: ConfigSchema,
+  /** 共享的transcript快照 | Shared transcript snapshot */
+  transcript: TranscriptSnapshotSchema.optional(),
 });
 
 // ==================== 导出类型定义 ====================
@@ -779,6 +1109,11 @@ export const RenderContextSchema = z.object({
  */
 export type ComponentConfig = z.infer<typeof BaseComponentSchema>;
 
+/**
+ * 组件收缩形态类型 | Component collapse form type
+ */
+export type LayoutForm = z.infer<typeof LayoutFormSchema>;
+
 /**
  * 终端配置类型 | Terminal config type
  */
@@ -799,6 +1134,16 @@ export type ThemeConfig = z.infer<typeof ThemeConfigSchema>;
  */
 export type ThemesConfig = z.infer<typeof ThemesSchema>;
 
+/**
+ * 内置渲染器类型 | Builtin renderer type
+ */
+export type BaseTheme = z.infer<typeof BaseThemeSchema>;
+
+/**
+ * 用户主题类型 | User theme type
+ */
+export type CustomTheme = z.infer<typeof CustomThemeSchema>;
+
 /**
  * 组件配置集合类型 | Components config collection type
  */
@@ -819,6 +1164,31 @@ export type ExperimentalConfig = z.infer<typeof ExperimentalSchema>;
  */
 export type PresetMappingConfig = z.infer<typeof PresetMappingSchema>;
 
+/**
+ * 插件系统配置类型 | Plugin system config type
+ */
+export type PluginsConfig = z.infer<typeof PluginsSchema>;
+
+/**
+ * 预算周期类型 | Budget period type
+ */
+export type BudgetPeriod = z.infer<typeof BudgetPeriodSchema>;
+
+/**
+ * 成本预算配置类型 | Cost budget config type
+ */
+export type BudgetConfig = z.infer<typeof BudgetSchema>;
+
+/**
+ * 模型定价类型 | Model pricing type
+ */
+export type ModelPricing = z.infer<typeof ModelPricingSchema>;
+
+/**
+ * 定价表配置类型 | Pricing table config type
+ */
+export type PricingConfig = z.infer<typeof PricingSchema>;
+
 // ==================== 组件选项和元数据类型 ====================
 
 /**
@@ -992,6 +1362,21 @@ export type WidgetConfig = z.infer<typeof WidgetConfigSchema>;
  */
 export type WidgetApiConfig = z.infer<typeof WidgetApiConfigSchema>;
 
+/**
+ * 小组件CI状态配置类型 | Widget CI status config type
+ */
+export type WidgetCiConfig = z.infer<typeof WidgetCiConfigSchema>;
+
+/**
+ * 小组件命令配置类型 | Widget command config type
+ */
+export type WidgetCommandConfig = z.infer<typeof WidgetCommandConfigSchema>;
+
+/**
+ * 小组件文件配置类型 | Widget file config type
+ */
+export type WidgetFileConfig = z.infer<typeof WidgetFileConfigSchema>;
+
 /**
  * 小组件检测配置类型 | Widget detection config type
  */
@@ -1,18 +1,24 @@
-import { ComponentRegistry } from '../components/base.js';
+import { type Component, ComponentRegistry } from '../components/base.js';
 import { BranchComponentFactory } from '../components/branch.js';
 import { FakeComponentFactory } from '../components/fake.js';
 import { ModelComponentFactory } from '../components/model.js';
+import { PluginLoader } from '../components/plugin-loader.js';
 import { ProjectComponentFactory } from '../components/project.js';
 import { StatusComponentFactory } from '../components/status.js';
 import { TokensComponentFactory } from '../components/tokens.js';
 import { UsageComponentFactory } from '../components/usage.js';
+import { resolvePreset, warnPresetResolution } from '../config/preset.js';
 import type { ComponentConfig, Config, InputData, RenderContext } from '../config/schema.js';
 import { initializeStorage } from '../storage/index.js';
+import { type BackgroundDetection, detectBackground } from '../terminal/background.js';
 import { TerminalRenderer } from '../terminal/colors.js';
 import { detect, getCapabilityInfo } from '../terminal/detector.js';
-import { createThemeRenderer } from '../themes/index.js';
+import { createThemeRenderer, resolveBaseTheme } from '../themes/index.js';
 import { projectResolver } from '../utils/project-resolver.js';
+import { transcriptIndex } from '../utils/transcript-index.js';
+import { createLayoutItem, fitToWidth, type LayoutItem, resolveMaxWidth } from './layout.js';
 import { MultiLineRenderer } from './multi-line-renderer.js';
+import { VisibilityEvaluator } from './visibility.js';
 
 /**
  * 生成器选项 | Generator options
@@ -37,6 +43,15 @@ export class StatuslineGenerator {
   private lastResult: string | null = null;
   private updateInterval: number = 300; // 官方建议的300ms更新间隔 | Official 300ms update interval
   private disableCache: boolean = false;
+  private pluginsReady: Promise<void> | null = null;
+  private pluginTypes = new Set<string>();
+  /** 组件实例缓存，使组件内部缓存跨生成调用保留 | Component instance cache so component-level caches survive across generate calls */
+  private componentInstances = new Map<string, Component>();
+  /** 组件when规则求值器 | Evaluator for component `when` rules */
+  private visibility = new VisibilityEvaluator();
+  /** 终端背景检测结果，OSC 11查询每个进程只做一次 | Terminal background detection; the OSC 11 query runs once per process */
+  private backgroundDetection: { setting: string; result: Promise<BackgroundDetection> } | null =
+    null;
 
   constructor(config: Config, options: GeneratorOptions = {}) {
     this.config = config;
@@ -68,6 +83,30 @@ export class StatuslineGenerator {
     this.componentRegistry.register('status', new StatusComponentFactory());
   }
 
+  /**
+   * 加载组件插件（仅一次）| Load component plugins (once)
+   * 插件失败会被隔离，不影响状态行 | Plugin failures are isolated and never break the statusline
+   */
+  private ensurePluginsLoaded(): Promise<void> {
+    if (!this.pluginsReady) {
+      const loader = new PluginLoader(this.config.plugins);
+      this.pluginsReady = loader
+        .loadInto(this.componentRegistry)
+        .then((result) => {
+          for (const type of result.registeredTypes) {
+            this.pluginTypes.add(type);
+          }
+          if (this.config.debug && result.loadedFiles.length > 0) {
+            console.error('[Plugins] Registered types:', result.registeredTypes);
+          }
+        })
+        .catch((error) => {
+          console.warn('插件系统初始化失败 | Plugin system initialization failed:', error);
+        });
+    }
+    return this.pluginsReady;
+  }
+
   /**
    * 生成状态行 | Generate statusline
    */
@@ -88,6 +127,9 @@ export class StatuslineGenerator {
         return this.lastResult || '';
       }
 
+      // 加载组件插件 | Load component plugins
+      await this.ensurePluginsLoaded();
+
       // 检测终端能力 | Detect terminal capabilities
       const capabilities = detect(
         this.config.style?.enable_colors,
@@ -95,6 +137,7 @@ export class StatuslineGenerator {
         this.config.style?.enable_nerd_font,
         this.config.terminal?.force_nerd_font
       );
+      capabilities.background = (await this.detectBackground()).background;
 
       // 初始化终端渲染器 | Initialize terminal renderer
       this.renderer = new TerminalRenderer(capabilities, this.config);
@@ -103,16 +146,31 @@ export class StatuslineGenerator {
       const context: RenderContext = {
         inputData,
         config: this.config,
-        capabilities,
+        capabilities: {
+          ...capabilities,
+          colorDepth: this.renderer.getColorDepth(),
+          background: this.renderer.getBackground(),
+        },
         colors: this.renderer.getColors(),
         icons: this.renderer.getIcons(),
       };
 
+      // 增量读取transcript，供各组件共享 | Read transcript incrementally, shared by all components
+      if (inputData.transcriptPath) {
+        const transcript = transcriptIndex.read(inputData.transcriptPath, {
+          incremental: this.config.advanced?.cache_enabled ?? true,
+        });
+        if (transcript) {
+          context.transcript = transcript;
+        }
+      }
+
       // 获取组件顺序 | Get component order
       const componentOrder = this.getComponentOrder();
 
       // 生成各组件内容 | Generate component content
-      const componentResults: string[] = [];
+      const componentResults: LayoutItem[] = [];
+      const isVisible = this.visibility.createScope(context);
 
       for (const componentName of componentOrder) {
         const componentConfig = this.getComponentConfig(componentName);
@@ -120,28 +178,42 @@ export class StatuslineGenerator {
           continue;
         }
 
-        const component = this.componentRegistry.create(
-          componentName,
-          componentName,
-          componentConfig as ComponentConfig
-        );
+        // 按when规则决定是否显示 | Apply the `when` visibility rule
+        if (typeof componentConfig.when === 'string' && !(await isVisible(componentConfig.when))) {
+          continue;
+        }
 
-        if (component) {
-          try {
-            const result = await component.render(context);
-            if (result.success && result.content) {
-              componentResults.push(result.content);
-            } else if (!result.success && result.error) {
-              console.error(`Component ${componentName} failed:`, result.error);
-            }
-          } catch (error) {
-            console.error(`Error rendering component ${componentName}:`, error);
+        try {
+          // 插件工厂可能在创建时抛出异常 | Plugin factories may throw during creation
+          const component = this.getComponentInstance(
+            componentName,
+            componentConfig as ComponentConfig
+          );
+          if (!component) {
+            continue;
           }
+
+          const result = await component.render(context);
+          if (result.success && result.content) {
+            const item = createLayoutItem(
+              componentName,
+              result.content,
+              componentConfig as ComponentConfig,
+              result.forms
+            );
+            // fake组件是Powerline起始箭头，始终保留 | The fake component is the Powerline lead-in arrow, always kept
+            item.pinned = componentName === 'fake';
+            componentResults.push(item);
+          } else if (!result.success && result.error) {
+            console.error(`Component ${componentName} failed:`, result.error);
+          }
+        } catch (error) {
+          console.error(`Error rendering component ${componentName}:`, error);
         }
       }
 
       // 合并组件结果 | Combine component results using theme renderer
-      const mainLine = await this.combineComponentsWithTheme(componentResults, context);
+      const mainLine = this.combineComponentsWithTheme(componentResults);
 
       // 渲染扩展行 | Render extension lines
       const extensionResult = await this.multiLineRenderer.renderExtensionLines(context);
@@ -177,45 +249,66 @@ export class StatuslineGenerator {
 
   /**
    * 使用主题渲染器合并组件 | Combine components using theme renderer
+   * 超出最大宽度时按优先级收缩或移除组件 | Collapses or drops components by priority when too wide
    */
-  private async combineComponentsWithTheme(
-    componentResults: string[],
-    _context: RenderContext
-  ): Promise<string> {
+  private combineComponentsWithTheme(componentResults: LayoutItem[]): string {
     // 如果没有组件结果，返回空字符串 | Return empty string if no component results
     if (componentResults.length === 0) {
       return '';
     }
 
+    return fitToWidth(componentResults, resolveMaxWidth(this.config.style?.max_width), {
+      join: this.createLineJoiner(),
+    });
+  }
+
+  /**
+   * 创建行合并函数 | Create line joiner
+   */
+  private createLineJoiner(): (items: LayoutItem[]) => string {
     // 获取主题名称 | Get theme name
     const themeName = this.config.theme || 'classic';
 
     // 对于classic主题，特殊处理fake组件
     if (themeName === 'classic') {
-      return this.combineClassicTheme(componentResults);
+      return (items) => this.combineClassicTheme(items.map((item) => item.content));
     }
 
+    // 回退到默认合并方式 | Fallback to default merging
+    const separator = this.config.style?.separator || ' ';
+    const fallback = (items: LayoutItem[]) => items.map((item) => item.content).join(separator);
+    const warnFallback = (error: unknown) =>
+      console.warn(
+        `主题渲染器 '${themeName}' 创建失败，使用默认合并 | Theme renderer '${themeName}' creation failed, using default merging:`,
+        error
+      );
+
     try {
       // 创建主题渲染器 | Create theme renderer
       const themeRenderer = createThemeRenderer(themeName, this.renderer);
 
       if (themeRenderer) {
-        // 提取组件颜色 | Extract component colors
-        const colors = this.extractComponentColors();
-
-        // 使用主题渲染器 | Use theme renderer
-        return themeRenderer.renderStatusline(componentResults, colors, this.config);
+        // 使用主题渲染器，颜色与实际显示的组件对应 | Use theme renderer with colors of the displayed components
+        return (items) => {
+          try {
+            const names = items.map((item) => item.name);
+            return themeRenderer.renderStatusline(
+              items.map((item) => item.content),
+              this.extractComponentColors(names),
+              this.config,
+              names
+            );
+          } catch (error) {
+            warnFallback(error);
+            return fallback(items);
+          }
+        };
       }
     } catch (error) {
-      console.warn(
-        `主题渲染器 '${themeName}' 创建失败，使用默认合并 | Theme renderer '${themeName}' creation failed, using default merging:`,
-        error
-      );
+      warnFallback(error);
     }
 
-    // 回退到默认合并方式 | Fallback to default merging
-    const separator = this.config.style?.separator || ' ';
-    return componentResults.join(separator);
+    return fallback;
   }
 
   /**
@@ -257,9 +350,8 @@ export class StatuslineGenerator {
   /**
    * 提取组件颜色 | Extract component colors
    */
-  private extractComponentColors(): string[] {
+  private extractComponentColors(componentNames: string[]): string[] {
     const colors: string[] = [];
-    const componentOrder = this.getComponentOrder();
 
     // PowerLine主题的推荐背景色方案 | PowerLine theme recommended background colors
     const powerlineColors: Record<string, string> = {
@@ -270,7 +362,7 @@ export class StatuslineGenerator {
       status: 'magenta',
     };
 
-    for (const componentName of componentOrder) {
+    for (const componentName of componentNames) {
       // 跳过fake组件，它不需要颜色配置
       if (componentName === 'fake') {
         continue;
@@ -280,7 +372,7 @@ export class StatuslineGenerator {
       if (componentConfig?.enabled) {
         // 对于powerline主题，使用专门的背景色方案；其他主题使用图标颜色
         // For powerline theme, use dedicated background colors; other themes use icon colors
-        if (this.config.theme === 'powerline') {
+        if (resolveBaseTheme(this.config.theme) === 'powerline') {
           colors.push(powerlineColors[componentName] || 'blue');
         } else {
           colors.push(componentConfig.icon_color || 'blue');
@@ -325,6 +417,23 @@ export class StatuslineGenerator {
     return componentOrder;
   }
 
+  /**
+   * 检测终端背景 | Detect the terminal background
+   * 仅在交互式TTY中用OSC 11查询终端 | Only queries the terminal via OSC 11 on an interactive TTY
+   */
+  private detectBackground(): Promise<BackgroundDetection> {
+    const setting = this.config.style?.background ?? 'auto';
+    if (this.backgroundDetection?.setting !== setting) {
+      this.backgroundDetection = {
+        setting,
+        result: detectBackground(setting, {
+          queryTerminal: Boolean(process.stdin.isTTY && process.stdout.isTTY),
+        }),
+      };
+    }
+    return this.backgroundDetection.result;
+  }
+
   /**
    * 检查是否需要添加fake组件 | Check if fake component should be added
    */
@@ -348,21 +457,19 @@ export class StatuslineGenerator {
 
   /**
    * 解析预设字符串 | Parse preset string
+   * 未映射或映射到未注册组件的字母会被剔除并警告一次
+   * Letters that are unmapped or map to unregistered components are dropped with a one-time warning
    */
   private parsePreset(preset: string): string[] {
-    const mapping = this.config.preset_mapping || {
-      P: 'project',
-      M: 'model',
-      B: 'branch',
-      T: 'tokens',
-      U: 'usage',
-      S: 'status',
-    };
+    const resolution = resolvePreset(
+      preset,
+      this.config.preset_mapping,
+      this.componentRegistry.getRegisteredTypes()
+    );
+
+    warnPresetResolution(preset, resolution);
 
-    return preset
-      .split('')
-      .map((char) => mapping[char as keyof typeof mapping])
-      .filter(Boolean);
+    return resolution.components;
   }
 
   /**
@@ -383,9 +490,37 @@ export class StatuslineGenerator {
       };
     }
 
-    if (!components) return null;
+    const componentConfig = (components as Record<string, unknown> | undefined)?.[componentName] as
+      | Record<string, unknown>
+      | undefined;
+
+    // 插件组件未配置时使用最小默认配置 | Minimal default config for unconfigured plugin components
+    if (!componentConfig && this.pluginTypes.has(componentName)) {
+      return {
+        enabled: true,
+        icon_color: 'white',
+        text_color: 'white',
+        emoji_icon: '',
+      };
+    }
 
-    return (components as Record<string, unknown>)[componentName] as Record<string, unknown> | null;
+    return componentConfig ?? null;
+  }
+
+  /**
+   * 获取或创建组件实例 | Get or create component instance
+   */
+  private getComponentInstance(componentName: string, config: ComponentConfig): Component | null {
+    const cached = this.componentInstances.get(componentName);
+    if (cached) {
+      return cached;
+    }
+
+    const component = this.componentRegistry.create(componentName, componentName, config);
+    if (component) {
+      this.componentInstances.set(componentName, component);
+    }
+    return component;
   }
 
   /**
@@ -443,6 +578,7 @@ export class StatuslineGenerator {
     this.config = newConfig;
     this.multiLineRenderer.updateConfig(newConfig);
     // 清除缓存 | Clear cache
+    this.componentInstances.clear();
     this.lastResult = null;
     this.lastUpdate = 0;
   }
@@ -6,6 +6,7 @@
  */
 
 import type { MultilineConfig, MultilineRowConfig } from '../config/schema.js';
+import { getDisplayWidth, truncateToWidth } from '../utils/text-width.js';
 
 /**
  * 网格单元格 | Grid cell
@@ -229,23 +230,26 @@ export class GridSystem {
       return null;
     }
 
-    // 提取单元格内容 | Extract cell contents
-    const cellContents = rowData.cells.map((cell) => cell.content);
-
-    // 用分隔符连接 | Join with separator
-    const joined = cellContents.join(rowData.config.separator);
-
-    // 检查长度限制 | Check length limit
-    if (joined.length > rowData.config.max_width) {
-      // 截断并添加省略号 | Truncate and add ellipsis
-      const ellipsis = '...';
-      const maxContentLength = rowData.config.max_width - ellipsis.length;
-      if (maxContentLength > 0) {
-        return joined.substring(0, maxContentLength) + ellipsis;
-      } else {
-        // 如果max_width太小，只返回省略号 | If max_width is too small, return only ellipsis
-        return ellipsis;
-      }
+    const cells = [...rowData.cells];
+    const join = () => cells.map((cell) => cell.content).join(rowData.config.separator);
+    let joined = join();
+
+    // 超宽时按优先级从低到高移除单元格，同优先级先移除靠右的
+    // When too wide, drop cells from the lowest priority up, rightmost first among equals
+    while (cells.length > 1 && getDisplayWidth(joined) > rowData.config.max_width) {
+      let dropIndex = 0;
+      cells.forEach((cell, index) => {
+        if ((cell.priority || 0) <= (cells[dropIndex]?.priority || 0)) {
+          dropIndex = index;
+        }
+      });
+      cells.splice(dropIndex, 1);
+      joined = join();
+    }
+
+    // 仍然超宽则按显示宽度截断并添加省略号 | Still too wide: truncate by display width with an ellipsis
+    if (getDisplayWidth(joined) > rowData.config.max_width) {
+      return truncateToWidth(joined, rowData.config.max_width, '...');
     }
 
     return joined;
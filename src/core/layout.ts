@@ -0,0 +1,144 @@
+/**
+ * 宽度自适应布局 | Width-aware layout
+ * 状态行超出最大宽度时，按优先级从低到高先收缩组件，再移除组件
+ * When the line exceeds the maximum width, components are collapsed and then dropped, lowest priority first
+ */
+
+import type { ComponentConfig, LayoutForm } from '../config/schema.js';
+import { getDisplayWidth, truncateToWidth } from '../utils/text-width.js';
+
+/**
+ * 布局项 | Layout item
+ */
+export interface LayoutItem {
+  /** 组件名称 | Component name */
+  name: string;
+  /** 渲染内容 | Rendered content */
+  content: string;
+  /** 优先级，数值越大越晚被收缩和移除 | Priority; higher values are collapsed and dropped later */
+  priority: number;
+  /** 依次尝试的收缩形态 | Collapse forms tried in order */
+  forms: LayoutForm[];
+  /** 各收缩形态的内容，来自同一次渲染 | Content of each collapse form, from the same render */
+  collapsed?: Partial<Record<LayoutForm, string>> | undefined;
+  /** 固定项从不收缩或移除 | Pinned items are never collapsed or dropped */
+  pinned?: boolean;
+}
+
+/**
+ * 适配选项 | Fit options
+ */
+export interface FitToWidthOptions {
+  /** 将布局项合并为一行 | Join layout items into a line */
+  join: (items: LayoutItem[]) => string;
+}
+
+/** 内置组件的默认优先级 | Default priorities of builtin components */
+export const DEFAULT_COMPONENT_PRIORITIES: Record<string, number> = {
+  model: 90,
+  project: 80,
+  branch: 70,
+  tokens: 60,
+  usage: 50,
+  status: 40,
+};
+
+/**
+ * 解析最大宽度 | Resolve the maximum width
+ * 取配置值与COLUMNS环境变量中较小的非零值，0表示不限制
+ * Takes the smaller non-zero value of the config and COLUMNS; 0 means unlimited
+ */
+export function resolveMaxWidth(
+  configured: number | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): number {
+  const columns = Number.parseInt(env.COLUMNS || '', 10);
+  const limits = [configured ?? 0, Number.isFinite(columns) ? columns : 0].filter(
+    (limit) => limit > 0
+  );
+  return limits.length > 0 ? Math.min(...limits) : 0;
+}
+
+/**
+ * 创建布局项 | Create a layout item
+ */
+export function createLayoutItem(
+  name: string,
+  content: string,
+  config?: Partial<ComponentConfig>,
+  collapsed?: Partial<Record<LayoutForm, string>>
+): LayoutItem {
+  const forms: LayoutForm[] = [];
+  for (const form of [config?.compact_form ?? 'short', config?.min_form ?? 'icon']) {
+    if (form !== 'full' && !forms.includes(form)) {
+      forms.push(form);
+    }
+  }
+
+  return {
+    name,
+    content,
+    priority: config?.priority ?? DEFAULT_COMPONENT_PRIORITIES[name] ?? 0,
+    forms,
+    collapsed,
+  };
+}
+
+/**
+ * 将布局项适配到最大宽度 | Fit layout items into the maximum width
+ * 先逐级收缩(compact_form，再min_form)，再移除，最后截断
+ * Collapses level by level (compact_form, then min_form), then drops items, then truncates
+ */
+export function fitToWidth(
+  items: LayoutItem[],
+  maxWidth: number,
+  options: FitToWidthOptions
+): string {
+  const contents = new Map<LayoutItem, string>();
+  const dropped = new Set<LayoutItem>();
+  const build = () =>
+    items
+      .filter((item) => !dropped.has(item))
+      .map((item) => ({ ...item, content: contents.get(item) ?? item.content }));
+
+  let line = options.join(build());
+  if (maxWidth <= 0 || getDisplayWidth(line) <= maxWidth) {
+    return line;
+  }
+
+  // 低优先级在前，同优先级时靠右的在前 | Lowest priority first; rightmost first among equals
+  const candidates = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => !item.pinned)
+    .sort((a, b) => a.item.priority - b.item.priority || b.index - a.index)
+    .map(({ item }) => item);
+
+  const levels = Math.max(0, ...candidates.map((item) => item.forms.length));
+  for (let level = 0; level < levels; level++) {
+    for (const item of candidates) {
+      const form = item.forms[level];
+      if (!form) continue;
+
+      const collapsed = item.collapsed?.[form];
+      const current = contents.get(item) ?? item.content;
+      if (!collapsed || getDisplayWidth(collapsed) >= getDisplayWidth(current)) continue;
+
+      contents.set(item, collapsed);
+      line = options.join(build());
+      if (getDisplayWidth(line) <= maxWidth) {
+        return line;
+      }
+    }
+  }
+
+  // 保留优先级最高的组件 | Keep the highest-priority component
+  for (const item of candidates.slice(0, -1)) {
+    dropped.add(item);
+    line = options.join(build());
+    if (getDisplayWidth(line) <= maxWidth) {
+      return line;
+    }
+  }
+
+  return truncateToWidth(line, maxWidth);
+}
@@ -10,7 +10,10 @@
 
 import { createWidget } from '../components/widgets/widget-factory.js';
 import { loadAllComponentConfigs } from '../config/component-config-loader.js';
-import { getDefaultComponentConfig, mergeComponentConfig } from '../components/widgets/default-configs.js';
+import {
+  getDefaultComponentConfig,
+  mergeComponentConfig,
+} from '../components/widgets/default-configs.js';
 import type {
   ComponentMultilineConfig,
   Config,
@@ -60,7 +63,10 @@ export class MultiLineRenderer {
     if (process.env.DEBUG_WIDGET) {
       const fs = require('fs');
       fs.appendFileSync('/tmp/debug.log', `[MultiLine] renderExtensionLines called\n`);
-      fs.appendFileSync('/tmp/debug.log', `[MultiLine] multilineConfig: ${JSON.stringify(this.multilineConfig)}\n`);
+      fs.appendFileSync(
+        '/tmp/debug.log',
+        `[MultiLine] multilineConfig: ${JSON.stringify(this.multilineConfig)}\n`
+      );
       console.error('[MultiLine] renderExtensionLines called');
       console.error('[MultiLine] multilineConfig:', this.multilineConfig);
     }
@@ -200,7 +206,12 @@ export class MultiLineRenderer {
 
         if (result.success && result.content) {
           // 添加到网格 | Add to grid
-          this.gridSystem.setCell(widgetConfig.row, widgetConfig.col, result.content);
+          this.gridSystem.setCell(
+            widgetConfig.row,
+            widgetConfig.col,
+            result.content,
+            widgetConfig.priority
+          );
           rendered++;
         } else if (result.error) {
           console.warn(`小组件渲染失败: ${componentName}.${widgetName} - ${result.error}`);
@@ -0,0 +1,188 @@
+/**
+ * 组件可见性规则 | Component visibility rules
+ * 在创建组件前对其when表达式求值 | Evaluates a component's `when` expression before it is created
+ *
+ * 表达式上下文 | Expression context:
+ *   input   Claude Code输入数据 | Claude Code input data (input.model.id, input.workspace.current_dir, ...)
+ *   git     Git信息，非仓库时为null | Git info, null outside a repository
+ *           { branch, detached, dirty, clean, staged, unstaged, untracked, conflicted, ahead, behind, stash, operation }
+ *   tokens  { used, limit, percentage }
+ *   cost    { usd, estimated, duration_ms, lines_added, lines_removed }
+ *   env     环境变量 | Environment variables (env.CI, env["MY_VAR"])
+ *   time    本地时间 | Local time { hour, minute, weekday (0=Sunday), date (YYYY-MM-DD) }
+ *
+ * 示例 | Examples: `cost.usd > 0`, `tokens.percentage > 50`, `git.dirty`, `time.hour >= 9 && time.hour < 18`
+ */
+
+import type { InputData, RenderContext } from '../config/schema.js';
+import { createConfiguredGitService, type GitService } from '../git/index.js';
+import { estimateTranscriptCost } from '../storage/pricing.js';
+import { collectExpressionRoots, evaluateNode, parseExpression } from '../utils/expression.js';
+
+/**
+ * when表达式中的Git信息 | Git info in `when` expressions
+ */
+export interface WhenGitContext {
+  branch: string;
+  detached: boolean;
+  dirty: boolean;
+  clean: boolean;
+  staged: number;
+  unstaged: number;
+  untracked: number;
+  conflicted: number;
+  ahead: number;
+  behind: number;
+  stash: number;
+  operation: string;
+  worktree: boolean;
+  submodule: boolean;
+  superproject: string | null;
+}
+
+/**
+ * when表达式上下文 | `when` expression context
+ */
+export interface WhenContext {
+  input: InputData;
+  git: WhenGitContext | null;
+  tokens: { used: number; limit: number; percentage: number };
+  cost: {
+    usd: number;
+    estimated: boolean;
+    duration_ms: number;
+    lines_added: number;
+    lines_removed: number;
+  };
+  env: Record<string, string | undefined>;
+  time: { hour: number; minute: number; weekday: number; date: string };
+}
+
+/**
+ * 组件可见性求值器 | Component visibility evaluator
+ * Git服务跨生成调用复用，表达式上下文每次生成构建一次
+ * The Git service is reused across generate calls; the expression context is built once per generate
+ */
+export class VisibilityEvaluator {
+  private gitService: GitService | null = null;
+  private warned = new Set<string>();
+
+  /**
+   * 创建单次生成的求值作用域 | Create an evaluation scope for one generate call
+   */
+  createScope(context: RenderContext): (expression: string) => Promise<boolean> {
+    let base: Omit<WhenContext, 'git'> | null = null;
+    let git: Promise<WhenGitContext | null> | null = null;
+
+    return async (expression: string) => {
+      try {
+        const node = parseExpression(expression);
+        const roots = collectExpressionRoots(node);
+
+        base ??= this.buildContext(context);
+        const scope: Record<string, unknown> = { ...base, git: null };
+        if (roots.has('git')) {
+          git ??= this.loadGitContext(context);
+          scope.git = await git;
+        }
+
+        return Boolean(evaluateNode(node, scope));
+      } catch (error) {
+        // 无效表达式不隐藏组件 | Invalid expressions never hide the component
+        if (!this.warned.has(expression)) {
+          this.warned.add(expression);
+          console.warn(
+            `when表达式无效 | Invalid when expression "${expression}":`,
+            error instanceof Error ? error.message : error
+          );
+        }
+        return true;
+      }
+    };
+  }
+
+  /**
+   * 构建除Git以外的上下文 | Build the context except Git info
+   */
+  private buildContext(context: RenderContext): Omit<WhenContext, 'git'> {
+    const { inputData, config, transcript } = context;
+    const modelId = inputData.model?.id;
+
+    const contextWindows = config.components?.tokens?.context_windows || {};
+    const limit = (modelId && contextWindows[modelId]) || contextWindows.default || 200000;
+    const used = transcript?.latestUsage?.totalTokens ?? 0;
+
+    const officialCost = inputData.cost?.total_cost_usd;
+    const estimatedCost =
+      officialCost === undefined && transcript
+        ? estimateTranscriptCost(transcript, modelId, config.pricing)
+        : null;
+
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    return {
+      input: inputData,
+      tokens: { used, limit, percentage: Math.round((used / limit) * 1000) / 10 },
+      cost: {
+        usd: officialCost ?? estimatedCost ?? 0,
+        estimated: officialCost === undefined && estimatedCost !== null,
+        duration_ms: inputData.cost?.total_duration_ms ?? 0,
+        lines_added: inputData.cost?.total_lines_added ?? 0,
+        lines_removed: inputData.cost?.total_lines_removed ?? 0,
+      },
+      // 守护进程渲染期间process.env已替换为客户端环境 | The daemon swaps in the client's environment while rendering
+      env: { ...process.env },
+      time: {
+        hour: now.getHours(),
+        minute: now.getMinutes(),
+        weekday: now.getDay(),
+        date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+      },
+    };
+  }
+
+  /**
+   * 读取Git信息 | Load Git info
+   */
+  private async loadGitContext(context: RenderContext): Promise<WhenGitContext | null> {
+    const cwd = context.inputData.workspace?.current_dir || context.inputData.cwd || process.cwd();
+
+    try {
+      if (!this.gitService) {
+        this.gitService = createConfiguredGitService(
+          cwd,
+          context.config.advanced?.git_timeout || 1000,
+          context.config.advanced?.cache_enabled ?? true
+        );
+      } else {
+        this.gitService.updateConfig({ cwd });
+      }
+
+      const info = await this.gitService.getGitInfo({ skip: ['version'] });
+      if (!info.isRepo) {
+        return null;
+      }
+
+      return {
+        branch: info.branch.current,
+        detached: info.branch.detached,
+        dirty: !info.status.clean,
+        clean: info.status.clean,
+        staged: info.status.staged,
+        unstaged: info.status.unstaged,
+        untracked: info.status.untracked,
+        conflicted: info.status.conflicted,
+        ahead: info.branch.ahead,
+        behind: info.branch.behind,
+        stash: info.stash.count,
+        operation: info.operation.type,
+        worktree: info.repo.isWorktree,
+        submodule: info.repo.isSubmodule,
+        superproject: info.repo.superproject ?? null,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * 文件系统Git读取器 | Filesystem Git reader
+ *
+ * 分支名、HEAD SHA、操作状态和stash数量直接读取.git中的HEAD、refs、packed-refs和logs/refs/stash，无需启动git进程；
+ * 只有工作区状态、ahead/behind和版本详情仍通过安全执行器执行git命令
+ * Branch name, HEAD SHA, operation state and stash count are read straight from HEAD, refs, packed-refs and logs/refs/stash
+ * without spawning git; only working status, ahead/behind and version details still run git through the secure executor
+ */
+
+import { join as pathJoin } from 'node:path';
+import { discoverRepoLayout } from './layout.js';
+import { readGitFile } from './operation.js';
+import { DefaultGitService } from './service.js';
+import type { GitBranchInfo, GitRepoLayout, GitServiceConfig, GitStashInfo } from './types.js';
+import { GitCacheKey } from './types.js';
+
+/** 符号引用最大解析深度 | Maximum symbolic ref depth */
+const MAX_SYMREF_DEPTH = 5;
+
+const SHA_PATTERN = /^[0-9a-f]{40}(?:[0-9a-f]{24})?$/;
+
+/**
+ * 读取引用指向的提交SHA | Resolve the commit SHA a ref points at
+ * 工作树自有的引用(HEAD等)位于gitdir，其余位于common dir | Per-worktree refs (HEAD etc.) live in the gitdir, the rest in the common dir
+ */
+function resolveRef(layout: GitRepoLayout, ref: string, depth = 0): string | undefined {
+  if (depth > MAX_SYMREF_DEPTH) return undefined;
+
+  const content =
+    readGitFile(pathJoin(layout.gitDir, ref)) ?? readGitFile(pathJoin(layout.commonDir, ref));
+  if (content?.startsWith('ref:')) {
+    return resolveRef(layout, content.slice(4).trim(), depth + 1);
+  }
+  if (content && SHA_PATTERN.test(content)) {
+    return content;
+  }
+
+  return readPackedRef(layout.commonDir, ref);
+}
+
+/**
+ * 从packed-refs查找引用 | Look up a ref in packed-refs
+ */
+function readPackedRef(commonDir: string, ref: string): string | undefined {
+  const packed = readGitFile(pathJoin(commonDir, 'packed-refs'));
+  if (!packed) return undefined;
+
+  for (const line of packed.split('\n')) {
+    // 跳过注释和剥离标签行(^sha) | Skip comments and peeled tag lines (^sha)
+    if (line.startsWith('#') || line.startsWith('^')) continue;
+    const [sha, name] = line.trim().split(' ');
+    if (name === ref && sha && SHA_PATTERN.test(sha)) {
+      return sha;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 从仓库配置读取分支的上游，如 origin/main | Read a branch's upstream from the repo config, e.g. origin/main
+ */
+function readUpstream(commonDir: string, branch: string): string | undefined {
+  const config = readGitFile(pathJoin(commonDir, 'config'));
+  if (!config) return undefined;
+
+  const section = `[branch "${branch}"]`;
+  let inSection = false;
+  let remote: string | undefined;
+  let merge: string | undefined;
+
+  for (const rawLine of config.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inSection = line === section;
+      continue;
+    }
+    if (!inSection) continue;
+
+    const match = /^(\w+)\s*=\s*(.+)$/.exec(line);
+    const key = match?.[1]?.toLowerCase();
+    if (key === 'remote') remote = match?.[2]?.trim();
+    if (key === 'merge') merge = match?.[2]?.trim();
+  }
+
+  if (!remote || !merge) return undefined;
+  const name = merge.replace(/^refs\/heads\//, '');
+  // remote为 "." 时上游是本地分支 | A "." remote means the upstream is a local branch
+  return remote === '.' ? name : `${remote}/${name}`;
+}
+
+/**
+ * 文件系统Git读取器类 | Filesystem Git reader class
+ * 覆盖可从.git文件读取的字段，其余继承默认实现 | Overrides the fields readable from .git files; the rest come from the default implementation
+ */
+export class FsGitReader extends DefaultGitService {
+  override async isGitRepo(): Promise<boolean> {
+    return discoverRepoLayout(this.config.cwd) !== null;
+  }
+
+  override async getRepoLayout(_forceRefresh = false): Promise<GitRepoLayout> {
+    return discoverRepoLayout(this.config.cwd) ?? this.createEmptyRepoLayout();
+  }
+
+  override async getBranchInfo(forceRefresh = false): Promise<GitBranchInfo> {
+    const layout = discoverRepoLayout(this.config.cwd);
+    const head = layout ? readGitFile(pathJoin(layout.gitDir, 'HEAD')) : undefined;
+    if (!layout || !head) {
+      return this.createEmptyBranchInfo();
+    }
+
+    const ref = head.startsWith('ref:') ? head.slice(4).trim() : undefined;
+    const detached = ref === undefined;
+    const current = ref ? ref.replace(/^refs\/heads\//, '') : 'HEAD';
+    const sha = resolveRef(layout, 'HEAD');
+    const upstream = ref?.startsWith('refs/heads/')
+      ? readUpstream(layout.commonDir, current)
+      : undefined;
+
+    const branchInfo: GitBranchInfo = {
+      current,
+      detached,
+      ahead: 0,
+      behind: 0,
+      ...(sha && { sha }),
+      ...(upstream && { upstream }),
+    };
+
+    if (!upstream || !sha || !this.config.features.fetchComparison) {
+      return branchInfo;
+    }
+
+    // ahead/behind需要遍历提交，交给git计算并缓存 | ahead/behind needs a commit walk, so git computes it and the result is cached
+    if (!forceRefresh) {
+      const cached = this.cache.get<GitBranchInfo>(GitCacheKey.BRANCH_INFO);
+      if (cached && cached.sha === sha && cached.upstream === upstream) return cached;
+    }
+
+    try {
+      const result = await this.execGit(`rev-list --count --left-right ${upstream}...HEAD`, {
+        ignoreErrors: true,
+      });
+      if (result.success) {
+        const [behind, ahead] = result.stdout.trim().split('\t');
+        branchInfo.behind = parseInt(behind || '0', 10) || 0;
+        branchInfo.ahead = parseInt(ahead || '0', 10) || 0;
+      }
+    } catch {
+      // 保留不含计数的分支信息 | Keep the branch info without counts
+    }
+
+    this.cache.set(GitCacheKey.BRANCH_INFO, branchInfo, await this.getSmartCacheTTL('branch'));
+    return branchInfo;
+  }
+
+  override async getStashInfo(_forceRefresh = false): Promise<GitStashInfo> {
+    const layout = discoverRepoLayout(this.config.cwd);
+    if (!layout) {
+      return this.createEmptyStashInfo();
+    }
+
+    // stash@{0}是reflog的最后一行 | stash@{0} is the last reflog line
+    const lines = (readGitFile(pathJoin(layout.commonDir, 'logs', 'refs', 'stash')) ?? '')
+      .split('\n')
+      .filter((line) => line.length > 0);
+    if (lines.length === 0) {
+      // 关闭reflog时只能知道是否存在stash | Without a reflog we only know whether a stash exists
+      return { count: resolveRef(layout, 'refs/stash') ? 1 : 0 };
+    }
+
+    // 格式：<旧SHA> <新SHA> <作者> <时间> <时区>\tWIP on main: 1234567 Commit message
+    const message = lines[lines.length - 1]?.split('\t')[1] ?? '';
+    const match = /^(?:WIP on|On) ([^:]+): (.+)$/.exec(message);
+
+    return {
+      count: lines.length,
+      latest: {
+        index: 0,
+        description: match?.[2] ?? message,
+        branch: match?.[1] ?? 'unknown',
+      },
+    };
+  }
+}
+
+/**
+ * 创建文件系统Git读取器 | Create a filesystem Git reader
+ * @param config 服务配置 | Service configuration
+ * @returns Git服务实例 | Git service instance
+ */
+export function createFsGitReader(config?: Partial<GitServiceConfig>): FsGitReader {
+  return new FsGitReader(config);
+}
@@ -13,6 +13,7 @@ export type {
   GitCacheConfig,
   // 缓存类型 | Cache types
   GitCacheItem,
+  GitDiffStat,
   // 错误类型 | Error types
   GitError,
   GitExecOptions,
@@ -22,6 +23,7 @@ export type {
   // 选项类型 | Option types
   GitInfoOptions,
   GitOperationStatus,
+  GitRepoLayout,
   GitRepoNotFoundError,
   // 配置类型 | Configuration types
   GitServiceConfig,
@@ -43,6 +45,7 @@ export type { GitService } from './service.js';
 
 export {
   createGitService,
+  createGitServiceConfig,
   DefaultGitService,
 } from './service.js';
 
@@ -62,6 +65,23 @@ export {
   MemoryGitCache,
 } from './cache.js';
 
+// ==================== 操作状态检测导出 ====================
+
+export { detectGitOperation, extractMergeBranch, readGitFile } from './operation.js';
+
+// ==================== 仓库布局导出 ====================
+
+export {
+  describeRepoLayout,
+  discoverRepoLayout,
+  readRepoLayout,
+  resolveGitDirs,
+} from './layout.js';
+
+// ==================== 文件系统读取器导出 ====================
+
+export { createFsGitReader, FsGitReader } from './fs-reader.js';
+
 // ==================== 便捷工厂函数 ====================
 
 /**
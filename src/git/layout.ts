@@ -0,0 +1,99 @@
+/**
+ * Git仓库布局解析 | Git repository layout resolution
+ *
+ * 链接工作树和子模块的.git是形如 "gitdir: <路径>" 的文件，共享的common dir由gitdir中的commondir文件给出
+ * In linked worktrees and submodules .git is a "gitdir: <path>" file; the shared common dir comes from the gitdir's commondir file
+ */
+
+import { statSync } from 'node:fs';
+import { basename, dirname, join as pathJoin, resolve as pathResolve } from 'node:path';
+import { readGitFile } from './operation.js';
+import type { GitRepoLayout } from './types.js';
+
+/** .git文件内容 | .git file content */
+const GITDIR_FILE_PATTERN = /^gitdir:\s*(.+)$/m;
+
+/** 子模块gitdir位于父仓库的 .git/modules 下 | Submodule gitdirs live under the superproject's .git/modules */
+const SUBMODULE_GITDIR_PATTERN = /^(.*?)[\\/]\.git[\\/]modules[\\/]/;
+
+/**
+ * 从工作树根目录解析gitdir和common dir，不是Git工作树时返回null
+ * Resolve the gitdir and common dir from a worktree root; null when it is not a Git worktree
+ * @param workTree 工作树根目录 | Worktree root directory
+ */
+export function resolveGitDirs(workTree: string): { gitDir: string; commonDir: string } | null {
+  const dotGit = pathJoin(workTree, '.git');
+  let gitDir: string;
+
+  try {
+    if (statSync(dotGit).isDirectory()) {
+      gitDir = dotGit;
+    } else {
+      const target = GITDIR_FILE_PATTERN.exec(readGitFile(dotGit) ?? '')?.[1];
+      if (!target) return null;
+      gitDir = pathResolve(workTree, target.trim());
+    }
+  } catch {
+    return null;
+  }
+
+  return { gitDir, commonDir: resolveCommonDir(gitDir) };
+}
+
+/**
+ * 从gitdir的commondir文件解析common dir，没有该文件时即为gitdir本身
+ * Resolve the common dir from the gitdir's commondir file; the gitdir itself when there is none
+ * @param gitDir gitdir绝对路径 | Absolute gitdir
+ */
+export function resolveCommonDir(gitDir: string): string {
+  const commonDir = readGitFile(pathJoin(gitDir, 'commondir'));
+  return commonDir ? pathResolve(gitDir, commonDir) : gitDir;
+}
+
+/**
+ * 根据gitdir和common dir描述仓库布局 | Describe the repository layout from the gitdir and common dir
+ * @param gitDir gitdir绝对路径 | Absolute gitdir
+ * @param commonDir common dir绝对路径 | Absolute common dir
+ * @param superprojectWorkTree 父仓库工作树(来自 --show-superproject-working-tree) | Superproject worktree (from --show-superproject-working-tree)
+ */
+export function describeRepoLayout(
+  gitDir: string,
+  commonDir: string,
+  superprojectWorkTree?: string
+): GitRepoLayout {
+  // 未给出父仓库时按子模块gitdir的位置推断 | Without an explicit superproject, infer it from where the submodule gitdir lives
+  const superprojectRoot = superprojectWorkTree || SUBMODULE_GITDIR_PATTERN.exec(commonDir)?.[1];
+
+  return {
+    gitDir,
+    commonDir,
+    isWorktree: pathResolve(gitDir) !== pathResolve(commonDir),
+    isSubmodule: !!superprojectRoot,
+    ...(superprojectRoot && { superproject: basename(superprojectRoot) }),
+  };
+}
+
+/**
+ * 读取工作树根目录的仓库布局，无需执行git命令 | Read the repository layout of a worktree root without spawning git
+ * @param workTree 工作树根目录 | Worktree root directory
+ */
+export function readRepoLayout(workTree: string): GitRepoLayout | null {
+  const dirs = resolveGitDirs(workTree);
+  return dirs ? describeRepoLayout(dirs.gitDir, dirs.commonDir) : null;
+}
+
+/**
+ * 从目录向上查找所在工作树的仓库布局 | Walk up from a directory to the layout of the worktree containing it
+ * @param startDir 起始目录 | Starting directory
+ */
+export function discoverRepoLayout(startDir: string): GitRepoLayout | null {
+  let dir = pathResolve(startDir);
+  while (true) {
+    const layout = readRepoLayout(dir);
+    if (layout) return layout;
+
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
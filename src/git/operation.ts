@@ -0,0 +1,121 @@
+/**
+ * Git操作状态检测 | Git operation state detection
+ *
+ * 通过读取.git目录中的状态文件检测进行中的merge/rebase/cherry-pick等操作，无需执行git命令
+ * Detects in-progress merge/rebase/cherry-pick etc. by reading state files in the .git directory, without spawning git
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join as pathJoin } from 'node:path';
+import { type GitOperationStatus, GitOperationType } from './types.js';
+
+/**
+ * 安全读取Git文件内容 | Safely read Git file content
+ * @param filePath 文件路径 | File path
+ * @returns 文件内容或undefined | File content or undefined
+ */
+export function readGitFile(filePath: string): string | undefined {
+  try {
+    return readFileSync(filePath, 'utf8').trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 从MERGE_MSG中提取合并分支名 | Extract merge branch from MERGE_MSG
+ * @param mergeMsg 合并消息 | Merge message
+ * @returns 分支名 | Branch name
+ */
+export function extractMergeBranch(mergeMsg?: string): string | undefined {
+  if (!mergeMsg) return undefined;
+
+  // 匹配 "Merge branch 'feature-name'" 和 "Merge remote-tracking branch 'origin/x'" 格式
+  const match = mergeMsg.match(/Merge (?:remote-tracking )?branch '([^']+)'/);
+  return match?.[1];
+}
+
+/**
+ * 检测Git操作状态 | Detect Git operation status
+ * @param gitDir .git目录的绝对路径 | Absolute path of the .git directory
+ */
+export function detectGitOperation(gitDir: string): GitOperationStatus {
+  // 检查MERGE状态 | Check MERGE status
+  if (existsSync(pathJoin(gitDir, 'MERGE_HEAD'))) {
+    const mergeBranch = extractMergeBranch(readGitFile(pathJoin(gitDir, 'MERGE_MSG')));
+    return {
+      type: GitOperationType.MERGE,
+      inProgress: true,
+      ...(mergeBranch && { branch: mergeBranch }),
+      progress: 'Merging',
+    };
+  }
+
+  // 检查REBASE状态 | Check REBASE status
+  const rebaseMergeDir = pathJoin(gitDir, 'rebase-merge');
+  const rebaseApplyDir = pathJoin(gitDir, 'rebase-apply');
+
+  if (existsSync(rebaseMergeDir)) {
+    const headName = readGitFile(pathJoin(rebaseMergeDir, 'head-name'));
+    const msgNum = readGitFile(pathJoin(rebaseMergeDir, 'msgnum'));
+    const end = readGitFile(pathJoin(rebaseMergeDir, 'end'));
+
+    const branchName = headName?.replace('refs/heads/', '');
+    return {
+      type: GitOperationType.REBASE,
+      inProgress: true,
+      ...(branchName && { branch: branchName }),
+      progress: msgNum && end ? `${msgNum}/${end}` : 'Rebasing',
+    };
+  }
+
+  if (existsSync(rebaseApplyDir)) {
+    const headName = readGitFile(pathJoin(rebaseApplyDir, 'head-name'));
+    const next = readGitFile(pathJoin(rebaseApplyDir, 'next'));
+    const last = readGitFile(pathJoin(rebaseApplyDir, 'last'));
+
+    // 检查是否是AM操作 | Check if it's an AM operation
+    const isAm = existsSync(pathJoin(rebaseApplyDir, 'applying'));
+
+    const branchName = headName?.replace('refs/heads/', '');
+    return {
+      type: isAm ? GitOperationType.AM : GitOperationType.AM_REBASE,
+      inProgress: true,
+      ...(branchName && { branch: branchName }),
+      progress: next && last ? `${next}/${last}` : isAm ? 'Applying' : 'Rebasing',
+    };
+  }
+
+  // 检查CHERRY_PICK状态 | Check CHERRY_PICK status
+  if (existsSync(pathJoin(gitDir, 'CHERRY_PICK_HEAD'))) {
+    return {
+      type: GitOperationType.CHERRY_PICK,
+      inProgress: true,
+      progress: 'Cherry-picking',
+    };
+  }
+
+  // 检查REVERT状态 | Check REVERT status
+  if (existsSync(pathJoin(gitDir, 'REVERT_HEAD'))) {
+    return {
+      type: GitOperationType.REVERT,
+      inProgress: true,
+      progress: 'Reverting',
+    };
+  }
+
+  // 检查BISECT状态 | Check BISECT status
+  if (existsSync(pathJoin(gitDir, 'BISECT_LOG'))) {
+    return {
+      type: GitOperationType.BISECT,
+      inProgress: true,
+      progress: 'Bisecting',
+    };
+  }
+
+  // 无操作进行中 | No operation in progress
+  return {
+    type: GitOperationType.NONE,
+    inProgress: false,
+  };
+}
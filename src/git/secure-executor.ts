@@ -50,7 +50,11 @@ const ALLOWED_GIT_FLAGS = new Set([
   '--no-merges',
   '--list',
   '--show-current',
+  '--git-dir',
+  '--git-common-dir',
+  '--show-superproject-working-tree',
   '--all',
+  '--tags',
   '--local',
   '--remote',
   '--merged',
@@ -88,6 +92,16 @@ const ALLOWED_GIT_FLAGS = new Set([
   '-u',
 ]);
 
+/**
+ * 允许携带值的Git flags及其值格式 | Git flags allowed to carry a value, with their value format
+ * 形如 --format=%h%x1f%ct，值中不允许出现shell元字符 | e.g. --format=%h%x1f%ct, values never contain shell metacharacters
+ */
+const ALLOWED_GIT_VALUE_FLAGS = new Map<string, RegExp>([
+  ['--format', /^[%a-zA-Z0-9_:.-]+$/],
+  ['--pretty', /^[%a-zA-Z0-9_:.-]+$/],
+  ['--abbrev', /^\d{1,2}$/],
+]);
+
 /**
  * 危险的参数模式 | Dangerous argument patterns
  */
@@ -103,12 +117,56 @@ const DANGEROUS_PATTERNS = [
 const GIT_REF_PATTERN = /^[a-zA-Z0-9._/-]+$/;
 const GIT_HASH_PATTERN = /^[a-f0-9]{4,40}$/;
 
+/** 单个参数最大长度（防止DoS） | Maximum length of a single argument (DoS guard) */
+export const MAX_ARGUMENT_LENGTH = 1000;
+
+/** 子进程最大输出 | Maximum child process output */
+export const MAX_OUTPUT_SIZE = 1024 * 1024; // 1MB
+
+/** 子进程最大超时(ms) | Maximum child process timeout (ms) */
+export const MAX_EXEC_TIMEOUT = 30000;
+
+/**
+ * 构建安全的子进程执行选项 | Build secure child process spawn options
+ * 不经过shell、不继承stdin、限制超时和输出大小，并清理Git相关环境变量
+ * No shell, no inherited stdin, capped timeout and output, and Git environment variables cleared
+ * @param options 执行选项 | Execution options
+ * @param defaultTimeout 未指定时的超时(ms) | Timeout when none is given (ms)
+ */
+export function buildSecureSpawnOptions(
+  options: Partial<GitExecOptions>,
+  defaultTimeout = 5000
+): SpawnSyncOptions {
+  return {
+    cwd: options.cwd || process.cwd(),
+    timeout: Math.min(options.timeout || defaultTimeout, MAX_EXEC_TIMEOUT),
+    encoding: 'utf8',
+    maxBuffer: MAX_OUTPUT_SIZE,
+    shell: false,
+    // 安全的环境变量配置
+    env: {
+      ...process.env,
+      // 清理潜在危险的环境变量
+      GIT_DIR: undefined,
+      GIT_WORK_TREE: undefined,
+      GIT_INDEX_FILE: undefined,
+      GIT_OBJECT_DIRECTORY: undefined,
+      // 保留必要的环境变量
+      PATH: process.env.PATH,
+      HOME: process.env.HOME,
+      USER: process.env.USER,
+      ...options.env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  };
+}
+
 /**
  * 安全的Git命令执行器类
  */
 export class SecureGitExecutor {
   private readonly defaultTimeout = 5000;
-  private readonly maxOutputSize = 1024 * 1024; // 1MB
+  private readonly maxOutputSize = MAX_OUTPUT_SIZE;
 
   /**
    * 安全执行Git命令
@@ -169,13 +227,13 @@ export class SecureGitExecutor {
       }
 
       // 检查参数长度（防止DoS）
-      if (arg.length > 1000) {
+      if (arg.length > MAX_ARGUMENT_LENGTH) {
         throw new GitSecurityError('Argument too long', `${arg.substring(0, 50)}...`);
       }
 
       // 如果是以 - 开头的参数，检查是否在白名单中
       if (arg.startsWith('-')) {
-        if (!ALLOWED_GIT_FLAGS.has(arg)) {
+        if (!ALLOWED_GIT_FLAGS.has(arg) && !this.isAllowedValueFlag(arg)) {
           throw new GitSecurityError('Git flag not in whitelist', arg);
         }
       } else {
@@ -192,6 +250,17 @@ export class SecureGitExecutor {
     }
   }
 
+  /**
+   * 检查带值的flag是否合法（如 --format=%h）
+   */
+  private isAllowedValueFlag(arg: string): boolean {
+    const separatorIndex = arg.indexOf('=');
+    if (separatorIndex === -1) return false;
+
+    const valuePattern = ALLOWED_GIT_VALUE_FLAGS.get(arg.slice(0, separatorIndex));
+    return !!valuePattern && valuePattern.test(arg.slice(separatorIndex + 1));
+  }
+
   /**
    * 验证Git引用格式
    */
@@ -231,27 +300,7 @@ export class SecureGitExecutor {
    * 构建安全的执行选项
    */
   private buildSecureOptions(options: Partial<GitExecOptions>): SpawnSyncOptions {
-    return {
-      cwd: options.cwd || process.cwd(),
-      timeout: Math.min(options.timeout || this.defaultTimeout, 30000), // 最大30秒
-      encoding: 'utf8',
-      maxBuffer: this.maxOutputSize,
-      // 安全的环境变量配置
-      env: {
-        ...process.env,
-        // 清理潜在危险的环境变量
-        GIT_DIR: undefined,
-        GIT_WORK_TREE: undefined,
-        GIT_INDEX_FILE: undefined,
-        GIT_OBJECT_DIRECTORY: undefined,
-        // 保留必要的环境变量
-        PATH: process.env.PATH,
-        HOME: process.env.HOME,
-        USER: process.env.USER,
-        ...options.env,
-      },
-      stdio: ['ignore', 'pipe', 'pipe'],
-    };
+    return buildSecureSpawnOptions(options, this.defaultTimeout);
   }
 
   /**
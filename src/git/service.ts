@@ -5,18 +5,22 @@
  * Provides comprehensive Git information querying and cache management
  */
 
-import { existsSync, readFileSync, statSync } from 'node:fs';
-import { join as pathJoin } from 'node:path';
+import { existsSync, statSync } from 'node:fs';
+import { join as pathJoin, resolve as pathResolve } from 'node:path';
 import type { GitCache } from './cache.js';
 import { createDefaultCacheConfig, createGitCache } from './cache.js';
+import { describeRepoLayout, resolveCommonDir } from './layout.js';
+import { detectGitOperation } from './operation.js';
 import { GitExecutionError, GitSecurityError, secureGitExecutor } from './secure-executor.js';
 import type {
   GitBranchInfo,
+  GitDiffStat,
   GitExecOptions,
   GitExecResult,
   GitInfo,
   GitInfoOptions,
   GitOperationStatus,
+  GitRepoLayout,
   GitServiceConfig,
   GitStashInfo,
   GitVersionInfo,
@@ -33,6 +37,50 @@ import {
   GitTimeoutError,
 } from './types.js';
 
+/**
+ * 版本信息字段分隔符及log格式 | Version info field separator and log format
+ */
+const VERSION_FIELD_SEPARATOR = '\x1f';
+const VERSION_LOG_FORMAT = '%H%x1f%h%x1f%s%x1f%at%x1f%an';
+
+/**
+ * 创建Git服务配置，未指定的项使用默认值 | Create a Git service configuration, defaulting unspecified options
+ * @param config 部分配置 | Partial configuration
+ */
+export function createGitServiceConfig(config?: Partial<GitServiceConfig>): GitServiceConfig {
+  const defaultConfig: GitServiceConfig = {
+    timeout: 1000,
+    cwd: process.cwd(),
+    cache: createDefaultCacheConfig(),
+    features: {
+      fetchComparison: true,
+      fetchStash: true,
+      fetchOperation: true,
+      fetchVersion: true,
+    },
+  };
+
+  // 深度合并配置 | Deep merge configuration
+  const mergedConfig = {
+    ...defaultConfig,
+    ...config,
+    cache: {
+      ...defaultConfig.cache,
+      ...(config?.cache || {}),
+      cacheTypes: {
+        ...defaultConfig.cache.cacheTypes,
+        ...(config?.cache?.cacheTypes || {}),
+      },
+    },
+    features: {
+      ...defaultConfig.features,
+      ...(config?.features || {}),
+    },
+  };
+
+  return mergedConfig;
+}
+
 /**
  * Git服务接口 | Git service interface
  */
@@ -79,6 +127,20 @@ export interface GitService {
    */
   getStashInfo(forceRefresh?: boolean): Promise<GitStashInfo>;
 
+  /**
+   * 获取仓库布局(gitdir、工作树、子模块) | Get repository layout (gitdir, worktree, submodule)
+   * @param forceRefresh 是否强制刷新 | Whether to force refresh
+   * @returns 仓库布局 | Repository layout
+   */
+  getRepoLayout(forceRefresh?: boolean): Promise<GitRepoLayout>;
+
+  /**
+   * 获取相对HEAD的改动统计 | Get diff statistics against HEAD
+   * @param forceRefresh 是否强制刷新 | Whether to force refresh
+   * @returns 改动统计 | Diff statistics
+   */
+  getDiffStat(forceRefresh?: boolean): Promise<GitDiffStat>;
+
   /**
    * 检查是否在Git仓库中 | Check if in Git repository
    * @returns 是否在Git仓库中 | Whether in Git repository
@@ -106,13 +168,13 @@ export interface GitService {
  * Git服务默认实现 | Default Git service implementation
  */
 export class DefaultGitService implements GitService {
-  private config: GitServiceConfig;
-  private cache: GitCache;
+  protected config: GitServiceConfig;
+  protected cache: GitCache;
   private isLargeRepo?: boolean;
   private repoSizeCache?: number;
 
   constructor(config?: Partial<GitServiceConfig>) {
-    this.config = this.createDefaultConfig(config);
+    this.config = createGitServiceConfig(config);
     this.cache = createGitCache(this.config.cache);
   }
 
@@ -174,6 +236,18 @@ export class DefaultGitService implements GitService {
       infoKeys.push('stash');
     }
 
+    if (!skip?.includes('diff') && this.config.features.fetchDiffStat) {
+      // 大仓库时由getDiffStat自行跳过 | getDiffStat skips large repos itself
+      promises.push(this.getDiffStat(forceRefresh));
+      infoKeys.push('diff');
+    }
+
+    if (!skip?.includes('repo')) {
+      // 仓库布局只需一次rev-parse | Repository layout takes a single rev-parse
+      promises.push(this.getRepoLayout(forceRefresh));
+      infoKeys.push('repo');
+    }
+
     try {
       // 使用Promise.allSettled以提高容错性 | Use Promise.allSettled for better fault tolerance
       const results = await Promise.allSettled(promises);
@@ -195,6 +269,12 @@ export class DefaultGitService implements GitService {
         stash:
           (this.extractResult(results, infoKeys, 'stash') as GitStashInfo) ||
           this.createEmptyStashInfo(),
+        repo:
+          (this.extractResult(results, infoKeys, 'repo') as GitRepoLayout) ||
+          this.createEmptyRepoLayout(),
+        diff:
+          (this.extractResult(results, infoKeys, 'diff') as GitDiffStat) ||
+          this.createEmptyDiffStat(),
       };
 
       // 使用智能缓存TTL缓存完整信息 | Cache full info with smart cache TTL
@@ -231,6 +311,11 @@ export class DefaultGitService implements GitService {
 
       const current = (branchResult as PromiseFulfilledResult<GitExecResult>).value.stdout.trim();
       const detached = current === 'HEAD';
+      const headResult = baseResults[1];
+      const sha =
+        headResult?.status === 'fulfilled' && headResult.value.success
+          ? headResult.value.stdout.trim()
+          : undefined;
 
       // 初始化返回值 | Initialize return values
       let upstream: string | undefined;
@@ -280,6 +365,7 @@ export class DefaultGitService implements GitService {
         detached,
         ahead,
         behind,
+        ...(sha && { sha }),
         ...(upstream && { upstream }),
       };
 
@@ -349,13 +435,14 @@ export class DefaultGitService implements GitService {
     }
 
     try {
-      // 获取.git目录路径 | Get .git directory path
-      const gitDirResult = await this.execGit('rev-parse --git-dir');
-      const gitDir = gitDirResult.stdout.trim();
-      const absoluteGitDir = gitDir.startsWith('/') ? gitDir : pathJoin(this.config.cwd, gitDir);
+      // 操作状态文件位于当前工作树自己的gitdir中 | Operation state files live in the current worktree's own gitdir
+      const { gitDir } = await this.getRepoLayout(forceRefresh);
+      if (!gitDir) {
+        return this.createEmptyOperationStatus();
+      }
 
       // 检查各种Git操作状态 | Check various Git operation statuses
-      const operationStatus = this.detectGitOperation(absoluteGitDir);
+      const operationStatus = detectGitOperation(gitDir);
 
       this.cache.set(GitCacheKey.OPERATION_STATUS, operationStatus);
       return operationStatus;
@@ -372,8 +459,9 @@ export class DefaultGitService implements GitService {
 
     try {
       // 并行执行提交信息和标签信息命令 | Execute commit info and tag info commands in parallel
+      // 使用单元分隔符(\x1f)分隔字段，避免与提交信息冲突 | Separate fields with unit separator (\x1f) to avoid clashing with commit messages
       const commands = [
-        this.execGit('log -1 --format="%H|%h|%s|%at|%an"'),
+        this.execGit(`log -1 --format=${VERSION_LOG_FORMAT}`),
         this.execGit('describe --tags --abbrev=0', { ignoreErrors: true }),
         this.execGit('rev-list --count HEAD', { ignoreErrors: true }), // 总提交数 | Total commit count
       ];
@@ -386,10 +474,12 @@ export class DefaultGitService implements GitService {
         return this.createEmptyVersionInfo();
       }
 
-      const parts = (commitResult as PromiseFulfilledResult<GitExecResult>).value.stdout
-        .trim()
-        .replace(/^"|"$/g, '') // 移除引号 | Remove quotes
-        .split('|');
+      const commitOutput = (commitResult as PromiseFulfilledResult<GitExecResult>).value.stdout;
+      if (!commitOutput.trim()) {
+        return this.createEmptyVersionInfo();
+      }
+
+      const parts = commitOutput.trim().split(VERSION_FIELD_SEPARATOR);
 
       const sha = parts[0] || '';
       const shortSha = parts[1] || '';
@@ -407,12 +497,16 @@ export class DefaultGitService implements GitService {
         tagResult.status === 'fulfilled' &&
         (tagResult as PromiseFulfilledResult<GitExecResult>).value.success
       ) {
-        latestTag = (tagResult as PromiseFulfilledResult<GitExecResult>).value.stdout.trim();
+        latestTag =
+          (tagResult as PromiseFulfilledResult<GitExecResult>).value.stdout.trim() || undefined;
+      }
 
-        // 如果有标签，计算距离标签的提交数 | If there's a tag, calculate commits since tag
+      // 如果有标签，计算距离标签的提交数 | If there's a tag, calculate commits since tag
+      if (latestTag) {
         try {
           const countResult = await this.execGit(`rev-list --count ${latestTag}..HEAD`);
-          commitsSinceTag = parseInt(countResult.stdout.trim(), 10);
+          const count = parseInt(countResult.stdout.trim(), 10);
+          if (!Number.isNaN(count)) commitsSinceTag = count;
         } catch {
           // 忽略计数错误 | Ignore count errors
         }
@@ -489,6 +583,73 @@ export class DefaultGitService implements GitService {
     }
   }
 
+  async getRepoLayout(forceRefresh = false): Promise<GitRepoLayout> {
+    if (!forceRefresh) {
+      const cached = this.cache.get<GitRepoLayout>(GitCacheKey.REPO_LAYOUT);
+      if (cached) return cached;
+    }
+
+    try {
+      // 不在子模块中时不输出父仓库行 | The superproject line is omitted outside submodules
+      let lines = await this.readRevParseLines(
+        'rev-parse --git-dir --git-common-dir --show-superproject-working-tree'
+      );
+      // 旧版git(<2.13)对这些选项报错或原样回显，退回只读取--git-dir
+      // Older git (<2.13) fails on these options or echoes them back; fall back to --git-dir alone
+      if (!lines || lines.some((line) => line.startsWith('--'))) {
+        lines = (await this.readRevParseLines('rev-parse --git-dir'))?.slice(0, 1) ?? null;
+      }
+
+      const [gitDir, commonDir, superproject] = lines ?? [];
+      if (!gitDir) {
+        return this.createEmptyRepoLayout();
+      }
+
+      const absoluteGitDir = pathResolve(this.config.cwd, gitDir);
+      const repoLayout = describeRepoLayout(
+        absoluteGitDir,
+        commonDir ? pathResolve(this.config.cwd, commonDir) : resolveCommonDir(absoluteGitDir),
+        superproject
+      );
+
+      this.cache.set(GitCacheKey.REPO_LAYOUT, repoLayout);
+      return repoLayout;
+    } catch (_error) {
+      return this.createEmptyRepoLayout();
+    }
+  }
+
+  async getDiffStat(forceRefresh = false): Promise<GitDiffStat> {
+    if (!forceRefresh) {
+      const cached = this.cache.get<GitDiffStat>(GitCacheKey.DIFF_STAT);
+      if (cached) return cached;
+
+      // diff需要读取整个工作区，大仓库时跳过 | diff reads the whole worktree, so large repos skip it
+      if (this.config.features.skipOnLargeRepo !== false && (await this.isLargeRepository())) {
+        return this.createEmptyDiffStat();
+      }
+    }
+
+    try {
+      // 输出形如 " 5 files changed, 120 insertions(+), 34 deletions(-)" | Output like " 5 files changed, 120 insertions(+), 34 deletions(-)"
+      const result = await this.execGit('diff --shortstat HEAD');
+      const output = result.stdout;
+      const count = (pattern: RegExp) => parseInt(pattern.exec(output)?.[1] ?? '0', 10);
+
+      const diffStat: GitDiffStat = {
+        files: count(/(\d+) files? changed/),
+        insertions: count(/(\d+) insertions?\(\+\)/),
+        deletions: count(/(\d+) deletions?\(-\)/),
+      };
+
+      const cacheTTL = await this.getSmartCacheTTL('diff');
+      this.cache.set(GitCacheKey.DIFF_STAT, diffStat, cacheTTL);
+      return diffStat;
+    } catch (_error) {
+      return this.createEmptyDiffStat();
+    }
+  }
+
   async isGitRepo(): Promise<boolean> {
     try {
       await this.execGit('rev-parse --git-dir');
@@ -503,6 +664,13 @@ export class DefaultGitService implements GitService {
   }
 
   updateConfig(config: Partial<GitServiceConfig>): void {
+    // 切换到其他目录时丢弃缓存，避免沿用上一个仓库的结果 | Switching directories drops the caches so results never carry over from the previous repository
+    if (config.cwd !== undefined && config.cwd !== this.config.cwd) {
+      this.cache.clear();
+      delete this.isLargeRepo;
+      delete this.repoSizeCache;
+    }
+
     this.config = {
       ...this.config,
       ...config,
@@ -513,6 +681,22 @@ export class DefaultGitService implements GitService {
     return this.cache.getStats();
   }
 
+  /**
+   * 执行rev-parse并返回非空输出行，失败时返回null | Run rev-parse and return its non-empty output lines; null on failure
+   * @param command rev-parse命令 | rev-parse command
+   */
+  private async readRevParseLines(command: string): Promise<string[] | null> {
+    try {
+      const result = await this.execGit(command);
+      return result.stdout
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0);
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * 执行Git命令 | Execute Git command
    * @param command Git命令 | Git command
@@ -520,7 +704,7 @@ export class DefaultGitService implements GitService {
    * @param retries 重试次数 | Retry count
    * @returns 执行结果 | Execution result
    */
-  private async execGit(
+  protected async execGit(
     command: string,
     options?: Partial<GitExecOptions>,
     retries = 0
@@ -721,8 +905,8 @@ export class DefaultGitService implements GitService {
    * @returns 是否为大仓库 | Whether it's a large repository
    */
   private async isLargeRepository(): Promise<boolean> {
-    // 如果禁用大仓库优化，返回false | If large repo optimization is disabled, return false
-    if (!this.config.features.fetchComparison) {
+    // 没有启用重操作时无需检测 | No need to detect without heavy features enabled
+    if (!this.config.features.fetchComparison && !this.config.features.fetchDiffStat) {
       return false;
     }
 
@@ -772,11 +956,7 @@ export class DefaultGitService implements GitService {
           (fileResult as PromiseFulfilledResult<GitExecResult>).value.stdout.trim(),
           10
         );
-        if (
-          fileCount >
-          ((this.config.features as { large_repo_threshold?: number }).large_repo_threshold ||
-            10000)
-        ) {
+        if (fileCount > (this.config.features.largeRepoThreshold || 10000)) {
           this.isLargeRepo = true;
           return true;
         }
@@ -812,12 +992,14 @@ export class DefaultGitService implements GitService {
     }
 
     try {
-      const gitDirResult = await this.execGit('rev-parse --git-dir');
-      const gitDir = gitDirResult.stdout.trim();
-      const absoluteGitDir = gitDir.startsWith('/') ? gitDir : pathJoin(this.config.cwd, gitDir);
+      // 工作树共享common dir中的objects | Worktrees share the objects in the common dir
+      const { commonDir } = await this.getRepoLayout();
+      if (!commonDir) {
+        return 0;
+      }
 
       // 检查objects目录大小 | Check objects directory size
-      const objectsDir = pathJoin(absoluteGitDir, 'objects');
+      const objectsDir = pathJoin(commonDir, 'objects');
       const size = this.calculateDirectorySize(objectsDir);
 
       this.repoSizeCache = size;
@@ -855,8 +1037,8 @@ export class DefaultGitService implements GitService {
    * @param infoType 信息类型 | Information type
    * @returns 缓存TTL | Cache TTL
    */
-  private async getSmartCacheTTL(
-    infoType: 'branch' | 'status' | 'version' | 'stash'
+  protected async getSmartCacheTTL(
+    infoType: 'branch' | 'status' | 'version' | 'stash' | 'diff'
   ): Promise<number> {
     const baseTTL = this.config.cache.duration;
     const isLarge = await this.isLargeRepository();
@@ -871,6 +1053,7 @@ export class DefaultGitService implements GitService {
         case 'stash':
           return baseTTL * 6; // 30秒 | 30 seconds
         case 'status':
+        case 'diff':
           return baseTTL * 2; // 10秒 | 10 seconds
         default:
           return baseTTL * 4;
@@ -881,43 +1064,6 @@ export class DefaultGitService implements GitService {
     return baseTTL;
   }
 
-  /**
-   * 创建默认配置 | Create default configuration
-   */
-  private createDefaultConfig(config?: Partial<GitServiceConfig>): GitServiceConfig {
-    const defaultConfig: GitServiceConfig = {
-      timeout: 1000,
-      cwd: process.cwd(),
-      cache: createDefaultCacheConfig(),
-      features: {
-        fetchComparison: true,
-        fetchStash: true,
-        fetchOperation: true,
-        fetchVersion: true,
-      },
-    };
-
-    // 深度合并配置 | Deep merge configuration
-    const mergedConfig = {
-      ...defaultConfig,
-      ...config,
-      cache: {
-        ...defaultConfig.cache,
-        ...(config?.cache || {}),
-        cacheTypes: {
-          ...defaultConfig.cache.cacheTypes,
-          ...(config?.cache?.cacheTypes || {}),
-        },
-      },
-      features: {
-        ...defaultConfig.features,
-        ...(config?.features || {}),
-      },
-    };
-
-    return mergedConfig;
-  }
-
   /**
    * 过滤Git信息 | Filter Git information
    */
@@ -965,10 +1111,12 @@ export class DefaultGitService implements GitService {
       operation: this.createEmptyOperationStatus(),
       version: this.createEmptyVersionInfo(),
       stash: this.createEmptyStashInfo(),
+      repo: this.createEmptyRepoLayout(),
+      diff: this.createEmptyDiffStat(),
     };
   }
 
-  private createEmptyBranchInfo(): GitBranchInfo {
+  protected createEmptyBranchInfo(): GitBranchInfo {
     return {
       current: 'no-git',
       detached: false,
@@ -1004,123 +1152,27 @@ export class DefaultGitService implements GitService {
     };
   }
 
-  private createEmptyStashInfo(): GitStashInfo {
+  protected createEmptyStashInfo(): GitStashInfo {
     return {
       count: 0,
     };
   }
 
-  /**
-   * 检测Git操作状态 | Detect Git operation status
-   * @param gitDir Git目录路径 | Git directory path
-   * @returns 操作状态 | Operation status
-   */
-  private detectGitOperation(gitDir: string): GitOperationStatus {
-    // 检查MERGE状态 | Check MERGE status
-    if (existsSync(pathJoin(gitDir, 'MERGE_HEAD'))) {
-      const branch = this.readGitFile(pathJoin(gitDir, 'MERGE_MSG'));
-      const mergeBranch = this.extractMergeBranch(branch);
-      return {
-        type: GitOperationType.MERGE,
-        inProgress: true,
-        ...(mergeBranch && { branch: mergeBranch }),
-        progress: 'Merging',
-      };
-    }
-
-    // 检查REBASE状态 | Check REBASE status
-    const rebaseMergeDir = pathJoin(gitDir, 'rebase-merge');
-    const rebaseApplyDir = pathJoin(gitDir, 'rebase-apply');
-
-    if (existsSync(rebaseMergeDir)) {
-      const headName = this.readGitFile(pathJoin(rebaseMergeDir, 'head-name'));
-      const msgNum = this.readGitFile(pathJoin(rebaseMergeDir, 'msgnum'));
-      const end = this.readGitFile(pathJoin(rebaseMergeDir, 'end'));
-
-      const branchName = headName?.replace('refs/heads/', '');
-      return {
-        type: GitOperationType.REBASE,
-        inProgress: true,
-        ...(branchName && { branch: branchName }),
-        progress: msgNum && end ? `${msgNum}/${end}` : 'Rebasing',
-      };
-    }
-
-    if (existsSync(rebaseApplyDir)) {
-      const headName = this.readGitFile(pathJoin(rebaseApplyDir, 'head-name'));
-      const next = this.readGitFile(pathJoin(rebaseApplyDir, 'next'));
-      const last = this.readGitFile(pathJoin(rebaseApplyDir, 'last'));
-
-      // 检查是否是AM操作 | Check if it's an AM operation
-      const isAm = existsSync(pathJoin(rebaseApplyDir, 'applying'));
-
-      const branchName = headName?.replace('refs/heads/', '');
-      return {
-        type: isAm ? GitOperationType.AM : GitOperationType.AM_REBASE,
-        inProgress: true,
-        ...(branchName && { branch: branchName }),
-        progress: next && last ? `${next}/${last}` : isAm ? 'Applying' : 'Rebasing',
-      };
-    }
-
-    // 检查CHERRY_PICK状态 | Check CHERRY_PICK status
-    if (existsSync(pathJoin(gitDir, 'CHERRY_PICK_HEAD'))) {
-      return {
-        type: GitOperationType.CHERRY_PICK,
-        inProgress: true,
-        progress: 'Cherry-picking',
-      };
-    }
-
-    // 检查REVERT状态 | Check REVERT status
-    if (existsSync(pathJoin(gitDir, 'REVERT_HEAD'))) {
-      return {
-        type: GitOperationType.REVERT,
-        inProgress: true,
-        progress: 'Reverting',
-      };
-    }
-
-    // 检查BISECT状态 | Check BISECT status
-    if (existsSync(pathJoin(gitDir, 'BISECT_LOG'))) {
-      return {
-        type: GitOperationType.BISECT,
-        inProgress: true,
-        progress: 'Bisecting',
-      };
-    }
-
-    // 无操作进行中 | No operation in progress
+  protected createEmptyDiffStat(): GitDiffStat {
     return {
-      type: GitOperationType.NONE,
-      inProgress: false,
+      files: 0,
+      insertions: 0,
+      deletions: 0,
     };
   }
 
-  /**
-   * 安全读取Git文件内容 | Safely read Git file content
-   * @param filePath 文件路径 | File path
-   * @returns 文件内容或undefined | File content or undefined
-   */
-  private readGitFile(filePath: string): string | undefined {
-    try {
-      return readFileSync(filePath, 'utf8').trim();
-    } catch {
-      return undefined;
-    }
-  }
-
-  /**
-   * 从MERGE_MSG中提取合并分支名 | Extract merge branch from MERGE_MSG
-   * @param mergeMsg 合并消息 | Merge message
-   * @returns 分支名 | Branch name
-   */
-  private extractMergeBranch(mergeMsg?: string): string | undefined {
-    if (!mergeMsg) return undefined;
-
-    // 匹配 "Merge branch 'feature-name'" 格式
-    const match = mergeMsg.match(/Merge branch '([^']+)'/);
-    return match?.[1];
+  protected createEmptyRepoLayout(): GitRepoLayout {
+    return {
+      gitDir: '',
+      commonDir: '',
+      isWorktree: false,
+      isSubmodule: false,
+    };
   }
 
   /**
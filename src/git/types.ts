@@ -17,6 +17,8 @@ export interface GitBranchInfo {
   upstream?: string;
   /** 是否是HEAD游离状态 | Whether in detached HEAD state */
   detached: boolean;
+  /** HEAD提交SHA，尚无提交时为空 | HEAD commit SHA; absent before the first commit */
+  sha?: string;
   /** 相对上游分支的提交数 | Commits ahead of upstream */
   ahead: number;
   /** 落后上游分支的提交数 | Commits behind upstream */
@@ -104,6 +106,35 @@ export interface GitStashInfo {
   };
 }
 
+/**
+ * 相对HEAD的行级改动统计(git diff --shortstat HEAD) | Line-level changes against HEAD (git diff --shortstat HEAD)
+ */
+export interface GitDiffStat {
+  /** 改动文件数 | Number of changed files */
+  files: number;
+  /** 新增行数 | Inserted lines */
+  insertions: number;
+  /** 删除行数 | Deleted lines */
+  deletions: number;
+}
+
+/**
+ * Git仓库布局 | Git repository layout
+ * 链接工作树和子模块的.git是指向实际gitdir的文件 | In linked worktrees and submodules .git is a file pointing at the real gitdir
+ */
+export interface GitRepoLayout {
+  /** 当前工作树的gitdir绝对路径 | Absolute gitdir of the current worktree */
+  gitDir: string;
+  /** 共享的common dir绝对路径(objects、refs所在) | Absolute shared common dir (where objects and refs live) */
+  commonDir: string;
+  /** 是否为链接工作树 | Whether this is a linked worktree */
+  isWorktree: boolean;
+  /** 是否为子模块 | Whether this is a submodule */
+  isSubmodule: boolean;
+  /** 子模块所属的父仓库名称 | Name of the superproject a submodule belongs to */
+  superproject?: string;
+}
+
 // ==================== 聚合Git信息类型 ====================
 
 /**
@@ -122,6 +153,10 @@ export interface GitInfo {
   version: GitVersionInfo;
   /** 存储信息 | Stash information */
   stash: GitStashInfo;
+  /** 仓库布局 | Repository layout */
+  repo: GitRepoLayout;
+  /** 改动统计 | Diff statistics */
+  diff: GitDiffStat;
 }
 
 // ==================== 配置类型 ====================
@@ -169,6 +204,12 @@ export interface GitFeatureConfig {
   fetchOperation: boolean;
   /** 是否获取版本详情 | Whether to fetch version details */
   fetchVersion: boolean;
+  /** 是否获取改动统计 | Whether to fetch diff statistics */
+  fetchDiffStat?: boolean;
+  /** 大仓库时跳过改动统计，默认开启 | Skip diff statistics on large repositories, on by default */
+  skipOnLargeRepo?: boolean;
+  /** 大仓库文件数阈值 | Large repository file count threshold */
+  largeRepoThreshold?: number;
 }
 
 // ==================== 缓存相关类型 ====================
@@ -194,6 +235,8 @@ export enum GitCacheKey {
   OPERATION_STATUS = 'operation_status',
   VERSION_INFO = 'version_info',
   STASH_INFO = 'stash_info',
+  REPO_LAYOUT = 'repo_layout',
+  DIFF_STAT = 'diff_stat',
   FULL_INFO = 'full_info',
 }
 
@@ -32,6 +32,13 @@ export { MockDataGenerator, mockDataGenerator } from './cli/mock-data.js';
 export { Component, ComponentFactory, ComponentRegistry } from './components/base.js';
 export { BranchComponent, BranchComponentFactory } from './components/branch.js';
 export { ModelComponent } from './components/model.js';
+export {
+  createPluginLoader,
+  getDefaultPluginDir,
+  type PluginLoadError,
+  PluginLoader,
+  type PluginLoadResult,
+} from './components/plugin-loader.js';
 export { ProjectComponent } from './components/project.js';
 export { StatusComponent } from './components/status.js';
 export { TokensComponent } from './components/tokens.js';
@@ -122,6 +129,13 @@ export {
 } from './utils/date-formatter.js';
 // 工具函数导出
 export * from './utils/index.js';
+// Transcript增量索引导出
+export {
+  TranscriptIndex,
+  TranscriptIndexRegistry,
+  type TranscriptReadOptions,
+  transcriptIndex,
+} from './utils/transcript-index.js';
 
 /**
  * 版本信息 - 构建时注入
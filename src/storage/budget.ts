@@ -0,0 +1,168 @@
+/**
+ * Cost budget evaluation
+ * 成本预算计算 - 按日/周/月汇总花费并与限额比较
+ */
+
+import type { BudgetConfig, BudgetPeriod } from '../config/schema.js';
+import type { SessionCost } from './types.js';
+
+/**
+ * Budget level
+ * 预算状态级别
+ */
+export type BudgetLevel = 'ok' | 'warning' | 'critical';
+
+/**
+ * Budget status of a single period
+ * 单个周期的预算状态
+ */
+export interface BudgetPeriodStatus {
+  /** Budget period */
+  period: BudgetPeriod;
+  /** Spend in this period (USD) */
+  spent: number;
+  /** Limit of this period (USD) */
+  limit: number;
+  /** Used percentage */
+  percentage: number;
+  /** Status level */
+  level: BudgetLevel;
+}
+
+/**
+ * Budget periods in display order
+ * 预算周期（显示顺序）
+ */
+const BUDGET_PERIODS: BudgetPeriod[] = ['daily', 'weekly', 'monthly'];
+
+/**
+ * Format a date as local YYYY-MM-DD
+ * 格式化为本地日期 YYYY-MM-DD，用作按日成本的键
+ */
+export function formatLocalDay(date: Date | number): string {
+  const value = new Date(date);
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Get the start of a budget period in local time
+ * 获取预算周期的起始时间（本地时间，周从周一开始）
+ */
+export function getBudgetPeriodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  if (period === 'weekly') {
+    const daysSinceMonday = (start.getDay() + 6) % 7;
+    start.setDate(start.getDate() - daysSinceMonday);
+  } else if (period === 'monthly') {
+    start.setDate(1);
+  }
+
+  return start;
+}
+
+/**
+ * Record a cumulative session cost into per-day deltas
+ * 将会话累计成本的增量记入当天，返回新的按日成本
+ *
+ * 没有按日记录的旧会话先把已有成本记到最后更新的那天
+ * Older sessions without daily records first book their existing cost on the day of their last update
+ */
+export function recordDailyCost(
+  previous: Pick<SessionCost, 'totalCostUsd' | 'lastUpdateTime' | 'dailyCostUsd'>,
+  totalCostUsd: number,
+  now: Date = new Date()
+): Record<string, number> {
+  const daily = { ...previous.dailyCostUsd };
+
+  if (!previous.dailyCostUsd && previous.totalCostUsd > 0) {
+    const updatedAt = Date.parse(previous.lastUpdateTime);
+    const day = formatLocalDay(Number.isFinite(updatedAt) ? updatedAt : now);
+    daily[day] = previous.totalCostUsd;
+  }
+
+  const delta = totalCostUsd - previous.totalCostUsd;
+  if (delta > 0) {
+    const today = formatLocalDay(now);
+    daily[today] = (daily[today] ?? 0) + delta;
+  }
+
+  return daily;
+}
+
+/**
+ * Spend of a session since a local day
+ * 会话在某天（含）之后的花费
+ */
+function sessionSpendSince(session: SessionCost, sinceDay: string): number {
+  if (session.dailyCostUsd) {
+    let spent = 0;
+    for (const [day, cost] of Object.entries(session.dailyCostUsd)) {
+      if (day >= sinceDay) spent += cost;
+    }
+    return spent;
+  }
+
+  // 没有按日记录时整段会话记在最后更新的那天 | Without daily records the whole session counts on its last update day
+  const updatedAt = Date.parse(session.lastUpdateTime);
+  return Number.isFinite(updatedAt) && formatLocalDay(updatedAt) >= sinceDay
+    ? session.totalCostUsd || 0
+    : 0;
+}
+
+/**
+ * Evaluate budget status for all configured periods
+ * 计算所有已配置周期的预算状态，只累加周期内产生的成本增量
+ */
+export function evaluateBudget(
+  budget: NonNullable<BudgetConfig>,
+  sessions: SessionCost[],
+  now: Date = new Date()
+): BudgetPeriodStatus[] {
+  const statuses: BudgetPeriodStatus[] = [];
+
+  for (const period of BUDGET_PERIODS) {
+    const limit = budget[period];
+    if (!limit) continue;
+
+    const sinceDay = formatLocalDay(getBudgetPeriodStart(period, now));
+    const spent = sessions.reduce(
+      (total, session) => total + sessionSpendSince(session, sinceDay),
+      0
+    );
+
+    const percentage = (spent / limit) * 100;
+    const level: BudgetLevel =
+      percentage >= budget.critical_threshold
+        ? 'critical'
+        : percentage >= budget.warning_threshold
+          ? 'warning'
+          : 'ok';
+
+    statuses.push({ period, spent, limit, percentage, level });
+  }
+
+  return statuses;
+}
+
+/**
+ * Pick the period to display
+ * 选择要显示的周期：优先使用配置的周期，否则取占用比例最高的周期
+ */
+export function selectBudgetStatus(
+  statuses: BudgetPeriodStatus[],
+  period?: BudgetPeriod
+): BudgetPeriodStatus | null {
+  if (period) {
+    const configured = statuses.find((status) => status.period === period);
+    if (configured) return configured;
+  }
+
+  return statuses.reduce<BudgetPeriodStatus | null>(
+    (selected, status) =>
+      !selected || status.percentage > selected.percentage ? status : selected,
+    null
+  );
+}
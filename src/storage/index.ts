@@ -3,11 +3,39 @@
  * 存储系统主模块
  */
 
+export {
+  type BudgetLevel,
+  type BudgetPeriodStatus,
+  evaluateBudget,
+  getBudgetPeriodStart,
+  selectBudgetStatus,
+} from './budget.js';
+export {
+  acquireFileLock,
+  FileLockError,
+  type FileLockOptions,
+  withFileLock,
+} from './lock.js';
 export { StorageManager, storageManager } from './manager.js';
+export {
+  calculateUsageCost,
+  DEFAULT_MODEL_PRICING,
+  estimateTranscriptCost,
+  resolveModelPricing,
+} from './pricing.js';
+export {
+  buildUsageReport,
+  type ReportGroupBy,
+  type ReportOptions,
+  type ReportRow,
+  type UsageReport,
+} from './report.js';
 export { SessionTracker, sessionTracker } from './session-tracker.js';
 export * from './types.js';
 
 import { configLoader } from '../config/loader.js';
+import type { BudgetConfig } from '../config/schema.js';
+import { type BudgetPeriodStatus, evaluateBudget, selectBudgetStatus } from './budget.js';
 import { storageManager } from './manager.js';
 
 /**
@@ -66,3 +94,18 @@ export async function getConversationCostDisplay(sessionId: string): Promise<{
 export async function updateCostFromInput(inputData: any): Promise<void> {
   await storageManager.updateSessionCost(inputData);
 }
+
+/**
+ * Get budget status to display
+ * 获取要显示的预算状态，未配置限额时返回null
+ */
+export async function getBudgetStatusDisplay(
+  budget: BudgetConfig
+): Promise<BudgetPeriodStatus | null> {
+  if (!budget || !(budget.daily || budget.weekly || budget.monthly)) {
+    return null;
+  }
+
+  const sessions = await storageManager.loadAllSessionCosts();
+  return selectBudgetStatus(evaluateBudget(budget, sessions), budget.period);
+}
@@ -0,0 +1,392 @@
+/**
+ * Append-only cost ledger
+ * 追加写入的成本账本 - 替代每个会话一个JSON文件
+ *
+ * 文件格式 | File format (JSONL):
+ * 1. 可选的索引头（压缩时写入）| Optional index header written on compaction
+ *    {"type":"header","version":1,"compactedAt":...,"bodyLength":N,"sessions":{"<id>":offset}}
+ * 2. 压缩后的会话记录，每个会话一行 | Compacted session records, one line per session
+ * 3. 追加的记录，后写入的覆盖先写入的 | Appended records, later lines win
+ *    {"type":"session",...SessionCost} / {"type":"delete","sessionId":"..."}
+ *
+ * 每条记录通过一次O_APPEND写入，压缩通过临时文件加rename原子替换；
+ * 写入和压缩都持有账本锁，压缩期间的追加不会在rename时丢失。
+ * Each record is a single O_APPEND write and compaction atomically replaces the file via a
+ * temp file plus rename; writes and compaction both hold the ledger lock, so appends made
+ * while compacting are never lost by the rename.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { withFileLock } from './lock.js';
+import type { SessionCost } from './types.js';
+
+/** 账本文件名 | Ledger file name */
+export const LEDGER_FILE_NAME = 'cost-ledger.jsonl';
+
+/** 账本格式版本 | Ledger format version */
+const LEDGER_VERSION = 1;
+
+/** 追加部分超过该字节数时压缩 | Compact once the appended tail exceeds this many bytes */
+const COMPACT_TAIL_BYTES = 64 * 1024;
+
+/** 压缩最小间隔 | Minimum interval between routine compactions */
+const COMPACT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Ledger index header
+ * 账本索引头
+ */
+interface LedgerHeader {
+  type: 'header';
+  version: number;
+  /** Last compaction time (ISO) */
+  compactedAt: string;
+  /** Byte length of the compacted body following the header */
+  bodyLength: number;
+  /** Session ID -> byte offset of its record within the body */
+  sessions: Record<string, number>;
+}
+
+/**
+ * Ledger record
+ * 账本记录
+ */
+type LedgerRecord =
+  | ({ type: 'session' } & SessionCost)
+  | { type: 'delete'; sessionId: string; deletedAt: string };
+
+/**
+ * Parsed ledger file
+ * 解析后的账本文件
+ */
+interface LedgerContent {
+  buffer: Buffer;
+  header: LedgerHeader | null;
+  /** Byte offset where the header line ends */
+  bodyStart: number;
+  /** Byte offset where appended records start */
+  tailStart: number;
+}
+
+/**
+ * Write options
+ * 写入选项
+ */
+export interface LedgerWriteOptions {
+  /** Caller already holds the ledger lock (see withFileLock) */
+  lockHeld?: boolean | undefined;
+}
+
+/**
+ * Compaction options
+ * 压缩选项
+ */
+export interface LedgerCompactOptions extends LedgerWriteOptions {
+  /** Drop sessions last updated before this time */
+  olderThan?: Date | undefined;
+}
+
+/**
+ * Parse one JSONL line, returning null for invalid lines
+ * 解析单行JSONL，无效行返回null
+ */
+function parseLine<T>(line: string): T | null {
+  if (!line.trim()) return null;
+  try {
+    return JSON.parse(line) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Strip the record type from a session record
+ * 去掉记录类型字段，得到会话成本
+ */
+function toSessionCost(record: { type: 'session' } & SessionCost): SessionCost {
+  const { type: _type, ...cost } = record;
+  return cost;
+}
+
+export class CostLedger {
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Get ledger file path
+   * 获取账本文件路径
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Append a session cost record
+   * 追加会话成本记录（单次O_APPEND写入）
+   */
+  async append(cost: SessionCost, options: LedgerWriteOptions = {}): Promise<void> {
+    await this.withLock(options, () => this.appendRecord({ type: 'session', ...cost }));
+  }
+
+  /**
+   * Append a tombstone removing a session
+   * 追加删除标记移除会话
+   */
+  async remove(sessionId: string, options: LedgerWriteOptions = {}): Promise<void> {
+    await this.withLock(options, () =>
+      this.appendRecord({ type: 'delete', sessionId, deletedAt: new Date().toISOString() })
+    );
+  }
+
+  /**
+   * Get the latest record of a session
+   * 获取会话的最新记录：先查索引，再扫描追加部分
+   */
+  async get(sessionId: string): Promise<SessionCost | null> {
+    const content = await this.read();
+    if (!content) return null;
+
+    let result: SessionCost | null = null;
+    let scanStart = content.bodyStart;
+
+    if (content.header) {
+      const offset = content.header.sessions[sessionId];
+      if (offset !== undefined) {
+        const record = this.readRecordAt(content, content.bodyStart + offset);
+        if (record?.type === 'session' && record.sessionId === sessionId) {
+          result = toSessionCost(record);
+        }
+      }
+      scanStart = content.tailStart;
+    }
+
+    for (const record of this.iterateRecords(content.buffer, scanStart)) {
+      if (record.sessionId !== sessionId) continue;
+      result = record.type === 'session' ? toSessionCost(record) : null;
+    }
+
+    return result;
+  }
+
+  /**
+   * Get the latest record of every session
+   * 获取所有会话的最新记录
+   */
+  async getAll(): Promise<SessionCost[]> {
+    const content = await this.read();
+    if (!content) return [];
+    return Array.from(this.collectLatest(content.buffer, content.bodyStart).values());
+  }
+
+  /**
+   * Whether routine compaction is due
+   * 是否需要例行压缩：追加部分过大，或距上次压缩超过一天且有新记录
+   */
+  async needsCompaction(): Promise<boolean> {
+    const content = await this.read();
+    if (!content) return false;
+
+    const tailBytes = content.buffer.length - content.tailStart;
+    if (tailBytes >= COMPACT_TAIL_BYTES) return true;
+    if (!content.header) return tailBytes > 0;
+
+    const compactedAt = Date.parse(content.header.compactedAt);
+    return (
+      tailBytes > 0 &&
+      (!Number.isFinite(compactedAt) || Date.now() - compactedAt > COMPACT_INTERVAL_MS)
+    );
+  }
+
+  /**
+   * Compact the ledger into one record per session
+   * 压缩账本：每个会话保留一行并重建索引，通过临时文件加rename原子替换
+   *
+   * @returns Number of sessions removed by the cutoff
+   */
+  async compact(options: LedgerCompactOptions = {}): Promise<number> {
+    return this.withLock(options, () => this.compactLocked(options.olderThan));
+  }
+
+  /**
+   * Compact while holding the ledger lock
+   * 持有账本锁时压缩：读取到rename之间不会有其他写入
+   */
+  private async compactLocked(olderThan: Date | undefined): Promise<number> {
+    const content = await this.read();
+    if (!content) return 0;
+
+    const latest = this.collectLatest(content.buffer, content.bodyStart);
+    const cutoff = olderThan?.getTime();
+    let removed = 0;
+
+    const bodyLines: string[] = [];
+    const sessions: Record<string, number> = {};
+    let bodyLength = 0;
+
+    for (const [sessionId, cost] of latest) {
+      const updatedAt = Date.parse(cost.lastUpdateTime);
+      if (cutoff !== undefined && Number.isFinite(updatedAt) && updatedAt < cutoff) {
+        removed++;
+        continue;
+      }
+
+      const line = `${JSON.stringify({ type: 'session', ...cost })}\n`;
+      sessions[sessionId] = bodyLength;
+      bodyLength += Buffer.byteLength(line);
+      bodyLines.push(line);
+    }
+
+    const header: LedgerHeader = {
+      type: 'header',
+      version: LEDGER_VERSION,
+      compactedAt: new Date().toISOString(),
+      bodyLength,
+      sessions,
+    };
+
+    const tempPath = `${this.filePath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      await fs.promises.writeFile(tempPath, `${JSON.stringify(header)}\n${bodyLines.join('')}`);
+      await fs.promises.rename(tempPath, this.filePath);
+    } catch (error) {
+      await fs.promises.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Import legacy per-session JSON files into the ledger
+   * 将旧版每会话JSON文件导入账本，成功后删除旧文件
+   *
+   * @returns Number of imported sessions
+   */
+  async migrateLegacyFiles(sessionsDir: string, options: LedgerWriteOptions = {}): Promise<number> {
+    return this.withLock(options, () => this.migrateLegacyFilesLocked(sessionsDir));
+  }
+
+  /**
+   * Import legacy files while holding the ledger lock
+   * 持有账本锁时导入旧版文件
+   */
+  private async migrateLegacyFilesLocked(sessionsDir: string): Promise<number> {
+    let files: string[];
+    try {
+      files = (await fs.promises.readdir(sessionsDir)).filter((file) => file.endsWith('.json'));
+    } catch {
+      return 0;
+    }
+    if (files.length === 0) return 0;
+
+    const existing = new Set((await this.getAll()).map((cost) => cost.sessionId));
+    const imported: string[] = [];
+    let records = '';
+
+    for (const file of files) {
+      const filePath = path.join(sessionsDir, file);
+      const cost = parseLine<SessionCost>(await fs.promises.readFile(filePath, 'utf-8'));
+      if (!cost?.sessionId) continue;
+
+      if (!existing.has(cost.sessionId)) {
+        records += `${JSON.stringify({ type: 'session', ...cost })}\n`;
+      }
+      imported.push(filePath);
+    }
+
+    if (records) {
+      await fs.promises.appendFile(this.filePath, records);
+      await this.compactLocked(undefined);
+    }
+    await Promise.all(imported.map((filePath) => fs.promises.rm(filePath, { force: true })));
+
+    return imported.length;
+  }
+
+  /**
+   * Run a write while holding the ledger lock
+   * 持有账本锁执行写入，调用方已持有锁时直接执行
+   */
+  private async withLock<T>(options: LedgerWriteOptions, fn: () => Promise<T>): Promise<T> {
+    return options.lockHeld ? fn() : withFileLock(this.filePath, fn);
+  }
+
+  /**
+   * Append a single record
+   * 追加单条记录
+   */
+  private async appendRecord(record: LedgerRecord): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify(record)}\n`, { flag: 'a' });
+  }
+
+  /**
+   * Read and split the ledger file
+   * 读取账本文件并定位索引头、压缩区和追加区
+   */
+  private async read(): Promise<LedgerContent | null> {
+    let buffer: Buffer;
+    try {
+      buffer = await fs.promises.readFile(this.filePath);
+    } catch {
+      return null;
+    }
+
+    const firstNewline = buffer.indexOf(0x0a);
+    const header =
+      firstNewline > 0
+        ? parseLine<LedgerHeader>(buffer.subarray(0, firstNewline).toString('utf-8'))
+        : null;
+
+    if (header?.type === 'header' && header.version === LEDGER_VERSION) {
+      const bodyStart = firstNewline + 1;
+      return {
+        buffer,
+        header,
+        bodyStart,
+        tailStart: Math.min(bodyStart + header.bodyLength, buffer.length),
+      };
+    }
+
+    return { buffer, header: null, bodyStart: 0, tailStart: 0 };
+  }
+
+  /**
+   * Read the record starting at a byte offset
+   * 读取指定字节偏移处的记录
+   */
+  private readRecordAt(content: LedgerContent, offset: number): LedgerRecord | null {
+    const end = content.buffer.indexOf(0x0a, offset);
+    const line = content.buffer.subarray(offset, end === -1 ? undefined : end).toString('utf-8');
+    return parseLine<LedgerRecord>(line);
+  }
+
+  /**
+   * Iterate over records from a byte offset
+   * 从字节偏移开始遍历记录
+   */
+  private *iterateRecords(buffer: Buffer, start: number): Generator<LedgerRecord> {
+    for (const line of buffer.subarray(start).toString('utf-8').split('\n')) {
+      const record = parseLine<LedgerRecord>(line);
+      if (record && (record.type === 'session' || record.type === 'delete') && record.sessionId) {
+        yield record;
+      }
+    }
+  }
+
+  /**
+   * Collect the latest record of every session
+   * 收集每个会话的最新记录
+   */
+  private collectLatest(buffer: Buffer, start: number): Map<string, SessionCost> {
+    const latest = new Map<string, SessionCost>();
+    for (const record of this.iterateRecords(buffer, start)) {
+      if (record.type === 'delete') {
+        latest.delete(record.sessionId);
+      } else {
+        latest.set(record.sessionId, toSessionCost(record));
+      }
+    }
+    return latest;
+  }
+}
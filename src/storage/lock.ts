@@ -0,0 +1,203 @@
+/**
+ * Advisory file locks
+ * 建议性文件锁 - 多个statusline进程并发写入时串行化读改写
+ *
+ * 锁文件为目标路径加 .lock 后缀，使用O_EXCL创建；
+ * 持有进程已退出或锁超过stale时间未释放时视为过期并被接管。
+ * The lock file is the target path plus `.lock`, created with O_EXCL;
+ * it is taken over when the owning process is gone or it outlives the stale timeout.
+ */
+
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+/**
+ * File lock options
+ * 文件锁选项
+ */
+export interface FileLockOptions {
+  /** Give up after this many milliseconds (default 5000) */
+  timeout?: number;
+  /** Locks older than this many milliseconds are stale (default 10000) */
+  stale?: number;
+  /** Delay between attempts in milliseconds (default 20) */
+  retryInterval?: number;
+}
+
+/**
+ * Lock file content
+ * 锁文件内容
+ */
+interface LockInfo {
+  pid: number;
+  hostname: string;
+  token: string;
+  createdAt: number;
+}
+
+/**
+ * File lock error
+ * 文件锁错误
+ */
+export class FileLockError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string
+  ) {
+    super(message);
+    this.name = 'FileLockError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const DEFAULT_STALE_MS = 10000;
+const DEFAULT_RETRY_INTERVAL_MS = 20;
+
+/**
+ * Get the lock file path of a target
+ * 获取目标文件对应的锁文件路径
+ */
+export function getLockPath(targetPath: string): string {
+  return `${targetPath}.lock`;
+}
+
+/**
+ * Check whether a process is alive
+ * 检查进程是否存活
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM表示进程存在但无权限 | EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Read lock file content
+ * 读取锁文件内容，无法解析时返回null
+ */
+async function readLockInfo(lockPath: string): Promise<LockInfo | null> {
+  try {
+    return JSON.parse(await fs.promises.readFile(lockPath, 'utf-8')) as LockInfo;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether an existing lock is stale
+ * 判断已有锁是否过期：超时，或同一主机上的持有进程已退出
+ */
+async function isLockStale(lockPath: string, staleMs: number): Promise<boolean> {
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.promises.stat(lockPath)).mtimeMs;
+  } catch {
+    return false;
+  }
+
+  if (Date.now() - mtimeMs > staleMs) {
+    return true;
+  }
+
+  const info = await readLockInfo(lockPath);
+  return !!info && info.hostname === os.hostname() && !isProcessAlive(info.pid);
+}
+
+/**
+ * Remove a stale lock without removing a fresh one created meanwhile
+ * 移除过期锁：先rename到唯一路径，若拿到的并非过期锁则尝试放回
+ */
+async function breakStaleLock(lockPath: string, staleMs: number): Promise<void> {
+  const stalePath = `${lockPath}.${process.pid}.${randomUUID()}.stale`;
+  try {
+    await fs.promises.rename(lockPath, stalePath);
+  } catch {
+    return;
+  }
+
+  if (!(await isLockStale(stalePath, staleMs))) {
+    // 其他进程刚获得的新锁，放回原位 | A fresh lock another process just took; put it back
+    await fs.promises.link(stalePath, lockPath).catch(() => {});
+  }
+  await fs.promises.rm(stalePath, { force: true });
+}
+
+/**
+ * Acquire an advisory lock for a file
+ * 获取文件的建议性锁，返回释放函数
+ */
+export async function acquireFileLock(
+  targetPath: string,
+  options: FileLockOptions = {}
+): Promise<() => Promise<void>> {
+  const lockPath = getLockPath(targetPath);
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+  const staleMs = options.stale ?? DEFAULT_STALE_MS;
+  const retryInterval = options.retryInterval ?? DEFAULT_RETRY_INTERVAL_MS;
+  const deadline = Date.now() + timeout;
+  const info: LockInfo = {
+    pid: process.pid,
+    hostname: os.hostname(),
+    token: randomUUID(),
+    createdAt: Date.now(),
+  };
+
+  await fs.promises.mkdir(path.dirname(lockPath), { recursive: true });
+
+  while (true) {
+    try {
+      const handle = await fs.promises.open(lockPath, 'wx');
+      try {
+        await handle.writeFile(JSON.stringify(info), 'utf-8');
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (await isLockStale(lockPath, staleMs)) {
+      await breakStaleLock(lockPath, staleMs);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new FileLockError(`Timed out waiting for lock ${lockPath}`, lockPath);
+    }
+    await new Promise((resolve) => setTimeout(resolve, retryInterval));
+  }
+
+  return async () => {
+    // 只释放自己持有的锁 | Only release the lock we still own
+    const current = await readLockInfo(lockPath);
+    if (current?.token === info.token) {
+      await fs.promises.rm(lockPath, { force: true });
+    }
+  };
+}
+
+/**
+ * Run a function while holding a file lock
+ * 持有文件锁执行函数
+ */
+export async function withFileLock<T>(
+  targetPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const release = await acquireFileLock(targetPath, options);
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
+}
@@ -7,12 +7,28 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import { projectResolver } from '../utils/project-resolver.js';
-import type { ConversationCost, SessionCost, StorageConfig, StoragePaths } from './types.js';
+import { recordDailyCost } from './budget.js';
+import { CostLedger, LEDGER_FILE_NAME } from './ledger.js';
+import { withFileLock } from './lock.js';
+import type {
+  ConversationCost,
+  ProjectSessionCost,
+  SessionCost,
+  StorageConfig,
+  StoragePaths,
+} from './types.js';
 
 export class StorageManager {
   private config: StorageConfig;
   private paths: StoragePaths;
   private projectId?: string | undefined;
+  private ledger: CostLedger;
+  private legacyMigrated = false;
+  /** Session costs per ledger file, reused while the file is unchanged */
+  private ledgerCache = new Map<
+    string,
+    { mtimeMs: number; size: number; sessions: SessionCost[] }
+  >();
 
   constructor(config?: Partial<StorageConfig>, projectId?: string) {
     this.config = {
@@ -25,9 +41,26 @@ export class StorageManager {
 
     this.projectId = projectId;
     this.paths = this.initializePaths();
+    this.ledger = new CostLedger(path.join(this.paths.sessionsDir, LEDGER_FILE_NAME));
     this.ensureDirectories();
   }
 
+  /**
+   * Get the cost ledger, importing legacy per-session files once
+   * 获取成本账本，首次使用时导入旧版每会话JSON文件
+   */
+  private async getLedger(): Promise<CostLedger> {
+    if (!this.legacyMigrated) {
+      this.legacyMigrated = true;
+      try {
+        await this.ledger.migrateLegacyFiles(this.paths.sessionsDir);
+      } catch (error) {
+        console.warn('Failed to migrate legacy session files:', error);
+      }
+    }
+    return this.ledger;
+  }
+
   /**
    * Initialize storage paths based on current project
    * 初始化存储路径
@@ -69,15 +102,27 @@ export class StorageManager {
 
   /**
    * Save session cost data
-   * 保存会话成本数据
+   * 保存会话成本数据（追加到账本）
    */
   async saveSessionCost(cost: SessionCost): Promise<void> {
     if (!this.config.enableCostPersistence) {
       return;
     }
 
-    const sessionPath = path.join(this.paths.sessionsDir, `${cost.sessionId}.json`);
-    await fs.promises.writeFile(sessionPath, JSON.stringify(cost, null, 2), 'utf-8');
+    const ledger = await this.getLedger();
+    await withFileLock(ledger.getFilePath(), () => this.appendSessionCost(ledger, cost));
+  }
+
+  /**
+   * Append session cost and compact when due (caller holds the ledger lock)
+   * 追加会话成本并在需要时压缩（调用方需持有账本锁）
+   */
+  private async appendSessionCost(ledger: CostLedger, cost: SessionCost): Promise<void> {
+    await ledger.append(cost, { lockHeld: true });
+
+    if (await ledger.needsCompaction()) {
+      await ledger.compact({ olderThan: this.getCleanupCutoff(), lockHeld: true });
+    }
   }
 
   /**
@@ -85,27 +130,32 @@ export class StorageManager {
    * 加载会话成本数据
    */
   async loadSessionCost(sessionId: string): Promise<SessionCost | null> {
-    const sessionPath = path.join(this.paths.sessionsDir, `${sessionId}.json`);
-    console.error(`DEBUG: loadSessionCost looking for: ${sessionPath}`);
-    console.error(`DEBUG: File exists: ${fs.existsSync(sessionPath)}`);
-
-    if (!fs.existsSync(sessionPath)) {
-      return null;
-    }
+    const ledger = await this.getLedger();
+    console.error(`DEBUG: loadSessionCost looking for: ${sessionId} in ${ledger.getFilePath()}`);
 
     try {
-      const data = await fs.promises.readFile(sessionPath, 'utf-8');
-      const sessionCost = JSON.parse(data) as SessionCost;
-      console.error(
-        `DEBUG: Successfully loaded sessionCost for ${sessionId}, cost: ${sessionCost.totalCostUsd}`
-      );
+      const sessionCost = await ledger.get(sessionId);
+      if (sessionCost) {
+        console.error(
+          `DEBUG: Successfully loaded sessionCost for ${sessionId}, cost: ${sessionCost.totalCostUsd}`
+        );
+      }
       return sessionCost;
     } catch (error) {
-      console.error(`DEBUG: Failed to parse session file: ${error}`);
+      console.error(`DEBUG: Failed to read cost ledger: ${error}`);
       return null;
     }
   }
 
+  /**
+   * Remove session cost data
+   * 删除会话成本数据（追加删除标记）
+   */
+  async removeSessionCost(sessionId: string): Promise<void> {
+    const ledger = await this.getLedger();
+    await ledger.remove(sessionId);
+  }
+
   /**
    * Find parent session from JSONL files
    * 从JSONL文件中查找父会话
@@ -237,46 +287,57 @@ export class StorageManager {
     }
 
     const sessionId = inputData.sessionId || inputData.session_id;
+    const ledger = await this.getLedger();
+
+    // 读改写期间持有账本锁，避免并发窗口互相覆盖 | Hold the ledger lock across read-modify-write
+    await withFileLock(ledger.getFilePath(), async () => {
+      // Load existing cost or create new
+      let sessionCost = await this.loadSessionCost(sessionId);
+
+      if (!sessionCost) {
+        // Find parent session if this is a new session
+        const parentSessionId = await this.findParentSession(sessionId);
+
+        sessionCost = {
+          sessionId,
+          ...(parentSessionId && { parentSessionId }),
+          projectPath: process.cwd(),
+          totalCostUsd: 0,
+          inputTokens: 0,
+          outputTokens: 0,
+          linesAdded: 0,
+          linesRemoved: 0,
+          startTime: new Date().toISOString(),
+          lastUpdateTime: new Date().toISOString(),
+        };
+      }
 
-    // Load existing cost or create new
-    let sessionCost = await this.loadSessionCost(sessionId);
-
-    if (!sessionCost) {
-      // Find parent session if this is a new session
-      const parentSessionId = await this.findParentSession(sessionId);
-
-      sessionCost = {
-        sessionId,
-        ...(parentSessionId && { parentSessionId }),
-        projectPath: process.cwd(),
-        totalCostUsd: 0,
-        inputTokens: 0,
-        outputTokens: 0,
-        linesAdded: 0,
-        linesRemoved: 0,
-        startTime: new Date().toISOString(),
-        lastUpdateTime: new Date().toISOString(),
-      };
-    }
-
-    // At this point sessionCost is guaranteed to be non-null
-    if (!sessionCost) {
-      throw new Error('SessionCost should not be null at this point');
-    }
-
-    // Update with new data
-    if (inputData.cost) {
-      sessionCost.totalCostUsd = inputData.cost.total_cost_usd || sessionCost.totalCostUsd;
-      sessionCost.linesAdded = inputData.cost.total_lines_added || sessionCost.linesAdded;
-      sessionCost.linesRemoved = inputData.cost.total_lines_removed || sessionCost.linesRemoved;
-    }
+      // Update with new data
+      // 官方数据是会话累计值，乱序到达的旧数据不应让总数回退
+      // Official numbers are cumulative per session, so stale input must not move totals backwards
+      if (inputData.cost) {
+        const totalCostUsd = Math.max(sessionCost.totalCostUsd, inputData.cost.total_cost_usd || 0);
+        // 记录每天的成本增量，预算按周期只统计期间内的花费
+        // Record the cost increase per day so budgets only count spend inside each period
+        sessionCost.dailyCostUsd = recordDailyCost(sessionCost, totalCostUsd);
+        sessionCost.totalCostUsd = totalCostUsd;
+        sessionCost.linesAdded = Math.max(
+          sessionCost.linesAdded,
+          inputData.cost.total_lines_added || 0
+        );
+        sessionCost.linesRemoved = Math.max(
+          sessionCost.linesRemoved,
+          inputData.cost.total_lines_removed || 0
+        );
+      }
 
-    // Model信息不再存储 | Model info no longer stored
+      // Model信息不再存储 | Model info no longer stored
 
-    sessionCost.lastUpdateTime = new Date().toISOString();
+      sessionCost.lastUpdateTime = new Date().toISOString();
 
-    // Save updated cost
-    await this.saveSessionCost(sessionCost);
+      // Save updated cost
+      await this.appendSessionCost(ledger, sessionCost);
+    });
   }
 
   /**
@@ -296,47 +357,126 @@ export class StorageManager {
     return await this.loadConversationCost(sessionId);
   }
 
+  /**
+   * Load session costs of all projects
+   * 加载所有项目的会话成本数据（用于预算汇总和报表）
+   */
+  async loadAllSessionCosts(): Promise<ProjectSessionCost[]> {
+    const projectsDir = path.join(this.config.storagePath!, 'projects');
+    if (!fs.existsSync(projectsDir)) {
+      return [];
+    }
+
+    const sessions: ProjectSessionCost[] = [];
+    const projects = await fs.promises.readdir(projectsDir);
+
+    for (const project of projects) {
+      const sessionsDir = path.join(projectsDir, project, 'statusline-pro', 'sessions');
+      if (!fs.existsSync(sessionsDir)) continue;
+
+      const seen = new Set<string>();
+      try {
+        for (const sessionCost of await this.readLedgerSessions(
+          path.join(sessionsDir, LEDGER_FILE_NAME)
+        )) {
+          if (typeof sessionCost.totalCostUsd === 'number') {
+            seen.add(sessionCost.sessionId);
+            sessions.push({ ...sessionCost, projectId: project });
+          }
+        }
+      } catch {
+        // Skip unreadable ledgers
+      }
+
+      // 尚未迁移的项目仍可能保留旧版JSON文件 | Projects not migrated yet may still hold legacy JSON files
+      const files = await fs.promises.readdir(sessionsDir);
+      for (const file of files) {
+        if (!file.endsWith('.json')) continue;
+
+        try {
+          const data = await fs.promises.readFile(path.join(sessionsDir, file), 'utf-8');
+          const sessionCost = JSON.parse(data) as SessionCost;
+          if (typeof sessionCost.totalCostUsd === 'number' && !seen.has(sessionCost.sessionId)) {
+            sessions.push({ ...sessionCost, projectId: project });
+          }
+        } catch {
+          // Skip unreadable or invalid session files
+        }
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Read all sessions of a ledger file, cached by mtime and size
+   * 读取账本中的所有会话，按修改时间和大小缓存，避免每次渲染都重新解析所有项目
+   */
+  private async readLedgerSessions(filePath: string): Promise<SessionCost[]> {
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(filePath);
+    } catch {
+      this.ledgerCache.delete(filePath);
+      return [];
+    }
+
+    const cached = this.ledgerCache.get(filePath);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      return cached.sessions;
+    }
+
+    const sessions = await new CostLedger(filePath).getAll();
+    this.ledgerCache.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, sessions });
+    return sessions;
+  }
+
   /**
    * Clean up old session data
    * 清理旧会话数据
    */
   async cleanupOldSessions(): Promise<void> {
-    if (this.config.autoCleanupDays === undefined || this.config.autoCleanupDays === null) {
+    const cutoffDate = this.getCleanupCutoff();
+    if (!cutoffDate) {
       return;
     }
 
+    // 负值立即压缩，否则只在例行压缩到期时压缩，避免每次调用都重写文件
+    // Negative values compact immediately; otherwise compact only when routine compaction is due
+    const ledger = await this.getLedger();
+    await withFileLock(ledger.getFilePath(), async () => {
+      if (this.config.autoCleanupDays! < 0 || (await ledger.needsCompaction())) {
+        await ledger.compact({ olderThan: cutoffDate, lockHeld: true });
+      }
+    });
+  }
+
+  /**
+   * Get the cleanup cutoff date
+   * 获取清理截止时间，未启用清理时返回undefined
+   */
+  private getCleanupCutoff(): Date | undefined {
+    if (this.config.autoCleanupDays === undefined || this.config.autoCleanupDays === null) {
+      return undefined;
+    }
+
     // If autoCleanupDays is 0, don't cleanup (disable feature)
     // Use a negative value to cleanup immediately for testing
     if (this.config.autoCleanupDays === 0) {
-      return;
+      return undefined;
     }
 
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - Math.abs(this.config.autoCleanupDays));
+    return cutoffDate;
+  }
 
-    // Ensure directory exists before trying to read it
-    if (!fs.existsSync(this.paths.sessionsDir)) {
-      return;
-    }
-
-    const files = await fs.promises.readdir(this.paths.sessionsDir);
-
-    for (const file of files) {
-      if (!file.endsWith('.json')) continue;
-
-      const filePath = path.join(this.paths.sessionsDir, file);
-
-      try {
-        const stats = await fs.promises.stat(filePath);
-
-        if (stats.mtime < cutoffDate) {
-          await fs.promises.unlink(filePath);
-        }
-      } catch (error) {
-        // Skip files that can't be accessed
-        console.warn(`Failed to process file ${filePath}:`, error);
-      }
-    }
+  /**
+   * Get storage base path
+   * 获取存储根目录（默认 ~/.claude）
+   */
+  getStoragePath(): string {
+    return this.config.storagePath!;
   }
 
   /**
@@ -364,6 +504,8 @@ export class StorageManager {
     // 同时更新 projectResolver 的缓存
     projectResolver.setProjectIdFromTranscript(`/projects/${projectId}/`);
     this.paths = this.initializePaths();
+    this.ledger = new CostLedger(path.join(this.paths.sessionsDir, LEDGER_FILE_NAME));
+    this.legacyMigrated = false;
     this.ensureDirectories();
   }
 }
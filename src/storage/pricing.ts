@@ -0,0 +1,127 @@
+/**
+ * Model pricing and cost estimation
+ * 模型定价与成本估算
+ */
+
+import type {
+  ModelPricing,
+  PricingConfig,
+  TranscriptSnapshot,
+  UsageInfo,
+} from '../config/schema.js';
+
+/**
+ * Built-in pricing table (USD per million tokens)
+ * 内置定价表（每百万token美元），键为模型ID前缀
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4-5': { input: 5, output: 25, cache_write: 6.25, cache_read: 0.5 },
+  'claude-opus-4': { input: 15, output: 75, cache_write: 18.75, cache_read: 1.5 },
+  'claude-sonnet-4': { input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 },
+  'claude-haiku-4-5': { input: 1, output: 5, cache_write: 1.25, cache_read: 0.1 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cache_write: 1, cache_read: 0.08 },
+  'claude-3-opus': { input: 15, output: 75, cache_write: 18.75, cache_read: 1.5 },
+  'claude-3-sonnet': { input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cache_write: 0.3, cache_read: 0.03 },
+  default: { input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 },
+};
+
+/**
+ * Normalize a model id or pricing key for lookup
+ * 规范化模型ID或定价键：去掉诸如 [1m] 的上下文窗口后缀并转为小写
+ */
+function normalizeModelId(modelId: string): string {
+  return modelId
+    .trim()
+    .replace(/\[[^\]]*\]$/, '')
+    .toLowerCase();
+}
+
+/**
+ * Find pricing in a table by exact id or longest prefix
+ * 按精确ID或最长前缀查找定价，表中的键同样规范化后比较
+ */
+function lookupPricing(
+  table: Record<string, ModelPricing>,
+  modelId: string
+): ModelPricing | undefined {
+  let bestKey: string | undefined;
+  let bestLength = -1;
+  for (const key of Object.keys(table)) {
+    const normalizedKey = normalizeModelId(key);
+    if (normalizedKey === 'default' || !modelId.startsWith(normalizedKey)) continue;
+
+    // 精确匹配优先，其次最长前缀 | Exact matches win, then the longest prefix
+    const length = normalizedKey === modelId ? Number.POSITIVE_INFINITY : normalizedKey.length;
+    if (length > bestLength) {
+      bestKey = key;
+      bestLength = length;
+    }
+  }
+  return bestKey ? table[bestKey] : undefined;
+}
+
+/**
+ * Resolve pricing for a model id
+ * 解析模型定价：用户配置优先，其次内置表，最后default
+ */
+export function resolveModelPricing(
+  modelId: string | undefined,
+  overrides?: PricingConfig
+): ModelPricing {
+  const normalizedId = normalizeModelId(modelId || '');
+  const userPricing = overrides || {};
+
+  const pricing =
+    (normalizedId && lookupPricing(userPricing, normalizedId)) ||
+    (normalizedId && lookupPricing(DEFAULT_MODEL_PRICING, normalizedId)) ||
+    userPricing.default ||
+    DEFAULT_MODEL_PRICING.default;
+
+  if (!pricing) {
+    throw new Error(`Invalid model pricing configuration for ${modelId}`);
+  }
+  return pricing;
+}
+
+/**
+ * Calculate cost of a usage record in USD
+ * 计算单条usage的美元成本
+ */
+export function calculateUsageCost(usage: UsageInfo, pricing: ModelPricing): number {
+  const cacheWriteRate = pricing.cache_write ?? pricing.input * 1.25;
+  const cacheReadRate = pricing.cache_read ?? pricing.input * 0.1;
+
+  return (
+    (usage.input_tokens * pricing.input +
+      usage.output_tokens * pricing.output +
+      usage.cache_creation_input_tokens * cacheWriteRate +
+      usage.cache_read_input_tokens * cacheReadRate) /
+    1_000_000
+  );
+}
+
+/**
+ * Estimate session cost from a transcript snapshot
+ * 根据transcript快照估算会话成本，没有usage时返回null
+ *
+ * @param fallbackModelId - 条目未记录模型时使用的模型ID
+ */
+export function estimateTranscriptCost(
+  transcript: TranscriptSnapshot,
+  fallbackModelId?: string,
+  overrides?: PricingConfig
+): number | null {
+  const entries = Object.entries(transcript.usageByModel);
+  if (entries.length === 0) {
+    return null;
+  }
+
+  let cost = 0;
+  for (const [modelId, usage] of entries) {
+    cost += calculateUsageCost(usage, resolveModelPricing(modelId || fallbackModelId, overrides));
+  }
+  return cost;
+}
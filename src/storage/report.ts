@@ -0,0 +1,392 @@
+/**
+ * Historical usage report
+ * 历史用量报表 - 汇总会话成本文件与Claude JSONL transcript
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import type { PricingConfig, UsageInfo } from '../config/schema.js';
+import { formatLocalDay } from './budget.js';
+import type { StorageManager } from './manager.js';
+import { calculateUsageCost, resolveModelPricing } from './pricing.js';
+import type { ProjectSessionCost } from './types.js';
+
+/**
+ * Report grouping dimension
+ * 报表分组维度
+ */
+export type ReportGroupBy = 'model' | 'project' | 'day';
+
+/**
+ * Report options
+ * 报表选项
+ */
+export interface ReportOptions {
+  /** Only include usage at or after this time */
+  since?: Date | undefined;
+  /** Project filter (case-insensitive substring of the project ID) */
+  project?: string | undefined;
+  /** Grouping dimension */
+  by: ReportGroupBy;
+  /** Pricing overrides used for estimates */
+  pricing?: PricingConfig;
+}
+
+/**
+ * Aggregated report row
+ * 报表聚合行
+ */
+export interface ReportRow {
+  /** Group key (model id, project ID or YYYY-MM-DD) */
+  key: string;
+  /** Cost in USD */
+  costUsd: number;
+  /** Whether part of the cost was estimated from tokens */
+  estimated: boolean;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  linesAdded: number;
+  linesRemoved: number;
+  /** Number of distinct sessions */
+  sessions: number;
+}
+
+/**
+ * Usage report
+ * 用量报表
+ */
+export interface UsageReport {
+  groupBy: ReportGroupBy;
+  since?: string | undefined;
+  rows: ReportRow[];
+  totals: ReportRow;
+}
+
+/**
+ * Usage bucket of one session, model and day
+ * 单个会话/模型/日期的用量桶
+ */
+interface UsageBucket {
+  projectId: string;
+  sessionId: string;
+  model: string;
+  day: string;
+  lastTimestamp: number;
+  usage: UsageInfo;
+  costUsd: number;
+  estimated: boolean;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+/**
+ * Session usage parsed from a transcript
+ * 从transcript解析出的会话用量
+ */
+interface SessionUsage {
+  /** Buckets inside the report range */
+  buckets: UsageBucket[];
+  /** Estimated cost of the whole session, including usage before the range */
+  estimatedTotal: number;
+}
+
+/**
+ * Create an empty report row
+ * 创建空的报表行
+ */
+function createRow(key: string): ReportRow {
+  return {
+    key,
+    costUsd: 0,
+    estimated: false,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    linesAdded: 0,
+    linesRemoved: 0,
+    sessions: 0,
+  };
+}
+
+/**
+ * Parse a Claude JSONL transcript into usage buckets
+ * 将Claude JSONL transcript解析为用量桶，同一消息拆分为多行时只计一次
+ */
+async function parseTranscriptUsage(
+  filePath: string,
+  projectId: string,
+  options: ReportOptions
+): Promise<Map<string, SessionUsage>> {
+  const sessions = new Map<string, SessionUsage>();
+  const bucketIndex = new Map<string, UsageBucket>();
+  const seenMessageIds = new Set<string>();
+  const fallbackSessionId = path.basename(filePath, '.jsonl');
+  const since = options.since?.getTime() ?? 0;
+
+  const rl = readline.createInterface({
+    input: fs.createReadStream(filePath),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of rl) {
+    if (!line.trim()) continue;
+
+    let entry: Record<string, any>;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    const message = entry?.message;
+    if (entry?.type !== 'assistant' || !message?.usage) continue;
+
+    if (typeof message.id === 'string') {
+      if (seenMessageIds.has(message.id)) continue;
+      seenMessageIds.add(message.id);
+    }
+
+    const usage: UsageInfo = {
+      input_tokens: Number(message.usage.input_tokens) || 0,
+      output_tokens: Number(message.usage.output_tokens) || 0,
+      cache_creation_input_tokens: Number(message.usage.cache_creation_input_tokens) || 0,
+      cache_read_input_tokens: Number(message.usage.cache_read_input_tokens) || 0,
+    };
+    const model = typeof message.model === 'string' ? message.model : 'unknown';
+    const costUsd = calculateUsageCost(usage, resolveModelPricing(model, options.pricing));
+    const sessionId = entry.sessionId || entry.session_id || fallbackSessionId;
+
+    let session = sessions.get(sessionId);
+    if (!session) {
+      session = { buckets: [], estimatedTotal: 0 };
+      sessions.set(sessionId, session);
+    }
+    session.estimatedTotal += costUsd;
+
+    const timestamp = Date.parse(entry.timestamp);
+    if (!Number.isFinite(timestamp) || timestamp < since) continue;
+
+    const day = formatLocalDay(timestamp);
+    const bucketKey = `${sessionId}\u0000${model}\u0000${day}`;
+    let bucket = bucketIndex.get(bucketKey);
+    if (!bucket) {
+      bucket = {
+        projectId,
+        sessionId,
+        model,
+        day,
+        lastTimestamp: timestamp,
+        usage: {
+          input_tokens: 0,
+          output_tokens: 0,
+          cache_creation_input_tokens: 0,
+          cache_read_input_tokens: 0,
+        },
+        costUsd: 0,
+        estimated: true,
+        linesAdded: 0,
+        linesRemoved: 0,
+      };
+      bucketIndex.set(bucketKey, bucket);
+      session.buckets.push(bucket);
+    }
+
+    bucket.lastTimestamp = Math.max(bucket.lastTimestamp, timestamp);
+    bucket.usage.input_tokens += usage.input_tokens;
+    bucket.usage.output_tokens += usage.output_tokens;
+    bucket.usage.cache_creation_input_tokens += usage.cache_creation_input_tokens;
+    bucket.usage.cache_read_input_tokens += usage.cache_read_input_tokens;
+    bucket.costUsd += costUsd;
+  }
+
+  return sessions;
+}
+
+/**
+ * Apply stored official cost to the buckets of a session
+ * 将存储的官方成本按估算比例分摊到会话的用量桶，代码行数计入最后一个桶
+ */
+function applySessionCost(
+  stored: ProjectSessionCost,
+  session: SessionUsage | undefined,
+  since: number
+): UsageBucket[] {
+  if (session && session.estimatedTotal > 0) {
+    for (const bucket of session.buckets) {
+      bucket.costUsd = stored.totalCostUsd * (bucket.costUsd / session.estimatedTotal);
+      bucket.estimated = false;
+    }
+
+    const latest = session.buckets.reduce<UsageBucket | null>(
+      (a, b) => (!a || b.lastTimestamp > a.lastTimestamp ? b : a),
+      null
+    );
+    if (latest) {
+      latest.linesAdded += stored.linesAdded || 0;
+      latest.linesRemoved += stored.linesRemoved || 0;
+    }
+    return session.buckets;
+  }
+
+  // 没有transcript用量时按每日成本记录拆分，旧会话以最后更新时间记一条
+  // Without transcript usage, split by the daily cost records; older sessions are recorded at their last update
+  const timestamp = Date.parse(stored.lastUpdateTime);
+  if (!Number.isFinite(timestamp)) {
+    return [];
+  }
+
+  const lastDay = formatLocalDay(timestamp);
+  const dailyCosts = Object.entries(stored.dailyCostUsd ?? { [lastDay]: stored.totalCostUsd });
+  const buckets: UsageBucket[] = [];
+
+  for (const [day, costUsd] of dailyCosts) {
+    // 最后一天以更新时间为准，其余天以当天结束为准 | The last day ends at the update time, other days at midnight
+    const isLastDay = day === lastDay;
+    const lastTimestamp = isLastDay ? timestamp : Date.parse(`${day}T23:59:59.999`);
+    if (!Number.isFinite(lastTimestamp) || lastTimestamp < since) continue;
+
+    // token和代码行数只有累计值，记在最后一天 | Tokens and lines are only cumulative, so they go to the last day
+    buckets.push({
+      projectId: stored.projectId,
+      sessionId: stored.sessionId,
+      model: stored.model?.id || 'unknown',
+      day,
+      lastTimestamp,
+      usage: {
+        input_tokens: isLastDay ? stored.inputTokens || 0 : 0,
+        output_tokens: isLastDay ? stored.outputTokens || 0 : 0,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+      },
+      costUsd,
+      estimated: false,
+      linesAdded: isLastDay ? stored.linesAdded || 0 : 0,
+      linesRemoved: isLastDay ? stored.linesRemoved || 0 : 0,
+    });
+  }
+  return buckets;
+}
+
+/**
+ * Build a usage report from stored sessions and transcripts
+ * 根据存储的会话成本和Claude transcript生成用量报表
+ */
+export async function buildUsageReport(
+  manager: StorageManager,
+  options: ReportOptions
+): Promise<UsageReport> {
+  const projectsDir = path.join(manager.getStoragePath(), 'projects');
+  const projectFilter = options.project?.toLowerCase();
+  const since = options.since?.getTime() ?? 0;
+  const matchesProject = (projectId: string) =>
+    !projectFilter || projectId.toLowerCase().includes(projectFilter);
+
+  const storedSessions = (await manager.loadAllSessionCosts()).filter((session) =>
+    matchesProject(session.projectId)
+  );
+  const buckets: UsageBucket[] = [];
+  const transcriptSessions = new Map<string, SessionUsage>();
+
+  const projects = fs.existsSync(projectsDir) ? await fs.promises.readdir(projectsDir) : [];
+  for (const projectId of projects) {
+    if (!matchesProject(projectId)) continue;
+
+    const projectDir = path.join(projectsDir, projectId);
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(projectDir);
+    } catch {
+      continue;
+    }
+
+    for (const file of files) {
+      if (!file.endsWith('.jsonl')) continue;
+      const filePath = path.join(projectDir, file);
+
+      try {
+        // 早于统计起点的文件不会包含范围内的用量 | Files last modified before the range hold no usage in it
+        const stats = await fs.promises.stat(filePath);
+        if (stats.mtimeMs < since) continue;
+
+        const sessions = await parseTranscriptUsage(filePath, projectId, options);
+        for (const [sessionId, session] of sessions) {
+          const key = `${projectId}/${sessionId}`;
+          const existing = transcriptSessions.get(key);
+          if (existing) {
+            existing.buckets.push(...session.buckets);
+            existing.estimatedTotal += session.estimatedTotal;
+          } else {
+            transcriptSessions.set(key, session);
+          }
+        }
+      } catch {
+        // Skip unreadable transcripts
+      }
+    }
+  }
+
+  for (const stored of storedSessions) {
+    const key = `${stored.projectId}/${stored.sessionId}`;
+    buckets.push(...applySessionCost(stored, transcriptSessions.get(key), since));
+    transcriptSessions.delete(key);
+  }
+  for (const session of transcriptSessions.values()) {
+    buckets.push(...session.buckets);
+  }
+
+  // 按维度聚合 | Aggregate by dimension
+  const rows = new Map<string, ReportRow>();
+  const rowSessions = new Map<string, Set<string>>();
+  const totals = createRow('total');
+  const allSessions = new Set<string>();
+
+  for (const bucket of buckets) {
+    const key =
+      options.by === 'model'
+        ? bucket.model
+        : options.by === 'project'
+          ? bucket.projectId
+          : bucket.day;
+    const sessionKey = `${bucket.projectId}/${bucket.sessionId}`;
+
+    let row = rows.get(key);
+    if (!row) {
+      row = createRow(key);
+      rows.set(key, row);
+      rowSessions.set(key, new Set());
+    }
+    rowSessions.get(key)?.add(sessionKey);
+    allSessions.add(sessionKey);
+
+    for (const target of [row, totals]) {
+      target.costUsd += bucket.costUsd;
+      target.estimated ||= bucket.estimated && bucket.costUsd > 0;
+      target.inputTokens += bucket.usage.input_tokens;
+      target.outputTokens += bucket.usage.output_tokens;
+      target.cacheCreationTokens += bucket.usage.cache_creation_input_tokens;
+      target.cacheReadTokens += bucket.usage.cache_read_input_tokens;
+      target.linesAdded += bucket.linesAdded;
+      target.linesRemoved += bucket.linesRemoved;
+    }
+  }
+
+  for (const [key, row] of rows) {
+    row.sessions = rowSessions.get(key)?.size ?? 0;
+  }
+  totals.sessions = allSessions.size;
+
+  const sortedRows = Array.from(rows.values()).sort((a, b) =>
+    options.by === 'day' ? a.key.localeCompare(b.key) : b.costUsd - a.costUsd
+  );
+
+  return {
+    groupBy: options.by,
+    since: options.since?.toISOString(),
+    rows: sortedRows,
+    totals,
+  };
+}
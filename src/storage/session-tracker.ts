@@ -7,7 +7,9 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import readline from 'node:readline';
+import type { PricingConfig } from '../config/schema.js';
 import { projectResolver } from '../utils/project-resolver.js';
+import { calculateUsageCost, resolveModelPricing } from './pricing.js';
 
 /**
  * JSONL entry structure from Claude Code
@@ -41,6 +43,10 @@ interface TokenUsage {
   outputTokens: number;
   cacheTokens: number;
   totalTokens: number;
+  /** Cache write tokens, part of cacheTokens */
+  cacheCreationTokens?: number;
+  /** Cache read tokens, part of cacheTokens */
+  cacheReadTokens?: number;
 }
 
 /**
@@ -98,6 +104,8 @@ export class SessionTracker {
       outputTokens: 0,
       cacheTokens: 0,
       totalTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
     };
 
     let messageCount = 0;
@@ -139,6 +147,10 @@ export class SessionTracker {
               const usage = entry.message.usage;
               tokenUsage.inputTokens += usage.input_tokens || 0;
               tokenUsage.outputTokens += usage.output_tokens || 0;
+              tokenUsage.cacheCreationTokens =
+                (tokenUsage.cacheCreationTokens || 0) + (usage.cache_creation_input_tokens || 0);
+              tokenUsage.cacheReadTokens =
+                (tokenUsage.cacheReadTokens || 0) + (usage.cache_read_input_tokens || 0);
               tokenUsage.cacheTokens +=
                 (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0);
             }
@@ -174,26 +186,31 @@ export class SessionTracker {
    * Calculate token cost based on model pricing
    * 根据模型定价计算token成本
    */
-  calculateTokenCost(tokenUsage: TokenUsage, modelId: string = 'claude-3-sonnet'): number {
-    // Pricing per million tokens (approximate)
-    const pricing: Record<string, { input: number; output: number }> = {
-      'claude-3-opus': { input: 15, output: 75 },
-      'claude-3-sonnet': { input: 3, output: 15 },
-      'claude-3-haiku': { input: 0.25, output: 1.25 },
-      'claude-opus-4-1': { input: 15, output: 75 },
-      default: { input: 3, output: 15 },
-    };
-
-    const modelPricing = pricing[modelId] || pricing.default;
-    if (!modelPricing) {
-      throw new Error(`Invalid model pricing configuration for ${modelId}`);
+  calculateTokenCost(
+    tokenUsage: TokenUsage,
+    modelId: string = 'claude-3-sonnet',
+    pricing?: PricingConfig
+  ): number {
+    const modelPricing = resolveModelPricing(modelId, pricing);
+
+    // 有缓存读写拆分时按各自单价计算
+    if (tokenUsage.cacheCreationTokens !== undefined || tokenUsage.cacheReadTokens !== undefined) {
+      return calculateUsageCost(
+        {
+          input_tokens: tokenUsage.inputTokens,
+          output_tokens: tokenUsage.outputTokens,
+          cache_creation_input_tokens: tokenUsage.cacheCreationTokens || 0,
+          cache_read_input_tokens: tokenUsage.cacheReadTokens || 0,
+        },
+        modelPricing
+      );
     }
 
     // Calculate cost in USD
     const inputCost = (tokenUsage.inputTokens / 1_000_000) * modelPricing.input;
     const outputCost = (tokenUsage.outputTokens / 1_000_000) * modelPricing.output;
 
-    // Cache tokens are usually cheaper (50% of input cost)
+    // Unsplit cache tokens are priced at 50% of input cost
     const cacheCost = (tokenUsage.cacheTokens / 1_000_000) * (modelPricing.input * 0.5);
 
     return inputCost + outputCost + cacheCost;
@@ -211,6 +228,8 @@ export class SessionTracker {
       outputTokens: 0,
       cacheTokens: 0,
       totalTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
     };
 
     let totalMessages = 0;
@@ -236,6 +255,11 @@ export class SessionTracker {
       aggregatedUsage.inputTokens += chainInfo.tokenUsage.inputTokens;
       aggregatedUsage.outputTokens += chainInfo.tokenUsage.outputTokens;
       aggregatedUsage.cacheTokens += chainInfo.tokenUsage.cacheTokens;
+      aggregatedUsage.cacheCreationTokens =
+        (aggregatedUsage.cacheCreationTokens || 0) +
+        (chainInfo.tokenUsage.cacheCreationTokens || 0);
+      aggregatedUsage.cacheReadTokens =
+        (aggregatedUsage.cacheReadTokens || 0) + (chainInfo.tokenUsage.cacheReadTokens || 0);
       totalMessages += chainInfo.messageCount;
 
       // Update timestamps
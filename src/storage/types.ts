@@ -28,6 +28,8 @@ export interface SessionCost {
   startTime: string;
   /** Last update time */
   lastUpdateTime: string;
+  /** Cost increase per local day (YYYY-MM-DD -> USD), used to split sessions spanning days */
+  dailyCostUsd?: Record<string, number> | undefined;
   /** Model information */
   model?: {
     id: string;
@@ -35,6 +37,15 @@ export interface SessionCost {
   };
 }
 
+/**
+ * Session cost with its project
+ * 带项目ID的会话成本数据
+ */
+export interface ProjectSessionCost extends SessionCost {
+  /** Project ID (directory name under ~/.claude/projects) */
+  projectId: string;
+}
+
 /**
  * Conversation cost aggregation
  * 对话成本聚合
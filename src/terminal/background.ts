@@ -0,0 +1,152 @@
+/**
+ * 终端背景检测 | Terminal background detection
+ * 依次使用显式配置、COLORFGBG和OSC 11查询判断终端是浅色还是深色背景，无法判断时视为深色
+ * Uses the explicit setting, COLORFGBG and an OSC 11 query in turn to tell light from dark backgrounds; assumes dark otherwise
+ */
+
+import type tty from 'node:tty';
+
+/**
+ * 终端背景 | Terminal background
+ */
+export type TerminalBackground = 'light' | 'dark';
+
+/**
+ * 背景配置 | Background setting
+ */
+export type BackgroundSetting = TerminalBackground | 'auto';
+
+/**
+ * 背景检测结果 | Background detection result
+ */
+export interface BackgroundDetection {
+  background: TerminalBackground;
+  /** 判定依据 | What the decision was based on */
+  reason: string;
+}
+
+/** OSC 11应答，如 "\x1b]11;rgb:ffff/ffff/ffff\x07" | OSC 11 reply, e.g. "\x1b]11;rgb:ffff/ffff/ffff\x07" */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: OSC应答以ESC开头
+const OSC11_REPLY = /\x1b\]11;rgba?:([0-9a-f]{1,4})\/([0-9a-f]{1,4})\/([0-9a-f]{1,4})/i;
+
+const DEFAULT_BACKGROUND: BackgroundDetection = {
+  background: 'dark',
+  reason: 'no background hint, assuming dark',
+};
+
+/**
+ * 解析COLORFGBG，如 "15;0" 或 "0;default;15" | Parse COLORFGBG, e.g. "15;0" or "0;default;15"
+ * 背景为7或9-15时为浅色 | Background indexes 7 and 9-15 are light
+ */
+export function parseColorFgBg(value: string | undefined): TerminalBackground | null {
+  const bg = value?.split(';').pop();
+  if (!bg || !/^\d+$/.test(bg)) {
+    return null;
+  }
+
+  const index = Number(bg);
+  return index === 7 || (index >= 9 && index <= 15) ? 'light' : 'dark';
+}
+
+/**
+ * 解析OSC 11应答 | Parse an OSC 11 reply
+ * 按相对亮度判断，超过0.5为浅色 | Decided by relative luminance; above 0.5 is light
+ */
+export function parseOsc11Reply(reply: string): TerminalBackground | null {
+  const match = OSC11_REPLY.exec(reply);
+  if (!match) {
+    return null;
+  }
+
+  const [r, g, b] = match
+    .slice(1, 4)
+    .map((hex) => Number.parseInt(hex, 16) / (16 ** hex.length - 1));
+  const luminance = 0.2126 * (r ?? 0) + 0.7152 * (g ?? 0) + 0.0722 * (b ?? 0);
+  return luminance > 0.5 ? 'light' : 'dark';
+}
+
+/**
+ * 通过OSC 11向终端查询背景色 | Query the terminal background color via OSC 11
+ * 仅在stdin和stdout都是TTY时查询，终端未应答时返回null
+ * Only queries when both stdin and stdout are TTYs; returns null when the terminal does not reply
+ */
+export function queryTerminalBackground(timeoutMs = 100): Promise<TerminalBackground | null> {
+  const stdin = process.stdin as tty.ReadStream;
+  if (!stdin.isTTY || !process.stdout.isTTY) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    const wasRaw = stdin.isRaw;
+    let reply = '';
+
+    const finish = (result: TerminalBackground | null) => {
+      clearTimeout(timer);
+      stdin.off('data', onData);
+      stdin.setRawMode(wasRaw);
+      stdin.pause();
+      resolve(result);
+    };
+    const onData = (chunk: Buffer) => {
+      reply += chunk.toString('latin1');
+      const background = parseOsc11Reply(reply);
+      if (background) {
+        finish(background);
+      }
+    };
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    stdin.setRawMode(true);
+    stdin.on('data', onData);
+    stdin.resume();
+    process.stdout.write('\x1b]11;?\x07');
+  });
+}
+
+/**
+ * 根据配置和环境变量判断背景 | Resolve the background from the setting and environment
+ * 不查询终端，无法判断时视为深色 | Never queries the terminal; assumes dark when unknown
+ */
+export function resolveBackground(
+  setting: BackgroundSetting = 'auto',
+  env: NodeJS.ProcessEnv = process.env
+): BackgroundDetection {
+  return resolveKnownBackground(setting, env) ?? DEFAULT_BACKGROUND;
+}
+
+/**
+ * 检测终端背景，必要时查询终端 | Detect the terminal background, querying the terminal if needed
+ */
+export async function detectBackground(
+  setting: BackgroundSetting = 'auto',
+  options: { queryTerminal?: boolean; timeoutMs?: number; env?: NodeJS.ProcessEnv } = {}
+): Promise<BackgroundDetection> {
+  const known = resolveKnownBackground(setting, options.env ?? process.env);
+  if (known) {
+    return known;
+  }
+
+  if (options.queryTerminal) {
+    const background = await queryTerminalBackground(options.timeoutMs);
+    if (background) {
+      return { background, reason: 'OSC 11 reply' };
+    }
+  }
+
+  return DEFAULT_BACKGROUND;
+}
+
+/**
+ * 显式配置或COLORFGBG给出的背景 | Background given by the setting or COLORFGBG
+ */
+function resolveKnownBackground(
+  setting: BackgroundSetting,
+  env: NodeJS.ProcessEnv
+): BackgroundDetection | null {
+  if (setting !== 'auto') {
+    return { background: setting, reason: `style.background = "${setting}"` };
+  }
+
+  const background = parseColorFgBg(env.COLORFGBG);
+  return background ? { background, reason: `COLORFGBG=${env.COLORFGBG}` } : null;
+}
@@ -1,6 +1,16 @@
 import supportsColor from 'supports-color';
 import type { Config } from '../config/schema.js';
-import type { TerminalCapabilities } from './detector.js';
+import { resolveBaseTheme } from '../themes/custom.js';
+import { BUILTIN_THEMES, type ThemePaletteVariant } from '../themes/types.js';
+import { resolveBackground, type TerminalBackground } from './background.js';
+import { detectColorDepth, type TerminalCapabilities } from './detector.js';
+import {
+  type ColorDepth,
+  type ColorLayer,
+  hexToAnsi,
+  resolveColorCode,
+  resolveColorHex,
+} from './palettes.js';
 
 /**
  * 颜色映射接口 | Color mapping interface
@@ -40,10 +50,22 @@ export class TerminalRenderer {
   private capabilities: TerminalCapabilities;
   private colorSchemes: ColorSchemeMap;
   private supportsTrueColor: boolean;
+  private colorDepth: ColorDepth;
+  private palette: string | undefined;
+  private background: TerminalBackground;
+  private themeVariant: ThemePaletteVariant;
 
   constructor(capabilities: TerminalCapabilities, config: Config) {
     this.capabilities = capabilities;
-    this.supportsTrueColor = this.detectTrueColorSupport();
+    this.colorDepth = capabilities.colorDepth ?? detectColorDepth(capabilities.colors).depth;
+    this.supportsTrueColor = this.colorDepth === 'truecolor';
+    this.palette = config.style?.palette;
+    this.background =
+      capabilities.background ?? resolveBackground(config.style?.background).background;
+    // 显式调色板优先于主题配色变体 | An explicit palette takes precedence over the theme's variant
+    this.themeVariant = this.palette
+      ? {}
+      : (BUILTIN_THEMES[resolveBaseTheme(config.theme)]?.palettes?.[this.background] ?? {});
     this.colorSchemes = this.setupColorSchemes();
     this.colors = this.setupColors(config);
     this.icons = this.setupIcons(config);
@@ -51,9 +73,32 @@ export class TerminalRenderer {
 
   /**
    * 获取颜色代码 | Get color code
+   * 支持十六进制和调色板颜色 | Supports hex and palette colors
    */
   public getColor(colorName: string): string {
-    return this.colors[colorName] || '';
+    return this.colors[colorName] || this.resolveExtendedColor(colorName, 'fg');
+  }
+
+  /**
+   * 获取色深 | Get color depth
+   */
+  public getColorDepth(): ColorDepth {
+    return this.colorDepth;
+  }
+
+  /**
+   * 获取终端背景 | Get terminal background
+   */
+  public getBackground(): TerminalBackground {
+    return this.background;
+  }
+
+  /**
+   * 解析十六进制或调色板颜色 | Resolve a hex or palette color
+   */
+  private resolveExtendedColor(colorName: string, layer: ColorLayer): string {
+    if (!this.capabilities.colors) return '';
+    return resolveColorCode(colorName, layer, this.colorDepth, this.palette);
   }
 
   /**
@@ -81,114 +126,93 @@ export class TerminalRenderer {
   }
 
   /**
-   * 检测终端24位真彩色支持 | Detect terminal 24-bit true color support
+   * 设置颜色方案系统 | Setup color scheme system
+   * 设置了调色板时，标准颜色名使用调色板色值 | With a palette set, standard color names use palette values
    */
-  private detectTrueColorSupport(): boolean {
-    // 使用 supports-color 库检测终端颜色支持
-    const colorSupport = supportsColor.stdout;
-
-    // 检查是否支持16777216色（24位真彩色）
-    if (
-      colorSupport &&
-      typeof colorSupport === 'object' &&
-      'has16m' in colorSupport &&
-      colorSupport.has16m
-    ) {
-      return true;
-    }
-
-    // 检查环境变量手动覆盖
-    const colorterm = process.env.COLORTERM;
-    if (colorterm === 'truecolor' || colorterm === '24bit') {
-      return true;
+  private setupColorSchemes(): ColorSchemeMap {
+    const schemes = this.setupBaseColorSchemes();
+
+    if (this.palette) {
+      for (const colorName of Object.keys(schemes)) {
+        const fg = this.resolveExtendedColor(colorName, 'fg');
+        const bg = this.resolveExtendedColor(colorName, 'bg');
+        if (fg && bg) {
+          schemes[colorName] = { fg, bg };
+        }
+      }
     }
 
-    // 检查 TERM 环境变量
-    const term = process.env.TERM;
-    if (term && (term.includes('256color') || term.includes('truecolor'))) {
-      return true;
+    // 主题配色变体按终端背景调整 | The theme's palette variant adapts colors to the terminal background
+    for (const [colorName, color] of Object.entries(this.themeVariant)) {
+      const fg = this.resolveExtendedColor(color, 'fg');
+      const bg = this.resolveExtendedColor(color, 'bg');
+      if (fg && bg) {
+        schemes[colorName] = { fg, bg };
+      }
     }
-
-    return false;
+    return schemes;
   }
 
   /**
-   * 设置颜色方案系统 | Setup color scheme system
+   * 内置颜色方案 | Builtin color schemes
+   * 24位和256色终端使用同一组RGB色值，16色终端使用亮色ANSI
+   * 24-bit and 256-color terminals share one set of RGB values; 16-color terminals use bright ANSI
    */
-  private setupColorSchemes(): ColorSchemeMap {
-    if (this.supportsTrueColor) {
-      // 24位真彩色方案（优先使用）| 24-bit true color scheme (priority)
-      return {
-        red: {
-          fg: '\x1b[38;2;191;97;106m',
-          bg: '\x1b[48;2;191;97;106m',
-        },
-        green: {
-          fg: '\x1b[38;2;163;190;140m',
-          bg: '\x1b[48;2;163;190;140m',
-        },
-        yellow: {
-          fg: '\x1b[38;2;235;203;139m',
-          bg: '\x1b[48;2;235;203;139m',
-        },
-        blue: {
-          fg: '\x1b[38;2;129;161;193m',
-          bg: '\x1b[48;2;129;161;193m',
-        },
-        magenta: {
-          fg: '\x1b[38;2;180;142;173m',
-          bg: '\x1b[48;2;180;142;173m',
-        },
-        cyan: {
-          fg: '\x1b[38;2;136;192;208m',
-          bg: '\x1b[48;2;136;192;208m',
-        },
-        white: {
-          fg: '\x1b[38;2;255;255;255m',
-          bg: '\x1b[48;2;255;255;255m',
-        },
-        black: {
-          fg: '\x1b[38;2;0;0;0m',
-          bg: '\x1b[48;2;0;0;0m',
-        },
-      };
-    } else {
-      // 4位兼容色方案（回退使用）| 4-bit compatible color scheme (fallback)
-      return {
-        red: {
-          fg: '\x1b[91m',
-          bg: '\x1b[101m',
-        },
-        green: {
-          fg: '\x1b[92m',
-          bg: '\x1b[102m',
-        },
-        yellow: {
-          fg: '\x1b[93m',
-          bg: '\x1b[103m',
-        },
-        blue: {
-          fg: '\x1b[94m',
-          bg: '\x1b[104m',
-        },
-        magenta: {
-          fg: '\x1b[95m',
-          bg: '\x1b[105m',
-        },
-        cyan: {
-          fg: '\x1b[96m',
-          bg: '\x1b[106m',
-        },
-        white: {
-          fg: '\x1b[97m',
-          bg: '\x1b[107m',
-        },
-        black: {
-          fg: '\x1b[30m',
-          bg: '\x1b[40m',
-        },
+  private setupBaseColorSchemes(): ColorSchemeMap {
+    if (this.colorDepth === 'truecolor' || this.colorDepth === '256') {
+      const rgb: Record<string, string> = {
+        red: '#bf616a',
+        green: '#a3be8c',
+        yellow: '#ebcb8b',
+        blue: '#81a1c1',
+        magenta: '#b48ead',
+        cyan: '#88c0d0',
+        white: '#ffffff',
+        black: '#000000',
       };
+      return Object.fromEntries(
+        Object.entries(rgb).map(([name, hex]) => [
+          name,
+          { fg: hexToAnsi(hex, this.colorDepth, 'fg'), bg: hexToAnsi(hex, this.colorDepth, 'bg') },
+        ])
+      );
     }
+
+    // 4位兼容色方案（回退使用）| 4-bit compatible color scheme (fallback)
+    return {
+      red: {
+        fg: '\x1b[91m',
+        bg: '\x1b[101m',
+      },
+      green: {
+        fg: '\x1b[92m',
+        bg: '\x1b[102m',
+      },
+      yellow: {
+        fg: '\x1b[93m',
+        bg: '\x1b[103m',
+      },
+      blue: {
+        fg: '\x1b[94m',
+        bg: '\x1b[104m',
+      },
+      magenta: {
+        fg: '\x1b[95m',
+        bg: '\x1b[105m',
+      },
+      cyan: {
+        fg: '\x1b[96m',
+        bg: '\x1b[106m',
+      },
+      white: {
+        fg: '\x1b[97m',
+        bg: '\x1b[107m',
+      },
+      black: {
+        fg: '\x1b[30m',
+        bg: '\x1b[40m',
+      },
+    };
   }
 
   /**
@@ -218,6 +242,21 @@ export class TerminalRenderer {
       bright_white: '\x1b[97m',
     };
 
+    // 调色板覆盖标准颜色名 | The palette overrides standard color names
+    if (this.palette && this.capabilities.colors) {
+      for (const colorName of Object.keys(baseColors)) {
+        if (resolveColorHex(colorName, this.palette)) {
+          baseColors[colorName] = this.resolveExtendedColor(colorName, 'fg');
+        }
+      }
+    }
+    for (const [colorName, color] of Object.entries(this.themeVariant)) {
+      const code = this.resolveExtendedColor(color, 'fg');
+      if (code) {
+        baseColors[colorName] = code;
+      }
+    }
+
     // 合并自定义颜色代码 | Merge custom color codes
     const customColors = config.advanced?.custom_color_codes || {};
 
@@ -316,6 +355,12 @@ export class TerminalRenderer {
       return scheme.bg;
     }
 
+    // 十六进制和调色板颜色 | Hex and palette colors
+    const extended = this.resolveExtendedColor(colorName, 'bg');
+    if (extended) {
+      return extended;
+    }
+
     // 回退到原有系统 | Fallback to original system
     const foregroundColor = this.getColor(colorName);
     if (!foregroundColor) return '';
@@ -378,12 +423,16 @@ export class TerminalRenderer {
    */
   public getColorDetectionDetails(): {
     supportsTrueColor: boolean;
+    colorDepth: ColorDepth;
+    background: TerminalBackground;
     supportsColorLibrary: unknown;
     colorterm: string | undefined;
     term: string | undefined;
   } {
     return {
       supportsTrueColor: this.supportsTrueColor,
+      colorDepth: this.colorDepth,
+      background: this.background,
       supportsColorLibrary: supportsColor.stdout,
       colorterm: process.env.COLORTERM,
       term: process.env.TERM,
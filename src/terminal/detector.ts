@@ -6,6 +6,8 @@
 import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
+import type { TerminalBackground } from './background.js';
+import type { ColorDepth } from './palettes.js';
 
 /**
  * 终端能力接口 | Terminal capabilities interface
@@ -14,6 +16,10 @@ export interface TerminalCapabilities {
   colors: boolean;
   emoji: boolean;
   nerdFont: boolean;
+  /** 色深，决定使用24位、256色近似还是基础ANSI | Color depth; picks 24-bit, 256-color approximations or basic ANSI */
+  colorDepth?: ColorDepth | undefined;
+  /** 终端背景，决定主题使用浅色还是深色配色 | Terminal background; picks the theme's light or dark variant */
+  background?: TerminalBackground | undefined;
 }
 
 /**
@@ -39,6 +45,7 @@ export interface DetailedCapabilities extends TerminalCapabilities {
     nerdFont: DetectionInfo[];
     emoji: DetectionInfo[];
     colors: DetectionInfo[];
+    colorDepth: DetectionInfo[];
   };
 }
 
@@ -122,6 +129,20 @@ function detectColors(
     }
   }
 
+  // 已知终端特征表明支持256色或真彩色 | Known emulator signatures imply 256-color or true color support
+  if (!colorSupported) {
+    const depth = detectColorDepth(true);
+    colorSupported = depth.depth === '256' || depth.depth === 'truecolor';
+    if (debug) {
+      process_info.push({
+        stage: '终端特征检查',
+        result: colorSupported,
+        reason: colorSupported ? `检测到${depth.depth}色深` : '未检测到已知终端特征',
+        source: depth.reason,
+      });
+    }
+  }
+
   if (debug) {
     process_info.push({
       stage: '颜色检测结果',
@@ -134,6 +155,95 @@ function detectColors(
   return debug ? { result: colorSupported, process: process_info } : { result: colorSupported };
 }
 
+/**
+ * 色深检测结果 | Color depth detection result
+ */
+export interface ColorDepthDetection {
+  depth: ColorDepth;
+  /** 判定依据 | What the decision was based on */
+  reason: string;
+}
+
+/** 支持24位真彩色的TERM_PROGRAM | TERM_PROGRAM values of terminals with 24-bit color */
+const TRUECOLOR_TERM_PROGRAMS: Record<string, string> = {
+  'iTerm.app': 'iTerm2',
+  WezTerm: 'WezTerm',
+  vscode: 'VS Code',
+  Hyper: 'Hyper',
+  ghostty: 'Ghostty',
+  WarpTerminal: 'Warp',
+  Tabby: 'Tabby',
+  rio: 'Rio',
+};
+
+/** 支持24位真彩色的终端特征变量 | Environment signatures of terminals with 24-bit color */
+const TRUECOLOR_SIGNATURES: Array<{ key: string; desc: string; test: (value: string) => boolean }> =
+  [
+    { key: 'WT_SESSION', desc: 'Windows Terminal', test: (v) => v !== '' },
+    { key: 'KITTY_WINDOW_ID', desc: 'kitty', test: (v) => v !== '' },
+    { key: 'ALACRITTY_WINDOW_ID', desc: 'Alacritty', test: (v) => v !== '' },
+    { key: 'KONSOLE_VERSION', desc: 'Konsole', test: (v) => v !== '' },
+    // VTE 0.36起支持真彩色 | VTE supports true color since 0.36
+    { key: 'VTE_VERSION', desc: 'VTE', test: (v) => Number(v) >= 3600 },
+  ];
+
+/** 支持24位真彩色的TERM | TERM values of terminals with 24-bit color */
+const TRUECOLOR_TERM_PATTERN =
+  /-direct$|truecolor|24bit|^xterm-kitty$|^alacritty|^xterm-ghostty$|^wezterm$/;
+
+/**
+ * 检测终端色深 | Detect terminal color depth
+ * 依次检查COLORTERM、TERM、TERM_PROGRAM和已知终端特征，默认16色
+ * Checks COLORTERM, TERM, TERM_PROGRAM and known emulator signatures in turn, defaulting to 16 colors
+ */
+export function detectColorDepth(
+  colorsEnabled: boolean,
+  env: NodeJS.ProcessEnv = process.env
+): ColorDepthDetection {
+  if (!colorsEnabled) {
+    return { depth: 'none', reason: 'colors disabled' };
+  }
+
+  const colorterm = env.COLORTERM;
+  if (colorterm === 'truecolor' || colorterm === '24bit') {
+    return { depth: 'truecolor', reason: `COLORTERM=${colorterm}` };
+  }
+
+  const term = env.TERM || '';
+  if (TRUECOLOR_TERM_PATTERN.test(term)) {
+    return { depth: 'truecolor', reason: `TERM=${term}` };
+  }
+
+  const termProgram = env.TERM_PROGRAM || '';
+  const program = TRUECOLOR_TERM_PROGRAMS[termProgram];
+  if (program) {
+    return { depth: 'truecolor', reason: `${program} (TERM_PROGRAM=${termProgram})` };
+  }
+
+  for (const signature of TRUECOLOR_SIGNATURES) {
+    const value = env[signature.key];
+    if (value !== undefined && signature.test(value)) {
+      return { depth: 'truecolor', reason: `${signature.desc} (${signature.key}=${value})` };
+    }
+  }
+
+  // Terminal.app和ConEmu只支持256色 | Terminal.app and ConEmu only support 256 colors
+  if (termProgram === 'Apple_Terminal') {
+    return { depth: '256', reason: 'Terminal.app (TERM_PROGRAM=Apple_Terminal)' };
+  }
+  if (term.includes('256')) {
+    return { depth: '256', reason: `TERM=${term}` };
+  }
+  if (env.ConEmuPID) {
+    return { depth: '256', reason: `ConEmu (ConEmuPID=${env.ConEmuPID})` };
+  }
+
+  return {
+    depth: '16',
+    reason: term ? `no 256-color or true color hint in TERM=${term}` : 'TERM not set',
+  };
+}
+
 /**
  * 检测表情符号支持 | Detect emoji support
  */
@@ -805,11 +915,13 @@ export function detect(
   const colorDetection = detectColors(enableColors, debug);
   const emojiDetection = detectEmoji(enableEmoji, debug);
   const nerdFontDetection = detectNerdFont(enableNerdFont, forceNerdFont, debug);
+  const colorDepthDetection = detectColorDepth(colorDetection.result);
 
   const capabilities: TerminalCapabilities = {
     colors: colorDetection.result,
     emoji: emojiDetection.result,
     nerdFont: nerdFontDetection.result,
+    colorDepth: colorDepthDetection.depth,
   };
 
   if (debug) {
@@ -819,6 +931,14 @@ export function detect(
         colors: colorDetection.process || [],
         emoji: emojiDetection.process || [],
         nerdFont: nerdFontDetection.process || [],
+        colorDepth: [
+          {
+            stage: '色深检测结果',
+            result: colorDepthDetection.depth !== 'none',
+            reason: `色深: ${colorDepthDetection.depth}`,
+            source: colorDepthDetection.reason,
+          },
+        ],
       },
     };
     return detailedCapabilities;
@@ -860,6 +980,11 @@ export function formatDebugOutput(capabilities: DetailedCapabilities): string {
   // 检测过程详情
   const sections = [
     { name: '🎨 颜色支持检测', key: 'colors' as const, result: capabilities.colors },
+    {
+      name: '🌈 色深检测',
+      key: 'colorDepth' as const,
+      result: capabilities.colorDepth !== undefined && capabilities.colorDepth !== 'none',
+    },
     { name: '😀 表情符号支持检测', key: 'emoji' as const, result: capabilities.emoji },
     { name: '🔤 Nerd Font支持检测', key: 'nerdFont' as const, result: capabilities.nerdFont },
   ];
@@ -919,6 +1044,8 @@ export function getCapabilityInfo(): Record<string, unknown> {
       TERM_PROGRAM_VERSION: process.env.TERM_PROGRAM_VERSION,
       WT_SESSION: process.env.WT_SESSION,
       ConEmuPID: process.env.ConEmuPID,
+      KITTY_WINDOW_ID: process.env.KITTY_WINDOW_ID,
+      VTE_VERSION: process.env.VTE_VERSION,
       NERD_FONT: process.env.NERD_FONT,
       TERMINAL_FONT: process.env.TERMINAL_FONT,
       FONT: process.env.FONT,
@@ -927,6 +1054,7 @@ export function getCapabilityInfo(): Record<string, unknown> {
     },
     capabilities: {
       colors: capabilities.colors,
+      colorDepth: capabilities.colorDepth,
       emoji: capabilities.emoji,
       nerdFont: capabilities.nerdFont,
     },
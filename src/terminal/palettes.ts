@@ -0,0 +1,292 @@
+/**
+ * 命名调色板与真彩色转换 | Named palettes and true-color conversion
+ * 支持 #rrggbb 和 "调色板.颜色" 引用，并按终端色深降级为256色或16色
+ * Supports #rrggbb and "palette.color" references, degraded to 256 or 16 colors by terminal color depth
+ */
+
+/**
+ * 终端色深 | Terminal color depth
+ */
+export type ColorDepth = 'none' | '16' | '256' | 'truecolor';
+
+/**
+ * 颜色层 | Color layer
+ */
+export type ColorLayer = 'fg' | 'bg';
+
+/** 内置调色板名称 | Builtin palette names */
+export const PALETTE_NAMES = ['catppuccin', 'nord', 'solarized', 'dracula'] as const;
+
+/**
+ * 调色板名称类型 | Palette name type
+ */
+export type PaletteName = (typeof PALETTE_NAMES)[number];
+
+/**
+ * 内置调色板 | Builtin palettes
+ * 标准颜色名(red、bright_blue等)映射到调色板色值，另含各调色板自有的颜色名
+ * Standard color names (red, bright_blue, ...) map to palette values, plus each palette's own color names
+ */
+export const PALETTES: Record<PaletteName, Record<string, string>> = {
+  // Catppuccin Mocha
+  catppuccin: {
+    black: '#45475a',
+    red: '#f38ba8',
+    green: '#a6e3a1',
+    yellow: '#f9e2af',
+    blue: '#89b4fa',
+    magenta: '#f5c2e7',
+    cyan: '#94e2d5',
+    white: '#bac2de',
+    gray: '#585b70',
+    bright_red: '#eba0ac',
+    bright_green: '#a6e3a1',
+    bright_yellow: '#fab387',
+    bright_blue: '#74c7ec',
+    bright_magenta: '#cba6f7',
+    bright_cyan: '#89dceb',
+    bright_white: '#cdd6f4',
+    rosewater: '#f5e0dc',
+    flamingo: '#f2cdcd',
+    pink: '#f5c2e7',
+    mauve: '#cba6f7',
+    maroon: '#eba0ac',
+    peach: '#fab387',
+    teal: '#94e2d5',
+    sky: '#89dceb',
+    sapphire: '#74c7ec',
+    lavender: '#b4befe',
+    text: '#cdd6f4',
+    subtext: '#a6adc8',
+    overlay: '#6c7086',
+    surface: '#313244',
+    base: '#1e1e2e',
+    mantle: '#181825',
+    crust: '#11111b',
+  },
+  nord: {
+    black: '#3b4252',
+    red: '#bf616a',
+    green: '#a3be8c',
+    yellow: '#ebcb8b',
+    blue: '#81a1c1',
+    magenta: '#b48ead',
+    cyan: '#88c0d0',
+    white: '#e5e9f0',
+    gray: '#4c566a',
+    bright_red: '#d08770',
+    bright_green: '#a3be8c',
+    bright_yellow: '#ebcb8b',
+    bright_blue: '#5e81ac',
+    bright_magenta: '#b48ead',
+    bright_cyan: '#8fbcbb',
+    bright_white: '#eceff4',
+    nord0: '#2e3440',
+    nord1: '#3b4252',
+    nord2: '#434c5e',
+    nord3: '#4c566a',
+    nord4: '#d8dee9',
+    nord5: '#e5e9f0',
+    nord6: '#eceff4',
+    nord7: '#8fbcbb',
+    nord8: '#88c0d0',
+    nord9: '#81a1c1',
+    nord10: '#5e81ac',
+    nord11: '#bf616a',
+    nord12: '#d08770',
+    nord13: '#ebcb8b',
+    nord14: '#a3be8c',
+    nord15: '#b48ead',
+  },
+  // Solarized Dark
+  solarized: {
+    black: '#073642',
+    red: '#dc322f',
+    green: '#859900',
+    yellow: '#b58900',
+    blue: '#268bd2',
+    magenta: '#d33682',
+    cyan: '#2aa198',
+    white: '#eee8d5',
+    gray: '#586e75',
+    bright_red: '#cb4b16',
+    bright_green: '#859900',
+    bright_yellow: '#b58900',
+    bright_blue: '#268bd2',
+    bright_magenta: '#6c71c4',
+    bright_cyan: '#2aa198',
+    bright_white: '#fdf6e3',
+    base03: '#002b36',
+    base02: '#073642',
+    base01: '#586e75',
+    base00: '#657b83',
+    base0: '#839496',
+    base1: '#93a1a1',
+    base2: '#eee8d5',
+    base3: '#fdf6e3',
+    orange: '#cb4b16',
+    violet: '#6c71c4',
+  },
+  dracula: {
+    black: '#21222c',
+    red: '#ff5555',
+    green: '#50fa7b',
+    yellow: '#f1fa8c',
+    blue: '#bd93f9',
+    magenta: '#ff79c6',
+    cyan: '#8be9fd',
+    white: '#f8f8f2',
+    gray: '#6272a4',
+    bright_red: '#ff6e6e',
+    bright_green: '#69ff94',
+    bright_yellow: '#ffffa5',
+    bright_blue: '#d6acff',
+    bright_magenta: '#ff92df',
+    bright_cyan: '#a4ffff',
+    bright_white: '#ffffff',
+    background: '#282a36',
+    current_line: '#44475a',
+    foreground: '#f8f8f2',
+    comment: '#6272a4',
+    orange: '#ffb86c',
+    pink: '#ff79c6',
+    purple: '#bd93f9',
+  },
+};
+
+/** 按色相扇区排列的16色SGR代码：红黄绿青蓝品红 | 16-color SGR codes by hue sector: red, yellow, green, cyan, blue, magenta */
+const ANSI16_HUES = [31, 33, 32, 36, 34, 35];
+
+const HEX_COLOR_PATTERN = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i;
+
+/**
+ * 检查是否为 #rrggbb 颜色 | Check whether a value is a #rrggbb color
+ */
+export function isHexColor(value: string): boolean {
+  return HEX_COLOR_PATTERN.test(value);
+}
+
+/**
+ * 检查是否为调色板颜色引用，如 "nord.nord8" | Check whether a value references a palette color, e.g. "nord.nord8"
+ */
+export function isPaletteColorReference(value: string): boolean {
+  const [palette, color, ...rest] = value.split('.');
+  return (
+    rest.length === 0 &&
+    palette !== undefined &&
+    color !== undefined &&
+    Object.hasOwn(PALETTES, palette) &&
+    Object.hasOwn(PALETTES[palette as PaletteName], color)
+  );
+}
+
+/**
+ * 解析颜色为十六进制值，非扩展颜色返回null | Resolve a color to hex; null for non-extended colors
+ * 设置了调色板时，标准颜色名也映射到调色板 | With a palette set, standard color names map to it too
+ */
+export function resolveColorHex(color: string, palette?: string): string | null {
+  if (isHexColor(color)) {
+    return color.toLowerCase();
+  }
+  if (isPaletteColorReference(color)) {
+    const [paletteName, name] = color.split('.') as [PaletteName, string];
+    return PALETTES[paletteName][name] ?? null;
+  }
+  if (palette && Object.hasOwn(PALETTES, palette)) {
+    const colors = PALETTES[palette as PaletteName];
+    return Object.hasOwn(colors, color) ? (colors[color] ?? null) : null;
+  }
+  return null;
+}
+
+/**
+ * 十六进制转RGB | Convert hex to RGB
+ */
+function hexToRgb(hex: string): [number, number, number] | null {
+  const match = HEX_COLOR_PATTERN.exec(hex);
+  if (!match) return null;
+  return [
+    Number.parseInt(match[1] as string, 16),
+    Number.parseInt(match[2] as string, 16),
+    Number.parseInt(match[3] as string, 16),
+  ];
+}
+
+/**
+ * RGB转256色索引 | Convert RGB to a 256-color index
+ */
+function rgbToAnsi256([r, g, b]: [number, number, number]): number {
+  // 灰阶使用232-255 | Grays use the 232-255 ramp
+  if (r === g && g === b) {
+    if (r < 8) return 16;
+    if (r > 248) return 231;
+    return 232 + Math.round(((r - 8) / 247) * 24);
+  }
+
+  const level = (value: number) => Math.round((value / 255) * 5);
+  return 16 + 36 * level(r) + 6 * level(g) + level(b);
+}
+
+/**
+ * RGB转最接近的16色SGR代码 | Convert RGB to the nearest 16-color SGR code
+ * 按色相选择颜色、按亮度选择亮色，低饱和度颜色映射为灰阶
+ * Picks the color by hue and the bright variant by value; low-saturation colors map to grays
+ */
+function rgbToAnsi16([r, g, b]: [number, number, number]): number {
+  const max = Math.max(r, g, b);
+  const chroma = max - Math.min(r, g, b);
+
+  if (chroma < 24 || (max < 128 && chroma / max < 0.3)) {
+    if (max < 64) return 30;
+    if (max < 160) return 90;
+    return max < 224 ? 37 : 97;
+  }
+
+  const hue =
+    max === r ? ((g - b) / chroma) % 6 : max === g ? (b - r) / chroma + 2 : (r - g) / chroma + 4;
+  const code = ANSI16_HUES[((Math.round(hue) % 6) + 6) % 6] as number;
+  return max >= 192 ? code + 60 : code;
+}
+
+/**
+ * RGB颜色转ANSI序列，按色深降级 | Convert an RGB color to an ANSI sequence, degraded by color depth
+ */
+export function rgbToAnsi(
+  rgb: [number, number, number],
+  depth: ColorDepth,
+  layer: ColorLayer
+): string {
+  const prefix = layer === 'fg' ? 38 : 48;
+  switch (depth) {
+    case 'none':
+      return '';
+    case 'truecolor':
+      return `\x1b[${prefix};2;${rgb[0]};${rgb[1]};${rgb[2]}m`;
+    case '256':
+      return `\x1b[${prefix};5;${rgbToAnsi256(rgb)}m`;
+    default:
+      return `\x1b[${rgbToAnsi16(rgb) + (layer === 'fg' ? 0 : 10)}m`;
+  }
+}
+
+/**
+ * 十六进制颜色转ANSI序列，按色深降级 | Convert a hex color to an ANSI sequence, degraded by color depth
+ */
+export function hexToAnsi(hex: string, depth: ColorDepth, layer: ColorLayer): string {
+  const rgb = hexToRgb(hex);
+  return rgb ? rgbToAnsi(rgb, depth, layer) : '';
+}
+
+/**
+ * 解析扩展颜色(十六进制或调色板)为ANSI序列 | Resolve an extended (hex or palette) color to an ANSI sequence
+ * 非扩展颜色返回空字符串 | Returns an empty string for non-extended colors
+ */
+export function resolveColorCode(
+  color: string,
+  layer: ColorLayer,
+  depth: ColorDepth,
+  palette?: string
+): string {
+  const hex = resolveColorHex(color, palette);
+  return hex ? hexToAnsi(hex, depth, layer) : '';
+}
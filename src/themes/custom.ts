@@ -0,0 +1,141 @@
+/**
+ * 用户主题加载器 | User theme loader
+ * 从 ~/.claude/statusline-pro/themes/<name>.toml 读取自定义主题，按文件修改时间缓存
+ * Reads custom themes from ~/.claude/statusline-pro/themes/<name>.toml, cached by file mtime
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import TOML from '@iarna/toml';
+import {
+  type BaseTheme,
+  BaseThemeSchema,
+  type CustomTheme,
+  CustomThemeSchema,
+} from '../config/schema.js';
+import { getCustomThemePath, getCustomThemesDir, THEME_NAME_PATTERN } from './paths.js';
+import { BUILTIN_THEMES, type ThemeConfig } from './types.js';
+
+/**
+ * 主题文件错误 | Theme file error
+ */
+export class ThemeFileError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string
+  ) {
+    super(message);
+    this.name = 'ThemeFileError';
+  }
+}
+
+const themeCache = new Map<string, { mtimeMs: number; theme: CustomTheme }>();
+
+/**
+ * 列出用户主题名称 | List user theme names
+ */
+export function listCustomThemes(dir: string = getCustomThemesDir()): string[] {
+  try {
+    return fs
+      .readdirSync(dir)
+      .filter((file) => file.endsWith('.toml'))
+      .map((file) => path.basename(file, '.toml'))
+      .filter(
+        (name) =>
+          THEME_NAME_PATTERN.test(name) && !BaseThemeSchema.options.includes(name as BaseTheme)
+      )
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 加载用户主题，不存在时返回null | Load a user theme; null when it does not exist
+ * 文件无效时抛出ThemeFileError | Throws ThemeFileError when the file is invalid
+ */
+export function loadCustomTheme(
+  name: string,
+  dir: string = getCustomThemesDir()
+): CustomTheme | null {
+  const file = getCustomThemePath(name, dir);
+  if (!file) {
+    return null;
+  }
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    return null;
+  }
+
+  const cached = themeCache.get(file);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.theme;
+  }
+
+  let data: unknown;
+  try {
+    // JSON往返去除@iarna/toml附加的Symbol键 | JSON round-trip drops the Symbol keys added by @iarna/toml
+    data = JSON.parse(JSON.stringify(TOML.parse(fs.readFileSync(file, 'utf-8'))));
+  } catch (error) {
+    throw new ThemeFileError(
+      `主题文件解析失败 | Failed to parse theme file: ${error instanceof Error ? error.message : error}`,
+      file
+    );
+  }
+
+  const result = CustomThemeSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new ThemeFileError(`主题文件无效 | Invalid theme file: ${issues}`, file);
+  }
+
+  themeCache.set(file, { mtimeMs, theme: result.data });
+  return result.data;
+}
+
+/**
+ * 检查主题是否存在(内置或用户主题) | Check whether a theme exists (builtin or user)
+ */
+export function themeExists(name: string): boolean {
+  if (name in BUILTIN_THEMES) {
+    return true;
+  }
+  try {
+    return loadCustomTheme(name) !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 解析主题使用的内置渲染器 | Resolve the builtin renderer a theme is based on
+ * 未知或无效的主题回退到classic | Unknown or invalid themes fall back to classic
+ */
+export function resolveBaseTheme(name: string | undefined): BaseTheme {
+  const builtin = BaseThemeSchema.safeParse(name);
+  if (builtin.success) {
+    return builtin.data;
+  }
+  try {
+    return (name && loadCustomTheme(name)?.base) || 'classic';
+  } catch {
+    return 'classic';
+  }
+}
+
+/**
+ * 获取用户主题的特性，未声明的继承基础渲染器 | Get a user theme's features; undeclared ones come from the base renderer
+ */
+export function getCustomThemeFeatures(theme: CustomTheme): ThemeConfig {
+  // 配色变体不属于特性 | Palette variants are not features
+  const { palettes: _palettes, ...base } = BUILTIN_THEMES[theme.base] as ThemeConfig;
+  const features = Object.fromEntries(
+    Object.entries(theme.features ?? {}).filter(([, value]) => value !== undefined)
+  );
+  return { ...base, ...features };
+}
@@ -22,23 +22,35 @@ export type {
 import { BUILTIN_THEMES } from './types.js';
 export { BUILTIN_THEMES };
 
+// 用户主题 | User themes
+export {
+  listCustomThemes,
+  loadCustomTheme,
+  resolveBaseTheme,
+  ThemeFileError,
+  themeExists,
+} from './custom.js';
 // 核心引擎 | Core engine
 export { ThemeEngine } from './engine.js';
-
 // 主题管理器 | Theme manager
 export { ThemeManager } from './manager.js';
+// 用户主题目录 | User themes directory
+export { customThemeFileExists, getCustomThemesDir } from './paths.js';
 export { CapsuleRenderer } from './renderers/capsule.js';
 // 渲染器 | Renderers
 export { ClassicRenderer } from './renderers/classic.js';
+export { CustomRenderer } from './renderers/custom.js';
 export { PowerlineRenderer } from './renderers/powerline.js';
 
 // 工厂函数 | Factory functions
 import type { Config } from '../config/schema.js';
 import type { TerminalCapabilities } from '../terminal/detector.js';
+import { loadCustomTheme } from './custom.js';
 import { ThemeEngine } from './engine.js';
 import { ThemeManager } from './manager.js';
 import { CapsuleRenderer } from './renderers/capsule.js';
 import { ClassicRenderer } from './renderers/classic.js';
+import { CustomRenderer } from './renderers/custom.js';
 import { PowerlineRenderer } from './renderers/powerline.js';
 import type { ThemeManagerOptions } from './types.js';
 
@@ -61,6 +73,7 @@ export function createThemeEngine(customThemes?: import('./types.js').ThemesConf
 
 /**
  * 创建主题渲染器 | Create theme renderer
+ * 非内置名称从用户主题目录加载 | Non-builtin names are loaded from the user themes directory
  */
 export function createThemeRenderer(
   themeName: string,
@@ -73,9 +86,14 @@ export function createThemeRenderer(
       return new PowerlineRenderer(terminalRenderer);
     case 'capsule':
       return new CapsuleRenderer(terminalRenderer);
-    default:
+    default: {
+      const customTheme = loadCustomTheme(themeName);
+      if (customTheme) {
+        return new CustomRenderer(customTheme, terminalRenderer);
+      }
       console.warn(`未知的主题渲染器: ${themeName} | Unknown theme renderer: ${themeName}`);
       return null;
+    }
   }
 }
 
@@ -0,0 +1,37 @@
+/**
+ * 用户主题文件路径 | User theme file paths
+ * 不依赖配置Schema，配置校验可据此检查主题文件是否存在
+ * Independent of the config schema, so config validation can check whether a theme file exists
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+/** 合法的主题名称 | Valid theme names */
+export const THEME_NAME_PATTERN = /^[\w-]+$/;
+
+/**
+ * 获取用户主题目录 | Get the user themes directory
+ */
+export function getCustomThemesDir(): string {
+  return path.join(os.homedir(), '.claude', 'statusline-pro', 'themes');
+}
+
+/**
+ * 获取用户主题文件路径，名称无效时返回null | Get a user theme file path; null for invalid names
+ */
+export function getCustomThemePath(
+  name: string,
+  dir: string = getCustomThemesDir()
+): string | null {
+  return THEME_NAME_PATTERN.test(name) ? path.join(dir, `${name}.toml`) : null;
+}
+
+/**
+ * 用户主题文件是否存在 | Whether a user theme file exists
+ */
+export function customThemeFileExists(name: string, dir: string = getCustomThemesDir()): boolean {
+  const file = getCustomThemePath(name, dir);
+  return !!file && fs.existsSync(file);
+}
@@ -0,0 +1,253 @@
+/**
+ * 用户主题渲染器 | User theme renderer
+ * 按主题文件的基础渲染器布局组件，使用主题定义的分隔符、端帽和配色
+ * Lays out components like the theme's base renderer, using the separators, caps and palette it defines
+ */
+
+import type { Config, CustomTheme } from '../../config/schema.js';
+import type { TerminalRenderer } from '../../terminal/colors.js';
+import { stripAnsi } from '../../utils/text-width.js';
+import type { ThemeRenderer } from '../types.js';
+
+/** 默认保留内部颜色的组件 | Components that keep their internal colors by default */
+const PRESERVE_COLOR_COMPONENTS = new Set(['tokens', 'status']);
+
+/**
+ * 段落数据 | Segment data
+ */
+interface Segment {
+  content: string;
+  fg: string;
+  bg: string;
+  isFake: boolean;
+}
+
+/**
+ * 用户主题渲染器类 | User theme renderer class
+ */
+export class CustomRenderer implements ThemeRenderer {
+  private terminalRenderer: TerminalRenderer | undefined;
+
+  constructor(
+    private readonly theme: CustomTheme,
+    terminalRenderer?: TerminalRenderer
+  ) {
+    this.terminalRenderer = terminalRenderer;
+  }
+
+  /**
+   * 渲染状态行 | Render statusline
+   */
+  renderStatusline(
+    components: string[],
+    colors: string[],
+    config: Config,
+    componentNames?: string[]
+  ): string {
+    if (this.theme.base === 'classic') {
+      return this.renderClassic(components, config, componentNames);
+    }
+
+    const segments = this.prepareSegments(components, colors, componentNames);
+    if (segments.length === 0) {
+      return '';
+    }
+
+    const useNerdFont = this.shouldUseNerdFont(config);
+    return this.theme.base === 'powerline'
+      ? this.renderPowerline(segments, useNerdFont)
+      : this.renderCapsule(segments, useNerdFont);
+  }
+
+  /**
+   * Classic布局：分隔符连接，仅为配色中声明的组件重新着色
+   * Classic layout: joined by separators; only components listed in the palette are recolored
+   */
+  private renderClassic(components: string[], config: Config, componentNames?: string[]): string {
+    const separators = this.theme.separators;
+    const style = config.style;
+    const separator = separators?.separator ?? style?.separator ?? ' | ';
+    const separatorColor = separators?.color ?? style?.separator_color ?? 'white';
+    const before = separators?.before ?? style?.separator_before ?? ' ';
+    const after = separators?.after ?? style?.separator_after ?? ' ';
+    const joiner = this.terminalRenderer
+      ? `${before}${this.terminalRenderer.getColor(separatorColor)}${separator}${this.terminalRenderer.getReset()}${after}`
+      : `${before}${separator}${after}`;
+
+    let fake = '';
+    const parts: string[] = [];
+    components.forEach((content, index) => {
+      if (!content.trim()) return;
+
+      const name = componentNames?.[index];
+      if (this.isFake(content, name)) {
+        fake += content;
+        return;
+      }
+
+      const colors = this.getPaletteColors(name);
+      parts.push(
+        colors.fg || colors.bg ? this.paint(stripAnsi(content), colors.fg, colors.bg) : content
+      );
+    });
+
+    // fake组件直接连接，不加分隔符 | The fake component is prepended without a separator
+    return fake + parts.join(joiner);
+  }
+
+  /**
+   * Powerline布局：相邻段落以箭头衔接 | Powerline layout: adjacent segments joined by arrows
+   */
+  private renderPowerline(segments: Segment[], useNerdFont: boolean): string {
+    const separator = this.theme.separators?.separator ?? (useNerdFont ? '\uE0B0' : '>');
+    const leftCap = this.theme.caps?.left ?? (useNerdFont ? '\uE0D7' : '');
+    const rightCap = this.theme.caps?.right ?? separator;
+    const real = segments.filter((segment) => !segment.isFake);
+
+    let output = '';
+    for (const segment of segments) {
+      if (segment.isFake) {
+        output += segment.content;
+        continue;
+      }
+
+      const index = real.indexOf(segment);
+      const next = real[index + 1];
+      if (index === 0 && leftCap) {
+        output += this.paint(leftCap, segment.bg);
+      }
+      output += this.renderSegmentBody(segment);
+      output += next
+        ? this.paint(separator, segment.bg, next.bg)
+        : this.paint(rightCap, segment.bg);
+    }
+
+    return output;
+  }
+
+  /**
+   * Capsule布局：每个段落两端加端帽 | Capsule layout: every segment wrapped in caps
+   */
+  private renderCapsule(segments: Segment[], useNerdFont: boolean): string {
+    const leftCap = this.theme.caps?.left ?? (useNerdFont ? '\uE0B6' : '(');
+    const rightCap = this.theme.caps?.right ?? (useNerdFont ? '\uE0B4' : ')');
+    const separator = this.theme.separators?.separator ?? ' ';
+
+    return segments
+      .map((segment) =>
+        segment.isFake
+          ? segment.content
+          : `${this.paint(leftCap, segment.bg)}${this.renderSegmentBody(segment)}${this.paint(rightCap, segment.bg)}`
+      )
+      .join(separator);
+  }
+
+  /**
+   * 渲染段落主体 | Render a segment body
+   */
+  private renderSegmentBody(segment: Segment): string {
+    if (!this.terminalRenderer) {
+      return ` ${segment.content} `;
+    }
+
+    const bg = this.terminalRenderer.getBackgroundColor(segment.bg);
+    const fg = this.terminalRenderer.getForegroundColor(segment.fg);
+    const reset = this.terminalRenderer.getReset();
+    // 内部颜色重置后重新应用段落颜色 | Re-apply segment colors after internal resets
+    const content = segment.content.split('\x1b[0m').join(`${reset}${bg}${fg}`);
+    return `${bg}${fg} ${content} ${reset}`;
+  }
+
+  /**
+   * 准备段落数据，颜色索引跳过fake组件 | Prepare segments; the color index skips the fake component
+   */
+  private prepareSegments(
+    components: string[],
+    colors: string[],
+    componentNames?: string[]
+  ): Segment[] {
+    const segments: Segment[] = [];
+    let colorIndex = 0;
+
+    components.forEach((rawContent, index) => {
+      const trimmed = rawContent.trim();
+      if (!trimmed) return;
+
+      const name = componentNames?.[index];
+      if (this.isFake(trimmed, name)) {
+        segments.push({ content: trimmed, fg: '', bg: '', isFake: true });
+        return;
+      }
+
+      const palette = this.getPaletteColors(name);
+      const bg = palette.bg ?? colors[colorIndex] ?? 'blue';
+      colorIndex++;
+
+      // 组件自身声明前景色时才覆盖其内部颜色 | Internal colors are only overridden by the component's own fg
+      const preserve =
+        name !== undefined &&
+        PRESERVE_COLOR_COMPONENTS.has(name) &&
+        !this.theme.palette?.[name]?.fg;
+      const content = preserve ? trimmed : stripAnsi(trimmed);
+      if (content) {
+        segments.push({ content, fg: palette.fg ?? 'white', bg, isFake: false });
+      }
+    });
+
+    return segments;
+  }
+
+  /**
+   * 获取组件配色，回退到default | Get a component's palette colors, falling back to `default`
+   */
+  private getPaletteColors(name: string | undefined): { fg?: string; bg?: string } {
+    const palette = this.theme.palette ?? {};
+    const own = name ? palette[name] : undefined;
+    const fallback = palette.default;
+    const fg = own?.fg ?? fallback?.fg;
+    const bg = own?.bg ?? fallback?.bg;
+    return { ...(fg ? { fg } : {}), ...(bg ? { bg } : {}) };
+  }
+
+  /**
+   * 以前景色和背景色包裹文本 | Wrap text in foreground and background colors
+   */
+  private paint(text: string, fg?: string, bg?: string): string {
+    if (!this.terminalRenderer || (!fg && !bg)) {
+      return text;
+    }
+
+    const fgCode = fg ? this.terminalRenderer.getForegroundColor(fg) : '';
+    const bgCode = bg ? this.terminalRenderer.getBackgroundColor(bg) : '';
+    return `${bgCode}${fgCode}${text}${this.terminalRenderer.getReset()}`;
+  }
+
+  /**
+   * 检测fake组件 | Detect the fake component
+   */
+  private isFake(content: string, name: string | undefined): boolean {
+    return name ? name === 'fake' : content.includes('\uEC03') && content.includes('\x1b[30m');
+  }
+
+  /**
+   * 检查是否应该使用Nerd Font | Check if should use Nerd Font
+   */
+  private shouldUseNerdFont(config: Config): boolean {
+    if (config.terminal?.force_nerd_font === true) {
+      return true;
+    }
+
+    if (this.terminalRenderer) {
+      return this.terminalRenderer.getCapabilities().nerdFont;
+    }
+
+    return true;
+  }
+
+  /**
+   * 设置终端渲染器 | Set terminal renderer
+   */
+  setTerminalRenderer(renderer: TerminalRenderer): void {
+    this.terminalRenderer = renderer;
+  }
+}
@@ -4,6 +4,13 @@
  */
 
 import type { Config } from '../config/schema.js';
+import type { TerminalBackground } from '../terminal/background.js';
+
+/**
+ * 主题配色变体：标准颜色名到#rrggbb的映射，前景和背景共用
+ * Theme palette variant: maps standard color names to #rrggbb, shared by foreground and background
+ */
+export type ThemePaletteVariant = Record<string, string>;
 
 /**
  * 主题配置接口 | Theme config interface
@@ -17,6 +24,8 @@ export interface ThemeConfig {
   fine_progress: boolean;
   /** 胶囊样式 | Capsule style */
   capsule_style: boolean;
+  /** 按终端背景选择的配色变体 | Palette variants chosen by terminal background */
+  palettes?: Record<TerminalBackground, ThemePaletteVariant>;
 }
 
 /**
@@ -33,8 +42,23 @@ export interface ThemesConfig {
   [key: string]: ThemeConfig | undefined;
 }
 
+/**
+ * Powerline和Capsule的浅色变体：浅色段落配深色文字
+ * Light variant of Powerline and Capsule: pastel segments with dark text
+ */
+const SEGMENT_LIGHT_PALETTE: ThemePaletteVariant = {
+  white: '#2e3440',
+  blue: '#b4d0f7',
+  cyan: '#b0e4ec',
+  green: '#c2e5b4',
+  yellow: '#f5dfa0',
+  magenta: '#e4c1ea',
+  red: '#f4bcb8',
+};
+
 /**
  * 内置主题定义 | Builtin theme definitions
+ * 深色配色变体沿用内置颜色 | Dark palette variants keep the builtin colors
  */
 export const BUILTIN_THEMES: Record<string, ThemeConfig> = {
   classic: {
@@ -42,6 +66,21 @@ export const BUILTIN_THEMES: Record<string, ThemeConfig> = {
     ignore_separator: false,
     fine_progress: false,
     capsule_style: false,
+    palettes: {
+      dark: {},
+      // 浅色背景上加深白色和黄绿青文字 | Darkens white, yellow, green and cyan text on light backgrounds
+      light: {
+        white: '#383a42',
+        bright_white: '#383a42',
+        gray: '#696c77',
+        yellow: '#986801',
+        bright_yellow: '#c18401',
+        green: '#50a14f',
+        bright_green: '#3f863e',
+        cyan: '#0184bc',
+        bright_cyan: '#0997b3',
+      },
+    },
   },
 
   powerline: {
@@ -49,6 +88,10 @@ export const BUILTIN_THEMES: Record<string, ThemeConfig> = {
     ignore_separator: true,
     fine_progress: true,
     capsule_style: false,
+    palettes: {
+      dark: {},
+      light: SEGMENT_LIGHT_PALETTE,
+    },
   },
 
   capsule: {
@@ -56,6 +99,10 @@ export const BUILTIN_THEMES: Record<string, ThemeConfig> = {
     ignore_separator: true,
     fine_progress: true,
     capsule_style: true,
+    palettes: {
+      dark: {},
+      light: SEGMENT_LIGHT_PALETTE,
+    },
   },
 };
 
@@ -65,8 +112,14 @@ export const BUILTIN_THEMES: Record<string, ThemeConfig> = {
 export interface ThemeRenderer {
   /**
    * 渲染状态行 | Render statusline
+   * componentNames与components一一对应 | componentNames lines up with components
    */
-  renderStatusline(components: string[], colors: string[], config: Config): string;
+  renderStatusline(
+    components: string[],
+    colors: string[],
+    config: Config,
+    componentNames?: string[]
+  ): string;
 }
 
 /**
@@ -0,0 +1,427 @@
+/**
+ * 条件表达式 | Condition expressions
+ * 用于组件when规则的小型表达式语言，解析为语法树后求值，不使用eval
+ * A small expression language for component `when` rules, parsed into a syntax tree and evaluated without eval
+ *
+ * 语法 | Grammar:
+ *   字面量 | Literals:    123, -1.5, "text", 'text', true, false, null
+ *   路径 | Paths:         git.dirty, input.model.id, env["MY_VAR"]
+ *   比较 | Comparisons:   == != > >= < <= =~ (正则匹配 | regex match)
+ *   逻辑 | Logic:         ! && || (或 | or: not and or)
+ *   分组 | Grouping:      ( ... )
+ */
+
+/**
+ * 表达式错误 | Expression error
+ */
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly expression: string
+  ) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+/**
+ * 比较运算符 | Comparison operators
+ */
+type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=' | '=~';
+
+/**
+ * 表达式语法树 | Expression syntax tree
+ */
+export type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'path'; segments: Array<string | number> }
+  | { type: 'not'; operand: ExpressionNode }
+  | { type: 'logical'; operator: '&&' | '||'; left: ExpressionNode; right: ExpressionNode }
+  | {
+      type: 'comparison';
+      operator: ComparisonOperator;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    };
+
+/**
+ * 词法单元 | Token
+ */
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'operator' | 'punctuation';
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ['==', '!=', '>=', '<=', '=~', '&&', '||', '>', '<', '!'];
+const KEYWORD_OPERATORS = new Map([
+  ['and', '&&'],
+  ['or', '||'],
+  ['not', '!'],
+]);
+const COMPARISON_OPERATORS = new Set<string>(['==', '!=', '>', '>=', '<', '<=', '=~']);
+
+/**
+ * 词法分析 | Tokenize
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index] as string;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = index + 1;
+      while (end < source.length && source[end] !== char) {
+        value += source[end] === '\\' && end + 1 < source.length ? source[++end] : source[end];
+        end++;
+      }
+      if (end >= source.length) {
+        throw new ExpressionError(`Unterminated string at position ${index}`, source);
+      }
+      tokens.push({ type: 'string', value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    // 负号只能紧跟数字且不能跟在操作数之后（不支持减法）
+    // A minus sign only prefixes a number and never follows an operand (no subtraction)
+    const previous = tokens[tokens.length - 1];
+    const afterOperand =
+      previous?.type === 'number' ||
+      previous?.type === 'string' ||
+      previous?.type === 'identifier' ||
+      (previous?.type === 'punctuation' && (previous.value === ')' || previous.value === ']'));
+    const number = (afterOperand ? /^\d+(?:\.\d+)?/ : /^-?\d+(?:\.\d+)?/).exec(source.slice(index));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    // @ 为JSONPath过滤条件中的当前元素 | @ is the current element in JSONPath filters
+    const identifier = /^(?:[A-Za-z_$][\w$]*|@)/.exec(source.slice(index));
+    if (identifier) {
+      const keyword = KEYWORD_OPERATORS.get(identifier[0]);
+      tokens.push({
+        type: keyword ? 'operator' : 'identifier',
+        value: keyword ?? identifier[0],
+        position: index,
+      });
+      index += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, index));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    if ('().[]'.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, position: index });
+      index++;
+      continue;
+    }
+
+    if (char === '-') {
+      throw new ExpressionError(
+        `Unexpected "-" at position ${index} (only negative number literals are supported)`,
+        source
+      );
+    }
+    throw new ExpressionError(`Unexpected character "${char}" at position ${index}`, source);
+  }
+
+  return tokens;
+}
+
+/**
+ * 递归下降解析器 | Recursive descent parser
+ */
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: Token[]
+  ) {}
+
+  parse(): ExpressionNode {
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      this.fail(`Unexpected "${extra.value}"`, extra);
+    }
+    return node;
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||')) {
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseNot();
+    while (this.matchOperator('&&')) {
+      left = { type: 'logical', operator: '&&', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ExpressionNode {
+    if (this.matchOperator('!')) {
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ExpressionNode {
+    const left = this.parsePrimary();
+    const token = this.peek();
+    if (token?.type === 'operator' && COMPARISON_OPERATORS.has(token.value)) {
+      this.index++;
+      return {
+        type: 'comparison',
+        operator: token.value as ComparisonOperator,
+        left,
+        right: this.parsePrimary(),
+      };
+    }
+    return left;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number') {
+      return { type: 'literal', value: Number(token.value) };
+    }
+    if (token.type === 'string') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'punctuation' && token.value === '(') {
+      const node = this.parseOr();
+      this.expectPunctuation(')');
+      return node;
+    }
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') {
+        return { type: 'literal', value: token.value === 'true' };
+      }
+      if (token.value === 'null') {
+        return { type: 'literal', value: null };
+      }
+      return this.parsePath(token.value);
+    }
+
+    return this.fail(`Unexpected "${token.value}"`, token);
+  }
+
+  private parsePath(root: string): ExpressionNode {
+    const segments: Array<string | number> = [root];
+
+    while (true) {
+      if (this.matchPunctuation('.')) {
+        const token = this.next();
+        if (token.type !== 'identifier') {
+          this.fail(`Expected property name after "."`, token);
+        }
+        segments.push(token.value);
+      } else if (this.matchPunctuation('[')) {
+        const token = this.next();
+        if (token.type !== 'string' && token.type !== 'number') {
+          this.fail('Expected string or number index', token);
+        }
+        segments.push(token.type === 'number' ? Number(token.value) : token.value);
+        this.expectPunctuation(']');
+      } else {
+        return { type: 'path', segments };
+      }
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new ExpressionError('Unexpected end of expression', this.source);
+    }
+    return token;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'operator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token?.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punctuation' || token.value !== value) {
+      this.fail(`Expected "${value}"`, token);
+    }
+  }
+
+  private fail(message: string, token: Token): never {
+    throw new ExpressionError(`${message} at position ${token.position}`, this.source);
+  }
+}
+
+const compiledExpressions = new Map<string, ExpressionNode>();
+
+/**
+ * 解析表达式（带缓存）| Parse an expression (cached)
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = compiledExpressions.get(source);
+  if (cached) {
+    return cached;
+  }
+
+  const tokens = tokenize(source);
+  if (tokens.length === 0) {
+    throw new ExpressionError('Empty expression', source);
+  }
+  const node = new Parser(source, tokens).parse();
+  compiledExpressions.set(source, node);
+  return node;
+}
+
+/**
+ * 收集表达式引用的根变量 | Collect root variables referenced by an expression
+ */
+export function collectExpressionRoots(
+  node: ExpressionNode,
+  roots = new Set<string>()
+): Set<string> {
+  switch (node.type) {
+    case 'path':
+      roots.add(String(node.segments[0]));
+      break;
+    case 'not':
+      collectExpressionRoots(node.operand, roots);
+      break;
+    case 'logical':
+    case 'comparison':
+      collectExpressionRoots(node.left, roots);
+      collectExpressionRoots(node.right, roots);
+      break;
+  }
+  return roots;
+}
+
+/**
+ * 按路径读取值，只访问自有属性 | Resolve a path, reading own properties only
+ */
+function resolvePath(scope: unknown, segments: Array<string | number>): unknown {
+  let current = scope;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    if (!Object.hasOwn(current, segment)) {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * 比较两个值，数字与数字字符串按数值比较 | Compare values; numbers and numeric strings compare numerically
+ */
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  if (operator === '=~') {
+    if (left === undefined || left === null || typeof right !== 'string') {
+      return false;
+    }
+    try {
+      return new RegExp(right).test(String(left));
+    } catch {
+      return false;
+    }
+  }
+
+  const numeric = typeof left === 'number' || typeof right === 'number';
+  const a = numeric && typeof left === 'string' && left.trim() !== '' ? Number(left) : left;
+  const b = numeric && typeof right === 'string' && right.trim() !== '' ? Number(right) : right;
+
+  switch (operator) {
+    case '==':
+      return a === b || (a == null && b == null);
+    case '!=':
+      return !(a === b || (a == null && b == null));
+    default: {
+      if (typeof a !== typeof b || (typeof a !== 'number' && typeof a !== 'string')) {
+        return false;
+      }
+      const x = a as number | string;
+      const y = b as number | string;
+      if (operator === '>') return x > y;
+      if (operator === '>=') return x >= y;
+      if (operator === '<') return x < y;
+      return x <= y;
+    }
+  }
+}
+
+/**
+ * 对语法树求值 | Evaluate a syntax tree
+ */
+export function evaluateNode(node: ExpressionNode, scope: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return resolvePath(scope, node.segments);
+    case 'not':
+      return !evaluateNode(node.operand, scope);
+    case 'logical': {
+      const left = evaluateNode(node.left, scope);
+      if (node.operator === '&&') {
+        return left ? evaluateNode(node.right, scope) : left;
+      }
+      return left ? left : evaluateNode(node.right, scope);
+    }
+    case 'comparison':
+      return compare(
+        node.operator,
+        evaluateNode(node.left, scope),
+        evaluateNode(node.right, scope)
+      );
+  }
+}
+
+/**
+ * 求值表达式为布尔值 | Evaluate an expression to a boolean
+ */
+export function evaluateCondition(source: string, scope: Record<string, unknown>): boolean {
+  return Boolean(evaluateNode(parseExpression(source), scope));
+}
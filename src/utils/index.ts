@@ -3,6 +3,9 @@
  * 提供常用的工具函数和辅助方法
  */
 
+import { detectColorDepth } from '../terminal/detector.js';
+import { type ColorDepth, rgbToAnsi } from '../terminal/palettes.js';
+
 /**
  * 格式化字节大小
  */
@@ -72,6 +75,8 @@ export interface GradientProgressOptions extends ProgressBarOptions {
   enableGradient?: boolean;
   /** 颜色映射函数 | Color mapping function */
   colorMapper?: (percentage: number) => string;
+  /** 色深，默认按环境检测 | Color depth, detected from the environment by default */
+  colorDepth?: ColorDepth | undefined;
 }
 
 /**
@@ -150,55 +155,15 @@ function lerpRGB(color1: RGBColor, color2: RGBColor, factor: number): RGBColor {
  */
 export const EIGHTH_PRECISION_CHARS = ['', '▏', '▎', '▍', '▌', '▋', '▊', '▉', '█'];
 
-/**
- * RGB转256色映射 | RGB to 256-color mapping
- */
-function rgbTo256Color(r: number, g: number, b: number): number {
-  // 如果是灰度色
-  if (r === g && g === b) {
-    if (r < 8) return 16;
-    if (r > 248) return 231;
-    return Math.round(((r - 8) / 247) * 24) + 232;
-  }
-
-  // 6x6x6颜色立方体
-  const rLevel = Math.round((r / 255) * 5);
-  const gLevel = Math.round((g / 255) * 5);
-  const bLevel = Math.round((b / 255) * 5);
-
-  return 16 + 36 * rLevel + 6 * gLevel + bLevel;
-}
-
-/**
- * 检测是否支持TrueColor | Detect TrueColor support
- */
-function supportsTrueColor(): boolean {
-  const colorterm = process.env.COLORTERM;
-  const term = process.env.TERM;
-
-  // 检查明确支持TrueColor的环境变量
-  if (colorterm === 'truecolor' || colorterm === '24bit') {
-    return true;
-  }
-
-  // 检查常见支持TrueColor的终端
-  if (
-    term?.includes('256color') &&
-    (term.includes('xterm') || term.includes('screen') || term.includes('tmux'))
-  ) {
-    // 对于256color终端，假设不支持TrueColor
-    return false;
-  }
-
-  return colorterm === 'truecolor';
-}
-
 /**
  * 获取彩虹渐变颜色 | Get rainbow gradient color
  * 实现平滑的RGB彩虹渐变：绿色→黄绿→黄色→橙色→红色
- * 自动检测终端支持并选择最佳颜色模式
+ * 按色深输出24位、256色近似或基础ANSI颜色 | Emits 24-bit, 256-color approximations or basic ANSI by color depth
  */
-export function getRainbowGradientColor(percentage: number): string {
+export function getRainbowGradientColor(
+  percentage: number,
+  colorDepth: ColorDepth = detectColorDepth(true).depth
+): string {
   // 限制范围在0-100
   const p = Math.max(0, Math.min(100, percentage));
 
@@ -232,15 +197,7 @@ export function getRainbowGradientColor(percentage: number): string {
     targetColor = lerpRGB(colors.softOrange, colors.softRed, factor);
   }
 
-  // 根据终端支持返回相应的ANSI代码
-  if (supportsTrueColor()) {
-    // TrueColor支持：使用RGB
-    return `\x1b[38;2;${targetColor.r};${targetColor.g};${targetColor.b}m`;
-  } else {
-    // 256色回退：转换到最接近的256色
-    const colorCode = rgbTo256Color(targetColor.r, targetColor.g, targetColor.b);
-    return `\x1b[38;5;${colorCode}m`;
-  }
+  return rgbToAnsi([targetColor.r, targetColor.g, targetColor.b], colorDepth, 'fg');
 }
 
 /**
@@ -365,7 +322,9 @@ export function generateFineGradientProgressBar(
   percentage: number,
   options: AdvancedProgressOptions = {}
 ): { bar: string; segments: Array<{ char: string; color: string }> } {
-  const { length = 15, backupThreshold = 85, colorMapper = getRainbowGradientColor } = options;
+  const { length = 15, backupThreshold = 85, colorDepth = detectColorDepth(true).depth } = options;
+  const colorMapper =
+    options.colorMapper ?? ((p: number) => getRainbowGradientColor(p, colorDepth));
 
   // 计算总精度单位（每个字符位置有8个精度级别）
   const totalUnits = length * 8;
@@ -381,7 +340,7 @@ export function generateFineGradientProgressBar(
       // 完全空白区域 - 使用中性灰色，降低对比度
       segments.push({
         char: '░',
-        color: '\x1b[38;2;120;120;120m', // 中性灰色，与背景对比度适中
+        color: rgbToAnsi([120, 120, 120], colorDepth, 'fg'), // 中性灰色，与背景对比度适中
       });
     } else if (filledUnits >= unitEnd) {
       // 完全填充的位置
@@ -392,7 +351,7 @@ export function generateFineGradientProgressBar(
         // 后备区域：使用柔和的橙红色█
         segments.push({
           char: '█',
-          color: '\x1b[38;2;180;80;60m', // 柔和橙红色，降低对比度
+          color: rgbToAnsi([180, 80, 60], colorDepth, 'fg'), // 柔和橙红色，降低对比度
         });
       } else {
         // 正常区域：使用彩虹渐变█
@@ -414,7 +373,7 @@ export function generateFineGradientProgressBar(
         // 后备区域的部分字符：柔和橙红色
         segments.push({
           char,
-          color: '\x1b[38;2;180;80;60m', // 柔和橙红色，降低对比度
+          color: rgbToAnsi([180, 80, 60], colorDepth, 'fg'), // 柔和橙红色，降低对比度
         });
       } else if (char && char !== '') {
         // 正常区域的部分字符：彩虹渐变
@@ -426,7 +385,7 @@ export function generateFineGradientProgressBar(
         // 空字符：中性灰色背景
         segments.push({
           char: '▏',
-          color: '\x1b[38;2;100;100;100m', // 中性灰色，适中的对比度
+          color: rgbToAnsi([100, 100, 100], colorDepth, 'fg'), // 中性灰色，适中的对比度
         });
       }
     }
@@ -450,8 +409,10 @@ export function generateStandardGradientProgressBar(
     emptyChar = '░',
     backupChar = '▓',
     backupThreshold = 85,
-    colorMapper = getRainbowGradientColor,
+    colorDepth = detectColorDepth(true).depth,
   } = options;
+  const colorMapper =
+    options.colorMapper ?? ((p: number) => getRainbowGradientColor(p, colorDepth));
 
   const filled = Math.round((percentage / 100) * length);
   const segments: Array<{ char: string; color: string }> = [];
@@ -469,7 +430,7 @@ export function generateStandardGradientProgressBar(
         // 后备区域：柔和橙红色
         segments.push({
           char,
-          color: '\x1b[38;2;180;80;60m', // 柔和橙红色，降低对比度
+          color: rgbToAnsi([180, 80, 60], colorDepth, 'fg'), // 柔和橙红色，降低对比度
         });
       } else {
         // 正常区域：彩虹渐变
@@ -482,7 +443,7 @@ export function generateStandardGradientProgressBar(
       // 空白部分：中性灰色，适中对比度
       segments.push({
         char: emptyChar,
-        color: '\x1b[38;2;140;140;140m', // 中性灰色，与背景对比适中
+        color: rgbToAnsi([140, 140, 140], colorDepth, 'fg'), // 中性灰色，与背景对比适中
       });
     }
   }
@@ -711,8 +672,9 @@ export function formatTime(date: Date = new Date()): string {
 
 /**
  * 获取相对时间描述
+ * @param compact 紧凑格式，如 "2h ago"，适合状态栏 | Compact form such as "2h ago" for the statusline
  */
-export function getRelativeTime(timestamp: string | Date): string {
+export function getRelativeTime(timestamp: string | Date, compact = false): string {
   const now = new Date();
   const time = new Date(timestamp);
   const diff = now.getTime() - time.getTime();
@@ -721,6 +683,16 @@ export function getRelativeTime(timestamp: string | Date): string {
   const hours = Math.floor(minutes / 60);
   const days = Math.floor(hours / 24);
 
+  if (compact) {
+    if (seconds < 60) return `${Math.max(seconds, 0)}s ago`;
+    if (minutes < 60) return `${minutes}m ago`;
+    if (hours < 24) return `${hours}h ago`;
+    if (days < 7) return `${days}d ago`;
+    if (days < 30) return `${Math.floor(days / 7)}w ago`;
+    if (days < 365) return `${Math.floor(days / 30)}mo ago`;
+    return `${Math.floor(days / 365)}y ago`;
+  }
+
   if (seconds < 60) return `${seconds}秒前`;
   if (minutes < 60) return `${minutes}分钟前`;
   if (hours < 24) return `${hours}小时前`;
@@ -0,0 +1,293 @@
+/**
+ * JSONPath子集 | JSONPath subset
+ * 供小组件的data_path和模板字段使用，过滤条件复用条件表达式语言求值，不使用eval
+ * Used by widget data_path and template fields; filters are evaluated with the condition expression language, without eval
+ *
+ * 语法 | Grammar:
+ *   根 | Root:             $ (可省略 | optional)
+ *   属性 | Properties:      $.items, $['odd-key'], items.0, usage.7d
+ *   索引 | Indexes:         $.items[0], $.items[-1]
+ *   通配 | Wildcards:       $.items[*].name, $.prices.*
+ *   过滤 | Filters:         $.items[?(@.active)], $.items[?(@.price > 10 && @.tag == "new")]
+ *   函数 | Functions:       $.items.length(), $.items[?(@.active)].length()
+ *
+ * 包含通配或过滤时返回匹配值数组，否则返回单个值 | Paths with wildcards or filters return an array of matches; others return a single value
+ */
+
+import { type ExpressionNode, evaluateNode, parseExpression } from './expression.js';
+
+/**
+ * JSONPath错误 | JSONPath error
+ */
+export class JsonPathError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string
+  ) {
+    super(message);
+    this.name = 'JsonPathError';
+  }
+}
+
+/**
+ * JSONPath路径段 | JSONPath segment
+ */
+export type JsonPathSegment =
+  | { type: 'property'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  | { type: 'filter'; expression: ExpressionNode }
+  | { type: 'length' };
+
+/**
+ * JSONPath求值选项 | JSONPath evaluation options
+ */
+export interface JsonPathOptions {
+  /** 将以 { 开头的字符串值解析为JSON后继续访问 | Parse string values starting with { as JSON before descending */
+  parseJsonStrings?: boolean;
+}
+
+/** 属性名可以数字开头，如 7d、5h_cost | Property names may start with a digit, e.g. 7d, 5h_cost */
+const NAME_PATTERN = /^[\w$]+/;
+const INDEX_PATTERN = /^-?\d+/;
+const LENGTH_FUNCTION = 'length()';
+
+const compiledPaths = new Map<string, JsonPathSegment[]>();
+
+/**
+ * 读取引号字符串，返回内容和结束位置 | Read a quoted string, returning its content and end position
+ */
+function readQuoted(source: string, start: number): { value: string; end: number } | null {
+  const quote = source[start];
+  let value = '';
+  for (let index = start + 1; index < source.length; index++) {
+    const char = source[index];
+    if (char === '\\' && index + 1 < source.length) {
+      value += source[++index];
+    } else if (char === quote) {
+      return { value, end: index + 1 };
+    } else {
+      value += char;
+    }
+  }
+  return null;
+}
+
+/**
+ * 查找过滤条件 [?( ... )] 的结束位置，跳过引号和嵌套括号
+ * Find the end of a [?( ... )] filter, skipping quotes and nested parentheses
+ */
+function findFilterEnd(source: string, start: number): number {
+  let depth = 1;
+  for (let index = start; index < source.length; index++) {
+    const char = source[index];
+    if (char === '"' || char === "'") {
+      const quoted = readQuoted(source, index);
+      if (!quoted) return -1;
+      index = quoted.end - 1;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return source[index + 1] === ']' ? index : -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * 解析JSONPath（带缓存）| Parse a JSONPath (cached)
+ * 语法无效时抛出JsonPathError | Throws JsonPathError on invalid syntax
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+  const cached = compiledPaths.get(path);
+  if (cached) {
+    return cached;
+  }
+
+  const source = path.trim();
+  const segments: JsonPathSegment[] = [];
+  let index = 0;
+
+  const fail = (message: string) => new JsonPathError(`${message} at position ${index}`, path);
+
+  if (source[0] === '$' && !/^\$[\w$]/.test(source)) {
+    index = 1;
+  } else {
+    // 省略$时以属性名开头，如 data.items[0] | Without $ the path starts with a property name, e.g. data.items[0]
+    const name = NAME_PATTERN.exec(source);
+    if (name) {
+      segments.push({ type: 'property', name: name[0] });
+      index = name[0].length;
+    }
+  }
+
+  while (index < source.length) {
+    if (segments[segments.length - 1]?.type === 'length') {
+      throw fail(`${LENGTH_FUNCTION} must be the last segment`);
+    }
+
+    if (source[index] === '.') {
+      index++;
+      if (source.startsWith(LENGTH_FUNCTION, index)) {
+        segments.push({ type: 'length' });
+        index += LENGTH_FUNCTION.length;
+      } else if (source[index] === '*') {
+        segments.push({ type: 'wildcard' });
+        index++;
+      } else {
+        const name = NAME_PATTERN.exec(source.slice(index));
+        if (!name) throw fail('Expected property name after "."');
+        segments.push({ type: 'property', name: name[0] });
+        index += name[0].length;
+      }
+      continue;
+    }
+
+    if (source[index] !== '[') {
+      throw fail(`Unexpected "${source[index]}"`);
+    }
+
+    if (source.startsWith('[*]', index)) {
+      segments.push({ type: 'wildcard' });
+      index += 3;
+    } else if (source.startsWith('[?(', index)) {
+      const end = findFilterEnd(source, index + 3);
+      if (end === -1) throw fail('Unterminated filter');
+      try {
+        segments.push({
+          type: 'filter',
+          expression: parseExpression(source.slice(index + 3, end)),
+        });
+      } catch (error) {
+        throw fail(`Invalid filter: ${error instanceof Error ? error.message : error}`);
+      }
+      index = end + 2;
+    } else if (source[index + 1] === '"' || source[index + 1] === "'") {
+      const quoted = readQuoted(source, index + 1);
+      if (!quoted || source[quoted.end] !== ']') throw fail('Unterminated property name');
+      segments.push({ type: 'property', name: quoted.value });
+      index = quoted.end + 1;
+    } else {
+      const number = INDEX_PATTERN.exec(source.slice(index + 1));
+      if (!number || source[index + 1 + number[0].length] !== ']') throw fail('Expected index');
+      segments.push({ type: 'index', index: Number(number[0]) });
+      index += number[0].length + 2;
+    }
+  }
+
+  compiledPaths.set(path, segments);
+  return segments;
+}
+
+/**
+ * 检查字符串是否为有效的JSONPath | Check whether a string is a valid JSONPath
+ */
+export function isJsonPath(path: string): boolean {
+  try {
+    parseJsonPath(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 子元素，对象为属性值，数组为元素 | Child values: property values of objects, elements of arrays
+ */
+function childrenOf(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value !== null && typeof value === 'object') return Object.values(value);
+  return [];
+}
+
+/**
+ * 长度，对象为属性数量 | Length; the property count for objects
+ */
+function lengthOf(value: unknown): number | undefined {
+  if (Array.isArray(value) || typeof value === 'string') return value.length;
+  if (value !== null && typeof value === 'object') return Object.keys(value).length;
+  return undefined;
+}
+
+/**
+ * 对数据求值JSONPath，只访问自有属性，路径不存在时返回undefined
+ * Evaluate a JSONPath against data, reading own properties only; undefined when the path does not exist
+ * @param data 数据 | Data
+ * @param path JSONPath表达式 | JSONPath expression
+ * @param options 求值选项 | Evaluation options
+ */
+export function evaluateJsonPath(
+  data: unknown,
+  path: string,
+  options: JsonPathOptions = {}
+): unknown {
+  let nodes: unknown[] = [data];
+  let multiple = false;
+
+  for (const segment of parseJsonPath(path)) {
+    if (segment.type === 'length') {
+      return lengthOf(multiple ? nodes : nodes[0]);
+    }
+
+    const next: unknown[] = [];
+    for (const raw of nodes) {
+      let node = raw;
+      if (options.parseJsonStrings && typeof node === 'string' && node.trim().startsWith('{')) {
+        try {
+          node = JSON.parse(node);
+        } catch {
+          // 解析失败时按普通字符串处理 | Treat it as a plain string when parsing fails
+        }
+      }
+
+      switch (segment.type) {
+        case 'property':
+          if (node !== null && typeof node === 'object' && Object.hasOwn(node, segment.name)) {
+            next.push((node as Record<string, unknown>)[segment.name]);
+          }
+          break;
+        case 'index':
+          if (Array.isArray(node)) {
+            const position = segment.index < 0 ? node.length + segment.index : segment.index;
+            if (Object.hasOwn(node, position)) next.push(node[position]);
+          }
+          break;
+        case 'wildcard':
+          next.push(...childrenOf(node));
+          break;
+        case 'filter':
+          for (const child of childrenOf(node)) {
+            if (evaluateNode(segment.expression, { '@': child, $: data })) {
+              next.push(child);
+            }
+          }
+          break;
+      }
+    }
+
+    nodes = next;
+    multiple ||= segment.type === 'wildcard' || segment.type === 'filter';
+  }
+
+  return multiple ? nodes : nodes[0];
+}
+
+/**
+ * 推断JSONPath结果的字段名，如 $.user.name 为 name | Infer the field name of a JSONPath result, e.g. name for $.user.name
+ */
+export function getJsonPathFieldName(path: string): string {
+  let segments: JsonPathSegment[];
+  try {
+    segments = parseJsonPath(path);
+  } catch {
+    return 'value';
+  }
+
+  for (let index = segments.length - 1; index >= 0; index--) {
+    const segment = segments[index] as JsonPathSegment;
+    if (segment.type === 'property') return segment.name;
+    if (segment.type === 'index') return String(segment.index);
+    if (segment.type === 'length') return 'length';
+  }
+  return 'value';
+}
@@ -0,0 +1,406 @@
+/**
+ * 小组件模板语言 | Widget template language
+ * 在 {field} 占位符之上增加条件、循环和管道过滤器，解析为语法树后渲染，不使用eval
+ * Adds conditionals, loops and pipe filters on top of {field} placeholders, parsed into a syntax tree and rendered without eval
+ *
+ * 语法 | Grammar:
+ *   占位符 | Placeholders:  {field}, {data.items[0].name}, {value:.2f}, {red:text}
+ *   过滤器 | Filters:       {name | upper}, {title | truncate(20)}, {plan | default("n/a")}, {size | bytes}, {elapsed | duration}
+ *   条件 | Conditionals:    {#if failed > 0}...{else}...{/if}  (条件使用when表达式语法 | conditions use the `when` expression syntax)
+ *   循环 | Loops:           {#each items}{name}{/each}, {#each items as item}{item.name}{else}empty{/each}
+ *
+ * 过滤器名称未知时整个占位符按普通占位符处理，保持旧模板中 | 文本不变
+ * When a filter name is unknown the whole placeholder is treated as a plain one, so | in older templates keeps its meaning
+ */
+
+import { evaluateNode, parseExpression } from './expression.js';
+import { formatBytes } from './index.js';
+import { evaluateJsonPath } from './json-path.js';
+import { truncateToWidth } from './text-width.js';
+
+/**
+ * 模板错误 | Template error
+ */
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly template: string
+  ) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+/**
+ * 过滤器参数 | Filter argument
+ */
+type FilterArgument = string | number | boolean | null;
+
+/**
+ * 过滤器调用 | Filter call
+ */
+interface FilterCall {
+  name: string;
+  args: FilterArgument[];
+}
+
+/**
+ * 模板语法树 | Template syntax tree
+ */
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'placeholder'; expression: string }
+  | { type: 'output'; expression: string; filters: FilterCall[] }
+  | { type: 'if'; condition: string; body: TemplateNode[]; alternate: TemplateNode[] }
+  | { type: 'each'; path: string; alias?: string; body: TemplateNode[]; alternate: TemplateNode[] };
+
+/**
+ * 渲染钩子，由调用方提供占位符求值方式 | Render hooks; the caller decides how placeholders are evaluated
+ */
+export interface TemplateHooks {
+  /** 渲染不带过滤器的占位符 | Render a placeholder without filters */
+  renderPlaceholder(expression: string, scope: Record<string, unknown>): string;
+  /** 求值表达式为原始值，供过滤器和循环使用 | Evaluate an expression to a raw value for filters and loops */
+  resolveValue(expression: string, scope: Record<string, unknown>): unknown;
+}
+
+/**
+ * 过滤器函数 | Filter function
+ */
+export type TemplateFilter = (value: unknown, ...args: FilterArgument[]) => unknown;
+
+/**
+ * 转为输出文本 | Convert to output text
+ */
+function toText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * 格式化毫秒时长为最大的两个单位，如 1h 5m | Format milliseconds with the two largest units, e.g. 1h 5m
+ */
+function formatDuration(ms: number): string {
+  const sign = ms < 0 ? '-' : '';
+  let rest = Math.abs(ms);
+  if (rest < 1000) {
+    return `${sign}${Math.round(rest)}ms`;
+  }
+
+  const parts: string[] = [];
+  for (const [unit, size] of [
+    ['d', 86_400_000],
+    ['h', 3_600_000],
+    ['m', 60_000],
+    ['s', 1000],
+  ] as const) {
+    const count = Math.floor(rest / size);
+    if (count > 0) {
+      parts.push(`${count}${unit}`);
+      rest -= count * size;
+    }
+  }
+  return sign + parts.slice(0, 2).join(' ');
+}
+
+/**
+ * 转为有限数值，无法转换时返回null | Convert to a finite number; null when not numeric
+ */
+function toFiniteNumber(value: unknown): number | null {
+  if (typeof value !== 'number' && (typeof value !== 'string' || value.trim() === '')) {
+    return null;
+  }
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * 内置过滤器 | Builtin filters
+ */
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  upper: (value) => toText(value).toUpperCase(),
+  lower: (value) => toText(value).toLowerCase(),
+  // 按显示宽度截断，中文和emoji占两列 | Truncates by display width; CJK and emoji take two columns
+  truncate: (value, length = 20) => truncateToWidth(toText(value), Number(length) || 0),
+  default: (value, fallback = '') =>
+    value === undefined || value === null || value === '' ? fallback : value,
+  bytes: (value) => {
+    const bytes = toFiniteNumber(value);
+    if (bytes === null) return value;
+    return `${bytes < 0 ? '-' : ''}${formatBytes(Math.round(Math.abs(bytes)))}`;
+  },
+  // 默认输入为毫秒，duration("s") 表示秒 | Input is milliseconds by default; duration("s") means seconds
+  duration: (value, unit = 'ms') => {
+    const amount = toFiniteNumber(value);
+    if (amount === null) return value;
+    return formatDuration(unit === 's' ? amount * 1000 : amount);
+  },
+  join: (value, separator = ', ') =>
+    Array.isArray(value) ? value.map(toText).join(toText(separator)) : value,
+};
+
+/**
+ * 按顶层分隔符拆分，跳过引号和括号内的内容 | Split on a top-level separator, skipping quoted and parenthesized text
+ * 连续两个 | 视为逻辑或，不拆分 | A doubled | is a logical or and is not split
+ */
+function splitTopLevel(source: string, separator: '|' | ','): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (quote) {
+      if (char === '\\') index++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      if (separator === '|' && (source[index + 1] === '|' || source[index - 1] === '|')) continue;
+      parts.push(source.slice(start, index));
+      start = index + 1;
+    }
+  }
+
+  parts.push(source.slice(start));
+  return parts;
+}
+
+/**
+ * 解析过滤器参数字面量 | Parse a filter argument literal
+ */
+function parseArgument(source: string): FilterArgument | undefined {
+  const text = source.trim();
+  if (/^-?\d+(?:\.\d+)?$/.test(text)) return Number(text);
+  if (text === 'true' || text === 'false') return text === 'true';
+  if (text === 'null') return null;
+
+  const quote = text[0];
+  if ((quote === '"' || quote === "'") && text.length >= 2 && text.endsWith(quote)) {
+    return text.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return undefined;
+}
+
+/**
+ * 解析过滤器调用，名称未知或参数无效时返回null | Parse a filter call; null for unknown names or invalid arguments
+ */
+function parseFilterCall(source: string): FilterCall | null {
+  const match = /^\s*(\w+)\s*(?:\((.*)\))?\s*$/s.exec(source);
+  if (!match?.[1] || !Object.hasOwn(TEMPLATE_FILTERS, match[1])) {
+    return null;
+  }
+
+  const args: FilterArgument[] = [];
+  if (match[2]?.trim()) {
+    for (const part of splitTopLevel(match[2], ',')) {
+      const arg = parseArgument(part);
+      if (arg === undefined) return null;
+      args.push(arg);
+    }
+  }
+  return { name: match[1], args };
+}
+
+/**
+ * 解析占位符内容为输出节点 | Parse placeholder content into an output node
+ */
+function parseOutput(inner: string): TemplateNode {
+  const parts = splitTopLevel(inner, '|');
+  if (parts.length > 1) {
+    const filters = parts.slice(1).map(parseFilterCall);
+    const expression = parts[0]?.trim();
+    if (expression && filters.every((filter) => filter !== null)) {
+      return { type: 'output', expression, filters: filters as FilterCall[] };
+    }
+  }
+  return { type: 'placeholder', expression: inner };
+}
+
+const compiledTemplates = new Map<string, TemplateNode[]>();
+
+/**
+ * 解析模板（带缓存）| Parse a template (cached)
+ * 块标签不匹配或条件无效时抛出TemplateError | Throws TemplateError for mismatched block tags or invalid conditions
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const cached = compiledTemplates.get(template);
+  if (cached) {
+    return cached;
+  }
+
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: Extract<TemplateNode, { type: 'if' | 'each' }>; inElse: boolean }> =
+    [];
+  const target = (): TemplateNode[] => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    return block.inElse ? block.node.alternate : block.node.body;
+  };
+
+  let index = 0;
+  while (index < template.length) {
+    const open = template.indexOf('{', index);
+    const close = open === -1 ? -1 : template.indexOf('}', open + 1);
+    // 与旧版一致，{} 和未闭合的 { 按文本输出 | As before, {} and an unclosed { are output as text
+    if (open === -1 || close === -1) {
+      target().push({ type: 'text', value: template.slice(index) });
+      break;
+    }
+    if (close === open + 1) {
+      target().push({ type: 'text', value: template.slice(index, close + 1) });
+      index = close + 1;
+      continue;
+    }
+    if (open > index) {
+      target().push({ type: 'text', value: template.slice(index, open) });
+    }
+    index = close + 1;
+
+    const inner = template.slice(open + 1, close);
+    const tag = inner.trim();
+    const ifMatch = /^#if\s+(.+)$/s.exec(tag);
+    const eachMatch = /^#each\s+(.+?)(?:\s+as\s+([A-Za-z_]\w*))?$/s.exec(tag);
+
+    if (ifMatch?.[1]) {
+      try {
+        parseExpression(ifMatch[1]);
+      } catch (error) {
+        throw new TemplateError(
+          `Invalid condition "${ifMatch[1]}": ${error instanceof Error ? error.message : error}`,
+          template
+        );
+      }
+      const node = { type: 'if' as const, condition: ifMatch[1], body: [], alternate: [] };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (eachMatch?.[1]) {
+      const node = {
+        type: 'each' as const,
+        path: eachMatch[1].trim(),
+        ...(eachMatch[2] && { alias: eachMatch[2] }),
+        body: [],
+        alternate: [],
+      };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const block = stack[stack.length - 1];
+      if (!block || block.inElse) {
+        throw new TemplateError('Unexpected {else}', template);
+      }
+      block.inElse = true;
+    } else if (tag === '/if' || tag === '/each') {
+      const block = stack.pop();
+      if (!block || `/${block.node.type}` !== tag) {
+        throw new TemplateError(`Unexpected {${tag}}`, template);
+      }
+    } else {
+      target().push(parseOutput(inner));
+    }
+  }
+
+  const unclosed = stack[stack.length - 1];
+  if (unclosed) {
+    throw new TemplateError(`Missing {/${unclosed.node.type}}`, template);
+  }
+
+  compiledTemplates.set(template, root);
+  return root;
+}
+
+/**
+ * 条件真值，空数组为假 | Condition truthiness; empty arrays are false
+ */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * 渲染语法树 | Render a syntax tree
+ */
+function renderNodes(
+  nodes: TemplateNode[],
+  scope: Record<string, unknown>,
+  hooks: TemplateHooks
+): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'placeholder':
+        output += hooks.renderPlaceholder(node.expression, scope);
+        break;
+      case 'output': {
+        let value = hooks.resolveValue(node.expression, scope);
+        for (const filter of node.filters) {
+          value = (TEMPLATE_FILTERS[filter.name] as TemplateFilter)(value, ...filter.args);
+        }
+        output += toText(value);
+        break;
+      }
+      case 'if': {
+        const matched = isTruthy(evaluateNode(parseExpression(node.condition), scope));
+        output += renderNodes(matched ? node.body : node.alternate, scope, hooks);
+        break;
+      }
+      case 'each': {
+        const items = hooks.resolveValue(node.path, scope);
+        if (!Array.isArray(items) || items.length === 0) {
+          output += renderNodes(node.alternate, scope, hooks);
+          break;
+        }
+        items.forEach((item, index) => {
+          // 未指定别名时元素字段可直接引用，{this} 为元素本身 | Without an alias item fields are in scope and {this} is the item
+          const itemScope = node.alias
+            ? { ...scope, [node.alias]: item, index }
+            : {
+                ...scope,
+                ...(item !== null && typeof item === 'object' && !Array.isArray(item) ? item : {}),
+                this: item,
+                index,
+              };
+          output += renderNodes(node.body, itemScope, hooks);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * 默认钩子：占位符按JSONPath取值 | Default hooks: placeholders are resolved as JSONPath
+ */
+const DEFAULT_HOOKS: TemplateHooks = {
+  resolveValue: (expression, scope) => {
+    try {
+      return evaluateJsonPath(scope, expression.trim());
+    } catch {
+      return undefined;
+    }
+  },
+  renderPlaceholder: (expression, scope) => toText(DEFAULT_HOOKS.resolveValue(expression, scope)),
+};
+
+/**
+ * 渲染模板 | Render a template
+ * @param template 模板字符串 | Template string
+ * @param data 模板数据 | Template data
+ * @param hooks 占位符求值钩子 | Placeholder evaluation hooks
+ */
+export function evaluateTemplate(
+  template: string,
+  data: Record<string, unknown>,
+  hooks: TemplateHooks = DEFAULT_HOOKS
+): string {
+  return renderNodes(parseTemplate(template), data, hooks);
+}
@@ -0,0 +1,128 @@
+/**
+ * 终端显示宽度计算 | Terminal display width measurement
+ * 忽略ANSI转义序列，按字素簇计算宽字符(CJK/emoji)和零宽字符
+ * Ignores ANSI escape sequences and measures grapheme clusters, counting wide (CJK/emoji) and zero-width characters
+ */
+
+/** ANSI CSI/OSC转义序列 | ANSI CSI/OSC escape sequences */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI转义序列需要控制字符匹配
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+/** 重置所有样式 | Reset all styles */
+const ANSI_RESET = '\x1b[0m';
+
+/** 东亚宽字符范围 | East Asian wide and fullwidth ranges */
+const WIDE_RANGES: Array<[number, number]> = [
+  [0x1100, 0x115f],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe30, 0xfe4f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  [0x20000, 0x3fffd],
+];
+
+const EMOJI_PRESENTATION = /\p{Emoji_Presentation}/u;
+const ZERO_WIDTH = /^[\p{Mn}\p{Me}\p{Cf}\p{Cc}]$/u;
+
+let segmenter: Intl.Segmenter | null = null;
+
+/**
+ * 拆分字素簇 | Split into grapheme clusters
+ */
+function graphemes(text: string): string[] {
+  segmenter ??= new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  return Array.from(segmenter.segment(text), (segment) => segment.segment);
+}
+
+/**
+ * 计算单个字素簇的宽度 | Measure a single grapheme cluster
+ */
+function graphemeWidth(grapheme: string): number {
+  const codePoint = grapheme.codePointAt(0);
+  if (codePoint === undefined || ZERO_WIDTH.test(String.fromCodePoint(codePoint))) {
+    return 0;
+  }
+
+  // emoji表现形式或带VS16变体选择符的字符占两列 | Emoji presentation or VS16 variants take two columns
+  if (EMOJI_PRESENTATION.test(grapheme) || grapheme.includes('\uFE0F')) {
+    return 2;
+  }
+
+  return WIDE_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 2 : 1;
+}
+
+/**
+ * 去除ANSI转义序列 | Strip ANSI escape sequences
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * 计算字符串的终端显示宽度 | Get the terminal display width of a string
+ */
+export function getDisplayWidth(text: string): number {
+  const plain = stripAnsi(text);
+
+  // ASCII快速路径 | ASCII fast path
+  if (/^[\x20-\x7e]*$/.test(plain)) {
+    return plain.length;
+  }
+
+  let width = 0;
+  for (const grapheme of graphemes(plain)) {
+    width += graphemeWidth(grapheme);
+  }
+  return width;
+}
+
+/**
+ * 按显示宽度截断字符串，保留ANSI样式 | Truncate a string to a display width, keeping ANSI styles
+ * 截断时追加省略号，若包含样式则在末尾重置 | Appends an ellipsis when truncated and resets styles if any were used
+ */
+export function truncateToWidth(text: string, maxWidth: number, ellipsis = '…'): string {
+  if (getDisplayWidth(text) <= maxWidth) {
+    return text;
+  }
+
+  const ellipsisWidth = getDisplayWidth(ellipsis);
+  if (maxWidth < ellipsisWidth) {
+    return '';
+  }
+
+  const budget = maxWidth - ellipsisWidth;
+  let width = 0;
+  let result = '';
+  let styled = false;
+  let lastIndex = 0;
+
+  const appendText = (chunk: string): boolean => {
+    for (const grapheme of graphemes(chunk)) {
+      const charWidth = graphemeWidth(grapheme);
+      if (width + charWidth > budget) {
+        return false;
+      }
+      width += charWidth;
+      result += grapheme;
+    }
+    return true;
+  };
+
+  for (const match of text.matchAll(ANSI_PATTERN)) {
+    if (!appendText(text.slice(lastIndex, match.index))) {
+      return `${result}${ellipsis}${styled ? ANSI_RESET : ''}`;
+    }
+    result += match[0];
+    styled = true;
+    lastIndex = match.index + match[0].length;
+  }
+  appendText(text.slice(lastIndex));
+
+  return `${result}${ellipsis}${styled ? ANSI_RESET : ''}`;
+}
@@ -0,0 +1,310 @@
+/**
+ * Transcript Index - 增量transcript索引
+ * 负责按字节偏移尾部读取transcript，并维护组件共享的解析结果
+ *
+ * 设计原则：
+ * 1. 增量读取：只解析上次偏移之后新追加的行
+ * 2. 压缩感知：遇到 isCompactSummary 时重置上下文usage
+ * 3. 全局共享：单例按路径缓存索引，tokens/status等组件共用一次解析
+ */
+
+import { closeSync, openSync, readSync, statSync } from 'node:fs';
+import type { TranscriptEntry, TranscriptSnapshot, UsageInfo } from '../config/schema.js';
+
+/** 保留的最近tool_use数量 | Number of recent tool_use calls kept */
+const MAX_RECENT_TOOL_USES = 50;
+
+/** 缓存的索引数量上限 | Maximum number of cached indexes */
+const MAX_CACHED_INDEXES = 16;
+
+/** 单次读取块大小 | Chunk size per read */
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * 读取选项 | Read options
+ */
+export interface TranscriptReadOptions {
+  /** 是否增量读取，false时每次从头解析 | Read incrementally; re-parse from the start when false */
+  incremental?: boolean;
+}
+
+/**
+ * 单个transcript文件的增量索引 | Incremental index of a single transcript file
+ */
+export class TranscriptIndex {
+  private offset = 0;
+  private inode: number | null = null;
+  private pending: Buffer = Buffer.alloc(0);
+  private seenMessageIds = new Set<string>();
+  private snapshot: TranscriptSnapshot;
+
+  constructor(private readonly transcriptPath: string) {
+    this.snapshot = this.createEmptySnapshot();
+  }
+
+  /**
+   * 读取新追加的内容并返回最新快照 | Read appended content and return the latest snapshot
+   * 文件不存在时返回null | Returns null when the file does not exist
+   */
+  read(options: TranscriptReadOptions = {}): TranscriptSnapshot | null {
+    let stat: ReturnType<typeof statSync>;
+    try {
+      stat = statSync(this.transcriptPath);
+    } catch (_error) {
+      this.reset();
+      return null;
+    }
+
+    if (!stat.isFile()) {
+      return null;
+    }
+
+    // 文件被截断、替换或禁用增量时从头开始 | Start over on truncation, replacement or non-incremental reads
+    if (options.incremental === false || stat.size < this.offset || stat.ino !== this.inode) {
+      this.reset();
+      this.inode = stat.ino;
+    }
+
+    if (stat.size > this.offset) {
+      this.readAppended(stat.size);
+    }
+
+    return {
+      ...this.snapshot,
+      usageByModel: { ...this.snapshot.usageByModel },
+      recentToolUses: [...this.snapshot.recentToolUses],
+    };
+  }
+
+  /**
+   * 重置索引状态 | Reset index state
+   */
+  reset(): void {
+    this.offset = 0;
+    this.inode = null;
+    this.pending = Buffer.alloc(0);
+    this.seenMessageIds.clear();
+    this.snapshot = this.createEmptySnapshot();
+  }
+
+  /**
+   * 从当前偏移读取到文件末尾 | Read from the current offset to the end of file
+   */
+  private readAppended(size: number): void {
+    const fd = openSync(this.transcriptPath, 'r');
+    const chunks: Buffer[] = [this.pending];
+    try {
+      while (this.offset < size) {
+        const length = Math.min(READ_CHUNK_SIZE, size - this.offset);
+        const chunk = Buffer.alloc(length);
+        const bytesRead = readSync(fd, chunk, 0, length, this.offset);
+        if (bytesRead <= 0) break;
+        chunks.push(bytesRead === length ? chunk : chunk.subarray(0, bytesRead));
+        this.offset += bytesRead;
+      }
+    } finally {
+      closeSync(fd);
+    }
+
+    const buffer = Buffer.concat(chunks);
+    const lastNewline = buffer.lastIndexOf(0x0a);
+    const complete = lastNewline >= 0 ? buffer.subarray(0, lastNewline) : Buffer.alloc(0);
+    let rest = lastNewline >= 0 ? buffer.subarray(lastNewline + 1) : buffer;
+
+    for (const line of complete.toString('utf8').split('\n')) {
+      this.ingestLine(line);
+    }
+
+    // 末尾没有换行但已是完整JSON时直接解析 | Consume a trailing line without newline if it is complete JSON
+    if (rest.length > 0 && this.ingestLine(rest.toString('utf8'))) {
+      rest = Buffer.alloc(0);
+    }
+
+    this.pending = Buffer.from(rest);
+    this.snapshot.size = this.offset - this.pending.length;
+  }
+
+  /**
+   * 解析单行并更新快照 | Parse a single line and update the snapshot
+   * @returns 是否成功解析 | Whether the line was parsed
+   */
+  private ingestLine(rawLine: string): boolean {
+    const line = rawLine.trim();
+    if (!line) return false;
+
+    let entry: TranscriptEntry;
+    try {
+      entry = JSON.parse(line) as TranscriptEntry;
+    } catch (_parseError) {
+      return false;
+    }
+    if (!entry || typeof entry !== 'object') return false;
+
+    const snapshot = this.snapshot;
+    const entryIndex = snapshot.entryCount++;
+    snapshot.lastEntryType = typeof entry.type === 'string' ? entry.type : null;
+
+    // 压缩边界之前的usage不再计入上下文；多次压缩时以最近一次为准，之前的上下文都已被摘要替换
+    // Usage before the compaction boundary no longer counts; with several compactions the latest one wins
+    // because every earlier context has been replaced by its summary
+    if ((entry as Record<string, unknown>).isCompactSummary === true) {
+      snapshot.compactBoundary = entryIndex;
+      snapshot.latestUsage = null;
+    }
+
+    const message = entry.message;
+    if (entry.type === 'assistant' && message && 'usage' in message) {
+      snapshot.lastAssistantEntry = entry;
+      snapshot.lastStopReason = message.stop_reason || null;
+
+      const usage = message.usage;
+      if (usage && typeof usage === 'object') {
+        const normalized = {
+          input_tokens: Number(usage.input_tokens) || 0,
+          output_tokens: Number(usage.output_tokens) || 0,
+          cache_creation_input_tokens: Number(usage.cache_creation_input_tokens) || 0,
+          cache_read_input_tokens: Number(usage.cache_read_input_tokens) || 0,
+        };
+        const totalTokens =
+          normalized.input_tokens +
+          normalized.output_tokens +
+          normalized.cache_creation_input_tokens +
+          normalized.cache_read_input_tokens;
+
+        if (totalTokens > 0) {
+          snapshot.latestUsage = { usage: normalized, totalTokens, entryIndex };
+        }
+
+        this.accumulateUsage(message as Record<string, unknown>, normalized);
+      }
+    }
+
+    if (message && Array.isArray(message.content)) {
+      for (const item of message.content) {
+        if (typeof item !== 'object' || item === null) continue;
+        const record = item as Record<string, unknown>;
+        if (record.type !== 'tool_use' || typeof record.name !== 'string') continue;
+
+        snapshot.recentToolUses.push({
+          name: record.name,
+          ...(typeof record.id === 'string' ? { id: record.id } : {}),
+          entryIndex,
+        });
+      }
+      if (snapshot.recentToolUses.length > MAX_RECENT_TOOL_USES) {
+        snapshot.recentToolUses.splice(0, snapshot.recentToolUses.length - MAX_RECENT_TOOL_USES);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 按模型累计会话usage | Accumulate session usage per model
+   * 同一消息拆分为多行时只计一次 | Messages split across several lines are counted once
+   */
+  private accumulateUsage(message: Record<string, unknown>, usage: UsageInfo): void {
+    const messageId = typeof message.id === 'string' ? message.id : null;
+    if (messageId) {
+      if (this.seenMessageIds.has(messageId)) return;
+      this.seenMessageIds.add(messageId);
+    }
+
+    const modelId = typeof message.model === 'string' ? message.model : '';
+    const total = this.snapshot.usageByModel[modelId] ?? {
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+    };
+    this.snapshot.usageByModel[modelId] = {
+      input_tokens: total.input_tokens + usage.input_tokens,
+      output_tokens: total.output_tokens + usage.output_tokens,
+      cache_creation_input_tokens:
+        total.cache_creation_input_tokens + usage.cache_creation_input_tokens,
+      cache_read_input_tokens: total.cache_read_input_tokens + usage.cache_read_input_tokens,
+    };
+  }
+
+  /**
+   * 创建空快照 | Create an empty snapshot
+   */
+  private createEmptySnapshot(): TranscriptSnapshot {
+    return {
+      path: this.transcriptPath,
+      size: 0,
+      entryCount: 0,
+      compactBoundary: -1,
+      latestUsage: null,
+      lastStopReason: null,
+      lastAssistantEntry: null,
+      lastEntryType: null,
+      usageByModel: {},
+      recentToolUses: [],
+    };
+  }
+}
+
+/**
+ * Transcript索引注册表 | Transcript index registry
+ * 使用单例模式，按路径缓存索引以便跨渲染增量读取
+ */
+export class TranscriptIndexRegistry {
+  private static instance: TranscriptIndexRegistry;
+  private indexes = new Map<string, TranscriptIndex>();
+
+  /**
+   * 私有构造函数，防止外部实例化
+   */
+  private constructor() {}
+
+  /**
+   * 获取单例实例
+   */
+  static getInstance(): TranscriptIndexRegistry {
+    if (!TranscriptIndexRegistry.instance) {
+      TranscriptIndexRegistry.instance = new TranscriptIndexRegistry();
+    }
+    return TranscriptIndexRegistry.instance;
+  }
+
+  /**
+   * 读取指定transcript的快照 | Read the snapshot of a transcript
+   */
+  read(transcriptPath: string, options: TranscriptReadOptions = {}): TranscriptSnapshot | null {
+    let index = this.indexes.get(transcriptPath);
+    if (index) {
+      // 刷新LRU顺序 | Refresh LRU order
+      this.indexes.delete(transcriptPath);
+    } else {
+      index = new TranscriptIndex(transcriptPath);
+    }
+    this.indexes.set(transcriptPath, index);
+
+    while (this.indexes.size > MAX_CACHED_INDEXES) {
+      const oldest = this.indexes.keys().next().value;
+      if (oldest === undefined) break;
+      this.indexes.delete(oldest);
+    }
+
+    try {
+      return index.read(options);
+    } catch (error) {
+      index.reset();
+      if (process.env.DEBUG) {
+        console.error('[TranscriptIndex] Failed to read transcript:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * 清除所有索引 | Clear all indexes
+   */
+  clear(): void {
+    this.indexes.clear();
+  }
+}
+
+// 导出单例实例
+export const transcriptIndex = TranscriptIndexRegistry.getInstance();
@@ -157,15 +157,13 @@ describe('Storage System', () => {
   });
 
   test('should clean up old sessions', async () => {
-    // Use -1 to trigger immediate cleanup of files older than 1 day
+    // Use -1 to trigger immediate cleanup of sessions older than 1 day
     const manager = new StorageManager({
       autoCleanupDays: -1, // Use negative value for immediate cleanup
       enableCostPersistence: true,
     });
 
     const oldSessionId = 'old-session-789';
-    const paths = manager.getPaths();
-    const oldFilePath = path.join(paths.sessionsDir, `${oldSessionId}.json`);
 
     // Save an old session
     await manager.saveSessionCost({
@@ -180,52 +178,48 @@ describe('Storage System', () => {
       lastUpdateTime: new Date(Date.now() - 86400000 * 31).toISOString(),
     });
 
-    // Verify file was created
-    expect(fs.existsSync(oldFilePath)).toBe(true);
+    // Verify session was recorded in the ledger
+    expect(await manager.loadSessionCost(oldSessionId)).not.toBeNull();
 
-    // Try to set file modification time to old date
-    // This might fail on Windows, so we wrap it in try-catch
-    try {
-      const oldDate = new Date(Date.now() - 86400000 * 2); // 2 days ago
-      fs.utimesSync(oldFilePath, oldDate, oldDate);
+    // Run cleanup
+    await manager.cleanupOldSessions();
 
-      // Run cleanup
-      await manager.cleanupOldSessions();
+    // Old session should be compacted away
+    expect(await manager.loadSessionCost(oldSessionId)).toBeNull();
+  });
 
-      // Check if old file was removed
-      const stillExists = fs.existsSync(oldFilePath);
-      expect(stillExists).toBe(false);
-    } catch (error) {
-      // If we can't set the file time on Windows, skip this part of the test
-      console.warn('Could not test file cleanup due to permission issues:', error);
+  test('should keep session cost in a compacted append-only ledger', async () => {
+    const manager = new StorageManager();
+    const paths = manager.getPaths();
+    const sessionId = 'ledger-session-321';
+
+    for (const totalCostUsd of [0.1, 0.2, 0.3]) {
+      await manager.saveSessionCost({
+        sessionId,
+        projectPath: testProjectPath,
+        totalCostUsd,
+        inputTokens: 0,
+        outputTokens: 0,
+        linesAdded: 0,
+        linesRemoved: 0,
+        startTime: new Date().toISOString(),
+        lastUpdateTime: new Date().toISOString(),
+      });
+    }
 
-      // Clean up the test file manually
-      if (fs.existsSync(oldFilePath)) {
-        await fs.promises.unlink(oldFilePath);
-      }
+    expect((await manager.loadSessionCost(sessionId))?.totalCostUsd).toBe(0.3);
+    expect(fs.existsSync(path.join(paths.sessionsDir, `${sessionId}.json`))).toBe(false);
 
-      // Mark test as skipped but passing
-      expect(true).toBe(true);
-    }
+    await manager.removeSessionCost(sessionId);
+    expect(await manager.loadSessionCost(sessionId)).toBeNull();
   });
 
-  // Cleanup test files after tests
+  // Cleanup test sessions after tests
   afterAll(async () => {
     const manager = new StorageManager();
-    const paths = manager.getPaths();
 
-    // Clean up test session files
-    const testFiles = [
-      path.join(paths.sessionsDir, `${testSessionId}.json`),
-      path.join(paths.sessionsDir, `${parentSessionId}.json`),
-      path.join(paths.sessionsDir, 'session-1.json'),
-      path.join(paths.sessionsDir, 'session-2.json'),
-    ];
-
-    for (const file of testFiles) {
-      if (fs.existsSync(file)) {
-        await fs.promises.unlink(file);
-      }
+    for (const sessionId of [testSessionId, parentSessionId, 'session-1', 'session-2']) {
+      await manager.removeSessionCost(sessionId);
     }
   });
 });
@@ -0,0 +1,333 @@
+/**
+ * 守护进程单元测试 | Daemon unit tests
+ *
+ * 验证socket协议、客户端环境转发、配置指纹、生成器LRU、渲染超时和回退路径
+ * Verifies the socket protocol, client environment forwarding, config fingerprinting, generator LRU,
+ * render timeouts and the fallback path
+ */
+
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DaemonOptions } from '../../../src/cli/daemon.js';
+import { detectColorDepth } from '../../../src/terminal/detector.js';
+
+const generatorState = vi.hoisted(() => ({
+  created: 0,
+  generate: (_inputData: unknown): Promise<string> => Promise.resolve('ok'),
+}));
+
+vi.mock('../../../src/core/generator.js', () => ({
+  StatuslineGenerator: class {
+    constructor() {
+      generatorState.created++;
+    }
+
+    generate(inputData: unknown): Promise<string> {
+      return generatorState.generate(inputData);
+    }
+  },
+}));
+
+vi.mock('../../../src/cli/cli-config.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/cli/cli-config.js')>()),
+  resolveCliConfig: async () => ({ config: {}, configBaseDir: undefined }),
+}));
+
+const { renderViaDaemon, sendDaemonRequest, StatuslineDaemon } = await import(
+  '../../../src/cli/daemon.js'
+);
+
+/**
+ * 发送原始请求行 | Send a raw request line
+ */
+function sendRaw(socketPath: string, line: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+    const socket = net.createConnection(socketPath, () => socket.write(line));
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+    });
+    socket.on('end', () => resolve(buffer.trim()));
+    socket.on('error', reject);
+  });
+}
+
+function inputFor(sessionId: string) {
+  return { sessionId, transcriptPath: null, model: {}, workspace: {} } as never;
+}
+
+describe('Statusline Daemon', () => {
+  let tempDir: string;
+  let socketPath: string;
+  let daemon: InstanceType<typeof StatuslineDaemon> | null;
+  const originalHome = process.env.HOME;
+
+  beforeEach(() => {
+    // 配置文件需位于主目录内 | Config files must live under the home directory
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-daemon-'));
+    process.env.HOME = tempDir;
+    socketPath = path.join(tempDir, 'daemon.sock');
+    generatorState.created = 0;
+    generatorState.generate = () => Promise.resolve('ok');
+    daemon = null;
+  });
+
+  afterEach(async () => {
+    await daemon?.stop();
+    process.env.HOME = originalHome;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function startDaemon(options: DaemonOptions = {}) {
+    daemon = new StatuslineDaemon({ socketPath, ...options });
+    await daemon.start();
+    return daemon;
+  }
+
+  it('should answer ping and reject malformed requests', async () => {
+    await startDaemon();
+
+    const ping = await sendDaemonRequest({ type: 'ping' }, { socketPath });
+    expect(ping).toMatchObject({ ok: true, pid: process.pid, generators: 0 });
+
+    expect(JSON.parse(await sendRaw(socketPath, 'not json\n'))).toEqual({
+      ok: false,
+      error: 'Invalid JSON request',
+    });
+    expect(JSON.parse(await sendRaw(socketPath, '{"type":"nope"}\n'))).toEqual({
+      ok: false,
+      error: 'Unknown request type',
+    });
+    console.log('✓ Ping and malformed requests handled');
+  });
+
+  it('should render with the client cwd and full environment', async () => {
+    await startDaemon();
+    generatorState.generate = async () =>
+      `${process.cwd()}|${process.env.AWS_PROFILE}|${process.env.KITTY_WINDOW_ID}`;
+
+    const output = await sendDaemonRequest(
+      {
+        type: 'render',
+        inputData: inputFor('a'),
+        options: {},
+        cwd: tempDir,
+        env: { AWS_PROFILE: 'staging', KITTY_WINDOW_ID: '3' },
+      },
+      { socketPath }
+    );
+
+    expect(output).toEqual({
+      ok: true,
+      output: `${fs.realpathSync(tempDir)}|staging|3`,
+    });
+    // 渲染结束后恢复守护进程自身的环境 | The daemon's own environment is restored afterwards
+    expect(process.env.AWS_PROFILE).toBeUndefined();
+    expect(process.env.HOME).toBe(tempDir);
+    expect(process.cwd()).not.toBe(fs.realpathSync(tempDir));
+    console.log('✓ Client cwd and environment used for rendering');
+  });
+
+  it('should detect the color depth from the client terminal', async () => {
+    await startDaemon();
+    generatorState.generate = async () => {
+      const { depth, reason } = detectColorDepth(true);
+      return `${depth}|${reason}`;
+    };
+
+    const cases: Array<[Record<string, string>, string]> = [
+      [{ KITTY_WINDOW_ID: '1' }, 'truecolor|kitty (KITTY_WINDOW_ID=1)'],
+      [{ ALACRITTY_WINDOW_ID: '2' }, 'truecolor|Alacritty (ALACRITTY_WINDOW_ID=2)'],
+      [{ KONSOLE_VERSION: '230804' }, 'truecolor|Konsole (KONSOLE_VERSION=230804)'],
+      [{ VTE_VERSION: '7600' }, 'truecolor|VTE (VTE_VERSION=7600)'],
+      [{ TERM_PROGRAM: 'ghostty' }, 'truecolor|Ghostty (TERM_PROGRAM=ghostty)'],
+      [{ TERM_PROGRAM: 'WezTerm' }, 'truecolor|WezTerm (TERM_PROGRAM=WezTerm)'],
+      [{ TERM: 'xterm' }, '16|no 256-color or true color hint in TERM=xterm'],
+    ];
+
+    for (const [env, expected] of cases) {
+      const output = await sendDaemonRequest(
+        { type: 'render', inputData: inputFor('a'), options: {}, cwd: tempDir, env },
+        { socketPath }
+      );
+      expect(output).toEqual({ ok: true, output: expected });
+    }
+    console.log('✓ Color depth detected from the client terminal');
+  });
+
+  it('should reuse generators until the config fingerprint changes', async () => {
+    await startDaemon();
+    const configPath = path.join(tempDir, 'config.toml');
+    fs.writeFileSync(configPath, 'preset = "PMBT"\n');
+    const request = {
+      type: 'render' as const,
+      inputData: inputFor('a'),
+      options: { config: configPath },
+      cwd: tempDir,
+      env: { HOME: tempDir },
+    };
+
+    await sendDaemonRequest(request, { socketPath });
+    await sendDaemonRequest(request, { socketPath });
+    expect(generatorState.created).toBe(1);
+
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(configPath, later, later);
+    await sendDaemonRequest(request, { socketPath });
+    expect(generatorState.created).toBe(2);
+    console.log('✓ Generators rebuilt when the config changes');
+  });
+
+  it('should evict the least recently used generator', async () => {
+    await startDaemon({ maxGenerators: 2 });
+    const render = (session: string) =>
+      sendDaemonRequest(
+        { type: 'render', inputData: inputFor(session), options: {}, cwd: tempDir, env: {} },
+        { socketPath }
+      );
+
+    await render('a');
+    await render('b');
+    await render('a');
+    await render('c');
+    expect((await sendDaemonRequest({ type: 'ping' }, { socketPath }))?.generators).toBe(2);
+    expect(generatorState.created).toBe(3);
+
+    // b最久未使用已被淘汰，a仍在缓存中 | b was least recently used and evicted; a is still cached
+    await render('a');
+    expect(generatorState.created).toBe(3);
+    await render('b');
+    expect(generatorState.created).toBe(4);
+    console.log('✓ Least recently used generator evicted');
+  });
+
+  it('should fail a timed out render and hold later requests until it settles', async () => {
+    await startDaemon({ renderTimeout: 100 });
+    const seen: string[] = [];
+    let release: () => void = () => {};
+    generatorState.generate = async (inputData) => {
+      const { sessionId } = inputData as { sessionId: string };
+      if (sessionId === 'slow') {
+        await new Promise<void>((resolve) => {
+          release = resolve;
+        });
+      }
+      // 超时的渲染结束前仍看到自己客户端的cwd和环境 | A timed out render keeps seeing its own client's cwd and env
+      seen.push(`${sessionId}:${process.env.CLIENT}:${process.cwd()}`);
+      return sessionId;
+    };
+
+    const render = (session: string, cwd: string) =>
+      sendDaemonRequest(
+        {
+          type: 'render',
+          inputData: inputFor(session),
+          options: {},
+          cwd,
+          env: { CLIENT: session },
+        },
+        { socketPath }
+      );
+
+    const realTemp = fs.realpathSync(tempDir);
+    fs.mkdirSync(path.join(tempDir, 'fast'));
+    const slow = await render('slow', tempDir);
+    expect(slow?.ok).toBe(false);
+    expect(slow?.error).toContain('timed out');
+
+    const fast = render('fast', path.join(tempDir, 'fast'));
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(seen).toEqual([]);
+
+    release();
+    expect(await fast).toEqual({ ok: true, output: 'fast' });
+    expect(seen).toEqual([`slow:slow:${realTemp}`, `fast:fast:${path.join(realTemp, 'fast')}`]);
+    expect(process.env.CLIENT).toBeUndefined();
+    console.log('✓ Later requests held until the timed out render settled');
+  });
+
+  it('should stop when a timed out render never settles', async () => {
+    await startDaemon({ renderTimeout: 50, abandonTimeout: 150 });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const stopped = new Promise<void>((resolve) => daemon?.onStop(resolve));
+    generatorState.generate = () => new Promise(() => {});
+
+    // 保留测试进程自身的cwd和环境，挂起的渲染永远不会恢复它们
+    // Keep the test process's own cwd and env, since the hung render never restores them
+    const hung = await sendDaemonRequest(
+      {
+        type: 'render',
+        inputData: inputFor('hung'),
+        options: {},
+        cwd: process.cwd(),
+        env: { ...process.env } as Record<string, string>,
+      },
+      { socketPath }
+    );
+    expect(hung?.error).toContain('timed out');
+
+    await stopped;
+    expect(fs.existsSync(socketPath)).toBe(false);
+    daemon = null;
+    vi.restoreAllMocks();
+    console.log('✓ Daemon stopped after an abandoned render hung');
+  });
+
+  it('should rebuild generators when a plugin file changes', async () => {
+    await startDaemon();
+    const pluginDir = path.join(tempDir, '.claude', 'statusline-pro', 'plugins');
+    fs.mkdirSync(pluginDir, { recursive: true });
+    const pluginPath = path.join(pluginDir, 'hello.mjs');
+    fs.writeFileSync(pluginPath, 'export const value = 1;\n');
+    const render = () =>
+      sendDaemonRequest(
+        {
+          type: 'render',
+          inputData: inputFor('a'),
+          options: {},
+          cwd: tempDir,
+          env: { HOME: tempDir },
+        },
+        { socketPath }
+      );
+
+    await render();
+    await render();
+    expect(generatorState.created).toBe(1);
+
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(pluginPath, later, later);
+    await render();
+    expect(generatorState.created).toBe(2);
+    console.log('✓ Generators rebuilt when a plugin changes');
+  });
+
+  it('should fall back when the daemon is unavailable or fails', async () => {
+    expect(await renderViaDaemon(inputFor('a'), undefined, {}, socketPath)).toBeNull();
+
+    await startDaemon();
+    generatorState.generate = () => Promise.reject(new Error('boom'));
+    expect(await renderViaDaemon(inputFor('a'), undefined, {}, socketPath)).toBeNull();
+
+    generatorState.generate = () => Promise.resolve('rendered');
+    expect(await renderViaDaemon(inputFor('b'), undefined, {}, socketPath)).toBe('rendered');
+    console.log('✓ Fallback used when the daemon cannot render');
+  });
+
+  it('should stop on shutdown requests', async () => {
+    await startDaemon();
+    const stopped = new Promise<void>((resolve) => daemon?.onStop(resolve));
+
+    expect(await sendDaemonRequest({ type: 'shutdown' }, { socketPath })).toMatchObject({
+      ok: true,
+    });
+    await stopped;
+    expect(fs.existsSync(socketPath)).toBe(false);
+    daemon = null;
+    console.log('✓ Daemon stopped on shutdown');
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * 用量报表单元测试 | Usage report unit tests
+ *
+ * 验证--since解析、CSV转义以及官方成本按估算比例分摊
+ * Verifies --since parsing, CSV escaping and splitting official cost by estimated share
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { formatReport, parseSince, ReportOptionError } from '../../../src/cli/report.js';
+import type { StorageManager } from '../../../src/storage/manager.js';
+import { buildUsageReport, type UsageReport } from '../../../src/storage/report.js';
+import type { ProjectSessionCost } from '../../../src/storage/types.js';
+
+function assistantLine(id: string, model: string, timestamp: Date): string {
+  return `${JSON.stringify({
+    type: 'assistant',
+    sessionId: 's1',
+    timestamp: timestamp.toISOString(),
+    message: { id, model, usage: { input_tokens: 1_000_000, output_tokens: 0 } },
+  })}\n`;
+}
+
+function storedSession(overrides: Partial<ProjectSessionCost>): ProjectSessionCost {
+  return {
+    projectId: '-tmp-project',
+    sessionId: 's1',
+    projectPath: '/tmp/project',
+    totalCostUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    linesAdded: 0,
+    linesRemoved: 0,
+    startTime: new Date(2026, 5, 1).toISOString(),
+    lastUpdateTime: new Date(2026, 5, 1).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('Usage Report', () => {
+  describe('parseSince', () => {
+    const now = new Date(2026, 5, 15, 12, 0);
+
+    it('should parse relative durations', () => {
+      expect(parseSince('12h', now)).toEqual(new Date(2026, 5, 15, 0, 0));
+      expect(parseSince('7d', now)).toEqual(new Date(2026, 5, 8, 12, 0));
+      expect(parseSince(' 2W ', now)).toEqual(new Date(2026, 5, 1, 12, 0));
+      expect(parseSince('1mo', now)).toEqual(new Date(2026, 4, 15, 12, 0));
+      console.log('✓ Relative durations parsed');
+    });
+
+    it('should parse plain dates as local midnight', () => {
+      expect(parseSince('2026-01-31', now)).toEqual(new Date(2026, 0, 31));
+      expect(parseSince('2026-01-31T10:00:00Z', now)).toEqual(new Date('2026-01-31T10:00:00Z'));
+      console.log('✓ Absolute dates parsed');
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => parseSince('yesterday', now)).toThrow(ReportOptionError);
+      expect(() => parseSince('3y', now)).toThrow(/Invalid --since value "3y"/);
+      console.log('✓ Invalid --since rejected');
+    });
+  });
+
+  describe('formatReport', () => {
+    it('should escape CSV fields', () => {
+      const row = {
+        key: 'team "a", b',
+        costUsd: 1.5,
+        estimated: true,
+        inputTokens: 10,
+        outputTokens: 2,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        linesAdded: 3,
+        linesRemoved: 1,
+        sessions: 1,
+      };
+      const report: UsageReport = {
+        groupBy: 'project',
+        rows: [row],
+        totals: { ...row, key: 'total' },
+      };
+
+      const [header, line] = formatReport(report, 'csv').split('\n');
+      expect(header).toBe(
+        'Project,Cost (USD),Input,Output,Cache Write,Cache Read,Lines +,Lines -,Sessions,Estimated'
+      );
+      expect(line).toBe('"team ""a"", b",1.500000,10,2,0,0,3,1,1,true');
+      console.log('✓ CSV fields escaped');
+    });
+  });
+
+  describe('buildUsageReport', () => {
+    let storagePath: string;
+    let stored: ProjectSessionCost[];
+    const manager = {
+      getStoragePath: () => storagePath,
+      loadAllSessionCosts: async () => stored,
+    } as unknown as StorageManager;
+
+    beforeEach(() => {
+      storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-report-'));
+      const projectDir = path.join(storagePath, 'projects', '-tmp-project');
+      fs.mkdirSync(projectDir, { recursive: true });
+      // sonnet估算$3，opus估算$15 | Sonnet is estimated at $3 and opus at $15
+      fs.writeFileSync(
+        path.join(projectDir, 's1.jsonl'),
+        assistantLine('m1', 'claude-sonnet-4', new Date(2026, 5, 1, 10)) +
+          assistantLine('m2', 'claude-opus-4', new Date(2026, 5, 2, 10))
+      );
+      stored = [storedSession({ totalCostUsd: 9, linesAdded: 5 })];
+    });
+
+    afterEach(() => {
+      fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should split official cost in proportion to estimated cost', async () => {
+      const report = await buildUsageReport(manager, { by: 'model' });
+
+      expect(report.rows.map((row) => [row.key, row.costUsd])).toEqual([
+        ['claude-opus-4', 7.5],
+        ['claude-sonnet-4', 1.5],
+      ]);
+      expect(report.totals).toMatchObject({ costUsd: 9, estimated: false, sessions: 1 });
+      // 代码行数记在最后一个桶 | Lines go to the latest bucket
+      expect(report.rows[0]?.linesAdded).toBe(5);
+      console.log('✓ Official cost split proportionally');
+    });
+
+    it('should only count the share inside the --since range', async () => {
+      const report = await buildUsageReport(manager, {
+        by: 'day',
+        since: new Date(2026, 5, 2),
+      });
+
+      expect(report.rows.map((row) => [row.key, row.costUsd])).toEqual([['2026-06-02', 7.5]]);
+      console.log('✓ Share before --since excluded');
+    });
+
+    it('should estimate sessions without stored cost', async () => {
+      stored = [];
+      const report = await buildUsageReport(manager, { by: 'project' });
+
+      expect(report.rows).toHaveLength(1);
+      expect(report.rows[0]).toMatchObject({ key: '-tmp-project', estimated: true });
+      expect(report.rows[0]?.costUsd).toBeCloseTo(18);
+      console.log('✓ Transcript-only sessions estimated');
+    });
+  });
+});
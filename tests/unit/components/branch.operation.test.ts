@@ -0,0 +1,187 @@
+/**
+ * 分支组件Git操作状态测试 | Branch component Git operation status tests
+ *
+ * 基于Git场景夹具在临时.git目录中复现merge/rebase等操作
+ * Reproduces merge/rebase etc. in a temporary .git directory based on Git scenario fixtures
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BranchComponent } from '../../../src/components/branch.js';
+import type { BranchComponentConfig, RenderContext } from '../../../src/config/schema.js';
+import type { MockRepoState } from '../../utils/git-mocks.js';
+import { GitScenarioTester } from '../../utils/git-scenarios.js';
+import { repoFixtures } from '../../utils/repo-fixtures.js';
+
+/**
+ * 将夹具的操作状态写入.git目录 | Materialize fixture operation state into a .git directory
+ */
+function materializeRepo(repoDir: string, state: MockRepoState): void {
+  const gitDir = path.join(repoDir, '.git');
+  fs.mkdirSync(gitDir, { recursive: true });
+  fs.writeFileSync(path.join(gitDir, 'HEAD'), `ref: refs/heads/${state.currentBranch}\n`);
+
+  switch (state.operation.type) {
+    case 'merge':
+      fs.writeFileSync(path.join(gitDir, 'MERGE_HEAD'), `${state.version.sha}\n`);
+      fs.writeFileSync(path.join(gitDir, 'MERGE_MSG'), "Merge branch 'feature/x' into main\n");
+      break;
+    case 'rebase': {
+      const rebaseDir = path.join(gitDir, 'rebase-merge');
+      fs.mkdirSync(rebaseDir);
+      fs.writeFileSync(path.join(rebaseDir, 'head-name'), `refs/heads/${state.currentBranch}\n`);
+      fs.writeFileSync(path.join(rebaseDir, 'msgnum'), '3\n');
+      fs.writeFileSync(path.join(rebaseDir, 'end'), '7\n');
+      break;
+    }
+    case 'cherry-pick':
+      fs.writeFileSync(path.join(gitDir, 'CHERRY_PICK_HEAD'), `${state.version.sha}\n`);
+      break;
+    case 'bisect':
+      fs.writeFileSync(path.join(gitDir, 'BISECT_LOG'), 'git bisect start\n');
+      break;
+    default:
+      break;
+  }
+}
+
+describe('Branch Component Operation Status', () => {
+  const tester = new GitScenarioTester();
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-branch-op-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  /**
+   * 基于git-merging场景渲染分支组件 | Render branch component based on the git-merging scenario
+   */
+  async function renderBranch(
+    state: MockRepoState,
+    statusOverrides: Partial<NonNullable<BranchComponentConfig['status']>> = {}
+  ): Promise<string | null> {
+    const scenario = tester.getScenario('git-merging')!;
+    const baseConfig = (scenario.configOverrides?.components as Record<string, unknown>)
+      .branch as BranchComponentConfig;
+    const config: BranchComponentConfig = {
+      ...baseConfig,
+      max_length: 40,
+      status: {
+        show_dirty: false,
+        show_ahead_behind: false,
+        show_stash_count: false,
+        show_operation: true,
+        ...statusOverrides,
+      },
+    };
+
+    materializeRepo(repoDir, state);
+
+    const context = {
+      inputData: {
+        ...scenario.inputData,
+        workspace: { current_dir: repoDir, project_dir: repoDir },
+      },
+      capabilities: { colors: false, emoji: false, nerdFont: false },
+      colors: {},
+      icons: {},
+    } as unknown as RenderContext;
+
+    const result = await new BranchComponent('branch', config).render(context);
+    return result.content;
+  }
+
+  it('should render merge state with source branch', async () => {
+    const content = await renderBranch(repoFixtures.operations.merging());
+
+    expect(content).toContain('main');
+    expect(content).toContain('MERGING feature/x');
+    console.log('✓ Merge state rendered');
+  });
+
+  it('should render rebase progress', async () => {
+    const state = repoFixtures.operations.rebasing();
+    const content = await renderBranch(state);
+
+    expect(content).toContain(state.currentBranch);
+    expect(content).toContain('REBASE 3/7');
+    console.log('✓ Rebase progress rendered');
+  });
+
+  it('should render cherry-pick and bisect states', async () => {
+    expect(await renderBranch(repoFixtures.operations.cherryPicking())).toContain('CHERRY-PICKING');
+    fs.rmSync(path.join(repoDir, '.git'), { recursive: true, force: true });
+    expect(await renderBranch(repoFixtures.operations.bisecting())).toContain('BISECTING');
+    console.log('✓ Cherry-pick and bisect states rendered');
+  });
+
+  it('should hide details when show_operation_detail is false', async () => {
+    const content = await renderBranch(repoFixtures.operations.rebasing(), {
+      show_operation_detail: false,
+    });
+
+    expect(content).toContain('REBASING');
+    expect(content).not.toContain('3/7');
+    console.log('✓ Operation detail toggle respected');
+  });
+
+  it('should render nothing extra without operation or when disabled', async () => {
+    const clean = await renderBranch(repoFixtures.basic.clean());
+    expect(clean).not.toMatch(/MERGING|REBAS|PICKING|BISECTING/);
+
+    fs.rmSync(path.join(repoDir, '.git'), { recursive: true, force: true });
+    const disabled = await renderBranch(repoFixtures.operations.merging(), {
+      show_operation: false,
+    });
+    expect(disabled).not.toContain('MERGING');
+    console.log('✓ No operation output when idle or disabled');
+  });
+
+  it('should use configured operation icons and color', async () => {
+    const scenario = tester.getScenario('git-merging')!;
+    const baseConfig = (scenario.configOverrides?.components as Record<string, unknown>)
+      .branch as BranchComponentConfig;
+    materializeRepo(repoDir, repoFixtures.operations.rebasing());
+
+    const component = new BranchComponent('branch', {
+      ...baseConfig,
+      status: {
+        show_dirty: false,
+        show_ahead_behind: false,
+        show_stash_count: false,
+        show_operation: true,
+      },
+      status_icons: {
+        dirty_emoji: '⚡',
+        ahead_emoji: '🔼',
+        behind_emoji: '🔽',
+        stash_emoji: '📦',
+        dirty_nerd: '',
+        ahead_nerd: '',
+        behind_nerd: '',
+        stash_nerd: '',
+        dirty_text: '[*]',
+        ahead_text: '[↑]',
+        behind_text: '[↓]',
+        stash_text: '[S]',
+        operation_emoji: '🚧',
+      },
+    });
+
+    const result = await component.render({
+      inputData: { ...scenario.inputData, workspace: { current_dir: repoDir } },
+      capabilities: { colors: true, emoji: true, nerdFont: false },
+      colors: { red: '<red>', white: '', reset: '</>' },
+      icons: {},
+    } as unknown as RenderContext);
+
+    expect(result.content).toContain('<red>🚧 REBASE 3/7</>');
+    console.log('✓ Configured operation icon and color applied');
+  });
+});
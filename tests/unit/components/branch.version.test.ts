@@ -0,0 +1,138 @@
+/**
+ * 分支组件版本信息测试 | Branch component version info tests
+ *
+ * 基于版本夹具在临时仓库中提交并打标签，验证短SHA、标签、+N和提交时间的渲染与开关
+ * Commits and tags a temporary repository from the version fixtures and verifies rendering and
+ * toggles of the short SHA, tag, +N and commit age
+ */
+
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BranchComponent } from '../../../src/components/branch.js';
+import type { BranchComponentConfig, RenderContext } from '../../../src/config/schema.js';
+import type { MockRepoState } from '../../utils/git-mocks.js';
+import { repoFixtures } from '../../utils/repo-fixtures.js';
+
+/**
+ * 按夹具的版本信息创建真实仓库 | Create a real repository from the fixture version info
+ * 标签之后再提交commitsSinceTag次，最后一次提交使用夹具的信息、作者和时间
+ * commitsSinceTag commits follow the tag; the last one uses the fixture message, author and time
+ */
+function materializeRepo(repoDir: string, state: MockRepoState): void {
+  const timestamp = Number(state.version.timestamp);
+  const git = (args: string[], author = 'Fixture Author', time = timestamp - 3600) =>
+    execFileSync('git', args, {
+      cwd: repoDir,
+      stdio: 'pipe',
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: author,
+        GIT_AUTHOR_EMAIL: 'fixture@example.com',
+        GIT_COMMITTER_NAME: author,
+        GIT_COMMITTER_EMAIL: 'fixture@example.com',
+        GIT_AUTHOR_DATE: `@${time} +0000`,
+        GIT_COMMITTER_DATE: `@${time} +0000`,
+      },
+    });
+
+  git(['init', '-q', '-b', state.currentBranch]);
+  git(['commit', '-q', '--allow-empty', '-m', 'chore: initial']);
+  if (state.tags.latest) {
+    git(['tag', state.tags.latest]);
+    for (let index = 1; index < (state.tags.commitsSinceTag ?? 0); index++) {
+      git(['commit', '-q', '--allow-empty', '-m', `chore: step ${index}`]);
+    }
+  }
+  git(
+    ['commit', '-q', '--allow-empty', '-m', state.version.message],
+    state.version.author,
+    timestamp
+  );
+}
+
+describe('Branch Component Version Info', () => {
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-branch-version-')));
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  const shortSha = () =>
+    execFileSync('git', ['rev-parse', '--short', 'HEAD'], { cwd: repoDir }).toString().trim();
+
+  /**
+   * 以纯文本图标渲染分支组件 | Render the branch component with text icons
+   */
+  async function renderBranch(
+    status: Partial<NonNullable<BranchComponentConfig['status']>>
+  ): Promise<string | null> {
+    const config: BranchComponentConfig = {
+      enabled: true,
+      nerd_icon: '',
+      emoji_icon: '',
+      text_icon: '',
+      icon_color: 'white',
+      text_color: 'white',
+      show_when_no_git: false,
+      max_length: 40,
+      status: {
+        show_dirty: false,
+        show_ahead_behind: false,
+        show_stash_count: false,
+        ...status,
+      },
+    };
+
+    const context = {
+      inputData: { workspace: { current_dir: repoDir, project_dir: repoDir } },
+      capabilities: { colors: false, emoji: false, nerdFont: false },
+      colors: {},
+      icons: {},
+    } as unknown as RenderContext;
+
+    return (await new BranchComponent('branch', config).render(context)).content;
+  }
+
+  it('should render the short SHA, tag distance and commit age', async () => {
+    const state = repoFixtures.version.tagged();
+    materializeRepo(repoDir, state);
+    vi.setSystemTime((Number(state.version.timestamp) + 2 * 3600) * 1000);
+
+    const content = await renderBranch({ show_sha: true, show_tag: true, show_commit_age: true });
+    expect(content).toBe(`main @${shortSha()} #v2.1.0+5 2h ago`);
+    console.log('✓ Version info rendered');
+  });
+
+  it('should respect the show_sha, show_tag and show_commit_age toggles', async () => {
+    const state = repoFixtures.version.tagged();
+    materializeRepo(repoDir, state);
+    vi.setSystemTime((Number(state.version.timestamp) + 3 * 86400) * 1000);
+
+    expect(await renderBranch({ show_sha: true })).toBe(`main @${shortSha()}`);
+    expect(await renderBranch({ show_tag: true })).toBe('main #v2.1.0+5');
+    expect(await renderBranch({ show_commit_age: true })).toBe('main 3d ago');
+    expect(await renderBranch({})).toBe('main');
+    console.log('✓ Version toggles respected');
+  });
+
+  it('should omit the tag without tags and the distance on the tagged commit', async () => {
+    const state = repoFixtures.version.initial();
+    materializeRepo(repoDir, state);
+    vi.setSystemTime((Number(state.version.timestamp) + 30) * 1000);
+
+    expect(await renderBranch({ show_tag: true, show_commit_age: true })).toBe('main 30s ago');
+
+    execFileSync('git', ['tag', 'v0.1.0'], { cwd: repoDir });
+    expect(await renderBranch({ show_tag: true })).toBe('main #v0.1.0');
+    console.log('✓ Missing tag and zero distance handled');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * CI状态小组件单元测试 | CI status widget unit tests
+ *
+ * 验证状态名归一化、状态条目解析、由检查项推导状态、max_age过期以及分离HEAD
+ * Verifies state normalization, status entry parsing, deriving the state from checks, max_age staleness
+ * and detached HEAD
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CiWidget,
+  normalizeCiState,
+  parseCiStatus,
+} from '../../../src/components/widgets/ci-widget.js';
+import type { WidgetConfig } from '../../../src/config/schema.js';
+
+const SHA = 'abc123def456789012345678901234567890abcd';
+
+describe('CI Widget', () => {
+  describe('normalizeCiState', () => {
+    it('should map provider state names case-insensitively', () => {
+      const cases: Array<[unknown, ReturnType<typeof normalizeCiState>]> = [
+        ['SUCCESS', 'pass'],
+        ['passed', 'pass'],
+        [' in_progress ', 'pending'],
+        ['queued', 'pending'],
+        ['canceled', 'fail'],
+        ['timed_out', 'fail'],
+        ['skipped', null],
+        ['', null],
+        [1, null],
+        [undefined, null],
+      ];
+
+      for (const [value, expected] of cases) {
+        expect(normalizeCiState(value)).toBe(expected);
+      }
+      console.log('✓ State names normalized');
+    });
+  });
+
+  describe('parseCiStatus', () => {
+    it('should accept a plain state string as a single check', () => {
+      expect(parseCiStatus('failed')).toEqual({
+        state: 'fail',
+        passed: 0,
+        failed: 1,
+        pending: 0,
+        total: 1,
+        failing: [],
+      });
+      expect(parseCiStatus('Running')).toMatchObject({ state: 'pending', pending: 1, total: 1 });
+      expect(parseCiStatus('unknown')).toBeNull();
+      expect(parseCiStatus(null)).toBeNull();
+      console.log('✓ String entries parsed');
+    });
+
+    it('should derive the state from the checks', () => {
+      const failing = parseCiStatus({
+        checks: [
+          { name: 'build', state: 'success' },
+          { name: 'lint', status: 'failure' },
+          'queued',
+          { name: 'docs', state: 'skipped' },
+        ],
+        url: 'https://ci.example.com/run/1',
+        updated_at: '2026-01-01T11:58:00Z',
+      });
+      expect(failing).toEqual({
+        state: 'fail',
+        passed: 1,
+        failed: 1,
+        pending: 1,
+        total: 3,
+        failing: ['lint'],
+        url: 'https://ci.example.com/run/1',
+        updated_at: '2026-01-01T11:58:00Z',
+      });
+
+      expect(parseCiStatus({ checks: ['success', 'running'] })?.state).toBe('pending');
+      expect(parseCiStatus({ checks: ['success', 'ok'] })?.state).toBe('pass');
+      // 显式state优先于检查项 | An explicit state wins over the checks
+      expect(parseCiStatus({ state: 'pending', checks: ['failure'] })?.state).toBe('pending');
+      expect(parseCiStatus({ checks: ['skipped'] })).toBeNull();
+      expect(parseCiStatus({})).toBeNull();
+      console.log('✓ State derived from checks');
+    });
+  });
+
+  describe('render', () => {
+    let repoDir: string;
+    let gitDir: string;
+
+    const createWidget = (ci: Partial<NonNullable<WidgetConfig['ci']>> = {}) =>
+      new CiWidget(
+        {
+          enabled: true,
+          type: 'ci',
+          row: 1,
+          col: 0,
+          nerd_icon: '',
+          emoji_icon: '',
+          text_icon: '',
+          template: '{state} {passed}/{total} {failing}',
+          ci: { status_file: 'statusline-ci.json', ...ci },
+        },
+        { colors: false, emoji: false, nerdFont: false }
+      );
+
+    const render = async (widget: CiWidget, cwd = repoDir) =>
+      (await widget.render({ inputData: { workspace: { current_dir: cwd } } })).content;
+
+    const writeStatus = (data: unknown) =>
+      fs.writeFileSync(path.join(gitDir, 'statusline-ci.json'), JSON.stringify(data));
+
+    beforeEach(() => {
+      repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-ci-')));
+      gitDir = path.join(repoDir, '.git');
+      fs.mkdirSync(gitDir);
+      fs.writeFileSync(path.join(gitDir, 'HEAD'), 'ref: refs/heads/main\n');
+      CiWidget.clearCache();
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      fs.rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    it('should render the current branch status from the common dir', async () => {
+      writeStatus({
+        main: {
+          checks: [
+            { name: 'build', state: 'success' },
+            { name: 'e2e', state: 'failed' },
+          ],
+        },
+        feat: 'pending',
+      });
+
+      expect(await render(createWidget())).toBe('fail 1/2 e2e');
+      fs.mkdirSync(path.join(repoDir, 'src'));
+      expect(await render(createWidget(), path.join(repoDir, 'src'))).toBe('fail 1/2 e2e');
+
+      fs.writeFileSync(path.join(gitDir, 'HEAD'), 'ref: refs/heads/other\n');
+      expect(await render(createWidget())).toBeNull();
+      console.log('✓ Branch status rendered');
+    });
+
+    it('should hide statuses older than max_age', async () => {
+      writeStatus({ main: { state: 'success', updated_at: '2026-01-01T11:58:00Z' } });
+
+      expect(await render(createWidget({ max_age: 300 }))).toBe('pass 0/0 ');
+      expect(await render(createWidget({ max_age: 60 }))).toBeNull();
+      // 没有max_age或updated_at时不过期 | Without max_age or updated_at nothing is stale
+      expect(await render(createWidget())).toBe('pass 0/0 ');
+      console.log('✓ Stale statuses hidden');
+    });
+
+    it('should render nothing on a detached HEAD', async () => {
+      writeStatus({ main: 'success', HEAD: 'success' });
+      fs.writeFileSync(path.join(gitDir, 'HEAD'), `${SHA}\n`);
+
+      expect(await render(createWidget())).toBeNull();
+      console.log('✓ Detached HEAD skipped');
+    });
+  });
+});
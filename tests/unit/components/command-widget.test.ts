@@ -0,0 +1,202 @@
+/**
+ * 命令小组件单元测试 | Command widget unit tests
+ *
+ * 验证输出解析器、异步执行(不阻塞事件循环、超时、无输入)、工作目录解析，以及按cache_ttl缓存的命令结果
+ * Verifies the output parsers, asynchronous execution (non-blocking, timeout, no input), working
+ * directory resolution and the cache_ttl result cache (including data_path and parse failures)
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CommandWidget } from '../../../src/components/widgets/command-widget.js';
+import type { WidgetCommandConfig } from '../../../src/config/schema.js';
+
+describe('Command Widget', () => {
+  const originalHome = process.env.HOME;
+  let tempDir: string;
+
+  /**
+   * 用node执行脚本，每次运行在工作目录的runs文件追加一行
+   * Runs a node script that appends a line to the runs file in its working directory
+   */
+  const script = (body: string) => [
+    process.execPath,
+    '-e',
+    `require('fs').appendFileSync('runs', 'x\\n'); ${body}`,
+  ];
+
+  const createWidget = (
+    command: Partial<WidgetCommandConfig> & { argv: string[] },
+    template?: string
+  ) =>
+    new CommandWidget(
+      {
+        enabled: true,
+        type: 'command',
+        row: 1,
+        col: 0,
+        nerd_icon: '',
+        emoji_icon: '',
+        text_icon: '',
+        ...(template && { template }),
+        command: { timeout: 5000, cache_ttl: 5000, parser: 'first_line', ...command },
+      },
+      { colors: false, emoji: false, nerdFont: false }
+    );
+
+  const render = async (widget: CommandWidget, cwd = tempDir) =>
+    (await widget.render({ inputData: { workspace: { current_dir: cwd } } })).content;
+
+  const runs = () => {
+    const file = path.join(tempDir, 'runs');
+    return fs.existsSync(file)
+      ? fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean).length
+      : 0;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-command-')));
+    process.env.HOME = tempDir;
+    CommandWidget.clearCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    process.env.HOME = originalHome;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parsers', () => {
+    it('should parse the first line, raw output and JSON', async () => {
+      const lines = script("process.stdout.write('  first  \\nsecond\\n')");
+      expect(await render(createWidget({ argv: lines }))).toBe('first');
+      expect(await render(createWidget({ argv: lines, parser: 'raw' }, '[{output}]'))).toBe(
+        '[  first  \nsecond]'
+      );
+
+      const json = script(
+        'process.stdout.write(JSON.stringify({ build: { name: "ci", passed: 3 }, total: 4 }))'
+      );
+      expect(await render(createWidget({ argv: json, parser: 'json' }, '{total}'))).toBe('4');
+      expect(
+        await render(
+          createWidget({ argv: json, parser: 'json', data_path: 'build' }, '{name} {passed}')
+        )
+      ).toBe('ci 3');
+      expect(
+        await render(createWidget({ argv: json, parser: 'json', data_path: 'build.passed' }))
+      ).toBe('3');
+      console.log('✓ Output parsed');
+    });
+
+    it('should render nothing for empty output, failures and missing data', async () => {
+      const json = script('process.stdout.write(JSON.stringify({ total: 4 }))');
+
+      expect(
+        await render(createWidget({ argv: script("process.stdout.write('  \\n')") }))
+      ).toBeNull();
+      expect(await render(createWidget({ argv: script('process.exit(2)') }))).toBeNull();
+      expect(await render(createWidget({ argv: ['statusline-missing-command'] }))).toBeNull();
+      expect(
+        await render(createWidget({ argv: json, parser: 'json', data_path: 'missing' }))
+      ).toBeNull();
+      console.log('✓ Empty and failed output skipped');
+    });
+  });
+
+  describe('execution', () => {
+    it('should keep the event loop running while the command runs', async () => {
+      let ticks = 0;
+      const timer = setInterval(() => ticks++, 20);
+      const argv = script("setTimeout(() => process.stdout.write('late'), 400)");
+
+      try {
+        expect(await render(createWidget({ argv }))).toBe('late');
+      } finally {
+        clearInterval(timer);
+      }
+      expect(ticks).toBeGreaterThan(5);
+      console.log('✓ Event loop not blocked');
+    });
+
+    it('should stop commands that exceed the timeout', async () => {
+      const started = Date.now();
+      const argv = script("setTimeout(() => process.stdout.write('late'), 10000)");
+
+      expect(await render(createWidget({ argv, timeout: 1000 }))).toBeNull();
+      expect(Date.now() - started).toBeLessThan(5000);
+      console.log('✓ Slow command timed out');
+    });
+
+    it('should give the command no input', async () => {
+      const argv = script(
+        "process.stdin.resume(); process.stdin.on('end', () => process.stdout.write('eof'))"
+      );
+
+      expect(await render(createWidget({ argv }))).toBe('eof');
+      console.log('✓ Stdin closed');
+    });
+  });
+
+  describe('cwd', () => {
+    it('should resolve the working directory against the project and home directories', async () => {
+      const argv = script('process.stdout.write(process.cwd())');
+      fs.mkdirSync(path.join(tempDir, 'project', 'sub'), { recursive: true });
+      fs.mkdirSync(path.join(tempDir, 'tools'));
+      const project = path.join(tempDir, 'project');
+
+      expect(await render(createWidget({ argv }), project)).toBe(project);
+      expect(await render(createWidget({ argv, cwd: 'sub' }), project)).toBe(
+        path.join(project, 'sub')
+      );
+      expect(await render(createWidget({ argv, cwd: '~/tools' }), project)).toBe(
+        path.join(tempDir, 'tools')
+      );
+      expect(await render(createWidget({ argv, cwd: tempDir }), project)).toBe(tempDir);
+      console.log('✓ Working directory resolved');
+    });
+  });
+
+  describe('cache', () => {
+    it('should reuse the output until cache_ttl expires', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-01-01T12:00:00Z'));
+      const argv = script("process.stdout.write('ok')");
+
+      await render(createWidget({ argv }));
+      await render(createWidget({ argv }));
+      expect(runs()).toBe(1);
+
+      vi.setSystemTime(new Date('2026-01-01T12:00:06Z'));
+      await render(createWidget({ argv }));
+      expect(runs()).toBe(2);
+
+      // cache_ttl为0时每次都执行 | cache_ttl = 0 runs every time
+      await render(createWidget({ argv, cache_ttl: 0 }));
+      await render(createWidget({ argv, cache_ttl: 0 }));
+      expect(runs()).toBe(4);
+      console.log('✓ Output cached for cache_ttl');
+    });
+
+    it('should key the cache by data_path', async () => {
+      const argv = script('process.stdout.write(JSON.stringify({ a: 1, b: 2 }))');
+
+      expect(await render(createWidget({ argv, parser: 'json', data_path: 'a' }))).toBe('1');
+      expect(await render(createWidget({ argv, parser: 'json', data_path: 'b' }))).toBe('2');
+      expect(await render(createWidget({ argv, parser: 'json', data_path: 'a' }))).toBe('1');
+      expect(runs()).toBe(2);
+      console.log('✓ Cache keyed by data_path');
+    });
+
+    it('should cache JSON parse failures', async () => {
+      const argv = script("process.stdout.write('not json')");
+
+      expect(await render(createWidget({ argv, parser: 'json' }))).toBeNull();
+      expect(await render(createWidget({ argv, parser: 'json' }))).toBeNull();
+      expect(runs()).toBe(1);
+      console.log('✓ Parse failures cached');
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * 文件小组件单元测试 | File widget unit tests
+ *
+ * 验证dotenv解析(引号、export、行内注释)、按文件名判断格式、各格式的内容解析以及渲染
+ * Verifies dotenv parsing (quotes, export, inline comments), format detection by file name, content
+ * parsing per format and rendering
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  detectFileFormat,
+  FileWidget,
+  parseDotenv,
+  parseFileContent,
+} from '../../../src/components/widgets/file-widget.js';
+import type { WidgetFileConfig } from '../../../src/config/schema.js';
+
+describe('File Widget', () => {
+  describe('parseDotenv', () => {
+    it('should read plain, exported and quoted values', () => {
+      const content = [
+        '# deployment settings',
+        '',
+        'PLAIN=value',
+        'export REGION=eu-west-1',
+        '  export   SPACED = padded  ',
+        'DOUBLE="two words"',
+        "SINGLE='single quoted'",
+        'EMPTY=',
+        'app.name-v2=dotted',
+        'not a variable',
+      ].join('\n');
+
+      expect(parseDotenv(content)).toEqual({
+        PLAIN: 'value',
+        REGION: 'eu-west-1',
+        SPACED: 'padded',
+        DOUBLE: 'two words',
+        SINGLE: 'single quoted',
+        EMPTY: '',
+        'app.name-v2': 'dotted',
+      });
+      console.log('✓ Plain, exported and quoted values read');
+    });
+
+    it('should strip inline comments outside quotes only', () => {
+      const content = [
+        'UNQUOTED=value # trailing comment',
+        'HASH=va#lue',
+        'DOUBLE="keep # this" # but not this',
+        "SINGLE='keep # this'",
+        'NESTED="a" # say "hi"',
+      ].join('\r\n');
+
+      expect(parseDotenv(content)).toEqual({
+        UNQUOTED: 'value',
+        HASH: 'va#lue',
+        DOUBLE: 'keep # this',
+        SINGLE: 'keep # this',
+        NESTED: 'a',
+      });
+      console.log('✓ Inline comments stripped');
+    });
+
+    it('should expand \\n only inside double quotes', () => {
+      expect(parseDotenv('DOUBLE="line\\nnext"\nSINGLE=\'line\\nnext\'\nRAW=line\\nnext')).toEqual({
+        DOUBLE: 'line\nnext',
+        SINGLE: 'line\\nnext',
+        RAW: 'line\\nnext',
+      });
+      // 不成对的引号保持原样 | Unbalanced quotes are kept as-is
+      expect(parseDotenv('OPEN="unterminated')).toEqual({ OPEN: '"unterminated' });
+      console.log('✓ Escapes expanded in double quotes');
+    });
+  });
+
+  describe('detectFileFormat', () => {
+    it('should pick the format from the file name', () => {
+      const cases: Array<[string, ReturnType<typeof detectFileFormat>]> = [
+        ['.env', 'dotenv'],
+        ['/app/.env.local', 'dotenv'],
+        ['.env.production', 'dotenv'],
+        ['config/staging.env', 'dotenv'],
+        ['.envrc', 'raw'],
+        ['package.json', 'json'],
+        ['Settings.JSON', 'json'],
+        ['pyproject.toml', 'toml'],
+        ['VERSION', 'raw'],
+        ['notes.txt', 'raw'],
+      ];
+
+      for (const [file, format] of cases) {
+        expect(detectFileFormat(file)).toBe(format);
+      }
+      console.log('✓ File formats detected');
+    });
+  });
+
+  describe('parseFileContent', () => {
+    it('should parse each format', () => {
+      expect(parseFileContent('{"quota":{"left":3}}', 'json')).toEqual({ quota: { left: 3 } });
+
+      const toml = parseFileContent('[quota]\nleft = 3\ntags = ["a"]', 'toml');
+      expect(toml).toEqual({ quota: { left: 3, tags: ['a'] } });
+      expect(Object.getOwnPropertySymbols((toml as { quota: object }).quota)).toEqual([]);
+
+      expect(parseFileContent('export TOKEN="x" # secret', 'dotenv')).toEqual({ TOKEN: 'x' });
+      expect(parseFileContent('  1.4.2\n\n', 'raw')).toBe('1.4.2');
+      expect(() => parseFileContent('{broken', 'json')).toThrow();
+      console.log('✓ File content parsed');
+    });
+  });
+
+  describe('render', () => {
+    let tempDir: string;
+
+    const createWidget = (file: Partial<WidgetFileConfig> & { path: string }, template?: string) =>
+      new FileWidget(
+        {
+          enabled: true,
+          type: 'file',
+          row: 1,
+          col: 0,
+          nerd_icon: '',
+          emoji_icon: '',
+          text_icon: '',
+          ...(template && { template }),
+          file: { format: 'auto', ...file },
+        },
+        { colors: false, emoji: false, nerdFont: false }
+      );
+
+    const render = async (widget: FileWidget) =>
+      (await widget.render({ inputData: { workspace: { current_dir: tempDir } } })).content;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-file-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should render values from .env.local and JSON files', async () => {
+      fs.writeFileSync(path.join(tempDir, '.env.local'), 'export STAGE="canary" # current\n');
+      fs.writeFileSync(path.join(tempDir, 'quota.json'), '{"quota":{"left":3,"total":10}}');
+
+      expect(await render(createWidget({ path: '.env.local', data_path: 'STAGE' }))).toBe('canary');
+      expect(
+        await render(createWidget({ path: 'quota.json', data_path: 'quota' }, '{left}/{total}'))
+      ).toBe('3/10');
+      expect(await render(createWidget({ path: 'missing.json' }))).toBeNull();
+      console.log('✓ File values rendered');
+    });
+
+    it('should render digit-leading and literal keys', async () => {
+      fs.writeFileSync(
+        path.join(tempDir, 'usage.json'),
+        '{"usage":{"7d":"seven","5h_cost":1.5,"a@b":"at"}}'
+      );
+
+      expect(
+        await render(createWidget({ path: 'usage.json' }, '{usage.7d} {usage.5h_cost} {usage.a@b}'))
+      ).toBe('seven 1.5 at');
+      expect(
+        await render(createWidget({ path: 'usage.json', data_path: 'usage' }, '{7d}|{missing@x}'))
+      ).toBe('seven|');
+      console.log('✓ Digit-leading and literal keys rendered');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * 组件插件加载器单元测试 | Component plugin loader unit tests
+ *
+ * 验证插件发现、注册以及失败隔离 | Verifies plugin discovery, registration and failure isolation
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ComponentRegistry } from '../../../src/components/base.js';
+import { PluginLoader } from '../../../src/components/plugin-loader.js';
+
+const GOOD_PLUGIN = `
+export class HelloFactory {
+  createComponent(name, config) {
+    return { name, enabled: config.enabled ?? true, render: () => ({ content: 'hello', success: true }) };
+  }
+  getSupportedTypes() {
+    return ['hello'];
+  }
+}
+export default HelloFactory;
+`;
+
+const INSTANCE_PLUGIN = `
+export const worldFactory = {
+  createComponent: (name) => ({ name, enabled: true, render: () => ({ content: 'world', success: true }) }),
+  getSupportedTypes: () => ['world'],
+};
+`;
+
+describe('Component Plugin Loader', () => {
+  let pluginDir: string;
+  let registry: ComponentRegistry;
+
+  beforeEach(() => {
+    pluginDir = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-plugins-'));
+    registry = new ComponentRegistry();
+    registry.register('project', {
+      createComponent: () => {
+        throw new Error('not used');
+      },
+      getSupportedTypes: () => ['project'],
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(pluginDir, { recursive: true, force: true });
+  });
+
+  it('should register factory classes and instances from a plugin directory', async () => {
+    fs.writeFileSync(path.join(pluginDir, 'hello.mjs'), GOOD_PLUGIN);
+    fs.mkdirSync(path.join(pluginDir, 'world'));
+    fs.writeFileSync(path.join(pluginDir, 'world', 'index.mjs'), INSTANCE_PLUGIN);
+
+    const loader = new PluginLoader({ enabled: true, paths: [pluginDir], timeout: 2000 });
+    const result = await loader.loadInto(registry);
+
+    expect(result.errors).toEqual([]);
+    expect(result.registeredTypes.sort()).toEqual(['hello', 'world']);
+    expect(registry.getRegisteredTypes()).toContain('hello');
+
+    const component = registry.create('hello', 'hello', {
+      enabled: true,
+      icon_color: 'white',
+      text_color: 'white',
+      emoji_icon: '',
+    });
+    expect(component?.render({} as never)).toEqual({ content: 'hello', success: true });
+    console.log('✓ Plugin factories registered from directory');
+  });
+
+  it('should isolate broken plugins', async () => {
+    fs.writeFileSync(path.join(pluginDir, 'a-broken.mjs'), 'throw new Error("boom");');
+    fs.writeFileSync(path.join(pluginDir, 'b-empty.mjs'), 'export const value = 42;');
+    fs.writeFileSync(path.join(pluginDir, 'c-hello.mjs'), GOOD_PLUGIN);
+
+    const loader = new PluginLoader({ enabled: true, paths: [pluginDir], timeout: 2000 });
+    const result = await loader.loadInto(registry);
+
+    expect(result.registeredTypes).toEqual(['hello']);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]?.error).toContain('boom');
+    expect(result.errors[1]?.error).toContain('No ComponentFactory export found');
+    console.log('✓ Broken plugins isolated');
+  });
+
+  it('should not allow plugins to override builtin component types', async () => {
+    fs.writeFileSync(
+      path.join(pluginDir, 'project.mjs'),
+      GOOD_PLUGIN.replace("['hello']", "['project']")
+    );
+
+    const loader = new PluginLoader({ enabled: true, paths: [pluginDir], timeout: 2000 });
+    const result = await loader.loadInto(registry);
+
+    expect(result.registeredTypes).toEqual([]);
+    expect(console.warn).toHaveBeenCalled();
+    console.log('✓ Builtin component types protected');
+  });
+
+  it('should skip loading when plugins are disabled', async () => {
+    fs.writeFileSync(path.join(pluginDir, 'hello.mjs'), GOOD_PLUGIN);
+
+    const loader = new PluginLoader({ enabled: false, paths: [pluginDir], timeout: 2000 });
+    const result = await loader.loadInto(registry);
+
+    expect(result.registeredTypes).toEqual([]);
+    expect(result.loadedFiles).toEqual([]);
+    console.log('✓ Disabled plugin loading respected');
+  });
+});
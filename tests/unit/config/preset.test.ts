@@ -0,0 +1,96 @@
+/**
+ * 预设解析单元测试 | Preset resolution unit tests
+ *
+ * 验证预设字母映射、未映射和未注册组件的警告，以及配置加载时只剔除无效字母
+ * Verifies preset letter mapping, warnings for unmapped and unregistered components, and that config
+ * loading only drops the invalid letters
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConfigLoader } from '../../../src/config/loader.js';
+import { formatPresetWarnings, resolvePreset } from '../../../src/config/preset.js';
+
+describe('Preset Resolution', () => {
+  describe('resolvePreset', () => {
+    it('should map letters case-insensitively in preset order', () => {
+      expect(resolvePreset('pmB')).toEqual({
+        components: ['project', 'model', 'branch'],
+        unknownLetters: [],
+        unregistered: [],
+      });
+      expect(resolvePreset('TP').components).toEqual(['tokens', 'project']);
+      console.log('✓ Preset letters mapped');
+    });
+
+    it('should collect unknown letters and unregistered components', () => {
+      const mapping = { P: 'project', C: 'ci', W: 'weather' };
+      const resolution = resolvePreset('PXCWx', mapping, ['project', 'ci']);
+
+      expect(resolution).toEqual({
+        components: ['project', 'ci'],
+        unknownLetters: ['X', 'X'],
+        unregistered: [{ letter: 'W', component: 'weather' }],
+      });
+      // 未提供registered时不检查注册状态 | Registration is not checked without `registered`
+      expect(resolvePreset('PW', mapping).components).toEqual(['project', 'weather']);
+      console.log('✓ Unknown and unregistered letters collected');
+    });
+  });
+
+  describe('formatPresetWarnings', () => {
+    it('should emit one warning per distinct problem', () => {
+      const warnings = formatPresetWarnings('PXXW', {
+        components: ['project'],
+        unknownLetters: ['X', 'X'],
+        unregistered: [
+          { letter: 'W', component: 'weather' },
+          { letter: 'W', component: 'weather' },
+        ],
+      });
+
+      expect(warnings).toHaveLength(2);
+      expect(warnings[0]).toContain('Preset "PXXW": letter "X" is not mapped to a component');
+      expect(warnings[0]).toContain('[preset_mapping]');
+      expect(warnings[1]).toContain(
+        'letter "W" maps to "weather", which is not a registered component'
+      );
+      expect(
+        formatPresetWarnings('PM', { components: [], unknownLetters: [], unregistered: [] })
+      ).toEqual([]);
+      console.log('✓ Preset warnings formatted');
+    });
+  });
+
+  describe('ConfigLoader preset', () => {
+    const originalHome = process.env.HOME;
+    let tempDir: string;
+
+    beforeEach(() => {
+      // 配置文件需位于主目录内 | Config files must live under the home directory
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-preset-'));
+      process.env.HOME = tempDir;
+    });
+
+    afterEach(() => {
+      process.env.HOME = originalHome;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+      vi.restoreAllMocks();
+    });
+
+    it('should drop an unknown letter instead of rejecting the whole preset', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const configPath = path.join(tempDir, 'config.toml');
+      fs.writeFileSync(configPath, 'preset = "PQMB"\n');
+
+      const config = await new ConfigLoader().loadConfig({ customPath: configPath });
+
+      expect(config.preset).toBe('PQMB');
+      expect(config.components?.order).toEqual(['project', 'model', 'branch']);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('letter "Q" is not mapped'));
+      console.log('✓ Unknown preset letter dropped');
+    });
+  });
+});
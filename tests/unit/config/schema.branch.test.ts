@@ -62,6 +62,10 @@ describe('Branch Configuration Schema', () => {
         'bright_magenta',
         'bright_cyan',
         'bright_white',
+        '#ffffff',
+        '#A6E3A1',
+        'nord.nord8',
+        'catppuccin.mauve',
       ];
 
       validColors.forEach((color) => {
@@ -78,7 +82,15 @@ describe('Branch Configuration Schema', () => {
     });
 
     it('should reject invalid color values', () => {
-      const invalidColors = ['purple', 'orange', 'pink', 'brown', '#ffffff'];
+      const invalidColors = [
+        'purple',
+        'orange',
+        'pink',
+        'brown',
+        '#fff',
+        'nord.mauve',
+        'gruvbox.red',
+      ];
 
       invalidColors.forEach((color) => {
         const config = {
@@ -0,0 +1,135 @@
+/**
+ * 宽度自适应布局单元测试 | Width-aware layout unit tests
+ *
+ * 验证收缩顺序、移除顺序、最大宽度解析以及收缩形态只渲染一次
+ * Verifies collapse order, drop order, maximum width resolution and rendering collapsed forms only once
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BaseComponent } from '../../../src/components/base.js';
+import type { RenderContext } from '../../../src/config/schema.js';
+import {
+  createLayoutItem,
+  fitToWidth,
+  type LayoutItem,
+  resolveMaxWidth,
+} from '../../../src/core/layout.js';
+
+const join = (items: LayoutItem[]) => items.map((item) => item.content).join(' ');
+
+function item(
+  name: string,
+  content: string,
+  priority: number,
+  collapsed?: LayoutItem['collapsed']
+): LayoutItem {
+  return { ...createLayoutItem(name, content, { priority }, collapsed) };
+}
+
+/**
+ * 统计渲染次数的测试组件 | Test component counting its renders
+ */
+class CountingComponent extends BaseComponent {
+  renders = 0;
+
+  protected renderContent(): string {
+    this.renders++;
+    return `${this.formatOutput('feature/very-long-branch')} +3`;
+  }
+}
+
+describe('Width-Aware Layout', () => {
+  describe('createLayoutItem', () => {
+    it('should resolve priorities and collapse forms', () => {
+      expect(createLayoutItem('branch', 'x')).toMatchObject({
+        priority: 70,
+        forms: ['short', 'icon'],
+      });
+      expect(createLayoutItem('custom', 'x')).toMatchObject({ priority: 0 });
+      expect(
+        createLayoutItem('model', 'x', { priority: 5, compact_form: 'icon', min_form: 'full' })
+      ).toMatchObject({ priority: 5, forms: ['icon'] });
+      console.log('✓ Layout item defaults resolved');
+    });
+  });
+
+  describe('resolveMaxWidth', () => {
+    it('should take the smaller non-zero limit', () => {
+      expect(resolveMaxWidth(100, { COLUMNS: '80' })).toBe(80);
+      expect(resolveMaxWidth(60, { COLUMNS: '80' })).toBe(60);
+      expect(resolveMaxWidth(undefined, { COLUMNS: 'wide' })).toBe(0);
+      expect(resolveMaxWidth(0, {})).toBe(0);
+      console.log('✓ Maximum width resolved');
+    });
+  });
+
+  describe('fitToWidth', () => {
+    it('should leave lines that fit untouched', () => {
+      const items = [item('model', 'Sonnet', 90), item('branch', 'main', 70)];
+      expect(fitToWidth(items, 0, { join })).toBe('Sonnet main');
+      expect(fitToWidth(items, 11, { join })).toBe('Sonnet main');
+      console.log('✓ Fitting line unchanged');
+    });
+
+    it('should collapse the lowest priority first, level by level', () => {
+      const items = [
+        item('model', 'Sonnet 4.5', 90, { short: 'Sonnet', icon: 'M' }),
+        item('branch', 'feature/branch', 70, { short: 'feature…', icon: 'B' }),
+        item('status', 'Ready', 40, { short: 'Rdy', icon: 'S' }),
+      ];
+
+      // 先把status收缩为short，再是branch | Status collapses to short first, then branch
+      expect(fitToWidth(items, 30, { join })).toBe('Sonnet 4.5 feature/branch Rdy');
+      expect(fitToWidth(items, 28, { join })).toBe('Sonnet 4.5 feature… Rdy');
+      // short全部用完后才进入icon形态 | Icon forms only after every short form is used
+      expect(fitToWidth(items, 17, { join })).toBe('Sonnet feature… S');
+      console.log('✓ Components collapsed by priority');
+    });
+
+    it('should skip collapsed forms that are not narrower', () => {
+      const items = [item('model', 'Opus', 90, { short: 'Opus 4.1' }), item('status', 'Ready', 40)];
+      expect(fitToWidth(items, 6, { join })).toBe('Opus');
+      console.log('✓ Wider forms ignored');
+    });
+
+    it('should drop the lowest priority and rightmost items first, keeping pinned ones', () => {
+      const lead = { ...item('fake', '>', 0), pinned: true };
+      const items = [
+        lead,
+        item('model', 'model', 90),
+        item('usage', 'usage', 50),
+        item('tokens', 'tokens', 50),
+        item('status', 'status', 40),
+      ];
+
+      expect(fitToWidth(items, 18, { join })).toBe('> model usage');
+      expect(fitToWidth(items, 12, { join })).toBe('> model');
+      // 保留优先级最高的组件并截断 | The highest-priority item is kept and truncated
+      expect(fitToWidth(items, 5, { join })).toBe('> mo…');
+      console.log('✓ Items dropped by priority');
+    });
+  });
+
+  describe('BaseComponent collapsed forms', () => {
+    it('should derive collapsed forms from a single render', async () => {
+      const component = new CountingComponent('branch', {
+        enabled: true,
+        icon_color: 'white',
+        text_color: 'white',
+        emoji_icon: '',
+        text_icon: 'B',
+      });
+      const result = await component.render({
+        inputData: {},
+        capabilities: { colors: false, emoji: false, nerdFont: false },
+        colors: {},
+        icons: {},
+      } as unknown as RenderContext);
+
+      expect(component.renders).toBe(1);
+      expect(result.content).toBe('B feature/very-long-branch +3');
+      expect(result.forms).toEqual({ short: 'B feature/very-lo…', icon: 'B' });
+      console.log('✓ Collapsed forms derived without re-rendering');
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Git改动统计单元测试 | Git diff statistics unit tests
+ *
+ * 验证 --shortstat 输出解析、缓存，以及大仓库时跳过统计
+ * Verifies --shortstat output parsing, caching and skipping the statistics on large repositories
+ */
+
+import { describe, expect, it } from 'vitest';
+import { DefaultGitService } from '../../../src/git/service.js';
+import type { GitExecOptions, GitExecResult, GitServiceConfig } from '../../../src/git/types.js';
+
+/**
+ * 按命令返回预设输出的Git服务 | Git service answering each command with canned output
+ */
+class ScriptedGitService extends DefaultGitService {
+  commands: string[] = [];
+
+  constructor(
+    private readonly outputs: Record<string, string>,
+    config: Partial<GitServiceConfig> = {}
+  ) {
+    super({ cwd: '/repo', ...config });
+  }
+
+  protected override async execGit(
+    command: string,
+    _options?: Partial<GitExecOptions>
+  ): Promise<GitExecResult> {
+    this.commands.push(command);
+    return { stdout: this.outputs[command] ?? '', stderr: '', exitCode: 0, success: true };
+  }
+
+  diffRuns(): number {
+    return this.commands.filter((command) => command === 'diff --shortstat HEAD').length;
+  }
+}
+
+const withFeatures = (
+  features: Partial<GitServiceConfig['features']> = {}
+): Partial<GitServiceConfig> => ({
+  features: {
+    fetchComparison: false,
+    fetchStash: false,
+    fetchOperation: false,
+    fetchVersion: false,
+    fetchDiffStat: true,
+    ...features,
+  },
+});
+
+describe('Git Diff Statistics', () => {
+  it('should parse insertions, deletions and unchanged output', async () => {
+    const cases: Array<[string, { files: number; insertions: number; deletions: number }]> = [
+      [
+        ' 5 files changed, 120 insertions(+), 34 deletions(-)\n',
+        { files: 5, insertions: 120, deletions: 34 },
+      ],
+      [' 1 file changed, 7 insertions(+)\n', { files: 1, insertions: 7, deletions: 0 }],
+      [' 2 files changed, 9 deletions(-)\n', { files: 2, insertions: 0, deletions: 9 }],
+      [
+        ' 1 file changed, 1 insertion(+), 1 deletion(-)\n',
+        { files: 1, insertions: 1, deletions: 1 },
+      ],
+      ['', { files: 0, insertions: 0, deletions: 0 }],
+    ];
+
+    for (const [stdout, expected] of cases) {
+      const service = new ScriptedGitService({ 'diff --shortstat HEAD': stdout }, withFeatures());
+      expect(await service.getDiffStat()).toEqual(expected);
+    }
+    console.log('✓ --shortstat output parsed');
+  });
+
+  it('should cache the statistics until a forced refresh', async () => {
+    const service = new ScriptedGitService(
+      { 'diff --shortstat HEAD': ' 1 file changed, 2 insertions(+)\n' },
+      withFeatures()
+    );
+
+    await service.getDiffStat();
+    await service.getDiffStat();
+    expect(service.diffRuns()).toBe(1);
+
+    await service.getDiffStat(true);
+    expect(service.diffRuns()).toBe(2);
+    console.log('✓ Diff statistics cached');
+  });
+
+  it('should skip the statistics on large repositories', async () => {
+    const outputs = {
+      'rev-list --all --count': '25000\n',
+      'diff --shortstat HEAD': ' 3 files changed, 4 insertions(+)\n',
+    };
+
+    const large = new ScriptedGitService(outputs, withFeatures());
+    expect(await large.getDiffStat()).toEqual({ files: 0, insertions: 0, deletions: 0 });
+    expect(large.diffRuns()).toBe(0);
+
+    // 强制刷新或关闭skipOnLargeRepo时仍统计 | A forced refresh or skipOnLargeRepo = false still runs diff
+    expect((await large.getDiffStat(true)).files).toBe(3);
+    const unskipped = new ScriptedGitService(outputs, withFeatures({ skipOnLargeRepo: false }));
+    expect((await unskipped.getDiffStat()).insertions).toBe(4);
+    console.log('✓ Large repositories skipped');
+  });
+
+  it('should treat a repository over the file threshold as large', async () => {
+    const files = Array.from({ length: 6 }, (_, index) => `src/file-${index}.ts`).join('\n');
+    const outputs = { 'ls-files': files, 'diff --shortstat HEAD': ' 1 file changed\n' };
+
+    const small = new ScriptedGitService(outputs, withFeatures({ largeRepoThreshold: 10 }));
+    expect((await small.getDiffStat()).files).toBe(1);
+
+    const large = new ScriptedGitService(outputs, withFeatures({ largeRepoThreshold: 5 }));
+    expect((await large.getDiffStat()).files).toBe(0);
+    expect(large.diffRuns()).toBe(0);
+    console.log('✓ File count threshold applied');
+  });
+});
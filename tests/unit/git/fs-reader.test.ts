@@ -0,0 +1,229 @@
+/**
+ * 文件系统Git读取器单元测试 | Filesystem Git reader unit tests
+ *
+ * 基于仓库夹具在临时.git目录中复现packed-refs、游离HEAD、链接工作树和stash，并验证切换目录时不沿用缓存
+ * Reproduces packed refs, detached HEAD, linked worktrees and stashes from repository fixtures in a temporary
+ * .git directory, and verifies caches do not carry over when the directory changes
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BranchComponent } from '../../../src/components/branch.js';
+import type { BranchComponentConfig, RenderContext } from '../../../src/config/schema.js';
+import { createFsGitReader, FsGitReader } from '../../../src/git/fs-reader.js';
+import type { GitExecOptions, GitExecResult } from '../../../src/git/types.js';
+import type { MockRepoState } from '../../utils/git-mocks.js';
+import { GitScenarioTester } from '../../utils/git-scenarios.js';
+import { repoFixtures } from '../../utils/repo-fixtures.js';
+
+const ZERO_SHA = '0'.repeat(40);
+
+/**
+ * 将夹具的引用和stash写入.git目录 | Materialize fixture refs and stashes into a .git directory
+ * @param packed 分支只写入packed-refs | Write the branch to packed-refs only
+ */
+function materializeRepo(repoDir: string, state: MockRepoState, packed = false): string {
+  const gitDir = path.join(repoDir, '.git');
+  const { sha } = state.version;
+  fs.mkdirSync(path.join(gitDir, 'refs', 'heads'), { recursive: true });
+  fs.writeFileSync(
+    path.join(gitDir, 'HEAD'),
+    state.detached ? `${sha}\n` : `ref: refs/heads/${state.currentBranch}\n`
+  );
+
+  if (!state.detached) {
+    const ref = `refs/heads/${state.currentBranch}`;
+    if (packed) {
+      fs.writeFileSync(
+        path.join(gitDir, 'packed-refs'),
+        `# pack-refs with: peeled fully-peeled sorted\n${sha} ${ref}\n${ZERO_SHA} refs/tags/v1.0.0\n^${sha}\n`
+      );
+    } else {
+      fs.mkdirSync(path.dirname(path.join(gitDir, ref)), { recursive: true });
+      fs.writeFileSync(path.join(gitDir, ref), `${sha}\n`);
+    }
+  }
+
+  if (state.upstreamBranch) {
+    const [remote, ...name] = state.upstreamBranch.split('/');
+    fs.writeFileSync(
+      path.join(gitDir, 'config'),
+      `[branch "${state.currentBranch}"]\n\tremote = ${remote}\n\tmerge = refs/heads/${name.join('/')}\n`
+    );
+  }
+
+  if (state.stash.count > 0) {
+    // stash@{0}是reflog的最后一行 | stash@{0} is the last reflog line
+    const lines = [...state.stash.entries]
+      .reverse()
+      .map(
+        (entry) => `${ZERO_SHA} ${sha} Dev <dev@example.com> 1672531200 +0000\t${entry.description}`
+      );
+    fs.mkdirSync(path.join(gitDir, 'logs', 'refs'), { recursive: true });
+    fs.writeFileSync(path.join(gitDir, 'logs', 'refs', 'stash'), `${lines.join('\n')}\n`);
+    fs.writeFileSync(path.join(gitDir, 'refs', 'stash'), `${sha}\n`);
+  }
+
+  return gitDir;
+}
+
+describe('Filesystem Git Reader', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-fs-reader-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const repoPath = (name: string) => {
+    const dir = path.join(tempDir, name);
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+  };
+
+  it('should resolve a branch that only exists in packed-refs', async () => {
+    const state = repoFixtures.basic.clean();
+    const repo = repoPath('packed');
+    materializeRepo(repo, state, true);
+
+    const reader = createFsGitReader({ cwd: repo });
+    expect(await reader.isGitRepo()).toBe(true);
+    expect(await reader.getBranchInfo()).toEqual({
+      current: 'main',
+      detached: false,
+      ahead: 0,
+      behind: 0,
+      sha: state.version.sha,
+      upstream: 'origin/main',
+    });
+    console.log('✓ Packed-only branch resolved');
+  });
+
+  it('should report a detached HEAD with its SHA', async () => {
+    const state = repoFixtures.branch.detached();
+    const repo = repoPath('detached');
+    materializeRepo(repo, state);
+
+    expect(await createFsGitReader({ cwd: repo }).getBranchInfo()).toEqual({
+      current: 'HEAD',
+      detached: true,
+      ahead: 0,
+      behind: 0,
+      sha: state.version.sha,
+    });
+    console.log('✓ Detached HEAD reported');
+  });
+
+  it('should read HEAD from a linked worktree and refs and stashes from the common dir', async () => {
+    const main = repoFixtures.stash.multiple();
+    const feature = repoFixtures.branch.feature();
+    const mainGitDir = materializeRepo(repoPath('main'), main, true);
+
+    const worktreeGitDir = path.join(mainGitDir, 'worktrees', 'wt');
+    fs.mkdirSync(worktreeGitDir, { recursive: true });
+    fs.writeFileSync(path.join(worktreeGitDir, 'commondir'), '../..\n');
+    fs.writeFileSync(
+      path.join(worktreeGitDir, 'HEAD'),
+      `ref: refs/heads/${feature.currentBranch}\n`
+    );
+    fs.mkdirSync(path.join(mainGitDir, 'refs', 'heads', 'feature'), { recursive: true });
+    fs.writeFileSync(
+      path.join(mainGitDir, 'refs', 'heads', feature.currentBranch),
+      `${feature.version.sha}\n`
+    );
+    const worktree = repoPath('wt');
+    fs.writeFileSync(path.join(worktree, '.git'), `gitdir: ${worktreeGitDir}\n`);
+
+    // 从子目录读取 | Read from a nested directory
+    const reader = createFsGitReader({ cwd: repoPath('wt/src') });
+    expect(await reader.getRepoLayout()).toMatchObject({
+      gitDir: worktreeGitDir,
+      commonDir: mainGitDir,
+      isWorktree: true,
+    });
+    expect(await reader.getBranchInfo()).toMatchObject({
+      current: feature.currentBranch,
+      detached: false,
+      sha: feature.version.sha,
+    });
+    expect(await reader.getStashInfo()).toEqual({
+      count: 3,
+      latest: { index: 0, description: 'def456e fix: latest work', branch: 'main' },
+    });
+    console.log('✓ Linked worktree read through the common dir');
+  });
+
+  it('should count stashes without entries or reflog', async () => {
+    const empty = repoPath('empty');
+    const gitDir = materializeRepo(empty, repoFixtures.stash.empty());
+    const reader = createFsGitReader({ cwd: empty });
+    expect(await reader.getStashInfo()).toEqual({ count: 0 });
+
+    // 空reflog但存在refs/stash时只能确定有stash | An empty reflog with refs/stash only tells a stash exists
+    fs.mkdirSync(path.join(gitDir, 'logs', 'refs'), { recursive: true });
+    fs.writeFileSync(path.join(gitDir, 'logs', 'refs', 'stash'), '');
+    fs.writeFileSync(path.join(gitDir, 'refs', 'stash'), `${ZERO_SHA}\n`);
+    expect(await reader.getStashInfo()).toEqual({ count: 1 });
+    console.log('✓ Empty stash counted');
+  });
+
+  it('should not carry cached branch info over to another repository', async () => {
+    // 两个仓库的SHA和上游相同，只有ahead/behind不同 | Both repos share SHA and upstream; only ahead/behind differ
+    const first = repoPath('first');
+    const second = repoPath('second');
+    materializeRepo(first, repoFixtures.basic.clean());
+    materializeRepo(second, repoFixtures.basic.clean());
+
+    class CountingReader extends FsGitReader {
+      protected override async execGit(
+        _command: string,
+        _options?: Partial<GitExecOptions>
+      ): Promise<GitExecResult> {
+        const stdout = this.config.cwd === first ? '1\t2\n' : '0\t0\n';
+        return { stdout, stderr: '', exitCode: 0, success: true };
+      }
+    }
+
+    const reader = new CountingReader({ cwd: first });
+    expect(await reader.getBranchInfo()).toMatchObject({ ahead: 2, behind: 1 });
+
+    reader.updateConfig({ cwd: second });
+    expect(await reader.getBranchInfo()).toMatchObject({ ahead: 0, behind: 0 });
+
+    reader.updateConfig({ cwd: first });
+    expect(await reader.getBranchInfo()).toMatchObject({ ahead: 2, behind: 1 });
+    console.log('✓ Branch info cache reset between repositories');
+  });
+
+  it('should render each repository when the branch component switches directories', async () => {
+    const scenario = new GitScenarioTester().getScenario('git-detached')!;
+    const config = (scenario.configOverrides?.components as Record<string, unknown>)
+      .branch as BranchComponentConfig;
+    const component = new BranchComponent('branch', { ...config, max_length: 40 });
+
+    const attached = repoPath('attached');
+    const detached = repoPath('detached');
+    materializeRepo(attached, repoFixtures.branch.feature(), true);
+    materializeRepo(detached, repoFixtures.branch.detached());
+
+    const render = async (cwd: string) => {
+      const context = {
+        inputData: { ...scenario.inputData, workspace: { current_dir: cwd, project_dir: cwd } },
+        capabilities: { colors: false, emoji: false, nerdFont: false },
+        colors: {},
+        icons: {},
+      } as unknown as RenderContext;
+      return (await component.render(context)).content;
+    };
+
+    expect(await render(attached)).toContain('feature/user-authentication');
+    expect(await render(detached)).toContain('HEAD@abc123d');
+    expect(await render(attached)).not.toContain('HEAD@');
+    console.log('✓ Branch component follows the current directory');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Git仓库布局单元测试 | Git repository layout unit tests
+ *
+ * 验证.git目录和.git文件、commondir、子模块父仓库推断，以及旧版git的rev-parse回退
+ * Verifies .git directories and files, commondir, submodule superproject inference and the rev-parse
+ * fallback for older git
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  describeRepoLayout,
+  discoverRepoLayout,
+  readRepoLayout,
+  resolveGitDirs,
+} from '../../../src/git/layout.js';
+import { DefaultGitService } from '../../../src/git/service.js';
+import type { GitExecOptions, GitExecResult } from '../../../src/git/types.js';
+
+describe('Git Repository Layout', () => {
+  let tempDir: string;
+
+  const mkdir = (...segments: string[]) => {
+    const dir = path.join(tempDir, ...segments);
+    fs.mkdirSync(dir, { recursive: true });
+    return dir;
+  };
+
+  /** 创建主仓库及其链接工作树 | Create a main repository and a linked worktree of it */
+  const createLinkedWorktree = () => {
+    const mainGitDir = mkdir('main', '.git');
+    const worktreeGitDir = mkdir('main', '.git', 'worktrees', 'wt');
+    fs.writeFileSync(path.join(worktreeGitDir, 'commondir'), '../..\n');
+    const worktree = mkdir('wt');
+    fs.writeFileSync(path.join(worktree, '.git'), `gitdir: ${worktreeGitDir}\n`);
+    return { mainGitDir, worktreeGitDir, worktree };
+  };
+
+  beforeEach(() => {
+    tempDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-layout-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('resolveGitDirs', () => {
+    it('should use a .git directory as both gitdir and common dir', () => {
+      const gitDir = mkdir('repo', '.git');
+
+      expect(resolveGitDirs(path.join(tempDir, 'repo'))).toEqual({ gitDir, commonDir: gitDir });
+      expect(readRepoLayout(path.join(tempDir, 'repo'))).toEqual({
+        gitDir,
+        commonDir: gitDir,
+        isWorktree: false,
+        isSubmodule: false,
+      });
+      console.log('✓ .git directory resolved');
+    });
+
+    it('should follow a .git file and the commondir of a linked worktree', () => {
+      const { mainGitDir, worktreeGitDir, worktree } = createLinkedWorktree();
+
+      expect(resolveGitDirs(worktree)).toEqual({ gitDir: worktreeGitDir, commonDir: mainGitDir });
+      expect(readRepoLayout(worktree)).toMatchObject({ isWorktree: true, isSubmodule: false });
+
+      // 相对路径按工作树解析 | Relative paths resolve against the worktree
+      fs.writeFileSync(path.join(worktree, '.git'), 'gitdir: ../main/.git/worktrees/wt');
+      expect(resolveGitDirs(worktree)?.gitDir).toBe(worktreeGitDir);
+      console.log('✓ .git file and commondir followed');
+    });
+
+    it('should return null without a valid .git entry', () => {
+      const plain = mkdir('plain');
+      const broken = mkdir('broken');
+      fs.writeFileSync(path.join(broken, '.git'), 'not a gitdir line');
+
+      expect(resolveGitDirs(plain)).toBeNull();
+      expect(resolveGitDirs(broken)).toBeNull();
+      console.log('✓ Missing and invalid .git entries rejected');
+    });
+  });
+
+  describe('describeRepoLayout', () => {
+    it('should infer the superproject from a submodule gitdir', () => {
+      const moduleGitDir = mkdir('super', '.git', 'modules', 'sub');
+      const submodule = mkdir('super', 'sub');
+      fs.writeFileSync(path.join(submodule, '.git'), 'gitdir: ../.git/modules/sub\n');
+
+      expect(readRepoLayout(submodule)).toEqual({
+        gitDir: moduleGitDir,
+        commonDir: moduleGitDir,
+        isWorktree: false,
+        isSubmodule: true,
+        superproject: 'super',
+      });
+      // 从子目录向上查找 | Walk up from a nested directory
+      expect(discoverRepoLayout(mkdir('super', 'sub', 'src', 'lib'))?.superproject).toBe('super');
+      console.log('✓ Submodule superproject inferred');
+    });
+
+    it('should prefer an explicit superproject worktree', () => {
+      expect(describeRepoLayout('/repo/.git', '/repo/.git', '/work/parent')).toMatchObject({
+        isSubmodule: true,
+        superproject: 'parent',
+      });
+      expect(describeRepoLayout('/repo/.git', '/repo/.git')).not.toHaveProperty('superproject');
+      console.log('✓ Explicit superproject preferred');
+    });
+  });
+
+  describe('DefaultGitService.getRepoLayout', () => {
+    /** 模拟旧版git的rev-parse | Simulates rev-parse of an older git */
+    class OldGitService extends DefaultGitService {
+      commands: string[] = [];
+
+      constructor(
+        cwd: string,
+        private readonly respond: (command: string) => string
+      ) {
+        super({ cwd });
+      }
+
+      protected override async execGit(
+        command: string,
+        _options?: Partial<GitExecOptions>
+      ): Promise<GitExecResult> {
+        this.commands.push(command);
+        return { stdout: this.respond(command), stderr: '', exitCode: 0, success: true };
+      }
+    }
+
+    it('should fall back to --git-dir when newer options fail', async () => {
+      const { mainGitDir, worktreeGitDir, worktree } = createLinkedWorktree();
+      const service = new OldGitService(worktree, (command) => {
+        if (command.includes('--git-common-dir')) {
+          throw new Error("fatal: unknown option '--show-superproject-working-tree'");
+        }
+        return `${worktreeGitDir}\n`;
+      });
+
+      expect(await service.getRepoLayout()).toEqual({
+        gitDir: worktreeGitDir,
+        commonDir: mainGitDir,
+        isWorktree: true,
+        isSubmodule: false,
+      });
+      expect(service.commands).toEqual([
+        'rev-parse --git-dir --git-common-dir --show-superproject-working-tree',
+        'rev-parse --git-dir',
+      ]);
+      console.log('✓ Failing options fall back to --git-dir');
+    });
+
+    it('should fall back when older git echoes unknown options', async () => {
+      mkdir('repo', '.git');
+      const service = new OldGitService(path.join(tempDir, 'repo'), (command) =>
+        command.includes('--git-common-dir')
+          ? '.git\n--git-common-dir\n--show-superproject-working-tree\n'
+          : '.git\n'
+      );
+
+      expect(await service.getRepoLayout()).toMatchObject({
+        gitDir: path.join(tempDir, 'repo', '.git'),
+        commonDir: path.join(tempDir, 'repo', '.git'),
+        isWorktree: false,
+      });
+      expect(service.commands).toHaveLength(2);
+      console.log('✓ Echoed options fall back to --git-dir');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * 安全Git执行器单元测试 | Secure Git executor unit tests
+ *
+ * 验证带值flag(--format=、--pretty=、--abbrev=)的白名单：合法值放行，元字符和未知flag拒绝
+ * Verifies the value flag whitelist (--format=, --pretty=, --abbrev=): valid values pass, metacharacters
+ * and unknown flags are rejected
+ */
+
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { GitSecurityError, SecureGitExecutor } from '../../../src/git/secure-executor.js';
+
+describe('SecureGitExecutor', () => {
+  const executor = new SecureGitExecutor();
+  let repoDir: string;
+
+  beforeAll(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-secure-git-')));
+    execFileSync('git', ['init', '-q', '-b', 'main'], { cwd: repoDir });
+    execFileSync('git', ['commit', '-q', '--allow-empty', '-m', 'initial'], {
+      cwd: repoDir,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'Fixture Author',
+        GIT_AUTHOR_EMAIL: 'fixture@example.com',
+        GIT_COMMITTER_NAME: 'Fixture Author',
+        GIT_COMMITTER_EMAIL: 'fixture@example.com',
+        GIT_AUTHOR_DATE: '@1672617600 +0000',
+        GIT_COMMITTER_DATE: '@1672617600 +0000',
+      },
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should accept --format=, --pretty= and --abbrev= values', async () => {
+    const log = await executor.executeGitCommand('log', ['-1', '--format=%h%x1f%at%x1f%an'], {
+      cwd: repoDir,
+    });
+    expect(log.success).toBe(true);
+    expect(log.stdout.trim().split('\x1f').slice(1)).toEqual(['1672617600', 'Fixture Author']);
+
+    const pretty = await executor.executeGitCommand('log', ['-1', '--pretty=%s'], { cwd: repoDir });
+    expect(pretty.stdout.trim()).toBe('initial');
+
+    const abbrev = await executor.executeGitCommand('rev-parse', ['--short', 'HEAD'], {
+      cwd: repoDir,
+    });
+    const abbreviated = await executor.executeGitCommand(
+      'log',
+      ['-1', '--abbrev=10', '--format=%h'],
+      { cwd: repoDir }
+    );
+    expect(abbreviated.stdout.trim()).toHaveLength(10);
+    expect(abbreviated.stdout.trim().startsWith(abbrev.stdout.trim())).toBe(true);
+    console.log('✓ Value flags accepted');
+  });
+
+  it('should reject values with metacharacters and unknown value flags', async () => {
+    const rejected = [
+      '--format=%h;touch pwned',
+      '--format=$(id)',
+      '--format=%h`id`',
+      '--pretty=%s|sh',
+      '--pretty=%s>out',
+      '--format=%h %s',
+      '--format=',
+      '--abbrev=abc',
+      '--abbrev=123',
+      '--output=/tmp/statusline-out',
+      '--exec=sh',
+      '--upload-pack=touch',
+      '--git-dir=/tmp',
+    ];
+
+    for (const arg of rejected) {
+      const attempt = executor.executeGitCommand('log', ['-1', arg], { cwd: repoDir });
+      await expect(attempt).rejects.toBeInstanceOf(GitSecurityError);
+      await expect(executor.executeGitCommand('log', [arg], { cwd: repoDir })).rejects.toThrow(
+        `Git flag not in whitelist: ${arg}`
+      );
+    }
+    console.log('✓ Unsafe value flags rejected');
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * 成本预算单元测试 | Cost budget unit tests
+ *
+ * 验证周期起点、跨午夜会话按日拆分以及周/月边界
+ * Verifies period starts, splitting sessions that span midnight by day, and week/month boundaries
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  evaluateBudget,
+  formatLocalDay,
+  getBudgetPeriodStart,
+  recordDailyCost,
+} from '../../../src/storage/budget.js';
+import { CostLedger } from '../../../src/storage/ledger.js';
+import { StorageManager } from '../../../src/storage/manager.js';
+import type { SessionCost } from '../../../src/storage/types.js';
+
+const BUDGET = {
+  daily: 10,
+  weekly: 50,
+  monthly: 200,
+  warning_threshold: 80,
+  critical_threshold: 100,
+};
+
+function session(overrides: Partial<SessionCost>): SessionCost {
+  return {
+    sessionId: 'session',
+    projectPath: '/tmp/project',
+    totalCostUsd: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    linesAdded: 0,
+    linesRemoved: 0,
+    startTime: new Date(2026, 5, 1).toISOString(),
+    lastUpdateTime: new Date(2026, 5, 1).toISOString(),
+    ...overrides,
+  };
+}
+
+function spentByPeriod(sessions: SessionCost[], now: Date): Record<string, number> {
+  return Object.fromEntries(
+    evaluateBudget(BUDGET, sessions, now).map((status) => [status.period, status.spent])
+  );
+}
+
+describe('Cost Budget', () => {
+  describe('getBudgetPeriodStart', () => {
+    it('should start days at local midnight and weeks on Monday', () => {
+      // 2026-06-03 是周三 | 2026-06-03 is a Wednesday
+      const now = new Date(2026, 5, 3, 15, 30);
+
+      expect(getBudgetPeriodStart('daily', now)).toEqual(new Date(2026, 5, 3));
+      expect(getBudgetPeriodStart('weekly', now)).toEqual(new Date(2026, 5, 1));
+      expect(getBudgetPeriodStart('monthly', now)).toEqual(new Date(2026, 5, 1));
+      console.log('✓ Day, week and month starts resolved');
+    });
+
+    it('should treat Sunday as the last day of the week', () => {
+      const sunday = new Date(2026, 4, 31, 23, 59);
+
+      expect(getBudgetPeriodStart('weekly', sunday)).toEqual(new Date(2026, 4, 25));
+      expect(getBudgetPeriodStart('weekly', new Date(2026, 5, 1))).toEqual(new Date(2026, 5, 1));
+      console.log('✓ Sunday belongs to the week starting on Monday');
+    });
+
+    it('should let weeks cross month boundaries', () => {
+      // 2026-07-01 是周三，本周从6月29日开始 | 2026-07-01 is a Wednesday; its week starts on June 29
+      const now = new Date(2026, 6, 1, 9);
+
+      expect(getBudgetPeriodStart('weekly', now)).toEqual(new Date(2026, 5, 29));
+      expect(getBudgetPeriodStart('monthly', now)).toEqual(new Date(2026, 6, 1));
+      console.log('✓ Week started in the previous month');
+    });
+  });
+
+  describe('recordDailyCost', () => {
+    it('should split a session that spans midnight', () => {
+      const beforeMidnight = new Date(2026, 5, 30, 23, 50);
+      const afterMidnight = new Date(2026, 6, 1, 0, 10);
+
+      const first = recordDailyCost(
+        { totalCostUsd: 0, lastUpdateTime: beforeMidnight.toISOString() },
+        4,
+        beforeMidnight
+      );
+      const second = recordDailyCost(
+        { totalCostUsd: 4, lastUpdateTime: beforeMidnight.toISOString(), dailyCostUsd: first },
+        5,
+        afterMidnight
+      );
+
+      expect(second).toEqual({ '2026-06-30': 4, '2026-07-01': 1 });
+      console.log('✓ Cost split at midnight');
+    });
+
+    it('should book earlier cost of older sessions on their last update day', () => {
+      const lastUpdate = new Date(2026, 5, 30, 18);
+
+      expect(
+        recordDailyCost(
+          { totalCostUsd: 3, lastUpdateTime: lastUpdate.toISOString() },
+          3.5,
+          new Date(2026, 6, 1, 8)
+        )
+      ).toEqual({ '2026-06-30': 3, '2026-07-01': 0.5 });
+      console.log('✓ Older session cost booked on its last update day');
+    });
+
+    it('should ignore totals that move backwards', () => {
+      const now = new Date(2026, 6, 1, 8);
+      const daily = { [formatLocalDay(now)]: 2 };
+
+      expect(
+        recordDailyCost(
+          { totalCostUsd: 2, lastUpdateTime: now.toISOString(), dailyCostUsd: daily },
+          1,
+          now
+        )
+      ).toEqual(daily);
+      console.log('✓ Stale totals ignored');
+    });
+  });
+
+  describe('evaluateBudget', () => {
+    it('should count only the part of a session inside each period', () => {
+      const now = new Date(2026, 6, 1, 0, 10);
+      const spanning = session({
+        totalCostUsd: 5,
+        lastUpdateTime: now.toISOString(),
+        dailyCostUsd: { '2026-06-30': 4, '2026-07-01': 1 },
+      });
+
+      expect(spentByPeriod([spanning], now)).toEqual({ daily: 1, weekly: 5, monthly: 1 });
+      console.log('✓ Spanning session counted per period');
+    });
+
+    it('should leave last week out on Monday', () => {
+      const monday = new Date(2026, 5, 1, 10);
+      const sessions = [
+        session({ sessionId: 'a', totalCostUsd: 7, dailyCostUsd: { '2026-05-31': 7 } }),
+        session({ sessionId: 'b', totalCostUsd: 2, dailyCostUsd: { '2026-06-01': 2 } }),
+      ];
+
+      expect(spentByPeriod(sessions, monday)).toEqual({ daily: 2, weekly: 2, monthly: 2 });
+      console.log('✓ Previous week excluded');
+    });
+
+    it('should fall back to the last update day for sessions without daily costs', () => {
+      const now = new Date(2026, 6, 1, 12);
+      const sessions = [
+        session({ sessionId: 'today', totalCostUsd: 3, lastUpdateTime: now.toISOString() }),
+        session({
+          sessionId: 'yesterday',
+          totalCostUsd: 4,
+          lastUpdateTime: new Date(2026, 5, 30, 12).toISOString(),
+        }),
+      ];
+
+      expect(spentByPeriod(sessions, now)).toEqual({ daily: 3, weekly: 7, monthly: 3 });
+      console.log('✓ Legacy sessions counted on their last update day');
+    });
+
+    it('should report warning and critical levels', () => {
+      const now = new Date(2026, 6, 1, 12);
+      const statuses = evaluateBudget(
+        { ...BUDGET, weekly: 10 },
+        [
+          session({
+            totalCostUsd: 10,
+            dailyCostUsd: { '2026-06-30': 1.5, '2026-07-01': 8.5 },
+          }),
+        ],
+        now
+      );
+
+      expect(statuses.map((status) => [status.period, status.level])).toEqual([
+        ['daily', 'warning'],
+        ['weekly', 'critical'],
+        ['monthly', 'ok'],
+      ]);
+      console.log('✓ Budget levels evaluated');
+    });
+  });
+
+  describe('StorageManager', () => {
+    let storagePath: string;
+
+    beforeEach(() => {
+      storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-budget-'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+      fs.rmSync(storagePath, { recursive: true, force: true });
+    });
+
+    it('should record daily cost deltas across midnight', async () => {
+      const manager = new StorageManager({ storagePath }, '-tmp-budget-project');
+      vi.useFakeTimers({ toFake: ['Date'] });
+
+      vi.setSystemTime(new Date(2026, 5, 30, 23, 50));
+      await manager.updateSessionCost({ sessionId: 's1', cost: { total_cost_usd: 4 } });
+      vi.setSystemTime(new Date(2026, 6, 1, 0, 10));
+      await manager.updateSessionCost({ sessionId: 's1', cost: { total_cost_usd: 5 } });
+
+      const [stored] = await manager.loadAllSessionCosts();
+      expect(stored?.dailyCostUsd).toEqual({ '2026-06-30': 4, '2026-07-01': 1 });
+      expect(spentByPeriod(stored ? [stored] : [], new Date())).toMatchObject({ daily: 1 });
+      console.log('✓ Storage records daily cost deltas');
+    });
+
+    it('should reuse parsed ledgers until they change', async () => {
+      const manager = new StorageManager({ storagePath }, '-tmp-budget-project');
+      await manager.updateSessionCost({ sessionId: 's1', cost: { total_cost_usd: 1 } });
+      const getAll = vi.spyOn(CostLedger.prototype, 'getAll');
+
+      await manager.loadAllSessionCosts();
+      await manager.loadAllSessionCosts();
+      expect(getAll).toHaveBeenCalledTimes(1);
+
+      await manager.updateSessionCost({ sessionId: 's1', cost: { total_cost_usd: 2 } });
+      getAll.mockClear();
+      const sessions = await manager.loadAllSessionCosts();
+      expect(getAll).toHaveBeenCalledTimes(1);
+      expect(sessions[0]?.totalCostUsd).toBe(2);
+      console.log('✓ Ledger parse cached by mtime and size');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * 成本账本单元测试 | Cost ledger unit tests
+ *
+ * 验证压缩持有账本锁，压缩期间的追加不会丢失
+ * Verifies compaction holds the ledger lock so appends made meanwhile are not lost
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CostLedger } from '../../../src/storage/ledger.js';
+import { acquireFileLock, getLockPath } from '../../../src/storage/lock.js';
+import type { SessionCost } from '../../../src/storage/types.js';
+
+function cost(sessionId: string, totalCostUsd: number): SessionCost {
+  return {
+    sessionId,
+    projectPath: '/tmp/project',
+    totalCostUsd,
+    inputTokens: 0,
+    outputTokens: 0,
+    linesAdded: 0,
+    linesRemoved: 0,
+    startTime: new Date().toISOString(),
+    lastUpdateTime: new Date().toISOString(),
+  };
+}
+
+describe('Cost Ledger', () => {
+  let tempDir: string;
+  let ledger: CostLedger;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-ledger-'));
+    ledger = new CostLedger(path.join(tempDir, 'cost-ledger.jsonl'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should keep appends made by another lock holder before compaction', async () => {
+    await ledger.append(cost('s1', 1));
+    await ledger.append(cost('s1', 2));
+
+    // 其他进程持有锁时压缩必须等待 | Compaction waits while another process holds the lock
+    const release = await acquireFileLock(ledger.getFilePath());
+    const compacting = ledger.compact();
+    await ledger.append(cost('s2', 5), { lockHeld: true });
+    await release();
+    await compacting;
+
+    const sessions = await ledger.getAll();
+    expect(sessions.map((session) => [session.sessionId, session.totalCostUsd])).toEqual([
+      ['s1', 2],
+      ['s2', 5],
+    ]);
+    expect(fs.existsSync(getLockPath(ledger.getFilePath()))).toBe(false);
+    console.log('✓ Appends survived compaction');
+  });
+
+  it('should make writers wait for a running compaction', async () => {
+    await ledger.append(cost('s1', 1));
+
+    const release = await acquireFileLock(ledger.getFilePath());
+    const appending = ledger.append(cost('s2', 3));
+    await ledger.compact({ lockHeld: true });
+    const compacted = fs.readFileSync(ledger.getFilePath(), 'utf-8');
+    await release();
+    await appending;
+
+    expect(compacted).not.toContain('"s2"');
+    expect(await ledger.get('s2')).toMatchObject({ totalCostUsd: 3 });
+    console.log('✓ Append waited for the lock');
+  });
+
+  it('should drop sessions older than the cutoff and honour tombstones', async () => {
+    await ledger.append({ ...cost('old', 1), lastUpdateTime: '2020-01-01T00:00:00.000Z' });
+    await ledger.append(cost('kept', 2));
+    await ledger.append(cost('gone', 3));
+    await ledger.remove('gone');
+
+    expect(await ledger.compact({ olderThan: new Date(2021, 0, 1) })).toBe(1);
+    expect((await ledger.getAll()).map((session) => session.sessionId)).toEqual(['kept']);
+    expect(await ledger.get('kept')).toMatchObject({ totalCostUsd: 2 });
+    console.log('✓ Cutoff and tombstones applied');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * 存储并发写入测试 | Storage concurrent write tests
+ *
+ * 启动多个子进程对同一临时存储目录并发写入，验证锁文件和账本的一致性
+ * Spawns several child processes writing to one temp storage path to verify lockfiles and ledger consistency
+ */
+
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { acquireFileLock, FileLockError, getLockPath } from '../../../src/storage/lock.js';
+import { StorageManager } from '../../../src/storage/manager.js';
+
+const WRITER_SCRIPT = fileURLToPath(new URL('../../utils/storage-writer.ts', import.meta.url));
+const PROJECT_ID = '-tmp-statusline-lock-test';
+
+/**
+ * 运行写入子进程 | Run a writer child process
+ */
+function runWriter(storagePath: string, writer: number, iterations: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      process.execPath,
+      [
+        '--import',
+        'tsx',
+        WRITER_SCRIPT,
+        storagePath,
+        PROJECT_ID,
+        String(writer),
+        String(iterations),
+      ],
+      { stdio: ['ignore', 'ignore', 'inherit'] }
+    );
+    child.on('error', reject);
+    child.on('exit', (code) => resolve(code ?? 1));
+  });
+}
+
+describe('Storage Manager Locking', () => {
+  let storagePath: string;
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-storage-lock-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('should keep all sessions and monotonic totals with parallel writers', async () => {
+    const writers = 4;
+    const iterations = 10;
+
+    const exitCodes = await Promise.all(
+      Array.from({ length: writers }, (_, writer) => runWriter(storagePath, writer, iterations))
+    );
+    expect(exitCodes).toEqual(Array(writers).fill(0));
+
+    const manager = new StorageManager({ storagePath, autoCleanupDays: 0 }, PROJECT_ID);
+    const sessions = (await manager.loadAllSessionCosts()).filter(
+      (s) => s.projectId === PROJECT_ID
+    );
+
+    // 每个写入者的独立会话都应保留 | Every writer's own sessions survive
+    expect(sessions.filter((s) => s.sessionId.startsWith('writer-'))).toHaveLength(
+      writers * iterations
+    );
+
+    // 共享会话的累计成本不应回退 | The shared session total never goes backwards
+    const shared = sessions.find((s) => s.sessionId === 'shared-session');
+    expect(shared?.totalCostUsd).toBe(writers * iterations - 1);
+    expect(shared?.linesAdded).toBe(iterations - 1);
+
+    // 不应遗留锁文件或临时文件 | No lock or temp files are left behind
+    const sessionsDir = manager.getPaths().sessionsDir;
+    expect(fs.readdirSync(sessionsDir).filter((file) => /\.(lock|tmp|stale)$/.test(file))).toEqual(
+      []
+    );
+    console.log('✓ Parallel writers kept ledger consistent');
+  }, 60000);
+
+  it('should take over a lock left by a dead process', async () => {
+    const target = path.join(storagePath, 'cost-ledger.jsonl');
+    fs.writeFileSync(
+      getLockPath(target),
+      JSON.stringify({ pid: 2 ** 22 + 1, hostname: os.hostname(), token: 'dead', createdAt: 0 })
+    );
+
+    const release = await acquireFileLock(target, { timeout: 500 });
+    expect(JSON.parse(fs.readFileSync(getLockPath(target), 'utf-8')).pid).toBe(process.pid);
+    await release();
+    expect(fs.existsSync(getLockPath(target))).toBe(false);
+    console.log('✓ Stale lock from dead process taken over');
+  });
+
+  it('should time out while a live process holds the lock', async () => {
+    const target = path.join(storagePath, 'config.toml');
+    const release = await acquireFileLock(target);
+
+    await expect(acquireFileLock(target, { timeout: 100 })).rejects.toBeInstanceOf(FileLockError);
+    await release();
+
+    // 超过stale时间的锁即使持有者存活也会被接管 | Locks older than stale are taken over even if the owner lives
+    const holder = await acquireFileLock(target);
+    const old = new Date(Date.now() - 60000);
+    fs.utimesSync(getLockPath(target), old, old);
+    const next = await acquireFileLock(target, { timeout: 500, stale: 1000 });
+    await next();
+    await holder();
+    console.log('✓ Live lock respected until stale');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * 模型定价单元测试 | Model pricing unit tests
+ *
+ * 验证最长前缀查找、用户定价覆盖、成本计算以及按消息ID去重
+ * Verifies longest-prefix lookup, user pricing overrides, cost calculation and message id dedupe
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  calculateUsageCost,
+  DEFAULT_MODEL_PRICING,
+  estimateTranscriptCost,
+  resolveModelPricing,
+} from '../../../src/storage/pricing.js';
+import { TranscriptIndex } from '../../../src/utils/transcript-index.js';
+
+const MILLION = {
+  input_tokens: 1_000_000,
+  output_tokens: 1_000_000,
+  cache_creation_input_tokens: 1_000_000,
+  cache_read_input_tokens: 1_000_000,
+};
+
+describe('Model Pricing', () => {
+  describe('resolveModelPricing', () => {
+    it('should pick the longest matching prefix', () => {
+      expect(resolveModelPricing('claude-opus-4-5-20251101')).toBe(
+        DEFAULT_MODEL_PRICING['claude-opus-4-5']
+      );
+      expect(resolveModelPricing('claude-opus-4-1-20250805')).toBe(
+        DEFAULT_MODEL_PRICING['claude-opus-4']
+      );
+      expect(resolveModelPricing('claude-sonnet-4-20250514[1m]')).toBe(
+        DEFAULT_MODEL_PRICING['claude-sonnet-4']
+      );
+      expect(resolveModelPricing('unknown-model')).toBe(DEFAULT_MODEL_PRICING.default);
+      expect(resolveModelPricing(undefined)).toBe(DEFAULT_MODEL_PRICING.default);
+      console.log('✓ Longest prefix resolved');
+    });
+
+    it('should prefer user pricing and match keys case-insensitively', () => {
+      const custom = { input: 1, output: 2 };
+      const exact = { input: 7, output: 8 };
+      const fallback = { input: 9, output: 9 };
+
+      expect(resolveModelPricing('claude-opus-4-20250514', { 'Claude-Opus-4': custom })).toBe(
+        custom
+      );
+      expect(
+        resolveModelPricing('CLAUDE-OPUS-4', { 'claude-opus': custom, 'Claude-Opus-4': exact })
+      ).toBe(exact);
+      expect(resolveModelPricing('my-model', { default: fallback })).toBe(fallback);
+      console.log('✓ User pricing matched regardless of case');
+    });
+  });
+
+  describe('calculateUsageCost', () => {
+    it('should price every token kind per million', () => {
+      expect(
+        calculateUsageCost(MILLION, { input: 3, output: 15, cache_write: 3.75, cache_read: 0.3 })
+      ).toBeCloseTo(22.05);
+      console.log('✓ Usage cost calculated');
+    });
+
+    it('should derive cache rates from the input price when missing', () => {
+      expect(calculateUsageCost(MILLION, { input: 10, output: 0 })).toBeCloseTo(10 + 12.5 + 1);
+      console.log('✓ Cache rates derived from input price');
+    });
+  });
+
+  describe('estimateTranscriptCost', () => {
+    it('should count each message id once', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-pricing-'));
+      const transcriptPath = path.join(dir, 'session.jsonl');
+      const line = (id: string, model: string) =>
+        `${JSON.stringify({
+          type: 'assistant',
+          message: { id, model, usage: { input_tokens: 1_000_000, output_tokens: 0 } },
+        })}\n`;
+
+      try {
+        // 同一消息的多个内容块各写一行 | Each content block of one message is written on its own line
+        fs.writeFileSync(
+          transcriptPath,
+          line('m1', 'claude-sonnet-4') +
+            line('m1', 'claude-sonnet-4') +
+            line('m2', 'claude-opus-4')
+        );
+        const snapshot = new TranscriptIndex(transcriptPath).read();
+
+        expect(snapshot).not.toBeNull();
+        expect(estimateTranscriptCost(snapshot as NonNullable<typeof snapshot>)).toBeCloseTo(
+          3 + 15
+        );
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+      console.log('✓ Duplicate message ids counted once');
+    });
+
+    it('should return null without usage', () => {
+      const snapshot = {
+        path: 'x',
+        size: 0,
+        entryCount: 0,
+        compactBoundary: -1,
+        latestUsage: null,
+        lastStopReason: null,
+        lastAssistantEntry: null,
+        lastEntryType: null,
+        usageByModel: {},
+        recentToolUses: [],
+      };
+      expect(estimateTranscriptCost(snapshot)).toBeNull();
+      console.log('✓ No usage yields null');
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * 终端背景检测单元测试 | Terminal background detection unit tests
+ *
+ * 验证COLORFGBG和OSC 11应答解析、style.background与COLORFGBG的优先级，以及渲染器选择主题的浅色配色
+ * Verifies COLORFGBG and OSC 11 reply parsing, the precedence of style.background over COLORFGBG, and the
+ * renderer picking the theme's light variant
+ */
+
+import { describe, expect, it } from 'vitest';
+import { type Config, ConfigSchema } from '../../../src/config/schema.js';
+import {
+  detectBackground,
+  parseColorFgBg,
+  parseOsc11Reply,
+  resolveBackground,
+  type TerminalBackground,
+} from '../../../src/terminal/background.js';
+import { TerminalRenderer } from '../../../src/terminal/colors.js';
+import type { TerminalCapabilities } from '../../../src/terminal/detector.js';
+import { hexToAnsi } from '../../../src/terminal/palettes.js';
+import { BUILTIN_THEMES } from '../../../src/themes/types.js';
+
+describe('Terminal Background', () => {
+  describe('parseColorFgBg', () => {
+    it('should read the background index from the last field', () => {
+      const cases: Array<[string | undefined, TerminalBackground | null]> = [
+        ['15;0', 'dark'],
+        ['0;15', 'light'],
+        ['0;default;15', 'light'],
+        ['15;default;0', 'dark'],
+        ['0;7', 'light'],
+        ['0;8', 'dark'],
+        ['0;9', 'light'],
+        ['0;default', null],
+        ['light', null],
+        ['', null],
+        [undefined, null],
+      ];
+
+      for (const [value, expected] of cases) {
+        expect(parseColorFgBg(value)).toBe(expected);
+      }
+      console.log('✓ COLORFGBG parsed');
+    });
+  });
+
+  describe('parseOsc11Reply', () => {
+    it('should decide by luminance for 4-digit, 2-digit and rgba channels', () => {
+      const cases: Array<[string, TerminalBackground | null]> = [
+        ['\x1b]11;rgb:ffff/ffff/ffff\x07', 'light'],
+        ['\x1b]11;rgb:0000/0000/0000\x1b\\', 'dark'],
+        ['\x1b]11;rgb:fdf6/f6f6/e3e3\x07', 'light'],
+        ['\x1b]11;rgb:fd/f6/e3\x07', 'light'],
+        ['\x1b]11;rgb:28/2c/34\x07', 'dark'],
+        ['\x1b]11;rgba:1e1e/1e1e/2e2e/ffff\x07', 'dark'],
+        ['\x1b]11;rgba:eeee/eeee/eeee/ffff\x07', 'light'],
+        // 绿色亮度权重最高 | Green carries the most luminance weight
+        ['\x1b]11;rgb:0000/ffff/0000\x07', 'light'],
+        ['\x1b]11;rgb:0000/0000/ffff\x07', 'dark'],
+        ['noise\x1b]11;rgb:ffff/ffff/ffff\x07', 'light'],
+      ];
+
+      for (const [reply, expected] of cases) {
+        expect(parseOsc11Reply(reply)).toBe(expected);
+      }
+      console.log('✓ OSC 11 replies parsed');
+    });
+
+    it('should ignore garbage and other OSC replies', () => {
+      for (const reply of [
+        '',
+        'garbage',
+        '\x1b]10;rgb:ffff/ffff/ffff\x07',
+        '\x1b]11;rgb:ffff/ffff\x07',
+        '\x1b]11;#ffffff\x07',
+        '\x1b]11;rgb:gggg/ffff/ffff\x07',
+      ]) {
+        expect(parseOsc11Reply(reply)).toBeNull();
+      }
+      console.log('✓ Garbage replies ignored');
+    });
+  });
+
+  describe('resolveBackground', () => {
+    it('should prefer style.background, then COLORFGBG, then dark', async () => {
+      expect(resolveBackground('light', { COLORFGBG: '15;0' })).toEqual({
+        background: 'light',
+        reason: 'style.background = "light"',
+      });
+      expect(resolveBackground('dark', { COLORFGBG: '0;15' })).toEqual({
+        background: 'dark',
+        reason: 'style.background = "dark"',
+      });
+      expect(resolveBackground('auto', { COLORFGBG: '0;15' })).toEqual({
+        background: 'light',
+        reason: 'COLORFGBG=0;15',
+      });
+      expect(resolveBackground('auto', { COLORFGBG: 'bogus' })).toEqual({
+        background: 'dark',
+        reason: 'no background hint, assuming dark',
+      });
+      expect(resolveBackground(undefined, {})).toEqual({
+        background: 'dark',
+        reason: 'no background hint, assuming dark',
+      });
+
+      // 非TTY时不查询终端 | The terminal is not queried without a TTY
+      expect(await detectBackground('auto', { queryTerminal: true, env: {} })).toEqual({
+        background: 'dark',
+        reason: 'no background hint, assuming dark',
+      });
+      console.log('✓ Background precedence applied');
+    });
+  });
+
+  describe('TerminalRenderer', () => {
+    const capabilities: TerminalCapabilities = {
+      colors: true,
+      emoji: false,
+      nerdFont: false,
+      colorDepth: 'truecolor',
+    };
+    const configWith = (theme: string, style: Record<string, unknown>): Config =>
+      ConfigSchema.parse({ theme, style });
+    const hex = (color: string) => hexToAnsi(color, 'truecolor', 'fg');
+
+    it('should pick the light variant of builtin themes', () => {
+      const classicLight = BUILTIN_THEMES.classic?.palettes?.light ?? {};
+      const classic = new TerminalRenderer(
+        capabilities,
+        configWith('classic', { background: 'light' })
+      );
+      expect(classic.getBackground()).toBe('light');
+      expect(classic.getColor('white')).toBe(hex(classicLight.white as string));
+      expect(classic.getColor('yellow')).toBe(hex(classicLight.yellow as string));
+      expect(classic.getColor('red')).toBe('\x1b[31m');
+
+      const capsuleLight = BUILTIN_THEMES.capsule?.palettes?.light ?? {};
+      const capsule = new TerminalRenderer(
+        { ...capabilities, background: 'light' },
+        configWith('capsule', { background: 'dark' })
+      );
+      expect(capsule.getBackground()).toBe('light');
+      expect(capsule.getBackgroundColor('blue')).toBe(
+        hexToAnsi(capsuleLight.blue as string, 'truecolor', 'bg')
+      );
+
+      const dark = new TerminalRenderer(
+        capabilities,
+        configWith('classic', { background: 'dark' })
+      );
+      expect(dark.getBackground()).toBe('dark');
+      expect(dark.getColor('white')).toBe('\x1b[37m');
+      console.log('✓ Light theme variants picked');
+    });
+
+    it('should let an explicit style.palette override the light variant', () => {
+      const renderer = new TerminalRenderer(
+        capabilities,
+        configWith('classic', { background: 'light', palette: 'nord' })
+      );
+
+      expect(renderer.getBackground()).toBe('light');
+      expect(renderer.getColor('white')).toBe(hex('#e5e9f0'));
+      expect(renderer.getColor('yellow')).toBe(hex('#ebcb8b'));
+      console.log('✓ style.palette overrides the light variant');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * 终端色深单元测试 | Terminal color depth unit tests
+ *
+ * 验证色深检测的优先级和依据，以及RGB到256色和16色的降级
+ * Verifies color depth detection order and reasons, and RGB degradation to 256 and 16 colors
+ */
+
+import { describe, expect, it } from 'vitest';
+import { detectColorDepth } from '../../../src/terminal/detector.js';
+import {
+  type ColorDepth,
+  type ColorLayer,
+  hexToAnsi,
+  rgbToAnsi,
+} from '../../../src/terminal/palettes.js';
+
+type Rgb = [number, number, number];
+
+describe('Terminal Color Depth', () => {
+  describe('detectColorDepth', () => {
+    it('should detect true color from COLORTERM, TERM, TERM_PROGRAM and signatures', () => {
+      const cases: Array<[NodeJS.ProcessEnv, string]> = [
+        [{ COLORTERM: 'truecolor', TERM: 'xterm' }, 'COLORTERM=truecolor'],
+        [{ COLORTERM: '24bit' }, 'COLORTERM=24bit'],
+        [{ TERM: 'xterm-kitty' }, 'TERM=xterm-kitty'],
+        [{ TERM: 'xterm-ghostty' }, 'TERM=xterm-ghostty'],
+        [{ TERM: 'alacritty' }, 'TERM=alacritty'],
+        [{ TERM: 'xterm-direct' }, 'TERM=xterm-direct'],
+        [{ TERM_PROGRAM: 'ghostty', TERM: 'xterm-256color' }, 'Ghostty (TERM_PROGRAM=ghostty)'],
+        [{ TERM_PROGRAM: 'WezTerm' }, 'WezTerm (TERM_PROGRAM=WezTerm)'],
+        [{ TERM_PROGRAM: 'iTerm.app' }, 'iTerm2 (TERM_PROGRAM=iTerm.app)'],
+        [{ WT_SESSION: 'abc' }, 'Windows Terminal (WT_SESSION=abc)'],
+        [{ KITTY_WINDOW_ID: '1', TERM: 'xterm-256color' }, 'kitty (KITTY_WINDOW_ID=1)'],
+        [{ ALACRITTY_WINDOW_ID: '2' }, 'Alacritty (ALACRITTY_WINDOW_ID=2)'],
+        [{ KONSOLE_VERSION: '230804' }, 'Konsole (KONSOLE_VERSION=230804)'],
+        [{ VTE_VERSION: '3600' }, 'VTE (VTE_VERSION=3600)'],
+      ];
+
+      for (const [env, reason] of cases) {
+        expect(detectColorDepth(true, env)).toEqual({ depth: 'truecolor', reason });
+      }
+      console.log('✓ True color terminals detected');
+    });
+
+    it('should fall back to 256 and 16 colors', () => {
+      const cases: Array<[NodeJS.ProcessEnv, ColorDepth, string]> = [
+        [
+          { TERM_PROGRAM: 'Apple_Terminal', TERM: 'xterm-256color' },
+          '256',
+          'Terminal.app (TERM_PROGRAM=Apple_Terminal)',
+        ],
+        [{ TERM: 'screen-256color' }, '256', 'TERM=screen-256color'],
+        [{ ConEmuPID: '42' }, '256', 'ConEmu (ConEmuPID=42)'],
+        [
+          { VTE_VERSION: '3405', TERM: 'xterm' },
+          '16',
+          'no 256-color or true color hint in TERM=xterm',
+        ],
+        [{ KITTY_WINDOW_ID: '', COLORTERM: 'yes' }, '16', 'TERM not set'],
+        [{}, '16', 'TERM not set'],
+      ];
+
+      for (const [env, depth, reason] of cases) {
+        expect(detectColorDepth(true, env)).toEqual({ depth, reason });
+      }
+      console.log('✓ 256 and 16 color fallbacks detected');
+    });
+
+    it('should report no colors when colors are disabled', () => {
+      expect(detectColorDepth(false, { COLORTERM: 'truecolor' })).toEqual({
+        depth: 'none',
+        reason: 'colors disabled',
+      });
+      console.log('✓ Disabled colors reported');
+    });
+  });
+
+  describe('rgbToAnsi', () => {
+    it('should map colors to the 256-color cube and gray ramp', () => {
+      const cases: Array<[Rgb, number]> = [
+        [[0, 0, 0], 16],
+        [[255, 255, 255], 231],
+        [[128, 128, 128], 244],
+        [[255, 0, 0], 196],
+        [[0, 255, 0], 46],
+        [[0, 0, 255], 21],
+        [[255, 135, 0], 214],
+      ];
+
+      for (const [rgb, index] of cases) {
+        expect(rgbToAnsi(rgb, '256', 'fg')).toBe(`\x1b[38;5;${index}m`);
+        expect(rgbToAnsi(rgb, '256', 'bg')).toBe(`\x1b[48;5;${index}m`);
+      }
+      console.log('✓ 256-color indexes mapped');
+    });
+
+    it('should map colors to the nearest basic ANSI color by hue and value', () => {
+      const cases: Array<[Rgb, number]> = [
+        [[255, 0, 0], 91],
+        [[128, 0, 0], 31],
+        [[0, 160, 0], 32],
+        [[0, 0, 255], 94],
+        [[255, 255, 0], 93],
+        [[0, 255, 255], 96],
+        [[255, 0, 255], 95],
+        // 低饱和度映射为灰阶 | Low saturation maps to grays
+        [[20, 20, 20], 30],
+        [[100, 80, 80], 90],
+        [[200, 200, 200], 37],
+        [[240, 240, 240], 97],
+      ];
+
+      for (const [rgb, code] of cases) {
+        expect(rgbToAnsi(rgb, '16', 'fg')).toBe(`\x1b[${code}m`);
+        expect(rgbToAnsi(rgb, '16', 'bg')).toBe(`\x1b[${code + 10}m`);
+      }
+      console.log('✓ 16-color codes mapped');
+    });
+
+    it('should emit 24-bit sequences, nothing without colors, and ignore invalid hex', () => {
+      const layers: ColorLayer[] = ['fg', 'bg'];
+      expect(layers.map((layer) => rgbToAnsi([1, 2, 3], 'truecolor', layer))).toEqual([
+        '\x1b[38;2;1;2;3m',
+        '\x1b[48;2;1;2;3m',
+      ]);
+      expect(rgbToAnsi([1, 2, 3], 'none', 'fg')).toBe('');
+      expect(hexToAnsi('#ff8700', '256', 'fg')).toBe('\x1b[38;5;214m');
+      expect(hexToAnsi('orange', '256', 'fg')).toBe('');
+      console.log('✓ True color and invalid input handled');
+    });
+  });
+});
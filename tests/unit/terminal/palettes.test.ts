@@ -0,0 +1,206 @@
+/**
+ * 调色板单元测试 | Palette unit tests
+ *
+ * 验证调色板颜色解析、style.palette对标准颜色名的重映射，以及组件和小组件按色深降级十六进制和调色板颜色
+ * Verifies palette color resolution, style.palette remapping standard color names, and components and
+ * widgets degrading hex and palette colors to the color depth
+ */
+
+import { describe, expect, it } from 'vitest';
+import { BaseComponent } from '../../../src/components/base.js';
+import { BaseWidget } from '../../../src/components/widgets/base-widget.js';
+import { type Config, ConfigSchema, type RenderContext } from '../../../src/config/schema.js';
+import { TerminalRenderer } from '../../../src/terminal/colors.js';
+import {
+  type ColorDepth,
+  isPaletteColorReference,
+  resolveColorCode,
+  resolveColorHex,
+} from '../../../src/terminal/palettes.js';
+
+/** 各色深下的前景色序列 | Foreground sequences per color depth */
+const DEGRADED: Record<string, Record<Exclude<ColorDepth, 'none'>, string>> = {
+  // #88c0d0
+  'nord.nord8': {
+    truecolor: '\x1b[38;2;136;192;208m',
+    '256': '\x1b[38;5;152m',
+    '16': '\x1b[96m',
+  },
+  // #cba6f7
+  'catppuccin.mauve': {
+    truecolor: '\x1b[38;2;203;166;247m',
+    '256': '\x1b[38;5;183m',
+    '16': '\x1b[94m',
+  },
+  '#ff8700': {
+    truecolor: '\x1b[38;2;255;135;0m',
+    '256': '\x1b[38;5;214m',
+    '16': '\x1b[93m',
+  },
+};
+
+const DEPTHS = ['truecolor', '256', '16'] as const;
+
+/**
+ * 暴露getColorCode的组件 | Component exposing getColorCode
+ */
+class ProbeComponent extends BaseComponent {
+  protected renderContent(): string {
+    return '';
+  }
+
+  colorCode(colorName: string): string {
+    return this.getColorCode(colorName);
+  }
+}
+
+/**
+ * 只渲染模板的小组件 | Widget that only renders its template
+ */
+class TemplateWidget extends BaseWidget {
+  protected async renderContent(): Promise<string | null> {
+    return this.renderTemplate(this.config.template ?? '', { value: 1 });
+  }
+}
+
+const configWith = (style: Record<string, unknown> = {}): Config => ConfigSchema.parse({ style });
+
+describe('Palettes', () => {
+  describe('resolveColorHex', () => {
+    it('should resolve palette references and hex colors', () => {
+      expect(resolveColorHex('nord.nord8')).toBe('#88c0d0');
+      expect(resolveColorHex('catppuccin.mauve')).toBe('#cba6f7');
+      expect(resolveColorHex('dracula.red')).toBe('#ff5555');
+      expect(resolveColorHex('#A6E3A1')).toBe('#a6e3a1');
+      expect(resolveColorHex('nord.mauve')).toBeNull();
+      expect(resolveColorHex('red')).toBeNull();
+      console.log('✓ Palette references and hex colors resolved');
+    });
+
+    it('should map standard color names through the selected palette', () => {
+      expect(resolveColorHex('red', 'nord')).toBe('#bf616a');
+      expect(resolveColorHex('red', 'catppuccin')).toBe('#f38ba8');
+      expect(resolveColorHex('nord8', 'nord')).toBe('#88c0d0');
+      // 引用优先于所选调色板 | References win over the selected palette
+      expect(resolveColorHex('catppuccin.red', 'nord')).toBe('#f38ba8');
+      expect(resolveColorHex('constructor', 'nord')).toBeNull();
+      expect(resolveColorHex('red', 'unknown')).toBeNull();
+      console.log('✓ Standard names mapped through the palette');
+    });
+
+    it('should only accept known palette.color references', () => {
+      expect(isPaletteColorReference('nord.nord8')).toBe(true);
+      expect(isPaletteColorReference('nord')).toBe(false);
+      expect(isPaletteColorReference('nord.nord8.x')).toBe(false);
+      expect(isPaletteColorReference('acme.red')).toBe(false);
+      expect(isPaletteColorReference('nord.constructor')).toBe(false);
+      console.log('✓ Palette references validated');
+    });
+  });
+
+  describe('resolveColorCode', () => {
+    it('should degrade palette and hex colors to each depth', () => {
+      for (const [color, codes] of Object.entries(DEGRADED)) {
+        for (const depth of DEPTHS) {
+          expect(resolveColorCode(color, 'fg', depth)).toBe(codes[depth]);
+        }
+      }
+      expect(resolveColorCode('nord.nord8', 'bg', '256')).toBe('\x1b[48;5;152m');
+      expect(resolveColorCode('nord.nord8', 'fg', 'none')).toBe('');
+      expect(resolveColorCode('red', 'fg', 'truecolor')).toBe('');
+      console.log('✓ Extended colors degraded');
+    });
+  });
+
+  describe('TerminalRenderer style.palette', () => {
+    it('should remap standard color names to the palette', () => {
+      const capabilities = { colors: true, emoji: false, nerdFont: false };
+      const nord = new TerminalRenderer(
+        { ...capabilities, colorDepth: 'truecolor' },
+        configWith({ palette: 'nord' })
+      );
+
+      expect(nord.getColor('red')).toBe('\x1b[38;2;191;97;106m');
+      expect(nord.getForegroundColor('red')).toBe('\x1b[38;2;191;97;106m');
+      expect(nord.getBackgroundColor('red')).toBe('\x1b[48;2;191;97;106m');
+      expect(nord.getColor('nord8')).toBe('\x1b[38;2;136;192;208m');
+      expect(nord.getColor('catppuccin.mauve')).toBe(DEGRADED['catppuccin.mauve']?.truecolor);
+      expect(nord.getColor('reset')).toBe('\x1b[0m');
+
+      const degraded = new TerminalRenderer(
+        { ...capabilities, colorDepth: '256' },
+        configWith({ palette: 'nord' })
+      );
+      expect(degraded.getColor('red')).toBe('\x1b[38;5;174m');
+
+      const plain = new TerminalRenderer(
+        { ...capabilities, colorDepth: 'truecolor' },
+        configWith()
+      );
+      expect(plain.getColor('red')).toBe('\x1b[31m');
+      expect(plain.getColor('nord8')).toBe('');
+
+      const disabled = new TerminalRenderer(
+        { ...capabilities, colors: false },
+        configWith({ palette: 'nord' })
+      );
+      expect(disabled.getColor('red')).toBe('');
+      console.log('✓ Standard names remapped by style.palette');
+    });
+  });
+
+  describe('component and widget colors', () => {
+    it('should emit degraded codes from BaseComponent.getColorCode', () => {
+      for (const depth of DEPTHS) {
+        const capabilities = { colors: true, emoji: false, nerdFont: false, colorDepth: depth };
+        const config = configWith({ palette: 'nord' });
+        const terminal = new TerminalRenderer(capabilities, config);
+        const component = new ProbeComponent('probe', {
+          enabled: true,
+          icon_color: 'white',
+          text_color: 'white',
+          emoji_icon: '',
+        });
+        component.render({
+          inputData: {},
+          config,
+          capabilities,
+          colors: terminal.getColors(),
+          icons: terminal.getIcons(),
+        } as unknown as RenderContext);
+
+        for (const [color, codes] of Object.entries(DEGRADED)) {
+          expect(component.colorCode(color)).toBe(codes[depth]);
+        }
+        expect(component.colorCode('red')).toBe(terminal.getColor('red'));
+      }
+      console.log('✓ Component colors degraded');
+    });
+
+    it('should emit degraded codes from BaseWidget.applyColor', async () => {
+      for (const depth of DEPTHS) {
+        const widget = new TemplateWidget(
+          {
+            enabled: true,
+            type: 'static',
+            row: 1,
+            col: 0,
+            nerd_icon: '',
+            emoji_icon: '',
+            text_icon: '',
+            template: '{#ff8700:hot} {nord.nord8:cool} {catppuccin.mauve:soft} {value}',
+          },
+          { colors: true, emoji: false, nerdFont: false, colorDepth: depth }
+        );
+
+        const reset = '\x1b[0m';
+        expect((await widget.render()).content).toBe(
+          `${DEGRADED['#ff8700']?.[depth]}hot${reset} ` +
+            `${DEGRADED['nord.nord8']?.[depth]}cool${reset} ` +
+            `${DEGRADED['catppuccin.mauve']?.[depth]}soft${reset} 1`
+        );
+      }
+      console.log('✓ Widget colors degraded');
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * 用户主题单元测试 | User theme unit tests
+ *
+ * 验证主题文件缓存、基础渲染器解析、无效文件、主题名称校验以及CustomRenderer布局
+ * Verifies theme file caching, base renderer resolution, invalid files, theme name validation and CustomRenderer layouts
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { type Config, ConfigSchema, type CustomTheme } from '../../../src/config/schema.js';
+import { TerminalRenderer } from '../../../src/terminal/colors.js';
+import {
+  getCustomThemeFeatures,
+  listCustomThemes,
+  loadCustomTheme,
+  resolveBaseTheme,
+  ThemeFileError,
+  themeExists,
+} from '../../../src/themes/custom.js';
+import { getCustomThemesDir } from '../../../src/themes/paths.js';
+import { CustomRenderer } from '../../../src/themes/renderers/custom.js';
+
+describe('User Themes', () => {
+  const originalHome = process.env.HOME;
+  let tempDir: string;
+  let themesDir: string;
+
+  const writeTheme = (name: string, content: string, mtime?: Date) => {
+    const file = path.join(themesDir, `${name}.toml`);
+    fs.writeFileSync(file, content);
+    if (mtime) {
+      fs.utimesSync(file, mtime, mtime);
+    }
+    return file;
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-themes-'));
+    process.env.HOME = tempDir;
+    themesDir = getCustomThemesDir();
+    fs.mkdirSync(themesDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    process.env.HOME = originalHome;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('loadCustomTheme', () => {
+    it('should reuse the parsed theme until the file mtime changes', () => {
+      const mtime = new Date(2026, 0, 1);
+      const file = writeTheme('ocean', 'description = "first"', mtime);
+      expect(loadCustomTheme('ocean')?.description).toBe('first');
+
+      // 内容变化但mtime不变时仍使用缓存 | Same mtime keeps the cached theme even if the content changed
+      fs.writeFileSync(file, 'description = "second"');
+      fs.utimesSync(file, mtime, mtime);
+      expect(loadCustomTheme('ocean')?.description).toBe('first');
+
+      const later = new Date(2026, 0, 2);
+      fs.utimesSync(file, later, later);
+      expect(loadCustomTheme('ocean')?.description).toBe('second');
+      console.log('✓ Theme cached by mtime');
+    });
+
+    it('should resolve the base renderer and inherit its features', () => {
+      writeTheme('plain', 'description = "no base"');
+      writeTheme('arrows', 'base = "powerline"\n[features]\nenable_gradient = true');
+
+      expect(loadCustomTheme('plain')?.base).toBe('classic');
+      expect(resolveBaseTheme('arrows')).toBe('powerline');
+      expect(resolveBaseTheme('capsule')).toBe('capsule');
+      expect(resolveBaseTheme('missing')).toBe('classic');
+      expect(getCustomThemeFeatures(loadCustomTheme('arrows') as CustomTheme)).toMatchObject({
+        enable_gradient: true,
+        fine_progress: true,
+      });
+      console.log('✓ Base renderer resolved');
+    });
+
+    it('should reject invalid TOML and invalid fields', () => {
+      writeTheme('broken', 'base = ');
+      writeTheme('wrong', 'base = "neon"');
+
+      expect(() => loadCustomTheme('broken')).toThrow(ThemeFileError);
+      expect(() => loadCustomTheme('wrong')).toThrow(/Invalid theme file: base/);
+      expect(resolveBaseTheme('broken')).toBe('classic');
+      expect(themeExists('broken')).toBe(false);
+      console.log('✓ Invalid theme files rejected');
+    });
+
+    it('should ignore missing files and unsafe names', () => {
+      writeTheme('classic', 'base = "capsule"');
+      writeTheme('ocean', '');
+
+      expect(loadCustomTheme('missing')).toBeNull();
+      expect(loadCustomTheme('../ocean')).toBeNull();
+      expect(listCustomThemes()).toEqual(['ocean']);
+      console.log('✓ Missing and unsafe names ignored');
+    });
+  });
+
+  describe('ConfigSchema theme', () => {
+    it('should accept builtin themes and theme files only', () => {
+      writeTheme('ocean', 'base = "powerline"');
+
+      expect(ConfigSchema.parse({}).theme).toBe('classic');
+      expect(ConfigSchema.parse({ theme: 'capsule' }).theme).toBe('capsule');
+      expect(ConfigSchema.parse({ theme: 'ocean' }).theme).toBe('ocean');
+
+      const result = ConfigSchema.safeParse({ theme: 'oceann' });
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0]).toMatchObject({ path: ['theme'] });
+      expect(result.error?.issues[0]?.message).toContain('Unknown theme "oceann"');
+      console.log('✓ Theme names validated');
+    });
+  });
+
+  describe('CustomRenderer', () => {
+    const config = { style: {} } as unknown as Config;
+    const theme = (overrides: Partial<CustomTheme>): CustomTheme => ({
+      base: 'classic',
+      ...overrides,
+    });
+
+    it('should join classic components with the theme separators', () => {
+      const renderer = new CustomRenderer(
+        theme({ separators: { separator: '/', before: '', after: '' } })
+      );
+
+      expect(
+        renderer.renderStatusline(['>', 'proj', ' ', 'model'], [], config, [
+          'fake',
+          'project',
+          'branch',
+          'model',
+        ])
+      ).toBe('>proj/model');
+      console.log('✓ Classic layout joined');
+    });
+
+    it('should wrap powerline and capsule segments in caps', () => {
+      const names = ['fake', 'project', 'model'];
+      const components = ['>', 'proj', 'model'];
+      const powerline = new CustomRenderer(
+        theme({
+          base: 'powerline',
+          separators: { separator: '|' },
+          caps: { left: '[', right: ']' },
+        })
+      );
+      const capsule = new CustomRenderer(
+        theme({ base: 'capsule', separators: { separator: '-' }, caps: { left: '(', right: ')' } })
+      );
+
+      expect(powerline.renderStatusline(components, [], config, names)).toBe('>[ proj | model ]');
+      expect(capsule.renderStatusline(components, [], config, names)).toBe('>-( proj )-( model )');
+      console.log('✓ Powerline and capsule layouts wrapped');
+    });
+
+    it('should recolor components from the palette with a default fallback', () => {
+      const terminal = new TerminalRenderer(
+        { colors: true, emoji: false, nerdFont: false, colorDepth: '16' },
+        ConfigSchema.parse({})
+      );
+      const renderer = new CustomRenderer(
+        theme({
+          base: 'capsule',
+          caps: { left: '', right: '' },
+          palette: { default: { bg: 'blue' }, model: { fg: 'red', bg: 'green' } },
+        }),
+        terminal
+      );
+
+      const output = renderer.renderStatusline(['proj', 'model'], ['yellow', 'yellow'], config, [
+        'project',
+        'model',
+      ]);
+      expect(output).toContain(
+        `${terminal.getBackgroundColor('blue')}${terminal.getForegroundColor('white')} proj `
+      );
+      expect(output).toContain(
+        `${terminal.getBackgroundColor('green')}${terminal.getForegroundColor('red')} model `
+      );
+      expect(output).not.toContain(terminal.getBackgroundColor('yellow'));
+      console.log('✓ Palette colors applied');
+    });
+  });
+});
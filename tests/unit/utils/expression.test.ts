@@ -0,0 +1,100 @@
+/**
+ * 条件表达式单元测试 | Condition expression unit tests
+ *
+ * 验证运算符优先级、逻辑运算、比较、字符串、未知变量、负数和错误输入
+ * Verifies precedence, logic, comparisons, strings, unknown identifiers, negative numbers and malformed input
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  collectExpressionRoots,
+  ExpressionError,
+  evaluateCondition,
+  parseExpression,
+} from '../../../src/utils/expression.js';
+
+const scope = {
+  git: { dirty: true, ahead: 0, branch: 'feature/login' },
+  tokens: { percentage: 82.5 },
+  cost: { usd: 1.25, delta: -0.5 },
+  env: { MY_VAR: 'on', EMPTY: '' },
+  list: [10, 20],
+};
+
+describe('Condition Expressions', () => {
+  it('should bind && tighter than || and ! tighter than &&', () => {
+    expect(evaluateCondition('true || false && false', scope)).toBe(true);
+    expect(evaluateCondition('(true || false) && false', scope)).toBe(false);
+    expect(evaluateCondition('!false && false', scope)).toBe(false);
+    expect(evaluateCondition('not git.dirty or git.ahead == 0', scope)).toBe(true);
+    expect(evaluateCondition('git.dirty and not (git.ahead > 0)', scope)).toBe(true);
+    expect(evaluateCondition('!!git.dirty', scope)).toBe(true);
+    console.log('✓ Operator precedence respected');
+  });
+
+  it('should compare numbers, numeric strings and strings', () => {
+    expect(evaluateCondition('tokens.percentage >= 80', scope)).toBe(true);
+    expect(evaluateCondition('tokens.percentage < 80', scope)).toBe(false);
+    expect(evaluateCondition('cost.usd != 0', scope)).toBe(true);
+    expect(evaluateCondition('"10" == 10', scope)).toBe(true);
+    expect(evaluateCondition('git.branch == "feature/login"', scope)).toBe(true);
+    expect(evaluateCondition("git.branch > 'a'", scope)).toBe(true);
+    expect(evaluateCondition('git.branch > 1', scope)).toBe(false);
+    expect(evaluateCondition('git.branch =~ "^feature/"', scope)).toBe(true);
+    expect(evaluateCondition('git.branch =~ "("', scope)).toBe(false);
+    console.log('✓ Comparisons evaluated');
+  });
+
+  it('should read strings with escapes and bracket paths', () => {
+    expect(evaluateCondition('env["MY_VAR"] == \'on\'', scope)).toBe(true);
+    expect(evaluateCondition('"it\\"s" == \'it"s\'', scope)).toBe(true);
+    expect(evaluateCondition('list[1] == 20', scope)).toBe(true);
+    expect(evaluateCondition('env.EMPTY', scope)).toBe(false);
+    console.log('✓ Strings and bracket paths read');
+  });
+
+  it('should treat unknown identifiers as undefined', () => {
+    expect(evaluateCondition('missing', scope)).toBe(false);
+    expect(evaluateCondition('missing.deep.path == null', scope)).toBe(true);
+    expect(evaluateCondition('git.constructor', scope)).toBe(false);
+    expect(evaluateCondition('missing > 0', scope)).toBe(false);
+    console.log('✓ Unknown identifiers resolved to undefined');
+  });
+
+  it('should parse negative number literals', () => {
+    expect(evaluateCondition('cost.delta < 0', scope)).toBe(true);
+    expect(evaluateCondition('cost.delta == -0.5', scope)).toBe(true);
+    expect(evaluateCondition('-1 < git.ahead', scope)).toBe(true);
+    expect(evaluateCondition('(-2) < -1', scope)).toBe(true);
+    expect(parseExpression('git.ahead >= -3')).toMatchObject({ right: { value: -3 } });
+    console.log('✓ Negative literals parsed');
+  });
+
+  it('should reject malformed input with positions', () => {
+    const cases: Array<[string, RegExp]> = [
+      ['', /Empty expression/],
+      ['git.dirty &&', /Unexpected end of expression/],
+      ['(git.dirty', /Unexpected end of expression/],
+      ['git.dirty)', /Unexpected "\)" at position 9/],
+      ['"open', /Unterminated string at position 0/],
+      ['git.', /Unexpected end of expression/],
+      ['git.1', /Expected property name after "\." at position 4/],
+      ['git.ahead # 1', /Unexpected character "#" at position 10/],
+      ['cost.usd -1', /Unexpected "-" at position 9 \(only negative number literals/],
+      ['git.ahead == == 1', /Unexpected "==" at position 13/],
+    ];
+
+    for (const [source, message] of cases) {
+      expect(() => parseExpression(source)).toThrow(ExpressionError);
+      expect(() => parseExpression(source)).toThrow(message);
+    }
+    console.log('✓ Malformed input rejected');
+  });
+
+  it('should collect referenced roots', () => {
+    expect(
+      Array.from(collectExpressionRoots(parseExpression('git.dirty && (env.CI || !tokens)')))
+    ).toEqual(['git', 'env', 'tokens']);
+    console.log('✓ Expression roots collected');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * JSONPath子集单元测试 | JSONPath subset unit tests
+ *
+ * 验证索引、负索引、通配、过滤、length()、引号键名、数字开头的键名、parseJsonStrings和错误输入
+ * Verifies indexes, negative indexes, wildcards, filters, length(), quoted keys, digit-leading keys,
+ * parseJsonStrings and malformed input
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  evaluateJsonPath,
+  getJsonPathFieldName,
+  isJsonPath,
+  JsonPathError,
+  parseJsonPath,
+} from '../../../src/utils/json-path.js';
+
+const data = {
+  items: [
+    { name: 'a', price: 5, active: true, tag: 'old' },
+    { name: 'b', price: 15, active: false, tag: 'new' },
+    { name: 'c', price: 25, active: true, tag: 'new' },
+  ],
+  prices: { x: 1, y: 2 },
+  'odd-key': 'odd',
+  'a.b': 'dotted',
+  usage: { '7d': 'seven', '5h_cost': 1.5 },
+  nested: '{"inner":{"v":3}}',
+};
+
+describe('JSONPath', () => {
+  it('should read properties and indexes with or without the root', () => {
+    expect(evaluateJsonPath(data, '$.items[0].name')).toBe('a');
+    expect(evaluateJsonPath(data, 'items.1.name')).toBe('b');
+    expect(evaluateJsonPath(data, 'items[-1].name')).toBe('c');
+    expect(evaluateJsonPath(data, 'items[-3].name')).toBe('a');
+    expect(evaluateJsonPath(data, 'items[3]')).toBeUndefined();
+    expect(evaluateJsonPath(data, 'items[-4]')).toBeUndefined();
+    expect(evaluateJsonPath(data, '$')).toBe(data);
+    console.log('✓ Properties and indexes read');
+  });
+
+  it('should read keys that start with a digit', () => {
+    expect(evaluateJsonPath(data, 'usage.7d')).toBe('seven');
+    expect(evaluateJsonPath(data, '$.usage.5h_cost')).toBe(1.5);
+    expect(evaluateJsonPath({ '7d': 7 }, '7d')).toBe(7);
+    // 连字符仍是数学运算符 | Hyphens are still math operators
+    expect(isJsonPath('used-limit')).toBe(false);
+    console.log('✓ Digit-leading keys read');
+  });
+
+  it('should read quoted keys', () => {
+    expect(evaluateJsonPath(data, "$['odd-key']")).toBe('odd');
+    expect(evaluateJsonPath(data, '$["a.b"]')).toBe('dotted');
+    expect(evaluateJsonPath({ 'it"s': 1 }, '$["it\\"s"]')).toBe(1);
+    expect(evaluateJsonPath(data, "usage['7d']")).toBe('seven');
+    console.log('✓ Quoted keys read');
+  });
+
+  it('should collect wildcard and filter matches into arrays', () => {
+    expect(evaluateJsonPath(data, '$.items[*].name')).toEqual(['a', 'b', 'c']);
+    expect(evaluateJsonPath(data, '$.prices.*')).toEqual([1, 2]);
+    expect(evaluateJsonPath(data, '$.missing[*]')).toEqual([]);
+    expect(evaluateJsonPath(data, '$.items[?(@.active)].name')).toEqual(['a', 'c']);
+    expect(evaluateJsonPath(data, '$.items[?(@.price > 10 && @.tag == "new")].name')).toEqual([
+      'b',
+      'c',
+    ]);
+    expect(evaluateJsonPath(data, '$.items[?(@.price < -1)]')).toEqual([]);
+    console.log('✓ Wildcards and filters matched');
+  });
+
+  it('should compute length() of arrays, objects, strings and matches', () => {
+    expect(evaluateJsonPath(data, '$.items.length()')).toBe(3);
+    expect(evaluateJsonPath(data, 'prices.length()')).toBe(2);
+    expect(evaluateJsonPath(data, "$['odd-key'].length()")).toBe(3);
+    expect(evaluateJsonPath(data, '$.items[?(@.active)].length()')).toBe(2);
+    expect(evaluateJsonPath(data, '$.items[0].price.length()')).toBeUndefined();
+    console.log('✓ length() computed');
+  });
+
+  it('should parse JSON strings only when asked and read own properties only', () => {
+    expect(evaluateJsonPath(data, 'nested.inner.v')).toBeUndefined();
+    expect(evaluateJsonPath(data, 'nested.inner.v', { parseJsonStrings: true })).toBe(3);
+    expect(evaluateJsonPath({ bad: '{oops' }, 'bad.x', { parseJsonStrings: true })).toBeUndefined();
+    expect(evaluateJsonPath(data, 'items.constructor')).toBeUndefined();
+    expect(evaluateJsonPath(data, '$.prices.__proto__')).toBeUndefined();
+    console.log('✓ JSON strings and own properties handled');
+  });
+
+  it('should reject malformed paths with positions', () => {
+    const cases: Array<[string, RegExp]> = [
+      ['$.', /Expected property name after "\." at position 2/],
+      ['$.items[', /Expected index at position 7/],
+      ['$.items[abc]', /Expected index/],
+      ["$['open", /Unterminated property name/],
+      ['$.items[?(@.active]', /Unterminated filter/],
+      ['$.items[?(@.a ==)]', /Invalid filter/],
+      ['$.items.length().name', /length\(\) must be the last segment/],
+      ['items name', /Unexpected " " at position 5/],
+    ];
+
+    for (const [path, message] of cases) {
+      expect(() => parseJsonPath(path)).toThrow(JsonPathError);
+      expect(() => parseJsonPath(path)).toThrow(message);
+      expect(isJsonPath(path)).toBe(false);
+    }
+    console.log('✓ Malformed paths rejected');
+  });
+
+  it('should infer the field name of a path', () => {
+    expect(getJsonPathFieldName('$.user.name')).toBe('name');
+    expect(getJsonPathFieldName('$.items[2]')).toBe('2');
+    expect(getJsonPathFieldName('items[*]')).toBe('items');
+    expect(getJsonPathFieldName('items.length()')).toBe('length');
+    expect(getJsonPathFieldName('$')).toBe('value');
+    expect(getJsonPathFieldName('bad[')).toBe('value');
+    console.log('✓ Field names inferred');
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * 相对时间单元测试 | Relative time unit tests
+ *
+ * 验证状态栏使用的紧凑格式(如 2h ago)各区间的取整，以及默认的中文格式
+ * Verifies rounding in every range of the compact statusline form (e.g. 2h ago) and the default
+ * Chinese form
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getRelativeTime } from '../../../src/utils/index.js';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+const ago = (seconds: number) => new Date(NOW.getTime() - seconds * 1000);
+
+describe('getRelativeTime', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should render compact ages in each unit', () => {
+    const minute = 60;
+    const hour = 60 * minute;
+    const day = 24 * hour;
+    const cases: Array<[number, string]> = [
+      [0, '0s ago'],
+      [59, '59s ago'],
+      [minute, '1m ago'],
+      [59 * minute + 59, '59m ago'],
+      [2 * hour, '2h ago'],
+      [23 * hour + 59 * minute, '23h ago'],
+      [day, '1d ago'],
+      [6 * day, '6d ago'],
+      [7 * day, '1w ago'],
+      [29 * day, '4w ago'],
+      [30 * day, '1mo ago'],
+      [364 * day, '12mo ago'],
+      [365 * day, '1y ago'],
+      [3 * 365 * day, '3y ago'],
+    ];
+
+    for (const [seconds, expected] of cases) {
+      expect(getRelativeTime(ago(seconds), true)).toBe(expected);
+    }
+    console.log('✓ Compact ages rendered');
+  });
+
+  it('should clamp future times and accept ISO strings', () => {
+    expect(getRelativeTime(new Date(NOW.getTime() + 5000), true)).toBe('0s ago');
+    expect(getRelativeTime('2026-01-01T09:30:00Z', true)).toBe('2h ago');
+    console.log('✓ Future times clamped');
+  });
+
+  it('should keep the default Chinese form', () => {
+    expect(getRelativeTime(ago(30))).toBe('30秒前');
+    expect(getRelativeTime(ago(5 * 60))).toBe('5分钟前');
+    expect(getRelativeTime(ago(3 * 3600))).toBe('3小时前');
+    expect(getRelativeTime(ago(2 * 86400))).toBe('2天前');
+    console.log('✓ Default form kept');
+  });
+});
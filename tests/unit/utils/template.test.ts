@@ -0,0 +1,180 @@
+/**
+ * 模板语言测试 | Template language tests
+ *
+ * 测试条件块、循环块、管道过滤器以及与现有组件模板的兼容性
+ * Tests conditional blocks, loop blocks, pipe filters and compatibility with existing component templates
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import TOML from '@iarna/toml';
+import { describe, expect, it } from 'vitest';
+import { BaseWidget } from '../../../src/components/widgets/base-widget.js';
+import type { WidgetConfig } from '../../../src/config/schema.js';
+import type { TerminalCapabilities } from '../../../src/terminal/detector.js';
+import {
+  evaluateTemplate,
+  parseTemplate,
+  TEMPLATE_FILTERS,
+  TemplateError,
+} from '../../../src/utils/template.js';
+
+class TemplateWidget extends BaseWidget {
+  protected async renderContent(): Promise<string | null> {
+    return null;
+  }
+
+  renderText(template: string, data: any): string {
+    return this.renderTemplate(template, data);
+  }
+}
+
+const capabilities = { colors: false, emoji: true, nerdFont: false } as TerminalCapabilities;
+
+function createWidget(): TemplateWidget {
+  return new TemplateWidget(
+    { type: 'static', enabled: true, emoji_icon: '💎', force: true } as WidgetConfig,
+    capabilities
+  );
+}
+
+describe('Template Language', () => {
+  describe('Blocks', () => {
+    it('should render {#if} with {else}', () => {
+      const template = '{#if failed > 0}✗ {failed}{else}✓{/if}';
+
+      expect(evaluateTemplate(template, { failed: 2 })).toBe('✗ 2');
+      expect(evaluateTemplate(template, { failed: 0 })).toBe('✓');
+      expect(evaluateTemplate('{#if items}has{else}empty{/if}', { items: [] })).toBe('empty');
+      console.log('✓ Conditional blocks rendered');
+    });
+
+    it('should iterate arrays with {#each}', () => {
+      const data = { checks: [{ name: 'lint' }, { name: 'test' }], tags: ['a', 'b'] };
+
+      expect(evaluateTemplate('{#each checks}[{index}:{name}]{/each}', data)).toBe(
+        '[0:lint][1:test]'
+      );
+      expect(evaluateTemplate('{#each tags as tag}<{tag}>{/each}', data)).toBe('<a><b>');
+      expect(evaluateTemplate('{#each tags}{this}{/each}', data)).toBe('ab');
+      expect(evaluateTemplate('{#each missing}x{else}none{/each}', data)).toBe('none');
+      expect(evaluateTemplate('{#each tags}x{/each}', { tags: 'ab' })).toBe('');
+      console.log('✓ Loop blocks rendered');
+    });
+
+    it('should nest blocks', () => {
+      const template = '{#each items as item}{#if item.ok}+{else}-{/if}{/each}';
+      const data = { items: [{ ok: true }, { ok: false }, { ok: true }] };
+
+      expect(evaluateTemplate(template, data)).toBe('+-+');
+      console.log('✓ Nested blocks rendered');
+    });
+
+    it('should reject mismatched blocks', () => {
+      expect(() => parseTemplate('{#if a}x')).toThrow(TemplateError);
+      expect(() => parseTemplate('{#if a}x{/each}')).toThrow(TemplateError);
+      expect(() => parseTemplate('x{/if}')).toThrow(TemplateError);
+      expect(() => parseTemplate('{#if a}x{else}y{else}z{/if}')).toThrow(TemplateError);
+      expect(() => parseTemplate('{#if a >}x{/if}')).toThrow(TemplateError);
+      console.log('✓ Mismatched blocks rejected');
+    });
+  });
+
+  describe('Filters', () => {
+    it('should apply text filters', () => {
+      const data = { name: 'feature/long-branch-name', empty: '' };
+
+      expect(evaluateTemplate('{name | upper}', data)).toBe('FEATURE/LONG-BRANCH-NAME');
+      expect(evaluateTemplate('{name | truncate(10)}', data)).toBe('feature/l…');
+      expect(evaluateTemplate('{empty | default("n/a")}', data)).toBe('n/a');
+      expect(evaluateTemplate('{missing | default("n/a") | upper}', data)).toBe('N/A');
+      expect(evaluateTemplate('{name | default("n/a")}', data)).toBe(data.name);
+      console.log('✓ Text filters applied');
+    });
+
+    it('should format bytes and durations', () => {
+      const data = { size: 1536, small: 0, elapsed: 3_723_000, quick: 850, seconds: 90 };
+
+      expect(evaluateTemplate('{size | bytes}', data)).toBe('1.5 KB');
+      expect(evaluateTemplate('{small | bytes}', data)).toBe('0 B');
+      expect(evaluateTemplate('{elapsed | duration}', data)).toBe('1h 2m');
+      expect(evaluateTemplate('{quick | duration}', data)).toBe('850ms');
+      expect(evaluateTemplate('{seconds | duration("s")}', data)).toBe('1m 30s');
+      expect(evaluateTemplate('{name | bytes}', { name: 'n/a' })).toBe('n/a');
+      console.log('✓ Bytes and durations formatted');
+    });
+
+    it('should keep unknown filters as plain placeholders', () => {
+      expect(evaluateTemplate('{a | b}', { a: 1 })).toBe('');
+      expect(evaluateTemplate('{name | constructor}', { name: 'x' })).toBe('');
+      expect(Object.hasOwn(TEMPLATE_FILTERS, 'constructor')).toBe(false);
+      console.log('✓ Unknown filters ignored');
+    });
+  });
+
+  describe('Sandboxing', () => {
+    it('should not reach prototype properties', () => {
+      const data = { name: 'x', items: [1] };
+
+      expect(evaluateTemplate('{name.constructor}', data)).toBe('');
+      expect(evaluateTemplate('{__proto__}', data)).toBe('');
+      expect(evaluateTemplate('{#if name.constructor}leak{else}safe{/if}', data)).toBe('safe');
+      expect(evaluateTemplate('{#each items.constructor}leak{/each}', data)).toBe('');
+      console.log('✓ Prototype properties unreachable');
+    });
+  });
+
+  describe('Widget Templates', () => {
+    it('should combine colors, formats and filters in widgets', () => {
+      const widget = createWidget();
+      const data = { failed: 1, total: 3, cost: 0.5, branch: 'main' };
+
+      expect(
+        widget.renderText('{icon} {#if failed}{red:✗} {failed}/{total}{/if} ¥{cost:.2f}', data)
+      ).toBe('💎 \x1b[31m✗\x1b[0m 1/3 ¥0.50');
+      expect(widget.renderText('{branch | upper}', data)).toBe('MAIN');
+      console.log('✓ Widget templates rendered');
+    });
+
+    it('should keep existing component templates working', () => {
+      const widget = createWidget();
+      const configDir = path.resolve(__dirname, '../../../configs/components');
+      const data = {
+        data: { points: 12345, remainingTime: '3天' },
+        model: 'claude',
+        input_tokens: 10,
+        output_tokens: 20,
+        cache_creation_tokens: 1,
+        cache_read_tokens: 2,
+        cost: 0.1234,
+        daily_remaining: 5,
+        points: 500,
+      };
+
+      let templates = 0;
+      for (const file of fs.readdirSync(configDir).filter((name) => name.endsWith('.toml'))) {
+        const source = fs.readFileSync(path.join(configDir, file), 'utf-8');
+        for (const match of source.matchAll(/^template = ("(?:[^"\\]|\\.)*")/gm)) {
+          const { template } = TOML.parse(`template = ${match[1]}`) as { template: string };
+          expect(() => parseTemplate(template)).not.toThrow();
+          templates++;
+        }
+      }
+
+      expect(templates).toBeGreaterThan(0);
+      expect(
+        widget.renderText('今日余额:¥{daily_remaining:.2f} | 剩余: {data.remainingTime}', data)
+      ).toBe('今日余额:¥5.00 | 剩余: 3天');
+      expect(
+        widget.renderText(
+          '{model} ↗{input_tokens} ↘{output_tokens} :{cache_creation_tokens:.0f} +{cache_read_tokens:.0f} ¥{cost:.4f}',
+          data
+        )
+      ).toBe('claude ↗10 ↘20 :1 +2 ¥0.1234');
+      expect(widget.renderText('{icon} 💎 {points:color(< 1000, red, green)}', data)).toBe(
+        '💎 💎 \x1b[31m500\x1b[0m'
+      );
+      console.log('✓ Existing component templates still render');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * 显示宽度单元测试 | Display width unit tests
+ *
+ * 验证ANSI转义、宽字符、零宽字符以及保留样式的截断
+ * Verifies ANSI escapes, wide and zero-width characters and style-preserving truncation
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getDisplayWidth, stripAnsi, truncateToWidth } from '../../../src/utils/text-width.js';
+
+const RED = '\x1b[31m';
+const RESET = '\x1b[0m';
+
+describe('Text Width', () => {
+  describe('getDisplayWidth', () => {
+    it('should ignore ANSI escape sequences', () => {
+      expect(getDisplayWidth(`${RED}main${RESET}`)).toBe(4);
+      expect(getDisplayWidth('\x1b]8;;https://example.com\x07link\x1b]8;;\x07')).toBe(4);
+      expect(stripAnsi(`${RED}a${RESET}b`)).toBe('ab');
+      console.log('✓ ANSI sequences ignored');
+    });
+
+    it('should count wide and zero-width characters', () => {
+      expect(getDisplayWidth('中文')).toBe(4);
+      expect(getDisplayWidth('ｱｲ')).toBe(2);
+      expect(getDisplayWidth('🚀')).toBe(2);
+      expect(getDisplayWidth('⚠️')).toBe(2);
+      expect(getDisplayWidth('👨‍👩‍👧')).toBe(2);
+      expect(getDisplayWidth('é')).toBe(1);
+      expect(getDisplayWidth('a​b')).toBe(2);
+      console.log('✓ Wide and zero-width characters measured');
+    });
+  });
+
+  describe('truncateToWidth', () => {
+    it('should keep text that already fits', () => {
+      expect(truncateToWidth('main', 4)).toBe('main');
+      console.log('✓ Fitting text unchanged');
+    });
+
+    it('should truncate by display width with an ellipsis', () => {
+      expect(truncateToWidth('feature/long-branch', 8)).toBe('feature…');
+      expect(truncateToWidth('中文分支', 5)).toBe('中文…');
+      expect(truncateToWidth('中文分支', 4)).toBe('中…');
+      expect(truncateToWidth('abc', 2, '...')).toBe('');
+      console.log('✓ Text truncated by display width');
+    });
+
+    it('should keep styles and reset them after truncating', () => {
+      expect(truncateToWidth(`${RED}feature${RESET}/branch`, 5)).toBe(`${RED}feat…${RESET}`);
+      expect(getDisplayWidth(truncateToWidth(`${RED}中文分支${RESET}`, 5))).toBe(5);
+      console.log('✓ Styles kept and reset');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Transcript增量索引单元测试 | Incremental transcript index unit tests
+ *
+ * 验证增量偏移、未完成行、截断和替换检测以及压缩重置
+ * Verifies incremental offsets, pending lines, truncation and replacement detection and compaction resets
+ */
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TranscriptIndex, transcriptIndex } from '../../../src/utils/transcript-index.js';
+
+function assistant(id: string, tokens: number, model = 'claude-sonnet-4'): string {
+  return `${JSON.stringify({
+    type: 'assistant',
+    message: {
+      id,
+      model,
+      stop_reason: 'end_turn',
+      usage: { input_tokens: tokens, output_tokens: 1 },
+      content: [{ type: 'tool_use', id: `tool-${id}`, name: 'Read' }],
+    },
+  })}\n`;
+}
+
+function compactSummary(): string {
+  return `${JSON.stringify({ type: 'user', isCompactSummary: true, message: { content: 'summary' } })}\n`;
+}
+
+describe('Transcript Index', () => {
+  let tempDir: string;
+  let transcriptPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'statusline-transcript-'));
+    transcriptPath = path.join(tempDir, 'session.jsonl');
+  });
+
+  afterEach(() => {
+    transcriptIndex.clear();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should read appended lines incrementally', () => {
+    fs.writeFileSync(transcriptPath, assistant('m1', 100) + assistant('m2', 200));
+    const index = new TranscriptIndex(transcriptPath);
+
+    const first = index.read();
+    expect(first?.entryCount).toBe(2);
+    expect(first?.latestUsage?.totalTokens).toBe(201);
+    expect(first?.size).toBe(fs.statSync(transcriptPath).size);
+
+    fs.appendFileSync(transcriptPath, assistant('m3', 300));
+    const second = index.read();
+    expect(second?.entryCount).toBe(3);
+    expect(second?.latestUsage).toMatchObject({ totalTokens: 301, entryIndex: 2 });
+    expect(second?.recentToolUses.map((tool) => tool.id)).toEqual([
+      'tool-m1',
+      'tool-m2',
+      'tool-m3',
+    ]);
+    console.log('✓ Appended lines read incrementally');
+  });
+
+  it('should keep an incomplete trailing line pending until it is finished', () => {
+    const line = assistant('m2', 200);
+    fs.writeFileSync(transcriptPath, assistant('m1', 100) + line.slice(0, 40));
+    const index = new TranscriptIndex(transcriptPath);
+
+    const partial = index.read();
+    expect(partial?.entryCount).toBe(1);
+    expect(partial?.size).toBe(Buffer.byteLength(assistant('m1', 100)));
+
+    fs.appendFileSync(transcriptPath, line.slice(40));
+    const complete = index.read();
+    expect(complete?.entryCount).toBe(2);
+    expect(complete?.latestUsage?.totalTokens).toBe(201);
+    console.log('✓ Pending line completed on the next read');
+  });
+
+  it('should start over when the file is truncated or replaced', () => {
+    fs.writeFileSync(transcriptPath, assistant('m1', 100) + assistant('m2', 200));
+    const index = new TranscriptIndex(transcriptPath);
+    expect(index.read()?.entryCount).toBe(2);
+
+    fs.writeFileSync(transcriptPath, assistant('m3', 50));
+    const truncated = index.read();
+    expect(truncated?.entryCount).toBe(1);
+    expect(truncated?.usageByModel['claude-sonnet-4']?.input_tokens).toBe(50);
+
+    // 新文件更大但inode不同 | The new file is larger but has a different inode
+    const replacement = path.join(tempDir, 'replacement.jsonl');
+    fs.writeFileSync(replacement, assistant('m4', 10) + assistant('m5', 20) + assistant('m6', 30));
+    fs.renameSync(replacement, transcriptPath);
+    const replaced = index.read();
+    expect(replaced?.entryCount).toBe(3);
+    expect(replaced?.usageByModel['claude-sonnet-4']?.input_tokens).toBe(60);
+    console.log('✓ Truncated and replaced files re-indexed');
+  });
+
+  it('should reset context usage at the latest compaction marker', () => {
+    fs.writeFileSync(
+      transcriptPath,
+      assistant('m1', 100) + compactSummary() + assistant('m2', 200) + compactSummary()
+    );
+    const index = new TranscriptIndex(transcriptPath);
+
+    // 第二次压缩之后还没有新的usage，之前的usage不再属于当前上下文
+    // No usage yet after the second compaction, so earlier usage no longer belongs to the context
+    const compacted = index.read();
+    expect(compacted?.compactBoundary).toBe(3);
+    expect(compacted?.latestUsage).toBeNull();
+    expect(compacted?.usageByModel['claude-sonnet-4']?.input_tokens).toBe(300);
+
+    fs.appendFileSync(transcriptPath, assistant('m3', 50));
+    expect(index.read()?.latestUsage).toMatchObject({ totalTokens: 51, entryIndex: 4 });
+    console.log('✓ Context usage reset at the latest compaction');
+  });
+
+  it('should count messages split across lines once', () => {
+    fs.writeFileSync(
+      transcriptPath,
+      assistant('m1', 100) + assistant('m1', 100) + assistant('m2', 5, 'claude-opus-4')
+    );
+    const snapshot = new TranscriptIndex(transcriptPath).read();
+
+    expect(snapshot?.usageByModel).toEqual({
+      'claude-sonnet-4': {
+        input_tokens: 100,
+        output_tokens: 1,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+      },
+      'claude-opus-4': {
+        input_tokens: 5,
+        output_tokens: 1,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+      },
+    });
+    console.log('✓ Split messages counted once');
+  });
+
+  it('should re-parse from the start when incremental reads are disabled', () => {
+    fs.writeFileSync(transcriptPath, assistant('m1', 100));
+    const index = new TranscriptIndex(transcriptPath);
+    index.read();
+
+    fs.appendFileSync(transcriptPath, assistant('m2', 200));
+    const snapshot = index.read({ incremental: false });
+    expect(snapshot?.entryCount).toBe(2);
+    expect(snapshot?.usageByModel['claude-sonnet-4']?.input_tokens).toBe(300);
+    console.log('✓ Non-incremental read re-parsed the file');
+  });
+
+  it('should return null for missing transcripts', () => {
+    expect(transcriptIndex.read(path.join(tempDir, 'missing.jsonl'))).toBeNull();
+    console.log('✓ Missing transcript returns null');
+  });
+});
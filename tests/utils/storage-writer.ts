@@ -0,0 +1,41 @@
+/**
+ * 并发写入子进程 | Concurrent writer child process
+ *
+ * 用法 | Usage: node --import tsx storage-writer.ts <storagePath> <projectId> <writer> <iterations>
+ * 对共享会话递增写入累计成本，并为每次迭代保存独立会话
+ * Writes increasing cumulative cost to a shared session and saves one own session per iteration
+ */
+
+import { StorageManager } from '../../src/storage/manager.js';
+
+const [storagePath, projectId, writerArg, iterationsArg] = process.argv.slice(2);
+const writer = Number(writerArg);
+const iterations = Number(iterationsArg);
+
+// 屏蔽存储层的调试输出 | Silence storage debug output
+console.error = () => {};
+
+const manager = new StorageManager({ storagePath, autoCleanupDays: 0 }, projectId);
+
+for (let i = 0; i < iterations; i++) {
+  await manager.updateSessionCost({
+    sessionId: 'shared-session',
+    cost: {
+      total_cost_usd: writer * iterations + i,
+      total_lines_added: i,
+      total_lines_removed: 0,
+    },
+  });
+
+  await manager.saveSessionCost({
+    sessionId: `writer-${writer}-${i}`,
+    projectPath: storagePath!,
+    totalCostUsd: 0.01,
+    inputTokens: 0,
+    outputTokens: 0,
+    linesAdded: 0,
+    linesRemoved: 0,
+    startTime: new Date().toISOString(),
+    lastUpdateTime: new Date().toISOString(),
+  });
+}